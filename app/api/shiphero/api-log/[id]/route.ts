@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getShipHeroApiCall } from '@/lib/shiphero/api-log'
+
+// One logged ShipHero call with its redacted request and response
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const entry = await getShipHeroApiCall(id)
+    if (!entry) {
+      return NextResponse.json({ error: 'Call not found' }, { status: 404 })
+    }
+    return NextResponse.json({ entry })
+  } catch (error: any) {
+    console.error('ShipHero API log error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load the call', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { API_LOG_RETENTION_DAYS, pruneShipHeroApiLog } from '@/lib/shiphero/api-log'
+
+// Daily removal of API log rows older than the retention period (scheduled in vercel.json).
+// When CRON_SECRET is set, requests must send it as a bearer token.
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+  if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const deleted = await pruneShipHeroApiLog()
+    return NextResponse.json({ deleted, retention_days: API_LOG_RETENTION_DAYS })
+  } catch (error: any) {
+    console.error('ShipHero API log pruning error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listShipHeroApiCalls, ShipHeroApiCallStatus } from '@/lib/shiphero/api-log'
+
+// Recent ShipHero calls for Settings > API Log, without request and response bodies.
+// Query: ?tour_id=<tour id>&status=success|error, both optional
+export async function GET(request: NextRequest) {
+  const tourId = request.nextUrl.searchParams.get('tour_id')
+  const status = request.nextUrl.searchParams.get('status')
+  if (status && status !== 'success' && status !== 'error') {
+    return NextResponse.json({ error: 'status must be success or error' }, { status: 400 })
+  }
+
+  try {
+    const entries = await listShipHeroApiCalls({ tourId, status: status as ShipHeroApiCallStatus | null })
+    return NextResponse.json({ entries })
+  } catch (error: any) {
+    console.error('ShipHero API log error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load the ShipHero API log', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkSwagItemProduct, createSwagItemProduct } from '@/lib/shiphero/products'
+import { getWarehouseProducts } from '@/lib/shiphero/inventory'
+
+// Products at a ShipHero warehouse with on-hand / allocated / available quantities.
+// Query: ?warehouse_id=<ShipHero warehouse id>; truncated is true when the list was cut short
+export async function GET(request: NextRequest) {
+  const warehouseId = request.nextUrl.searchParams.get('warehouse_id')
+  if (!warehouseId) {
+    return NextResponse.json({ error: 'warehouse_id is required' }, { status: 400 })
+  }
+
+  try {
+    const { products, truncated } = await getWarehouseProducts(warehouseId)
+    return NextResponse.json({ products, truncated })
+  } catch (error: any) {
+    console.error('ShipHero products API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load ShipHero products', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Body: { action: 'check' | 'create', swag_item_id }
+// check looks the swag item's SKU up in ShipHero; create adds the product from the swag item
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  if (!['check', 'create'].includes(body.action) || !body.swag_item_id) {
+    return NextResponse.json({ error: 'action (check or create) and swag_item_id are required' }, { status: 400 })
+  }
+
+  try {
+    const result = body.action === 'create'
+      ? await createSwagItemProduct(body.swag_item_id)
+      : await checkSwagItemProduct(body.swag_item_id)
+    return NextResponse.json({ result })
+  } catch (error: any) {
+    console.error('ShipHero product sync error:', error)
+    return NextResponse.json(
+      { error: body.action === 'create' ? 'Failed to create ShipHero product' : 'Failed to check ShipHero product', details: error.message },
+      { status: 500 }
+    )
+  }
+}
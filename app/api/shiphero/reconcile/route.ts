@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { reconcileFinalizedTours } from '@/lib/shiphero/reconciliation'
+
+// One run pages through every recent finalized tour
+export const maxDuration = 300
+
+// Periodic reconciliation of recent finalized tours (scheduled in vercel.json).
+// When CRON_SECRET is set, requests must send it as a bearer token.
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+  if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { reconciled, errors } = await reconcileFinalizedTours()
+    return NextResponse.json({
+      tours: reconciled.length,
+      drift: reconciled.reduce((total, tour) => total + tour.drift.length, 0),
+      errors
+    })
+  } catch (error: any) {
+    console.error('ShipHero reconciliation error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
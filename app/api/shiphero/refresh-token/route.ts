@@ -1,47 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  getShipHeroTokenStatus,
+  refreshShipHeroAccessToken,
+  saveShipHeroRefreshToken,
+} from '@/lib/shiphero/token-store';
 
+// Report whether ShipHero credentials are stored and when the access token expires
+export async function GET() {
+  try {
+    const status = await getShipHeroTokenStatus();
+    return NextResponse.json(status);
+  } catch (error: any) {
+    console.error('Error reading ShipHero token status:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Store a new refresh token, or force a refresh of the stored one when none is given.
+// Tokens are kept server-side; the response only carries the expiry status.
 export async function POST(request: NextRequest) {
   console.log('ShipHero refresh token API route called');
-  
+
   try {
-    const { refresh_token } = await request.json();
-    
-    if (!refresh_token) {
-      return NextResponse.json({ error: 'Refresh token required' }, { status: 400 });
-    }
-    
-    console.log('Refreshing token with ShipHero...');
-    
-    // Use the correct refresh endpoint from the documentation
-    const response = await fetch('https://public-api.shiphero.com/auth/refresh', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ refresh_token }),
-    });
-    
-    console.log('ShipHero refresh response status:', response.status);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('ShipHero refresh error:', errorText);
-      return NextResponse.json(
-        { error: 'Failed to refresh token', details: errorText },
-        { status: response.status }
-      );
+    const body = await request.json().catch(() => ({}));
+    const refreshToken = typeof body.refresh_token === 'string' ? body.refresh_token.trim() : '';
+
+    if (refreshToken) {
+      console.log('Storing new ShipHero refresh token...');
+      const status = await saveShipHeroRefreshToken(refreshToken);
+      return NextResponse.json(status);
     }
-    
-    const data = await response.json();
+
+    console.log('Refreshing stored ShipHero token...');
+    await refreshShipHeroAccessToken();
     console.log('Token refresh successful');
-    
-    return NextResponse.json(data);
-    
+
+    const status = await getShipHeroTokenStatus();
+    return NextResponse.json(status);
+
   } catch (error: any) {
     console.error('Error refreshing token:', error);
     return NextResponse.json(
-      { error: 'Internal server error', details: error.message },
-      { status: 500 }
+      { error: 'Failed to refresh token', details: error.message },
+      { status: 502 }
     );
   }
 }
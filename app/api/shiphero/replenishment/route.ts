@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  createReplenishmentPurchaseOrders,
+  forecastSwagDemand,
+  DEFAULT_FORECAST_WEEKS,
+  MAX_FORECAST_WEEKS,
+} from '@/lib/shiphero/replenishment'
+import { replenishmentRequestSchema } from '@/lib/shiphero/schemas'
+
+// Swag demand of scheduled tours over the next N weeks vs. ShipHero stock.
+// Query: ?weeks=<1-26>, default 4
+export async function GET(request: NextRequest) {
+  const weeks = Number(request.nextUrl.searchParams.get('weeks') || DEFAULT_FORECAST_WEEKS)
+  if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_FORECAST_WEEKS) {
+    return NextResponse.json({ error: `weeks must be a whole number from 1 to ${MAX_FORECAST_WEEKS}` }, { status: 400 })
+  }
+
+  try {
+    const forecast = await forecastSwagDemand(weeks)
+    return NextResponse.json(forecast)
+  } catch (error: any) {
+    console.error('Demand forecast error:', error)
+    return NextResponse.json(
+      { error: 'Failed to forecast swag demand', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Create the suggested replenishment POs, one per warehouse.
+// Body: { orders: [{ warehouse_id, weeks, line_items: [{ sku, quantity }] }] }, see replenishmentRequestSchema
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const parsed = replenishmentRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid replenishment request', details: parsed.error.flatten() },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const results = await createReplenishmentPurchaseOrders(parsed.data.orders)
+    return NextResponse.json({ results })
+  } catch (error: any) {
+    console.error('Replenishment order error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create replenishment purchase orders', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkStock } from '@/lib/shiphero/stock-check'
+import { stockCheckRequestSchema } from '@/lib/shiphero/schemas'
+
+// Stock check for a tour that is not scheduled yet (the schedule form).
+// Body: { warehouse_id, kit: [{ sku, quantity }], participant_count, selected_workflows,
+//         workflow_configs, po_extra_quantities }, see stockCheckRequestSchema
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const parsed = stockCheckRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid stock check request', details: parsed.error.flatten() },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const result = await checkStock({
+      warehouseId: parsed.data.warehouse_id,
+      kit: parsed.data.kit,
+      participantCount: parsed.data.participant_count,
+      selectedWorkflows: parsed.data.selected_workflows,
+      workflowConfigs: parsed.data.workflow_configs,
+      poExtraQuantities: parsed.data.po_extra_quantities
+    })
+    return NextResponse.json(result)
+  } catch (error: any) {
+    console.error('Stock check error:', error)
+    return NextResponse.json(
+      { error: 'Failed to check stock', details: error.message },
+      { status: 500 }
+    )
+  }
+}
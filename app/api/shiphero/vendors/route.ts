@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createShipHeroVendor, getVendorList, linkShipHeroVendor } from '@/lib/shiphero/vendors'
+import { vendorRequestSchema } from '@/lib/shiphero/schemas'
+
+// The account's ShipHero vendors with whether each is linked, the default, and used by swag items;
+// truncated is true when the list was cut short
+export async function GET() {
+  try {
+    const { vendors, truncated } = await getVendorList()
+    return NextResponse.json({ vendors, truncated })
+  } catch (error: any) {
+    console.error('Vendor list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load ShipHero vendors', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Body: { action: 'create', name, email, account_number? } or { action: 'link', shiphero_vendor_id },
+// see vendorRequestSchema
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const parsed = vendorRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid vendor request', details: parsed.error.flatten() },
+      { status: 400 }
+    )
+  }
+
+  const vendorRequest = parsed.data
+  try {
+    const vendor = vendorRequest.action === 'create'
+      ? await createShipHeroVendor(vendorRequest)
+      : await linkShipHeroVendor(vendorRequest.shiphero_vendor_id)
+    return NextResponse.json({ vendor })
+  } catch (error: any) {
+    console.error('Vendor error:', error)
+    return NextResponse.json(
+      { error: vendorRequest.action === 'create' ? 'Failed to create vendor' : 'Failed to link vendor', details: error.message },
+      { status: 500 }
+    )
+  }
+}
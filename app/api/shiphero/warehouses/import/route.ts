@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyWarehouseImportAction, getWarehouseImportList } from '@/lib/shiphero/warehouse-sync'
+
+// The account's ShipHero warehouses with their link to local warehouses and any address drift
+export async function GET() {
+  try {
+    const warehouses = await getWarehouseImportList()
+    return NextResponse.json({ warehouses })
+  } catch (error: any) {
+    console.error('Warehouse import list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load ShipHero warehouses', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Body: { action: 'create' | 'link' | 'apply_address' | 'acknowledge', shiphero_warehouse_id, warehouse_id?, code? }
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  if (!['create', 'link', 'apply_address', 'acknowledge'].includes(body.action) || !body.shiphero_warehouse_id) {
+    return NextResponse.json({ error: 'action and shiphero_warehouse_id are required' }, { status: 400 })
+  }
+  if (body.action === 'link' && !body.warehouse_id) {
+    return NextResponse.json({ error: 'warehouse_id is required to link a warehouse' }, { status: 400 })
+  }
+
+  try {
+    await applyWarehouseImportAction(body)
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Warehouse import error:', error)
+    return NextResponse.json(
+      { error: 'Failed to import warehouse', details: error.message },
+      { status: 500 }
+    )
+  }
+}
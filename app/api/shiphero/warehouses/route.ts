@@ -1,81 +1,21 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import { ACCOUNT_WAREHOUSES_QUERY } from '@/lib/shiphero/operations'
+import { sendShipHeroRequest } from '@/lib/shiphero/request-pipeline'
 
-export async function GET(request: NextRequest) {
+export async function GET() {
   try {
-    console.log('ShipHero warehouses API route called')
-    const accessToken = request.headers.get('authorization')?.replace('Bearer ', '')
-    console.log('Access token received:', accessToken ? 'Present' : 'Missing')
-    
-    if (!accessToken) {
-      console.log('No access token provided')
-      return NextResponse.json({ error: 'Access token required' }, { status: 401 })
-    }
-
-    // Use the correct GraphQL query structure from the documentation
-    const query = `
-      query {
-        account {
-          request_id
-          complexity
-          data {
-            warehouses {
-              id
-              legacy_id
-              identifier
-              account_id
-              address {
-                name
-                address1
-                address2
-                city
-                state
-                country
-                zip
-                phone
-              }
-              dynamic_slotting
-              invoice_email
-              phone_number
-              profile
-            }
-          }
-        }
-      }
-    `
-
-    const requestBody = { query }
-    console.log('Sending request to ShipHero:', {
-      url: 'https://public-api.shiphero.com/graphql',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${accessToken.substring(0, 10)}...`
-      },
-      body: requestBody
-    })
-
-    const response = await fetch('https://public-api.shiphero.com/graphql', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${accessToken}`
-      },
-      body: JSON.stringify(requestBody)
-    })
-
-    console.log('ShipHero response status:', response.status)
-    console.log('ShipHero response headers:', Object.fromEntries(response.headers.entries()))
+    // The request and response are recorded in shiphero_api_log
+    const response = await sendShipHeroRequest(ACCOUNT_WAREHOUSES_QUERY)
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.log('ShipHero error response:', errorText)
+    if (!response.ok || !response.body) {
+      console.log('ShipHero warehouses error:', response.status, response.statusText)
       return NextResponse.json(
-        { error: `ShipHero API error: ${response.status} ${response.statusText}`, details: errorText },
-        { status: response.status }
+        { error: `ShipHero API error: ${response.status} ${response.statusText}`, details: response.text },
+        { status: response.ok ? 502 : response.status }
       )
     }
 
-    const data = await response.json()
-    return NextResponse.json(data)
+    return NextResponse.json(response.body)
 
   } catch (error: any) {
     console.error('ShipHero warehouses API error:', error)
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { handleShipHeroWebhook, verifyShipHeroWebhookSignature } from '@/lib/shiphero/webhooks'
+
+// Receives ShipHero webhooks (Shipment Update, Order Canceled, PO Update).
+// ShipHero expects { code: "200", Status: "Success" } within 10 seconds and retries otherwise.
+export async function POST(request: NextRequest) {
+  try {
+    const rawBody = await request.text()
+    const signature = request.headers.get('x-shiphero-hmac-sha256') || request.headers.get('x-shiphero-signature')
+
+    if (!verifyShipHeroWebhookSignature(rawBody, signature)) {
+      console.error('ShipHero webhook rejected: invalid signature')
+      return NextResponse.json({ code: '401', Status: 'Invalid signature' }, { status: 401 })
+    }
+
+    // A payload that is not JSON will never succeed, so answer 400 rather than have ShipHero retry it
+    let payload: any
+    try {
+      payload = JSON.parse(rawBody)
+    } catch {
+      console.error('ShipHero webhook rejected: payload is not valid JSON')
+      return NextResponse.json({ code: '400', Status: 'Invalid payload' }, { status: 400 })
+    }
+
+    const result = await handleShipHeroWebhook(payload)
+
+    console.log(`ShipHero webhook processed: ${result.webhookType} (${result.matches.length} matching tour orders)`)
+    return NextResponse.json({ code: '200', Status: 'Success' })
+
+  } catch (error: any) {
+    console.error('ShipHero webhook error:', error)
+    return NextResponse.json(
+      { code: '500', Status: 'Error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
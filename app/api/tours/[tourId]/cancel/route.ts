@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { cancelTour, getTourCancellations } from '@/lib/shiphero/tour-cancellation'
+
+// Cancelling may first wait up to a minute for a running finalization to stop
+export const maxDuration = 120
+
+// Recorded outcome of cancelling each of the tour's ShipHero orders
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tourId: string }> }
+) {
+  try {
+    const { tourId } = await params
+    const cancellations = await getTourCancellations(tourId)
+    return NextResponse.json({ cancellations })
+  } catch (error: any) {
+    console.error('Tour cancellation status error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Cancel the tour and its ShipHero orders; calling again retries failed cancellations.
+// save_errors lists what could not be recorded, a partial failure even when every order was cancelled
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tourId: string }> }
+) {
+  try {
+    const { tourId } = await params
+    const result = await cancelTour(tourId)
+    if (result.save_errors.length > 0) {
+      console.error(`Cancelled tour ${tourId} but failed to save:`, result.save_errors)
+    }
+    return NextResponse.json(result)
+  } catch (error: any) {
+    console.error('Tour cancellation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel tour', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getLatestFinalizationJob, runFinalizationJob, FinalizationEvent } from '@/lib/shiphero/finalization-job'
+
+// A large tour creates one ShipHero order per step; give the run as long as the platform allows.
+// If it is cut off anyway, the client sees no `done` event and a retry resumes the job.
+export const maxDuration = 300
+
+// Latest finalization job for the tour with its per-order steps
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tourId: string }> }
+) {
+  try {
+    const { tourId } = await params
+    const job = await getLatestFinalizationJob(tourId)
+    return NextResponse.json({ job })
+  } catch (error: any) {
+    console.error('Finalization status error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Start or resume finalization; progress is streamed back as server-sent events.
+// Body: { rollback_on_failure?: boolean } to cancel this run's orders if it aborts.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tourId: string }> }
+) {
+  const { tourId } = await params
+  const body = await request.json().catch(() => ({}))
+  const rollbackOnFailure = body.rollback_on_failure === true
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let open = true
+      const emit = (event: FinalizationEvent) => {
+        if (!open) return
+        try {
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`))
+        } catch {
+          // Client disconnected; the job keeps running and can be inspected via GET
+          open = false
+        }
+      }
+
+      try {
+        await runFinalizationJob(tourId, emit, { rollbackOnFailure })
+      } catch (error: any) {
+        console.error('Tour finalization error:', error)
+        emit({ type: 'error', error: error.message || String(error) })
+      } finally {
+        open = false
+        try {
+          controller.close()
+        } catch {
+          // Client already disconnected
+        }
+      }
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  })
+}
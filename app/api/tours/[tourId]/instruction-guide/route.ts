@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { generateInstructionGuide, saveInstructionGuide } from '@/lib/shiphero/instruction-guide'
+
+// (Re)generate the host instruction guide from the tour's current orders
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tourId: string }> }
+) {
+  try {
+    const { tourId } = await params
+    const guide = await generateInstructionGuide(tourId)
+    return NextResponse.json(guide)
+  } catch (error: any) {
+    console.error('Instruction guide generation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate instruction guide', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Save the host's edits to the guide
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ tourId: string }> }
+) {
+  try {
+    const { tourId } = await params
+    const body = await request.json().catch(() => ({}))
+
+    if (typeof body.instruction_guide !== 'string') {
+      return NextResponse.json(
+        { error: 'instruction_guide must be a string' },
+        { status: 400 }
+      )
+    }
+
+    await saveInstructionGuide(tourId, body.instruction_guide)
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Instruction guide save error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save instruction guide', details: error.message },
+      { status: 500 }
+    )
+  }
+}
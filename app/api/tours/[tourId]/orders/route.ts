@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ShipHeroOrderService } from '@/lib/shiphero/order-service'
+
+// Manually (re)create a tour's sales orders or purchase order outside of a finalization job
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tourId: string }> }
+) {
+  try {
+    const { tourId } = await params
+    const { type } = await request.json()
+    const service = new ShipHeroOrderService()
+
+    if (type === 'sales_orders') {
+      const result = await service.createSalesOrdersForTour(tourId)
+      return NextResponse.json(result)
+    }
+
+    if (type === 'purchase_order') {
+      const result = await service.createPurchaseOrderForTour(tourId)
+      return NextResponse.json(result)
+    }
+
+    return NextResponse.json({ error: 'Invalid order type' }, { status: 400 })
+  } catch (error: any) {
+    console.error('Tour orders API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { reconcileTour } from '@/lib/shiphero/reconciliation'
+
+// On-demand "Sync status": refresh the tour's order status from ShipHero and report drift
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tourId: string }> }
+) {
+  try {
+    const { tourId } = await params
+    const result = await reconcileTour(tourId)
+    return NextResponse.json(result)
+  } catch (error: any) {
+    console.error('Tour reconciliation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to sync order status', details: error.message },
+      { status: 500 }
+    )
+  }
+}
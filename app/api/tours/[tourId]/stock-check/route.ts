@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkTourStock } from '@/lib/shiphero/stock-check'
+
+// Check the tour's swag against ShipHero stock before finalizing
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tourId: string }> }
+) {
+  try {
+    const { tourId } = await params
+    const result = await checkTourStock(tourId)
+    return NextResponse.json(result)
+  } catch (error: any) {
+    console.error('Tour stock check error:', error)
+    return NextResponse.json(
+      { error: 'Failed to check stock', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -4,6 +4,7 @@ import { useState } from "react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { ScheduleTourPage } from "@/components/schedule-tour-page"
 import { ViewToursPage } from "@/components/view-tours-page"
+import { PlanningPage } from "@/components/planning-page"
 import { SettingsPage } from "@/components/settings-page"
 
 export function NavigationTabs() {
@@ -11,9 +12,10 @@ export function NavigationTabs() {
 
   return (
     <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-      <TabsList className="grid w-full grid-cols-3">
+      <TabsList className="grid w-full grid-cols-4">
         <TabsTrigger value="schedule">Schedule Tour</TabsTrigger>
         <TabsTrigger value="view">View Tours</TabsTrigger>
+        <TabsTrigger value="planning">Planning</TabsTrigger>
         <TabsTrigger value="settings">Settings</TabsTrigger>
       </TabsList>
 
@@ -25,6 +27,10 @@ export function NavigationTabs() {
         <ViewToursPage />
       </TabsContent>
 
+      <TabsContent value="planning" className="mt-6">
+        <PlanningPage />
+      </TabsContent>
+
       <TabsContent value="settings" className="mt-6">
         <SettingsPage />
       </TabsContent>
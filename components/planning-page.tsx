@@ -0,0 +1,338 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertTriangle, CalendarRange, MapPin, RefreshCw, ShoppingCart } from "lucide-react"
+import { createClient } from "@/lib/supabase/client"
+import { useToast } from "@/hooks/use-toast"
+import { createReplenishmentOrders, fetchDemandForecast } from "@/lib/shiphero/inventory-client"
+import { formatTourReference } from "@/lib/shiphero/naming-utils"
+import type { DemandForecast, ReplenishmentOrderResult } from "@/lib/shiphero/replenishment"
+
+// Up to the API's limit of 26 weeks
+const FORECAST_WEEK_OPTIONS = [1, 2, 4, 8, 12, 26]
+
+interface ReplenishmentOrder {
+  id: string
+  number: number
+  status: string
+  po_number: string | null
+  po_url: string | null
+  error: string | null
+  line_items: Array<{ sku: string; quantity: number }>
+  created_at: string
+  warehouse: { name: string } | null
+}
+
+export function PlanningPage() {
+  const [weeks, setWeeks] = useState(4)
+  const [forecast, setForecast] = useState<DemandForecast | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  // Units to order per warehouse and SKU, starting from the suggestion
+  const [orderQuantities, setOrderQuantities] = useState<Record<string, Record<string, number>>>({})
+  const [isCreating, setIsCreating] = useState(false)
+  const [results, setResults] = useState<ReplenishmentOrderResult[]>([])
+  const [recentOrders, setRecentOrders] = useState<ReplenishmentOrder[]>([])
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchForecast()
+  }, [weeks])
+
+  useEffect(() => {
+    fetchRecentOrders()
+  }, [])
+
+  const fetchForecast = async () => {
+    setIsLoading(true)
+    try {
+      const result = await fetchDemandForecast(weeks)
+      setForecast(result)
+      setOrderQuantities(Object.fromEntries(
+        result.warehouses.map((warehouse) => [
+          warehouse.warehouse_id,
+          Object.fromEntries(warehouse.lines.map((line) => [line.sku, line.suggested])),
+        ])
+      ))
+    } catch (error: any) {
+      console.error("Error loading demand forecast:", error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to forecast swag demand",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const fetchRecentOrders = async () => {
+    const { data, error } = await createClient()
+      .from("replenishment_purchase_orders")
+      .select("id, number, status, po_number, po_url, error, line_items, created_at, warehouse:warehouses(name)")
+      .order("created_at", { ascending: false })
+      .limit(10)
+
+    if (error) {
+      console.error("Error loading replenishment orders:", error)
+      return
+    }
+    setRecentOrders((data || []).map((order: any) => ({
+      ...order,
+      warehouse: Array.isArray(order.warehouse) ? order.warehouse[0] : order.warehouse,
+    })))
+  }
+
+  const plannedOrders = (forecast?.warehouses || [])
+    .filter((warehouse) => !warehouse.error)
+    .map((warehouse) => ({
+      warehouse_id: warehouse.warehouse_id,
+      weeks,
+      line_items: Object.entries(orderQuantities[warehouse.warehouse_id] || {})
+        .filter(([, quantity]) => quantity > 0)
+        .map(([sku, quantity]) => ({ sku, quantity })),
+    }))
+    .filter((order) => order.line_items.length > 0)
+
+  const handleCreateOrders = async () => {
+    if (plannedOrders.length === 0) return
+    if (!confirm(`Create ${plannedOrders.length} replenishment purchase order${plannedOrders.length === 1 ? "" : "s"} in ShipHero?`)) return
+
+    setIsCreating(true)
+    try {
+      const created = await createReplenishmentOrders(plannedOrders)
+      setResults(created)
+
+      const failed = created.filter((result) => result.status === "failed")
+      toast({
+        title: failed.length > 0 ? "Some Purchase Orders Failed" : "Purchase Orders Created",
+        description: `${created.length - failed.length} created, ${failed.length} failed`,
+        variant: failed.length > 0 ? "destructive" : "default",
+      })
+      // Created POs now count as on order, so the suggestions shrink
+      fetchForecast()
+      fetchRecentOrders()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create replenishment purchase orders",
+        variant: "destructive",
+      })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const warehouseName = (warehouseId: string) =>
+    forecast?.warehouses.find((warehouse) => warehouse.warehouse_id === warehouseId)?.name || warehouseId
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarRange className="h-5 w-5" />
+            Swag Planning
+          </CardTitle>
+          <CardDescription>
+            Swag needed by every scheduled tour in the window (kit for each participant and the host, plus workflow orders),
+            compared with ShipHero available stock and open replenishment POs at each warehouse
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">Next</span>
+            <Select value={String(weeks)} onValueChange={(value) => setWeeks(Number(value))}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORECAST_WEEK_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option} week{option === 1 ? "" : "s"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {forecast && (
+              <span className="text-sm text-muted-foreground">
+                {forecast.from} to {forecast.to}
+              </span>
+            )}
+            <Button variant="outline" size="sm" onClick={fetchForecast} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            <Button
+              className="ml-auto"
+              onClick={handleCreateOrders}
+              disabled={isCreating || isLoading || plannedOrders.length === 0}
+            >
+              <ShoppingCart className="h-4 w-4 mr-2" />
+              {isCreating
+                ? "Creating..."
+                : `Create ${plannedOrders.length} Purchase Order${plannedOrders.length === 1 ? "" : "s"}`}
+            </Button>
+          </div>
+
+          {results.length > 0 && (
+            <div className="space-y-1">
+              {results.map((result) => (
+                <div key={result.warehouse_id} className="flex items-center justify-between text-sm p-2 bg-muted/30 rounded">
+                  <span>{warehouseName(result.warehouse_id)}</span>
+                  {result.status === "created" ? (
+                    <a href={result.po_url || "#"} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline font-mono">
+                      {result.po_number}
+                    </a>
+                  ) : (
+                    <span className="text-red-600">{result.error}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isLoading && !forecast ? (
+        <div>Loading forecast...</div>
+      ) : forecast && forecast.warehouses.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No scheduled tours in the next {weeks} week{weeks === 1 ? "" : "s"}.
+          </CardContent>
+        </Card>
+      ) : (
+        forecast?.warehouses.map((warehouse) => (
+          <Card key={warehouse.warehouse_id}>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <MapPin className="h-4 w-4" />
+                {warehouse.name}
+                {warehouse.code && <Badge variant="outline">{warehouse.code}</Badge>}
+              </CardTitle>
+              <CardDescription>
+                {warehouse.tours.length} tour{warehouse.tours.length === 1 ? "" : "s"}:{" "}
+                {warehouse.tours
+                  .map((tour) => `${formatTourReference(tour.tour_numeric_id)} (${tour.date}, ${tour.participant_count} participants)`)
+                  .join(", ")}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {warehouse.error && (
+                <div className="flex items-center gap-2 p-2 text-sm bg-red-50 border border-red-200 rounded text-red-800">
+                  <AlertTriangle className="h-4 w-4" />
+                  Stock unavailable: {warehouse.error}
+                </div>
+              )}
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Tours</TableHead>
+                      <TableHead className="text-right">Demand</TableHead>
+                      <TableHead className="text-right">Available</TableHead>
+                      <TableHead className="text-right">On Order</TableHead>
+                      <TableHead className="text-right">Suggested</TableHead>
+                      <TableHead className="w-28">Order</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {warehouse.lines.map((line) => (
+                      <TableRow key={line.sku}>
+                        <TableCell>
+                          <div className="font-medium">{line.name}</div>
+                          <div className="text-xs text-muted-foreground font-mono">{line.sku}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{line.tour_count}</TableCell>
+                        <TableCell className="text-right">{line.demand}</TableCell>
+                        <TableCell className="text-right">{warehouse.error ? "-" : line.available}</TableCell>
+                        <TableCell className="text-right">{line.on_order || "-"}</TableCell>
+                        <TableCell className={`text-right ${line.suggested > 0 ? "font-medium text-red-700" : ""}`}>
+                          {line.suggested || "-"}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            className="w-24 h-8"
+                            aria-label={`Units of ${line.sku} to order`}
+                            disabled={!!warehouse.error}
+                            value={orderQuantities[warehouse.warehouse_id]?.[line.sku] ?? 0}
+                            onChange={(e) => setOrderQuantities({
+                              ...orderQuantities,
+                              [warehouse.warehouse_id]: {
+                                ...orderQuantities[warehouse.warehouse_id],
+                                [line.sku]: Math.max(0, parseInt(e.target.value) || 0),
+                              },
+                            })}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      {recentOrders.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Recent Replenishment Orders</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead>PO</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recentOrders.map((order) => (
+                  <TableRow key={order.id}>
+                    <TableCell>{new Date(order.created_at).toLocaleString()}</TableCell>
+                    <TableCell>{order.warehouse?.name || "-"}</TableCell>
+                    <TableCell>
+                      {order.po_url ? (
+                        <a href={order.po_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline font-mono">
+                          {order.po_number}
+                        </a>
+                      ) : (
+                        "-"
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {order.line_items.map((item) => `${item.quantity} x ${item.sku}`).join(", ")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={order.status === "created" ? "default" : order.status === "failed" ? "destructive" : "secondary"}
+                        className="capitalize"
+                        title={order.error || undefined}
+                      >
+                        {order.status}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -11,9 +11,26 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Separator } from "@/components/ui/separator"
 import { Badge } from "@/components/ui/badge"
-import { Plus, X, Calendar, MapPin, Users, Package, Gift } from "lucide-react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Plus, X, Calendar, MapPin, Users, Package, Gift, Workflow, RefreshCw, ClipboardCheck } from "lucide-react"
 import { createClient } from "@/lib/supabase/client"
 import { useToast } from "@/hooks/use-toast"
+import { StockCheckTable } from "@/components/stock-check-table"
+import { checkScheduleStock, fetchWarehouseProducts } from "@/lib/shiphero/inventory-client"
+import type { WarehouseProduct } from "@/lib/shiphero/inventory"
+import type { StockCheckResult } from "@/lib/shiphero/stock-check"
+import {
+  WORKFLOWS,
+  MAX_WORKFLOW_ORDER_COUNT,
+  defaultWorkflowConfig,
+  planWorkflowOrders,
+  requiredWorkflowRecipients,
+  validateWorkflowConfigs,
+  WorkflowConfig,
+  WorkflowConfigs,
+  WorkflowId,
+} from "@/lib/shiphero/workflows"
+import { formatTourReference } from "@/lib/shiphero/naming-utils"
 // Removed swag allocation imports - swag items will be added manually, not allocated automatically
 
 interface Warehouse {
@@ -26,6 +43,7 @@ interface Warehouse {
   state?: string
   zip?: string
   country?: string
+  shiphero_warehouse_id?: string
 }
 
 interface Participant {
@@ -37,6 +55,12 @@ interface Participant {
   title: string
 }
 
+interface SwagItem {
+  id: string
+  name: string
+  sku: string
+}
+
 interface SwagPreview {
   name: string
   totalAvailable: number
@@ -50,6 +74,23 @@ export function ScheduleTourPage() {
   const [hosts, setHosts] = useState<any[]>([])
   const [participants, setParticipants] = useState<Participant[]>([])
   const [swagPreview, setSwagPreview] = useState<SwagPreview[]>([])
+  const [swagItems, setSwagItems] = useState<SwagItem[]>([])
+  const [selectedWorkflows, setSelectedWorkflows] = useState<WorkflowId[]>([])
+  const [workflowConfigs, setWorkflowConfigs] = useState<WorkflowConfigs>({})
+  const [extrasCount, setExtrasCount] = useState(0)
+  // Swag kit picked from live ShipHero inventory at the tour's warehouse
+  const [products, setProducts] = useState<WarehouseProduct[]>([])
+  const [isLoadingProducts, setIsLoadingProducts] = useState(false)
+  const [productsError, setProductsError] = useState<string | null>(null)
+  const [productsTruncated, setProductsTruncated] = useState(false)
+  const [productFilter, setProductFilter] = useState("")
+  const [kitSkus, setKitSkus] = useState<string[]>([])
+  const [kitQuantities, setKitQuantities] = useState<Record<string, number>>({})
+  // Stock check for the current kit, workflows and participant count; cleared when any of them change
+  const [stockCheck, setStockCheck] = useState<StockCheckResult | null>(null)
+  const [isCheckingStock, setIsCheckingStock] = useState(false)
+  const [raiseShortfallOnPO, setRaiseShortfallOnPO] = useState(false)
+  const [scheduleDespiteShortfall, setScheduleDespiteShortfall] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [formData, setFormData] = useState({
     warehouse_id: "",
@@ -64,11 +105,25 @@ export function ScheduleTourPage() {
   useEffect(() => {
     fetchWarehouses()
     fetchHosts()
+    fetchSwagItems()
+    fetchExtrasCount()
   }, [])
 
+  useEffect(() => {
+    setKitSkus([])
+    setKitQuantities({})
+    fetchProducts()
+  }, [formData.warehouse_id])
+
+  useEffect(() => {
+    setStockCheck(null)
+    setRaiseShortfallOnPO(false)
+    setScheduleDespiteShortfall(false)
+  }, [formData.warehouse_id, kitSkus, kitQuantities, participants.length, selectedWorkflows, workflowConfigs])
+
   const fetchWarehouses = async () => {
     try {
-      const { data, error } = await supabase.from("warehouses").select("id, name, code, address, address2, city, state, zip, country").order("name")
+      const { data, error } = await supabase.from("warehouses").select("id, name, code, address, address2, city, state, zip, country, shiphero_warehouse_id").order("name")
 
       if (error) throw error
       setWarehouses(data || [])
@@ -96,6 +151,121 @@ export function ScheduleTourPage() {
     }
   }
 
+  const fetchSwagItems = async () => {
+    try {
+      const { data, error } = await supabase.from("swag_items").select("id, name, sku").order("name")
+
+      if (error) throw error
+      setSwagItems((data || []).filter((item) => item.sku))
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch swag items",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const fetchProducts = async () => {
+    const warehouse = warehouses.find((w) => w.id === formData.warehouse_id)
+    setProducts([])
+    setProductsError(null)
+    setProductsTruncated(false)
+    if (!warehouse) return
+    if (!warehouse.shiphero_warehouse_id) {
+      setProductsError("This warehouse has no ShipHero warehouse ID. Set it in Settings > Warehouses.")
+      return
+    }
+
+    setIsLoadingProducts(true)
+    try {
+      const result = await fetchWarehouseProducts(warehouse.shiphero_warehouse_id)
+      setProducts(result.products)
+      setProductsTruncated(result.truncated)
+    } catch (error: any) {
+      console.error("Failed to load ShipHero products:", error)
+      setProductsError(error.message || "Failed to load ShipHero products")
+    } finally {
+      setIsLoadingProducts(false)
+    }
+  }
+
+  const toggleKitSku = (sku: string, checked: boolean) => {
+    if (checked) {
+      setKitSkus([...kitSkus, sku])
+      setKitQuantities({ ...kitQuantities, [sku]: 1 })
+    } else {
+      const { [sku]: _removed, ...otherQuantities } = kitQuantities
+      setKitSkus(kitSkus.filter((s) => s !== sku))
+      setKitQuantities(otherQuantities)
+    }
+  }
+
+  const runStockCheck = async (): Promise<StockCheckResult | null> => {
+    if (!formData.warehouse_id) return null
+
+    setIsCheckingStock(true)
+    try {
+      const result = await checkScheduleStock({
+        warehouse_id: formData.warehouse_id,
+        kit: kitSkus.map((sku) => ({ sku, quantity: kitQuantities[sku] || 0 })),
+        participant_count: participants.length,
+        selected_workflows: selectedWorkflows,
+        workflow_configs: Object.fromEntries(
+          selectedWorkflows.map((id) => [id, workflowConfigs[id] || defaultWorkflowConfig()])
+        ),
+      })
+      setStockCheck(result)
+      return result
+    } catch (error: any) {
+      console.error("Stock check failed:", error)
+      toast({
+        title: "Stock Check Failed",
+        description: error.message || "Failed to check stock in ShipHero",
+        variant: "destructive",
+      })
+      return null
+    } finally {
+      setIsCheckingStock(false)
+    }
+  }
+
+  const fetchExtrasCount = async () => {
+    try {
+      const { count, error } = await supabase.from("extras").select("id", { count: "exact", head: true })
+
+      if (error) throw error
+      setExtrasCount(count || 0)
+    } catch (error) {
+      console.error("Failed to count extras:", error)
+    }
+  }
+
+  const toggleWorkflow = (workflowId: WorkflowId, checked: boolean) => {
+    if (checked) {
+      setSelectedWorkflows([...selectedWorkflows, workflowId])
+      if (!workflowConfigs[workflowId]) {
+        setWorkflowConfigs({ ...workflowConfigs, [workflowId]: defaultWorkflowConfig() })
+      }
+    } else {
+      setSelectedWorkflows(selectedWorkflows.filter((id) => id !== workflowId))
+    }
+  }
+
+  const updateWorkflowConfig = (workflowId: WorkflowId, changes: Partial<WorkflowConfig>) => {
+    const current = workflowConfigs[workflowId] || defaultWorkflowConfig()
+    setWorkflowConfigs({ ...workflowConfigs, [workflowId]: { ...current, ...changes } })
+  }
+
+  const toggleWorkflowSku = (workflowId: WorkflowId, sku: string, checked: boolean) => {
+    const current = workflowConfigs[workflowId] || defaultWorkflowConfig()
+    const { [sku]: _removed, ...otherQuantities } = current.skuQuantities
+    updateWorkflowConfig(workflowId, checked
+      ? { selectedSkus: [...current.selectedSkus, sku], skuQuantities: { ...current.skuQuantities, [sku]: 1 } }
+      : { selectedSkus: current.selectedSkus.filter((s) => s !== sku), skuQuantities: otherQuantities }
+    )
+  }
+
   const addParticipant = () => {
     if (!newParticipant.first_name.trim() || !newParticipant.last_name.trim() || !newParticipant.email.trim()) {
       toast({
@@ -154,6 +324,66 @@ export function ScheduleTourPage() {
       return
     }
 
+    if (selectedWorkflows.length === 0 && kitSkus.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select at least one SKU for the swag kit",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const invalidKitSkus = kitSkus.filter((sku) => !(kitQuantities[sku] > 0))
+    if (invalidKitSkus.length > 0) {
+      toast({
+        title: "Error",
+        description: `Swag kit quantity must be at least 1 for ${invalidKitSkus.join(", ")}`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    // Only keep configs for the workflows that are still selected
+    const activeConfigs: WorkflowConfigs = Object.fromEntries(
+      selectedWorkflows.map((id) => [id, workflowConfigs[id] || defaultWorkflowConfig()])
+    )
+    const workflowErrors = validateWorkflowConfigs(selectedWorkflows, activeConfigs)
+    if (workflowErrors.length > 0) {
+      toast({
+        title: "Error",
+        description: workflowErrors.join(". "),
+        variant: "destructive",
+      })
+      return
+    }
+
+    // Orders beyond participants + host go to demo customers from Settings > Extras
+    const recipientsNeeded = requiredWorkflowRecipients(selectedWorkflows, activeConfigs)
+    if (recipientsNeeded > participants.length + 1 + extrasCount) {
+      toast({
+        title: "Error",
+        description: `The selected workflows need ${recipientsNeeded} orders per workflow, but the tour only has ${participants.length} participant${participants.length === 1 ? "" : "s"} plus the host and ${extrasCount} extras. Add more extras in Settings.`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    // Check stock unless the host has already seen the shortfalls and chosen what to do
+    let currentStockCheck = stockCheck
+    if (!currentStockCheck && !scheduleDespiteShortfall) {
+      currentStockCheck = await runStockCheck()
+      if (!currentStockCheck && !confirm("Stock could not be checked in ShipHero. Schedule the tour anyway?")) return
+    }
+    const shortfalls = currentStockCheck?.lines.filter((line) => line.shortfall > 0) || []
+    if (shortfalls.length > 0 && !raiseShortfallOnPO && !scheduleDespiteShortfall) {
+      toast({
+        title: "Not Enough Stock",
+        description: `Short of ${shortfalls.map((line) => `${line.shortfall} x ${line.sku}`).join(", ")}. Adjust the kit, add the shortfall to the PO, or schedule anyway.`,
+        variant: "destructive",
+      })
+      return
+    }
+
     setIsLoading(true)
 
     try {
@@ -167,6 +397,13 @@ export function ScheduleTourPage() {
             date: formData.date,
             time: formData.time,
             status: 'scheduled',
+            selected_workflows: selectedWorkflows,
+            workflow_configs: activeConfigs,
+            selected_skus: kitSkus,
+            sku_quantities: kitQuantities,
+            po_extra_quantities: raiseShortfallOnPO
+              ? Object.fromEntries(shortfalls.map((line) => [line.sku, line.shortfall]))
+              : {},
           },
         ])
         .select()
@@ -194,13 +431,17 @@ export function ScheduleTourPage() {
 
       toast({
         title: "Success",
-        description: `Tour scheduled successfully with ${participants.length} participant${participants.length > 1 ? "s" : ""}!`,
+        description: `${formatTourReference(tourData.tour_numeric_id)} scheduled successfully with ${participants.length} participant${participants.length > 1 ? "s" : ""}!`,
       })
 
             // Reset form
       setFormData({ warehouse_id: "", host_id: "", date: "", time: "" })
       setParticipants([])
       setSwagPreview([])
+      setSelectedWorkflows([])
+      setWorkflowConfigs({})
+      setKitSkus([])
+      setKitQuantities({})
     } catch (error) {
       toast({
         title: "Error",
@@ -213,6 +454,12 @@ export function ScheduleTourPage() {
   }
 
   const selectedWarehouse = warehouses.find((w) => w.id === formData.warehouse_id)
+  const visibleProducts = products.filter((product) =>
+    !productFilter.trim() ||
+    `${product.name} ${product.sku}`.toLowerCase().includes(productFilter.trim().toLowerCase())
+  )
+  const workflowPlan = planWorkflowOrders(selectedWorkflows, workflowConfigs)
+  const demoOrderCount = workflowPlan.salesOrders.filter((order) => order.sequence > participants.length + 1).length
 
   return (
     <div className="max-w-4xl mx-auto space-y-6">
@@ -488,7 +735,273 @@ export function ScheduleTourPage() {
               )}
             </div>
 
+            <Separator />
 
+            {/* Swag Kit Section */}
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Package className="h-5 w-5" />
+                <h3 className="text-lg font-semibold">Swag Kit</h3>
+                <span className="text-sm text-muted-foreground">({kitSkus.length} SKU{kitSkus.length === 1 ? "" : "s"} selected)</span>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Units of each SKU every participant and the host receive, with current stock at the tour&apos;s ShipHero warehouse.
+              </p>
+
+              {!selectedWarehouse ? (
+                <p className="text-sm text-muted-foreground">Select a warehouse to see its products.</p>
+              ) : productsError ? (
+                <div className="flex items-center justify-between gap-2 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800">
+                  <span>{productsError}</span>
+                  <Button type="button" variant="outline" size="sm" onClick={fetchProducts}>
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Retry
+                  </Button>
+                </div>
+              ) : isLoadingProducts ? (
+                <p className="text-sm text-muted-foreground">Loading products from ShipHero...</p>
+              ) : products.length === 0 ? (
+                <p className="text-sm text-muted-foreground">ShipHero has no active products at this warehouse.</p>
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={productFilter}
+                      onChange={(e) => setProductFilter(e.target.value)}
+                      placeholder="Filter by name or SKU..."
+                      className="max-w-sm"
+                    />
+                    <Button type="button" variant="outline" size="sm" onClick={fetchProducts}>
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Refresh
+                    </Button>
+                  </div>
+                  {productsTruncated && (
+                    <div className="p-2 bg-amber-50 border border-amber-200 rounded text-sm text-amber-700">
+                      Showing the first {products.length} products only; this warehouse has more in ShipHero.
+                    </div>
+                  )}
+                  <div className="border rounded-lg max-h-80 overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-10"></TableHead>
+                          <TableHead>Product</TableHead>
+                          <TableHead className="text-right">On Hand</TableHead>
+                          <TableHead className="text-right">Allocated</TableHead>
+                          <TableHead className="text-right">Available</TableHead>
+                          <TableHead className="w-24">Per Person</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {visibleProducts.map((product) => {
+                          const selected = kitSkus.includes(product.sku)
+                          return (
+                            <TableRow key={product.sku}>
+                              <TableCell>
+                                <input
+                                  type="checkbox"
+                                  aria-label={`Add ${product.sku} to the swag kit`}
+                                  checked={selected}
+                                  onChange={(e) => toggleKitSku(product.sku, e.target.checked)}
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <div className="font-medium">{product.name}</div>
+                                <div className="text-xs text-muted-foreground font-mono">{product.sku}</div>
+                              </TableCell>
+                              <TableCell className="text-right">{product.on_hand}</TableCell>
+                              <TableCell className="text-right">{product.allocated}</TableCell>
+                              <TableCell className={`text-right ${product.available <= 0 ? "text-red-600" : ""}`}>{product.available}</TableCell>
+                              <TableCell>
+                                {selected && (
+                                  <Input
+                                    type="number"
+                                    min={1}
+                                    className="w-20 h-8"
+                                    aria-label={`Quantity of ${product.sku} per person`}
+                                    value={kitQuantities[product.sku] ?? 1}
+                                    onChange={(e) => setKitQuantities({ ...kitQuantities, [product.sku]: parseInt(e.target.value) || 0 })}
+                                  />
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          )
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
+            {/* Workflows Section */}
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Workflow className="h-5 w-5" />
+                <h3 className="text-lg font-semibold">Workflows</h3>
+                <span className="text-sm text-muted-foreground">({selectedWorkflows.length} selected)</span>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Pick the workflows to demonstrate. Finalizing the tour creates the orders each one needs.
+                Without workflows, every participant and the host get one of each swag item.
+              </p>
+
+              <div className="grid gap-2 md:grid-cols-2">
+                {WORKFLOWS.map((workflow) => (
+                  <label
+                    key={workflow.id}
+                    className="flex items-start gap-2 p-3 border rounded-lg cursor-pointer hover:bg-muted/30"
+                  >
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={selectedWorkflows.includes(workflow.id)}
+                      onChange={(e) => toggleWorkflow(workflow.id, e.target.checked)}
+                    />
+                    <div className="grid gap-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{workflow.label}</span>
+                        <Badge variant="outline">{workflow.kind === "receiving" ? "Purchase order" : "Sales orders"}</Badge>
+                      </div>
+                      <span className="text-sm text-muted-foreground">{workflow.description}</span>
+                    </div>
+                  </label>
+                ))}
+              </div>
+
+              {WORKFLOWS.filter((workflow) => selectedWorkflows.includes(workflow.id)).map((workflow) => {
+                const config = workflowConfigs[workflow.id] || defaultWorkflowConfig()
+                return (
+                  <Card key={workflow.id} className="bg-muted/50">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-base">{workflow.label}</CardTitle>
+                      <CardDescription>
+                        {workflow.kind === "receiving"
+                          ? "Quantities to receive on the purchase order"
+                          : workflow.id === "single_item_batch"
+                            ? "Each order gets one unit, rotating through the selected SKUs"
+                            : "Units of each SKU in every order"}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {workflow.kind === "fulfillment" && (
+                        <div className="grid gap-2 max-w-xs">
+                          <Label htmlFor={`${workflow.id}-order-count`}>Number of orders</Label>
+                          <Input
+                            id={`${workflow.id}-order-count`}
+                            type="number"
+                            min={1}
+                            max={MAX_WORKFLOW_ORDER_COUNT}
+                            value={config.orderCount}
+                            onChange={(e) => updateWorkflowConfig(workflow.id, { orderCount: parseInt(e.target.value) || 0 })}
+                          />
+                        </div>
+                      )}
+
+                      <div className="grid gap-2">
+                        <Label>SKUs *</Label>
+                        {swagItems.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">No swag items with a SKU. Add them in Settings.</p>
+                        ) : (
+                          <div className="grid gap-2 max-h-48 overflow-y-auto border rounded p-2 bg-background">
+                            {swagItems.map((item) => {
+                              const selected = config.selectedSkus.includes(item.sku)
+                              return (
+                                <div key={item.id} className="flex items-center justify-between gap-2">
+                                  <label className="flex items-center space-x-2">
+                                    <input
+                                      type="checkbox"
+                                      checked={selected}
+                                      onChange={(e) => toggleWorkflowSku(workflow.id, item.sku, e.target.checked)}
+                                    />
+                                    <span className="text-sm">{item.name} ({item.sku})</span>
+                                  </label>
+                                  {selected && workflow.id !== "single_item_batch" && (
+                                    <Input
+                                      type="number"
+                                      min={1}
+                                      className="w-20 h-8"
+                                      aria-label={`Quantity of ${item.sku}`}
+                                      value={config.skuQuantities[item.sku] ?? 1}
+                                      onChange={(e) => updateWorkflowConfig(workflow.id, {
+                                        skuQuantities: { ...config.skuQuantities, [item.sku]: parseInt(e.target.value) || 0 }
+                                      })}
+                                    />
+                                  )}
+                                </div>
+                              )
+                            })}
+                          </div>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )
+              })}
+
+              {selectedWorkflows.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Finalizing will create {workflowPlan.salesOrders.length} sales order{workflowPlan.salesOrders.length === 1 ? "" : "s"} and{" "}
+                  {workflowPlan.purchaseOrders.length} purchase order{workflowPlan.purchaseOrders.length === 1 ? "" : "s"}.
+                  {demoOrderCount > 0 && ` ${demoOrderCount} of the sales orders will go to demo customers (extras).`}
+                </p>
+              )}
+            </div>
+
+            <Separator />
+
+            {/* Stock Check Section */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <ClipboardCheck className="h-5 w-5" />
+                  <h3 className="text-lg font-semibold">Stock Check</h3>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={runStockCheck}
+                  disabled={isCheckingStock || !formData.warehouse_id}
+                >
+                  <RefreshCw className={`h-4 w-4 mr-2 ${isCheckingStock ? "animate-spin" : ""}`} />
+                  {isCheckingStock ? "Checking..." : "Check Stock"}
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Compares the kit for every participant and the host, plus workflow orders, with ShipHero available stock
+                less what other upcoming tours at the warehouse need. Runs automatically when you schedule.
+              </p>
+
+              {stockCheck && <StockCheckTable result={stockCheck} />}
+
+              {stockCheck && stockCheck.lines.some((line) => line.shortfall > 0) && (
+                <div className="space-y-2 p-3 bg-red-50 border border-red-200 rounded text-sm">
+                  <p className="text-red-800">
+                    Lower the kit quantities or workflow orders above, or choose one of these:
+                  </p>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={raiseShortfallOnPO}
+                      onChange={(e) => setRaiseShortfallOnPO(e.target.checked)}
+                    />
+                    Add the shortfall to this tour&apos;s purchase order
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={scheduleDespiteShortfall}
+                      onChange={(e) => setScheduleDespiteShortfall(e.target.checked)}
+                    />
+                    Schedule anyway
+                  </label>
+                </div>
+              )}
+            </div>
 
             <Separator />
 
@@ -5,8 +5,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { WarehousesTab } from "@/components/settings/warehouses-tab"
 import { HostsTab } from "@/components/settings/hosts-tab"
+import { ExtrasTab } from "@/components/settings/extras-tab"
 import { SwagItemsTab } from "@/components/settings/swag-items-tab"
+import { VendorsTab } from "@/components/settings/vendors-tab"
 import { ShipHeroTab } from "@/components/settings/shiphero-tab"
+import { ApiLogTab } from "@/components/settings/api-log-tab"
+import { OrganizationTab } from "@/components/settings/organization-tab"
 
 export function SettingsPage() {
   const [activeTab, setActiveTab] = useState("warehouses")
@@ -15,15 +19,19 @@ export function SettingsPage() {
     <div className="space-y-6">
       <div>
         <h1 className="text-2xl font-bold">Settings</h1>
-        <p className="text-muted-foreground">Manage warehouses, hosts, swag items, and ShipHero integration</p>
+        <p className="text-muted-foreground">Manage warehouses, hosts, demo extras, swag items, vendors, ShipHero integration, the ShipHero API log, and organization settings</p>
       </div>
       
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-4 mb-6">
+        <TabsList className="grid w-full grid-cols-8 mb-6">
           <TabsTrigger value="warehouses">Warehouses</TabsTrigger>
           <TabsTrigger value="hosts">Hosts</TabsTrigger>
+          <TabsTrigger value="extras">Extras</TabsTrigger>
           <TabsTrigger value="swag-items">Swag Items</TabsTrigger>
+          <TabsTrigger value="vendors">Vendors</TabsTrigger>
           <TabsTrigger value="shiphero">ShipHero</TabsTrigger>
+          <TabsTrigger value="api-log">API Log</TabsTrigger>
+          <TabsTrigger value="organization">Organization</TabsTrigger>
         </TabsList>
 
         <TabsContent value="warehouses">
@@ -34,13 +42,29 @@ export function SettingsPage() {
           <HostsTab />
         </TabsContent>
 
+        <TabsContent value="extras">
+          <ExtrasTab />
+        </TabsContent>
+
         <TabsContent value="swag-items">
           <SwagItemsTab />
         </TabsContent>
 
+        <TabsContent value="vendors">
+          <VendorsTab />
+        </TabsContent>
+
         <TabsContent value="shiphero">
           <ShipHeroTab />
         </TabsContent>
+
+        <TabsContent value="api-log">
+          <ApiLogTab />
+        </TabsContent>
+
+        <TabsContent value="organization">
+          <OrganizationTab />
+        </TabsContent>
       </Tabs>
     </div>
   )
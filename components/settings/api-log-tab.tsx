@@ -0,0 +1,248 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { RefreshCw } from "lucide-react"
+import { createClient } from "@/lib/supabase/client"
+import { useToast } from "@/hooks/use-toast"
+import { formatTourReference } from "@/lib/shiphero/naming-utils"
+import { fetchApiLog, fetchApiLogEntry } from "@/lib/shiphero/settings-client"
+import type { ShipHeroApiCallStatus, ShipHeroApiLogEntry, ShipHeroApiLogSummary } from "@/lib/shiphero/api-log"
+
+interface TourOption {
+  id: string
+  tour_numeric_id: number
+  date: string
+}
+
+// Select values for "no filter"
+const ALL_TOURS = "all"
+const ALL_STATUSES = "all"
+
+export function ApiLogTab() {
+  const [entries, setEntries] = useState<ShipHeroApiLogSummary[]>([])
+  const [tours, setTours] = useState<TourOption[]>([])
+  const [tourFilter, setTourFilter] = useState(ALL_TOURS)
+  const [statusFilter, setStatusFilter] = useState(ALL_STATUSES)
+  const [isLoading, setIsLoading] = useState(true)
+  const [selected, setSelected] = useState<ShipHeroApiLogEntry | null>(null)
+  const [isLoadingEntry, setIsLoadingEntry] = useState(false)
+  const { toast } = useToast()
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchTours()
+  }, [])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [tourFilter, statusFilter])
+
+  const fetchTours = async () => {
+    const { data, error } = await supabase
+      .from("tours")
+      .select("id, tour_numeric_id, date")
+      .order("date", { ascending: false })
+      .limit(200)
+
+    if (error) {
+      console.error("Error loading tours:", error)
+      return
+    }
+    setTours(data || [])
+  }
+
+  const fetchEntries = async () => {
+    setIsLoading(true)
+    try {
+      setEntries(await fetchApiLog({
+        tourId: tourFilter !== ALL_TOURS ? tourFilter : null,
+        status: statusFilter !== ALL_STATUSES ? statusFilter as ShipHeroApiCallStatus : null,
+      }))
+    } catch (error: any) {
+      console.error("Error loading ShipHero API log:", error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load the ShipHero API log",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Request and response bodies can be large, so they are only loaded for the call being opened
+  const openEntry = async (entry: ShipHeroApiLogSummary) => {
+    setIsLoadingEntry(true)
+    try {
+      setSelected(await fetchApiLogEntry(entry.id))
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load the call",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoadingEntry(false)
+    }
+  }
+
+  const tourLabel = (tourId: string | null) => {
+    if (!tourId) return "-"
+    const tour = tours.find((t) => t.id === tourId)
+    return tour ? formatTourReference(tour.tour_numeric_id) : tourId.slice(0, 8)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-end gap-4">
+        <div>
+          <h3 className="text-lg font-semibold">API Log</h3>
+          <p className="text-sm text-muted-foreground">
+            Every call made to ShipHero, with tokens and secrets redacted. Click a call to see its request and response.
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="grid gap-1">
+            <Label htmlFor="api_log_tour">Tour</Label>
+            <Select value={tourFilter} onValueChange={setTourFilter}>
+              <SelectTrigger id="api_log_tour" className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TOURS}>All calls</SelectItem>
+                {tours.map((tour) => (
+                  <SelectItem key={tour.id} value={tour.id}>
+                    {formatTourReference(tour.tour_numeric_id)} ({tour.date})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-1">
+            <Label htmlFor="api_log_status">Status</Label>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger id="api_log_status" className="w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STATUSES}>All</SelectItem>
+                <SelectItem value="success">Success</SelectItem>
+                <SelectItem value="error">Error</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={fetchEntries} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Time</TableHead>
+              <TableHead>Operation</TableHead>
+              <TableHead>Tour</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Duration</TableHead>
+              <TableHead className="text-right">Complexity</TableHead>
+              <TableHead>Request ID</TableHead>
+              <TableHead>Error</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading && entries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center py-8">
+                  Loading API log...
+                </TableCell>
+              </TableRow>
+            ) : entries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                  No ShipHero calls recorded{tourFilter !== ALL_TOURS ? " for this tour" : ""}.
+                </TableCell>
+              </TableRow>
+            ) : (
+              entries.map((entry) => (
+                <TableRow
+                  key={entry.id}
+                  className={`cursor-pointer ${isLoadingEntry ? "opacity-60" : ""}`}
+                  onClick={() => openEntry(entry)}
+                >
+                  <TableCell className="whitespace-nowrap text-xs">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                  <TableCell className="font-mono text-xs">{entry.operation}</TableCell>
+                  <TableCell className="text-xs">{tourLabel(entry.tour_id)}</TableCell>
+                  <TableCell>
+                    <Badge variant={entry.status === "success" ? "secondary" : "destructive"}>
+                      {entry.http_status ?? "-"}
+                      {entry.attempts > 1 ? ` (${entry.attempts} tries)` : ""}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right text-xs">{entry.duration_ms} ms</TableCell>
+                  <TableCell className="text-right text-xs">{entry.complexity ?? "-"}</TableCell>
+                  <TableCell className="font-mono text-xs">{entry.request_id || "-"}</TableCell>
+                  <TableCell className="text-xs text-destructive max-w-[280px] truncate" title={entry.error || undefined}>
+                    {entry.error || ""}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="font-mono">{selected.operation}</DialogTitle>
+                <DialogDescription>
+                  {new Date(selected.created_at).toLocaleString()} · {tourLabel(selected.tour_id)} · HTTP {selected.http_status ?? "-"} ·{" "}
+                  {selected.duration_ms} ms · {selected.attempts} attempt{selected.attempts === 1 ? "" : "s"}
+                  {selected.complexity !== null ? ` · complexity ${selected.complexity}` : ""}
+                  {selected.request_id ? ` · request ${selected.request_id}` : ""}
+                </DialogDescription>
+              </DialogHeader>
+              {selected.error && <p className="text-sm text-destructive">{selected.error}</p>}
+              <div className="grid gap-4">
+                <div>
+                  <Label>Request</Label>
+                  <pre className="mt-2 p-2 bg-gray-100 rounded text-xs overflow-auto max-h-[260px]">
+                    {formatBody(selected.request)}
+                  </pre>
+                </div>
+                <div>
+                  <Label>Response</Label>
+                  <pre className="mt-2 p-2 bg-gray-100 rounded text-xs overflow-auto max-h-[260px]">
+                    {formatBody(selected.response)}
+                  </pre>
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+function formatBody(body: any): string {
+  if (body === null || body === undefined) return "(none)"
+  if (typeof body === "string") return body
+  // Show the GraphQL document as written rather than as an escaped JSON string
+  if (typeof body.query === "string") {
+    const { query, ...rest } = body
+    return `${query.trim()}\n\n${JSON.stringify(rest, null, 2)}`
+  }
+  return JSON.stringify(body, null, 2)
+}
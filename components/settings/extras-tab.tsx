@@ -0,0 +1,275 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Plus, Edit, Trash2 } from "lucide-react"
+import { createClient } from "@/lib/supabase/client"
+import { useToast } from "@/hooks/use-toast"
+
+// Demo customers used for workflow orders beyond the tour's participants and host
+interface Extra {
+  id: string
+  first_name: string
+  last_name: string
+  email: string
+  company: string | null
+  created_at: string
+}
+
+const emptyForm = { first_name: "", last_name: "", email: "", company: "ShipHero" }
+
+export function ExtrasTab() {
+  const [extras, setExtras] = useState<Extra[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingExtra, setEditingExtra] = useState<Extra | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+  const { toast } = useToast()
+  const supabase = createClient()
+
+  useEffect(() => {
+    fetchExtras()
+  }, [])
+
+  const fetchExtras = async () => {
+    try {
+      const { data, error } = await supabase.from("extras").select("*").order("created_at").order("id")
+
+      if (error) throw error
+      setExtras(data || [])
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch extras",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    try {
+      const dbData = {
+        first_name: formData.first_name.trim(),
+        last_name: formData.last_name.trim(),
+        email: formData.email.trim().toLowerCase(),
+        company: formData.company.trim() || "ShipHero"
+      }
+
+      if (editingExtra) {
+        const { error } = await supabase.from("extras").update(dbData).eq("id", editingExtra.id)
+        if (error) {
+          console.error("Extra update error:", error)
+          throw error
+        }
+        toast({ title: "Success", description: "Extra updated successfully" })
+      } else {
+        const { error } = await supabase.from("extras").insert([dbData])
+        if (error) {
+          console.error("Extra insert error:", error)
+          throw error
+        }
+        toast({ title: "Success", description: "Extra created successfully" })
+      }
+
+      setFormData(emptyForm)
+      setEditingExtra(null)
+      setIsDialogOpen(false)
+      fetchExtras()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save extra",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleEdit = (extra: Extra) => {
+    setEditingExtra(extra)
+    setFormData({ first_name: extra.first_name, last_name: extra.last_name, email: extra.email, company: extra.company || "" })
+    setIsDialogOpen(true)
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this extra?")) return
+
+    try {
+      const { error } = await supabase.from("extras").delete().eq("id", id)
+      if (error) throw error
+      toast({ title: "Success", description: "Extra deleted successfully" })
+      fetchExtras()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete extra",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const resetForm = () => {
+    setFormData(emptyForm)
+    setEditingExtra(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Extras</h3>
+          <p className="text-sm text-muted-foreground">
+            Demo customers used when a workflow needs more orders than participants plus the host, in the order listed.
+          </p>
+        </div>
+        <Dialog
+          open={isDialogOpen}
+          onOpenChange={(open) => {
+            setIsDialogOpen(open)
+            if (!open) resetForm()
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Extra
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingExtra ? "Edit Extra" : "Add New Extra"}</DialogTitle>
+              <DialogDescription>
+                {editingExtra ? "Update the demo customer." : "Add a demo customer for extra workflow orders."}
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit}>
+              <div className="grid gap-4 py-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="first_name">First Name *</Label>
+                    <Input
+                      id="first_name"
+                      value={formData.first_name}
+                      onChange={(e) => setFormData({ ...formData, first_name: e.target.value })}
+                      placeholder="John"
+                      required
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="last_name">Last Name *</Label>
+                    <Input
+                      id="last_name"
+                      value={formData.last_name}
+                      onChange={(e) => setFormData({ ...formData, last_name: e.target.value })}
+                      placeholder="Smith"
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="email">Email Address *</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    placeholder="john.smith@shiphero.com"
+                    required
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="company">Company</Label>
+                  <Input
+                    id="company"
+                    value={formData.company}
+                    onChange={(e) => setFormData({ ...formData, company: e.target.value })}
+                    placeholder="ShipHero"
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button 
+                  type="submit" 
+                  disabled={isLoading}
+                  className={isLoading ? "cursor-wait" : ""}
+                >
+                  {isLoading ? "Saving..." : editingExtra ? "Update" : "Create"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>First Name</TableHead>
+              <TableHead>Last Name</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Company</TableHead>
+              <TableHead className="w-[140px]">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8">
+                  Loading extras...
+                </TableCell>
+              </TableRow>
+            ) : extras.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  No extras found. Add demo customers to fill large workflow order counts.
+                </TableCell>
+              </TableRow>
+            ) : (
+              extras.map((extra) => (
+                <TableRow key={extra.id}>
+                  <TableCell className="font-medium">{extra.first_name}</TableCell>
+                  <TableCell className="font-medium">{extra.last_name}</TableCell>
+                  <TableCell>{extra.email}</TableCell>
+                  <TableCell>{extra.company || '-'}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(extra)}>
+                        <Edit className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => handleDelete(extra.id)}>
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,256 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { getTenantConfig, isValidTimeZone, saveTenantConfig, TenantConfigInput } from "@/lib/tenant-config"
+import {
+  ORDER_NAME_MAX_LENGTH,
+  ORDER_NAME_TOKENS,
+  SAMPLE_ORDER_NAME_VALUES,
+  renderOrderName,
+  validateOrderNameTemplate
+} from "@/lib/shiphero/naming-utils"
+
+const emptyForm: TenantConfigInput = {
+  shiphero_vendor_id: "",
+  shop_name: "",
+  company_name: "",
+  default_fulfillment_status: "",
+  sales_order_name_template: "",
+  purchase_order_name_template: "",
+  timezone: ""
+}
+
+function TemplatePreview({ template }: { template: string }) {
+  const errors = validateOrderNameTemplate(template)
+  if (errors.length > 0) {
+    return (
+      <ul className="text-xs text-red-600 list-disc ml-5">
+        {errors.map(error => <li key={error}>{error}</li>)}
+      </ul>
+    )
+  }
+
+  let preview: string
+  try {
+    preview = renderOrderName(template, SAMPLE_ORDER_NAME_VALUES)
+  } catch (error: any) {
+    return <p className="text-xs text-red-600">{error.message}</p>
+  }
+  return (
+    <p className="text-xs text-muted-foreground">
+      Preview: <span className="font-mono text-foreground">{preview}</span> ({preview.length}/{ORDER_NAME_MAX_LENGTH})
+    </p>
+  )
+}
+
+export function OrganizationTab() {
+  const [formData, setFormData] = useState<TenantConfigInput>(emptyForm)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchConfig()
+  }, [])
+
+  const fetchConfig = async () => {
+    try {
+      const config = await getTenantConfig()
+      setFormData({
+        shiphero_vendor_id: config.shiphero_vendor_id || "",
+        shop_name: config.shop_name,
+        company_name: config.company_name,
+        default_fulfillment_status: config.default_fulfillment_status,
+        sales_order_name_template: config.sales_order_name_template,
+        purchase_order_name_template: config.purchase_order_name_template,
+        timezone: config.timezone
+      })
+    } catch (error: any) {
+      console.error("Error loading organization settings:", error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load organization settings",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!formData.shop_name.trim() || !formData.company_name.trim() || !formData.default_fulfillment_status.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Shop name, company name and fulfillment status are required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (validateOrderNameTemplate(formData.sales_order_name_template).length > 0 ||
+        validateOrderNameTemplate(formData.purchase_order_name_template).length > 0) {
+      toast({
+        title: "Invalid Naming Template",
+        description: "Fix the order naming templates before saving",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (!isValidTimeZone(formData.timezone.trim())) {
+      toast({
+        title: "Invalid Time Zone",
+        description: "Use an IANA time zone such as America/New_York",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await saveTenantConfig(formData)
+      toast({ title: "Success", description: "Organization settings saved" })
+      fetchConfig()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save organization settings",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return <div>Loading organization settings...</div>
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Organization</CardTitle>
+        <CardDescription>
+          Values used on every ShipHero order created by tour finalization and the adhoc order forms
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="shop_name">Shop Name</Label>
+              <Input
+                id="shop_name"
+                value={formData.shop_name}
+                onChange={(e) => setFormData({ ...formData, shop_name: e.target.value })}
+                placeholder="Tour Orders"
+                required
+              />
+              <p className="text-xs text-muted-foreground">Shop name on sales orders</p>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="company_name">Company Name</Label>
+              <Input
+                id="company_name"
+                value={formData.company_name}
+                onChange={(e) => setFormData({ ...formData, company_name: e.target.value })}
+                placeholder="Tour Company"
+                required
+              />
+              <p className="text-xs text-muted-foreground">Billing company when the recipient has none</p>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="shiphero_vendor_id">ShipHero Vendor ID</Label>
+              <Input
+                id="shiphero_vendor_id"
+                value={formData.shiphero_vendor_id || ""}
+                onChange={(e) => setFormData({ ...formData, shiphero_vendor_id: e.target.value })}
+                placeholder="ShipHero vendor ID"
+              />
+              <p className="text-xs text-muted-foreground">Default vendor on purchase orders, for swag items without their own. Also set from Settings &gt; Vendors.</p>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="default_fulfillment_status">Default Fulfillment Status</Label>
+              <Input
+                id="default_fulfillment_status"
+                value={formData.default_fulfillment_status}
+                onChange={(e) => setFormData({ ...formData, default_fulfillment_status: e.target.value })}
+                placeholder="pending"
+                required
+              />
+              <p className="text-xs text-muted-foreground">Status new orders and line items start in</p>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="timezone">Time Zone</Label>
+              <Input
+                id="timezone"
+                value={formData.timezone}
+                onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                placeholder="America/New_York"
+                required
+              />
+              <p className="text-xs text-muted-foreground">Decides which tours count as upcoming in stock checks and planning</p>
+            </div>
+          </div>
+
+          <div className="space-y-4 pt-2">
+            <h4 className="text-sm font-medium text-muted-foreground">Order Naming</h4>
+            <div className="grid gap-2">
+              <Label htmlFor="sales_order_name_template">Sales Order Number</Label>
+              <Input
+                id="sales_order_name_template"
+                className="font-mono"
+                value={formData.sales_order_name_template}
+                onChange={(e) => setFormData({ ...formData, sales_order_name_template: e.target.value })}
+                required
+              />
+              <TemplatePreview template={formData.sales_order_name_template} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="purchase_order_name_template">Purchase Order Number</Label>
+              <Input
+                id="purchase_order_name_template"
+                className="font-mono"
+                value={formData.purchase_order_name_template}
+                onChange={(e) => setFormData({ ...formData, purchase_order_name_template: e.target.value })}
+                required
+              />
+              <TemplatePreview template={formData.purchase_order_name_template} />
+            </div>
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p>
+                Previews use {SAMPLE_ORDER_NAME_VALUES.first} {SAMPLE_ORDER_NAME_VALUES.last} at {SAMPLE_ORDER_NAME_VALUES.code}.
+                Long names are shortened to fit {ORDER_NAME_MAX_LENGTH} characters; the tour reference and sequence never are.
+              </p>
+              <div className="grid grid-cols-2 gap-x-4">
+                {ORDER_NAME_TOKENS.map(({ token, description }) => (
+                  <p key={token}>
+                    <span className="font-mono">{token}</span> {description}
+                  </p>
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
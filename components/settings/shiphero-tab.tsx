@@ -11,11 +11,20 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea"
 import { useToast } from "@/hooks/use-toast"
 import { createClient } from "@/lib/supabase/client"
-import { generateSalesOrderName, generatePurchaseOrderName } from "@/lib/shiphero/naming-utils"
+import { adhocOrderNameValues, renderOrderName } from "@/lib/shiphero/naming-utils"
+import { validateAddress } from "@/lib/address"
+import { DEFAULT_TENANT_CONFIG, getTenantConfig, requireShipHeroVendorId, TenantConfig } from "@/lib/tenant-config"
 
-export function ShipHeroTab() {
-  const [refreshToken, setRefreshToken] = useState("")
+interface TokenStatus {
+  configured: boolean
+  expires_at: string | null
+  updated_at: string | null
+}
 
+export function ShipHeroTab() {
+  const [tokenStatus, setTokenStatus] = useState<TokenStatus | null>(null)
+  const [newRefreshToken, setNewRefreshToken] = useState("")
+  const [isSavingToken, setIsSavingToken] = useState(false)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [isTesting, setIsTesting] = useState(false)
   const [testResults, setTestResults] = useState<any>(null)
@@ -26,6 +35,7 @@ export function ShipHeroTab() {
   const [warehouses, setWarehouses] = useState<any[]>([])
   const [hosts, setHosts] = useState<any[]>([])
   const [swagItems, setSwagItems] = useState<any[]>([])
+  const [tenantConfig, setTenantConfig] = useState<TenantConfig>(DEFAULT_TENANT_CONFIG)
   const [adhocOrderData, setAdhocOrderData] = useState({
     warehouseId: '',
     hostId: '',
@@ -47,19 +57,70 @@ export function ShipHeroTab() {
   const { toast } = useToast()
 
   useEffect(() => {
-    const savedToken = localStorage.getItem('shiphero_refresh_token') || ''
-    setRefreshToken(savedToken)
+    loadTokenStatus()
   }, [])
 
+  const loadTokenStatus = async () => {
+    try {
+      const response = await fetch('/api/shiphero/refresh-token')
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to load ShipHero status')
+      }
+      setTokenStatus(data)
+    } catch (error: any) {
+      console.error('Error loading ShipHero token status:', error)
+      setTokenStatus({ configured: false, expires_at: null, updated_at: null })
+    }
+  }
+
+  const handleSaveRefreshToken = async () => {
+    if (!newRefreshToken.trim()) return
+
+    setIsSavingToken(true)
+    try {
+      const response = await fetch('/api/shiphero/refresh-token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          refresh_token: newRefreshToken.trim()
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save refresh token')
+      }
+
+      setTokenStatus(data)
+      setNewRefreshToken("")
+      toast({
+        title: "✅ ShipHero Connected",
+        description: "The refresh token was verified and stored on the server",
+      })
+    } catch (error: any) {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save refresh token",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSavingToken(false)
+    }
+  }
+
   const loadAdhocOrderData = async () => {
     try {
       const supabase = createClient()
       
-      // Load warehouses, hosts, and swag items directly from Supabase
-      const [warehousesRes, hostsRes, swagItemsRes] = await Promise.all([
+      // Load warehouses, hosts, and swag items directly from Supabase, plus the organization settings
+      const [warehousesRes, hostsRes, swagItemsRes, tenant] = await Promise.all([
         supabase.from('warehouses').select('id, name, code, address, address2, city, state, zip, country, shiphero_warehouse_id').order('name'),
         supabase.from('team_members').select('id, first_name, last_name, email').order('first_name'),
-        supabase.from('swag_items').select('id, name, sku, vendor_id').order('name')
+        supabase.from('swag_items').select('id, name, sku, vendor_id').order('name'),
+        getTenantConfig()
       ])
 
       if (warehousesRes.error) {
@@ -75,6 +136,7 @@ export function ShipHeroTab() {
       setWarehouses(warehousesRes.data || [])
       setHosts(hostsRes.data || [])
       setSwagItems(swagItemsRes.data || [])
+      setTenantConfig(tenant)
       
       console.log('Loaded data:', {
         warehouses: warehousesRes.data?.length || 0,
@@ -107,32 +169,22 @@ export function ShipHeroTab() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          refresh_token: refreshToken
-        })
+        body: JSON.stringify({})
       })
 
-      if (response.ok) {
-        const data = await response.json()
-        const newAccessToken = data.access_token
-        const expiresIn = data.expires_in
-        
-        if (newAccessToken) {
-          // Calculate expiration date
-          const expirationDate = new Date(Date.now() + (expiresIn * 1000))
-          
-          toast({
-            title: "✅ New Access Token Generated",
-            description: `Token will be valid for 28 days (expires: ${expirationDate.toLocaleDateString()})`,
-            duration: 6000,
-          })
-        } else {
-          throw new Error('No access token received from refresh')
-        }
-      } else {
-        const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to refresh token')
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to refresh token')
       }
+
+      setTokenStatus(data)
+      toast({
+        title: "✅ New Access Token Generated",
+        description: data.expires_at
+          ? `Token will be valid until ${new Date(data.expires_at).toLocaleDateString()}`
+          : "Token refreshed",
+        duration: 6000,
+      })
     } catch (error: any) {
       toast({
         title: "Refresh Failed",
@@ -147,37 +199,10 @@ export function ShipHeroTab() {
   const handleConnectionTest = async () => {
     setIsTesting(true)
     try {
-      if (!refreshToken) {
-        throw new Error('No refresh token available. Please enter your refresh token first.')
-      }
-      
-      // First, get an access token using the refresh token
-      const tokenResponse = await fetch('/api/shiphero/refresh-token', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          refresh_token: refreshToken
-        })
-      })
-      
-      if (!tokenResponse.ok) {
-        throw new Error('Failed to get access token from refresh token')
-      }
-      
-      const tokenData = await tokenResponse.json()
-      const accessToken = tokenData.access_token
-      
-      if (!accessToken) {
-        throw new Error('No access token received from refresh token')
-      }
-      
-      // Test connection by querying warehouses only
+      // Test connection by querying warehouses only (the server attaches the stored token)
       const warehousesResponse = await fetch('/api/shiphero/warehouses', {
         method: 'GET',
         headers: {
-          'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json'
         }
       })
@@ -227,28 +252,6 @@ export function ShipHeroTab() {
     setIsCreatingOrder(true)
     setLastError(null) // Clear previous errors
     try {
-      // Get access token first
-      const tokenResponse = await fetch('/api/shiphero/refresh-token', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          refresh_token: refreshToken
-        })
-      })
-
-      if (!tokenResponse.ok) {
-        throw new Error('Failed to get access token')
-      }
-
-      const tokenData = await tokenResponse.json()
-      const accessToken = tokenData.access_token
-
-      if (!accessToken) {
-        throw new Error('No access token received')
-      }
-
       // Find selected data
       const warehouse = warehouses.find(w => w.id === adhocOrderData.warehouseId)
       const host = hosts.find(h => h.id === adhocOrderData.hostId)
@@ -258,6 +261,11 @@ export function ShipHeroTab() {
         throw new Error('Selected data not found')
       }
 
+      const { address, errors: addressErrors } = validateAddress(warehouse)
+      if (addressErrors.length > 0) {
+        throw new Error(`Warehouse ${warehouse.name} has an invalid address: ${addressErrors.join('; ')}`)
+      }
+
       // Create line items
       const lineItems = selectedSwagItems.map(swagItem => ({
         sku: swagItem.sku || swagItem.name,
@@ -265,16 +273,22 @@ export function ShipHeroTab() {
         price: "0.00"
       }))
 
-      // Generate order number using naming convention
-      const orderNumber = generateSalesOrderName(host.first_name, host.last_name, warehouse.name, warehouse.code)
-
       // Use the selected date from the form
       const orderDate = adhocOrderData.orderDate
 
+      // Generate order number from the organization's naming template
+      const orderNumber = renderOrderName(tenantConfig.sales_order_name_template, {
+        first: host.first_name,
+        last: host.last_name,
+        date: orderDate,
+        code: warehouse.code || '',
+        ...adhocOrderNameValues()
+      })
+
       const orderData = {
         order_number: orderNumber,
-        shop_name: "Warehouse Tours - Adhoc",
-        fulfillment_status: "pending",
+        shop_name: `${tenantConfig.shop_name} - Adhoc`,
+        fulfillment_status: tenantConfig.default_fulfillment_status,
         order_date: orderDate,
         total_tax: "0.00",
         subtotal: "0.00",
@@ -290,29 +304,29 @@ export function ShipHeroTab() {
           first_name: warehouse.name,
           last_name: "Warehouse",
           company: warehouse.name,
-          address1: warehouse.address,
-          address2: warehouse.address2 || '',
-          city: warehouse.city,
-          state: warehouse.state === 'Georgia' ? 'GA' : warehouse.state,
-          state_code: warehouse.state === 'Georgia' ? 'GA' : warehouse.state,
-          zip: warehouse.zip,
-          country: 'US',
-          country_code: 'US',
+          address1: address.address,
+          address2: address.address2,
+          city: address.city,
+          state: address.state,
+          state_code: address.state,
+          zip: address.zip,
+          country: address.country,
+          country_code: address.country,
           email: host.email,
           phone: "5555555555"
         },
         billing_address: {
           first_name: host.first_name,
           last_name: host.last_name,
-          company: '',
-          address1: warehouse.address,
-          address2: warehouse.address2 || '',
-          city: warehouse.city,
-          state: warehouse.state === 'Georgia' ? 'GA' : warehouse.state,
-          state_code: warehouse.state === 'Georgia' ? 'GA' : warehouse.state,
-          zip: warehouse.zip,
-          country: 'US',
-          country_code: 'US',
+          company: tenantConfig.company_name,
+          address1: address.address,
+          address2: address.address2,
+          city: address.city,
+          state: address.state,
+          state_code: address.state,
+          zip: address.zip,
+          country: address.country,
+          country_code: address.country,
           email: host.email,
           phone: "5555555555"
         },
@@ -322,7 +336,7 @@ export function ShipHeroTab() {
           quantity: item.quantity,
           price: item.price,
           product_name: item.sku,
-          fulfillment_status: "pending",
+          fulfillment_status: tenantConfig.default_fulfillment_status,
           quantity_pending_fulfillment: item.quantity,
           warehouse_id: warehouse.shiphero_warehouse_id
         })),
@@ -336,15 +350,12 @@ export function ShipHeroTab() {
       console.log('Selected swag items:', selectedSwagItems)
 
       // Create sales order
-      console.log('Making request to /api/shiphero/orders with access token:', accessToken ? 'Present' : 'Missing')
-      
       let orderResponse
       try {
         orderResponse = await fetch('/api/shiphero/orders', {
           method: 'POST',
           headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${accessToken}`
+            'Content-Type': 'application/json'
           },
                   body: JSON.stringify({
           type: 'sales_order',
@@ -514,28 +525,6 @@ export function ShipHeroTab() {
     setIsCreatingPO(true)
     setLastError(null)
     try {
-      // Get access token first
-      const tokenResponse = await fetch('/api/shiphero/refresh-token', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          refresh_token: refreshToken
-        })
-      })
-
-      if (!tokenResponse.ok) {
-        throw new Error('Failed to get access token')
-      }
-
-      const tokenData = await tokenResponse.json()
-      const accessToken = tokenData.access_token
-
-      if (!accessToken) {
-        throw new Error('No access token received')
-      }
-
       // Find selected data
       const warehouse = warehouses.find(w => w.id === adhocPOData.warehouseId)
       const host = hosts.find(h => h.id === adhocPOData.hostId)
@@ -545,26 +534,34 @@ export function ShipHeroTab() {
         throw new Error('Selected data not found')
       }
 
+      const vendorId = requireShipHeroVendorId(tenantConfig)
+
       // Create line items for PO
       const lineItems = selectedSwagItems.map(swagItem => ({
         sku: swagItem.sku || swagItem.name,
         quantity: adhocPOData.swagQuantities[swagItem.id] || 1,
         expected_weight_in_lbs: "1.00",
-        vendor_id: "1076735",
+        vendor_id: vendorId,
         quantity_received: 0,
         quantity_rejected: 0,
         price: "0.00",
         product_name: swagItem.name,
-        fulfillment_status: "pending",
+        fulfillment_status: tenantConfig.default_fulfillment_status,
         sell_ahead: 0
       }))
 
-      // Generate PO number using naming convention
-      const poNumber = generatePurchaseOrderName(host.last_name, warehouse.code)
-      
       // Use the selected date from the form
       const poDate = adhocPOData.poDate
 
+      // Generate PO number from the organization's naming template
+      const poNumber = renderOrderName(tenantConfig.purchase_order_name_template, {
+        first: host.first_name,
+        last: host.last_name,
+        date: poDate,
+        code: warehouse.code || '',
+        ...adhocOrderNameValues()
+      })
+
       const poData = {
         po_date: poDate,
         po_number: poNumber,
@@ -573,9 +570,9 @@ export function ShipHeroTab() {
         total_price: "0.00",
         warehouse_id: warehouse.shiphero_warehouse_id,
         line_items: lineItems,
-        fulfillment_status: "pending",
+        fulfillment_status: tenantConfig.default_fulfillment_status,
         discount: "0.00",
-        vendor_id: "1076735"
+        vendor_id: vendorId
       }
 
       console.log('Creating adhoc PO with data:', JSON.stringify(poData, null, 2))
@@ -584,8 +581,7 @@ export function ShipHeroTab() {
       const poResponse = await fetch('/api/shiphero/orders', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           type: 'purchase_order',
@@ -696,17 +692,38 @@ export function ShipHeroTab() {
         <CardHeader>
           <CardTitle>ShipHero API Connection</CardTitle>
           <CardDescription>
-            {refreshToken ? 
+            {tokenStatus?.configured ? 
               "Connected to ShipHero API. Generate a new access token or test your connection." : 
-              "No refresh token found. Please contact support to configure API access."
+              "No refresh token found. Add your ShipHero refresh token to connect."
             }
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          <div className="grid gap-2">
+            <Label htmlFor="refresh-token">{tokenStatus?.configured ? "Replace Refresh Token" : "Refresh Token"}</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="refresh-token"
+                type="password"
+                autoComplete="off"
+                value={newRefreshToken}
+                onChange={(e) => setNewRefreshToken(e.target.value)}
+                placeholder="Paste a ShipHero refresh token"
+              />
+              <Button
+                onClick={handleSaveRefreshToken}
+                disabled={isSavingToken || !newRefreshToken.trim()}
+                variant="secondary"
+              >
+                {isSavingToken ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+
           <div className="flex items-center gap-2">
             <Button
               onClick={handleRefreshToken}
-              disabled={isRefreshing || !refreshToken}
+              disabled={isRefreshing || !tokenStatus?.configured}
               variant="default"
               className="flex-1"
             >
@@ -716,7 +733,7 @@ export function ShipHeroTab() {
             
             <Button
               onClick={handleConnectionTest}
-              disabled={isTesting || !refreshToken}
+              disabled={isTesting || !tokenStatus?.configured}
               variant="outline"
               className="flex-1"
             >
@@ -725,15 +742,19 @@ export function ShipHeroTab() {
             </Button>
           </div>
           
-          {refreshToken && (
+          {tokenStatus?.configured && (
             <div className="text-sm bg-muted p-4 rounded-lg space-y-2">
               <p className="flex items-center gap-2">
                 <span className="text-green-600">✅</span>
-                <span>API credentials are configured and stored securely</span>
+                <span>API credentials are stored on the server and never sent to the browser</span>
               </p>
               <p className="flex items-center gap-2">
                 <span className="text-blue-600">💡</span>
-                <span>Access tokens last 28 days. Generate a new one before expiration</span>
+                <span>
+                  {tokenStatus.expires_at
+                    ? `Current access token expires ${new Date(tokenStatus.expires_at).toLocaleString()}. It is refreshed automatically before then.`
+                    : "An access token will be generated automatically on first use."}
+                </span>
               </p>
             </div>
           )}
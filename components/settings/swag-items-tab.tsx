@@ -16,31 +16,105 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog"
-import { Plus, Edit, Trash2 } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { Plus, Edit, Trash2, RefreshCw, PackagePlus } from "lucide-react"
 import { createClient } from "@/lib/supabase/client"
 import { useToast } from "@/hooks/use-toast"
+import { syncSwagItemProduct } from "@/lib/shiphero/settings-client"
+import type { ProductSyncStatus } from "@/lib/shiphero/products"
 
 interface SwagItem {
   id: string
   name: string
   sku?: string
   vendor_id?: string
+  price?: number | null
+  weight?: number | null
+  length?: number | null
+  width?: number | null
+  height?: number | null
+  barcode?: string | null
+  shiphero_sync_status?: ProductSyncStatus | null
+  shiphero_sync_error?: string | null
+  shiphero_synced_at?: string | null
   created_at: string
 }
 
+// Product details are kept as text while editing; blank saves as null
+const emptyForm = {
+  name: "",
+  sku: "",
+  vendor_id: "",
+  price: "",
+  weight: "",
+  length: "",
+  width: "",
+  height: "",
+  barcode: ""
+}
+
+function toNumberOrNull(value: string): number | null {
+  return value.trim() === "" ? null : Number(value)
+}
+
+// Whether the swag item's SKU exists in ShipHero, from its last check
+function SyncStatusBadge({ item }: { item: SwagItem }) {
+  if (!item.sku) {
+    return <span className="text-muted-foreground text-sm">No SKU</span>
+  }
+  const checked = item.shiphero_synced_at ? `Checked ${new Date(item.shiphero_synced_at).toLocaleString()}` : undefined
+  switch (item.shiphero_sync_status) {
+    case "synced":
+      return <Badge className="bg-green-600 hover:bg-green-600" title={checked}>Synced</Badge>
+    case "missing":
+      return <Badge variant="destructive" title={checked}>Not in ShipHero</Badge>
+    case "error":
+      return <Badge variant="outline" className="border-red-300 text-red-700" title={item.shiphero_sync_error || checked}>Check failed</Badge>
+    default:
+      return <Badge variant="secondary">Not checked</Badge>
+  }
+}
+
+// Linked ShipHero vendor (Settings > Vendors); swag_items.vendor_id holds its legacy ID
+interface Vendor {
+  legacy_id: number
+  name: string
+}
+
+// Select value for items ordered from the organization default vendor (vendor_id null)
+const DEFAULT_VENDOR = "default"
+
 export function SwagItemsTab() {
   const [swagItems, setSwagItems] = useState<SwagItem[]>([])
+  const [vendors, setVendors] = useState<Vendor[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [editingItem, setEditingItem] = useState<SwagItem | null>(null)
-  const [formData, setFormData] = useState({ name: "", sku: "", vendor_id: "" })
+  const [formData, setFormData] = useState(emptyForm)
+  const [syncingItemId, setSyncingItemId] = useState<string | null>(null)
   const { toast } = useToast()
   const supabase = createClient()
 
   useEffect(() => {
     fetchSwagItems()
+    fetchVendors()
   }, [])
 
+  const fetchVendors = async () => {
+    const { data, error } = await supabase.from("vendors").select("legacy_id, name").order("name")
+    if (error) {
+      console.error("Error loading vendors:", error)
+      return
+    }
+    setVendors(data || [])
+  }
+
+  const vendorName = (vendorId?: string) => {
+    if (!vendorId) return "Default vendor"
+    return vendors.find((vendor) => String(vendor.legacy_id) === vendorId)?.name || `${vendorId} (not linked)`
+  }
+
   const fetchSwagItems = async () => {
     try {
       const { data, error } = await supabase.from("swag_items").select("*").order("created_at", { ascending: false })
@@ -67,31 +141,44 @@ export function SwagItemsTab() {
         name: formData.name,
         sku: formData.sku || null,
         vendor_id: formData.vendor_id || null,
+        price: toNumberOrNull(formData.price),
+        weight: toNumberOrNull(formData.weight),
+        length: toNumberOrNull(formData.length),
+        width: toNumberOrNull(formData.width),
+        height: toNumberOrNull(formData.height),
+        barcode: formData.barcode.trim() || null,
       }
 
       // Debug: Log the form data being submitted
       console.log("Submitting swag item data:", submitData)
 
+      let savedId: string
       if (editingItem) {
         const { error } = await supabase.from("swag_items").update(submitData).eq("id", editingItem.id)
         if (error) {
           console.error("Swag item update error:", error)
           throw error
         }
+        savedId = editingItem.id
         toast({ title: "Success", description: "Swag item updated successfully" })
       } else {
-        const { error } = await supabase.from("swag_items").insert([submitData])
+        const { data, error } = await supabase.from("swag_items").insert([submitData]).select("id").single()
         if (error) {
           console.error("Swag item insert error:", error)
           throw error
         }
+        savedId = data.id
         toast({ title: "Success", description: "Swag item created successfully" })
       }
 
-      setFormData({ name: "", sku: "", vendor_id: "" })
+      setFormData(emptyForm)
       setEditingItem(null)
       setIsDialogOpen(false)
       fetchSwagItems()
+
+      if (submitData.sku) {
+        await syncProduct(savedId, submitData.sku)
+      }
     } catch (error) {
       toast({
         title: "Error",
@@ -103,12 +190,74 @@ export function SwagItemsTab() {
     }
   }
 
+  /**
+   * Check the SKU against ShipHero and, if it is missing, offer to create the product there
+   */
+  const syncProduct = async (itemId: string, sku: string) => {
+    setSyncingItemId(itemId)
+    try {
+      let result = await syncSwagItemProduct(itemId, "check")
+
+      if (result.status === "missing" &&
+          confirm(`SKU ${sku} does not exist in ShipHero. Create the product there now?`)) {
+        result = await syncSwagItemProduct(itemId, "create")
+        toast({ title: "Product Created", description: `${sku} was created in ShipHero` })
+      } else if (result.status === "missing") {
+        toast({
+          title: "Not in ShipHero",
+          description: `Orders with ${sku} will fail until the product exists in ShipHero`,
+          variant: "destructive",
+        })
+      } else if (result.status === "error") {
+        toast({
+          title: "ShipHero Check Failed",
+          description: result.error || `Could not check ${sku} in ShipHero`,
+          variant: "destructive",
+        })
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sync the product with ShipHero",
+        variant: "destructive",
+      })
+    } finally {
+      setSyncingItemId(null)
+      fetchSwagItems()
+    }
+  }
+
+  const handleCreateProduct = async (item: SwagItem) => {
+    if (!confirm(`Create ${item.sku} (${item.name}) in ShipHero?`)) return
+
+    setSyncingItemId(item.id)
+    try {
+      await syncSwagItemProduct(item.id, "create")
+      toast({ title: "Product Created", description: `${item.sku} was created in ShipHero` })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create the product in ShipHero",
+        variant: "destructive",
+      })
+    } finally {
+      setSyncingItemId(null)
+      fetchSwagItems()
+    }
+  }
+
   const handleEdit = (item: SwagItem) => {
     setEditingItem(item)
     setFormData({ 
       name: item.name, 
       sku: item.sku || "",
-      vendor_id: item.vendor_id || ""
+      vendor_id: item.vendor_id || "",
+      price: item.price?.toString() ?? "",
+      weight: item.weight?.toString() ?? "",
+      length: item.length?.toString() ?? "",
+      width: item.width?.toString() ?? "",
+      height: item.height?.toString() ?? "",
+      barcode: item.barcode || ""
     })
     setIsDialogOpen(true)
   }
@@ -131,7 +280,7 @@ export function SwagItemsTab() {
   }
 
   const resetForm = () => {
-    setFormData({ name: "", sku: "", vendor_id: "" })
+    setFormData(emptyForm)
     setEditingItem(null)
   }
 
@@ -182,13 +331,76 @@ export function SwagItemsTab() {
                     />
                   </div>
                   <div className="grid gap-2">
-                    <Label htmlFor="vendor_id">Vendor ID</Label>
-                    <Input
-                      id="vendor_id"
-                      value={formData.vendor_id}
-                      onChange={(e) => setFormData({ ...formData, vendor_id: e.target.value })}
-                      placeholder="VND-123"
-                    />
+                    <Label htmlFor="vendor_id">Vendor</Label>
+                    <Select
+                      value={formData.vendor_id || DEFAULT_VENDOR}
+                      onValueChange={(value) => setFormData({ ...formData, vendor_id: value === DEFAULT_VENDOR ? "" : value })}
+                    >
+                      <SelectTrigger id="vendor_id">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_VENDOR}>Default vendor</SelectItem>
+                        {formData.vendor_id && !vendors.some((vendor) => String(vendor.legacy_id) === formData.vendor_id) && (
+                          <SelectItem value={formData.vendor_id}>{vendorName(formData.vendor_id)}</SelectItem>
+                        )}
+                        {vendors.map((vendor) => (
+                          <SelectItem key={vendor.legacy_id} value={String(vendor.legacy_id)}>
+                            {vendor.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">Link more vendors in Settings &gt; Vendors</p>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium text-muted-foreground">ShipHero Product</h4>
+                  <p className="text-xs text-muted-foreground">
+                    Used if the SKU has to be created in ShipHero. The SKU is checked when you save.
+                  </p>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="grid gap-2">
+                      <Label htmlFor="price">Price ($)</Label>
+                      <Input
+                        id="price"
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={formData.price}
+                        onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                        placeholder="0.00"
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="barcode">Barcode</Label>
+                      <Input
+                        id="barcode"
+                        value={formData.barcode}
+                        onChange={(e) => setFormData({ ...formData, barcode: e.target.value })}
+                        placeholder="UPC / EAN"
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-4 gap-2">
+                    {([
+                      ["weight", "Weight (lb)"],
+                      ["length", "Length (in)"],
+                      ["width", "Width (in)"],
+                      ["height", "Height (in)"],
+                    ] as const).map(([field, label]) => (
+                      <div key={field} className="grid gap-2">
+                        <Label htmlFor={field}>{label}</Label>
+                        <Input
+                          id={field}
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={formData[field]}
+                          onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+                        />
+                      </div>
+                    ))}
                   </div>
                 </div>
 
@@ -213,21 +425,22 @@ export function SwagItemsTab() {
             <TableRow>
               <TableHead>Product Name</TableHead>
               <TableHead>SKU</TableHead>
-              <TableHead>Vendor ID</TableHead>
+              <TableHead>Vendor</TableHead>
+              <TableHead>ShipHero</TableHead>
               <TableHead>Created</TableHead>
-              <TableHead className="w-[140px]">Actions</TableHead>
+              <TableHead className="w-[220px]">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {isLoading ? (
               <TableRow>
-                <TableCell colSpan={5} className="text-center py-8">
+                <TableCell colSpan={6} className="text-center py-8">
                   Loading swag items...
                 </TableCell>
               </TableRow>
             ) : swagItems.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
                   No swag items found. Add your first swag item to get started.
                 </TableCell>
               </TableRow>
@@ -236,10 +449,37 @@ export function SwagItemsTab() {
                 <TableRow key={item.id}>
                   <TableCell className="font-medium">{item.name}</TableCell>
                   <TableCell>{item.sku || '-'}</TableCell>
-                  <TableCell>{item.vendor_id || '-'}</TableCell>
+                  <TableCell className={item.vendor_id ? "" : "text-muted-foreground"}>{vendorName(item.vendor_id)}</TableCell>
+                  <TableCell>
+                    <SyncStatusBadge item={item} />
+                  </TableCell>
                   <TableCell>{new Date(item.created_at).toLocaleDateString()}</TableCell>
                   <TableCell>
                     <div className="flex gap-1">
+                      {item.sku && (
+                        item.shiphero_sync_status === "missing" ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleCreateProduct(item)}
+                            disabled={syncingItemId === item.id}
+                            title="Create this product in ShipHero"
+                          >
+                            <PackagePlus className="h-4 w-4 mr-1" />
+                            Create
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => syncProduct(item.id, item.sku!)}
+                            disabled={syncingItemId === item.id}
+                            title="Check this SKU in ShipHero"
+                          >
+                            <RefreshCw className={`h-4 w-4 ${syncingItemId === item.id ? "animate-spin" : ""}`} />
+                          </Button>
+                        )
+                      )}
                       <Button variant="outline" size="sm" onClick={() => handleEdit(item)}>
                         <Edit className="h-4 w-4 mr-1" />
                         Edit
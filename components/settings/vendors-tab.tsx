@@ -0,0 +1,309 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Plus, Link2, Unlink, RefreshCw, Star } from "lucide-react"
+import { createClient } from "@/lib/supabase/client"
+import { useToast } from "@/hooks/use-toast"
+import { getTenantConfig, saveTenantConfig } from "@/lib/tenant-config"
+import { fetchVendorList, saveShipHeroVendor } from "@/lib/shiphero/settings-client"
+import type { VendorListEntry } from "@/lib/shiphero/vendors"
+
+export function VendorsTab() {
+  const [vendors, setVendors] = useState<VendorListEntry[]>([])
+  // ShipHero has more vendors than one load returns
+  const [vendorsTruncated, setVendorsTruncated] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyVendorId, setBusyVendorId] = useState<string | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [formData, setFormData] = useState({ name: "", email: "", account_number: "" })
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchVendors()
+  }, [])
+
+  const fetchVendors = async () => {
+    setIsLoading(true)
+    try {
+      const result = await fetchVendorList()
+      setVendors(result.vendors)
+      setVendorsTruncated(result.truncated)
+    } catch (error: any) {
+      console.error("Error loading vendors:", error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load ShipHero vendors",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.name.trim() || !formData.email.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Vendor name and email are required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsCreating(true)
+    try {
+      const vendor = await saveShipHeroVendor({ action: "create", ...formData })
+      toast({ title: "Vendor Created", description: `${vendor.name} was created in ShipHero and linked` })
+      setIsDialogOpen(false)
+      setFormData({ name: "", email: "", account_number: "" })
+      fetchVendors()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create vendor",
+        variant: "destructive",
+      })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleLink = async (vendor: VendorListEntry) => {
+    setBusyVendorId(vendor.id)
+    try {
+      await saveShipHeroVendor({ action: "link", shiphero_vendor_id: vendor.id })
+      toast({ title: "Vendor Linked", description: `${vendor.name} can now be picked on swag items` })
+      fetchVendors()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to link vendor",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyVendorId(null)
+    }
+  }
+
+  const handleUnlink = async (vendor: VendorListEntry) => {
+    const warning = vendor.swag_item_count > 0
+      ? ` ${vendor.swag_item_count} swag item${vendor.swag_item_count === 1 ? " uses" : "s use"} it; their purchase orders will go to the default vendor until it is linked again.`
+      : ""
+    if (!confirm(`Unlink ${vendor.name}?${warning}`)) return
+
+    setBusyVendorId(vendor.id)
+    try {
+      const { error } = await createClient().from("vendors").delete().eq("shiphero_vendor_id", vendor.id)
+      if (error) throw error
+      toast({ title: "Vendor Unlinked", description: `${vendor.name} was unlinked` })
+      fetchVendors()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to unlink vendor",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyVendorId(null)
+    }
+  }
+
+  const handleMakeDefault = async (vendor: VendorListEntry) => {
+    setBusyVendorId(vendor.id)
+    try {
+      const { id, ...config } = await getTenantConfig()
+      await saveTenantConfig({ ...config, shiphero_vendor_id: String(vendor.legacy_id) })
+      toast({ title: "Default Vendor Set", description: `Swag items without a vendor are ordered from ${vendor.name}` })
+      fetchVendors()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to set the default vendor",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyVendorId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Vendors</h3>
+          <p className="text-sm text-muted-foreground">
+            ShipHero vendors. Link a vendor to pick it on swag items; a tour&apos;s purchase order is split by vendor.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={fetchVendors} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Create Vendor
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create Vendor</DialogTitle>
+                <DialogDescription>Creates the vendor in ShipHero and links it.</DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleCreate}>
+                <div className="grid gap-4 py-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="vendor_name">Name *</Label>
+                    <Input
+                      id="vendor_name"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      placeholder="Acme Apparel"
+                      required
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="grid gap-2">
+                      <Label htmlFor="vendor_email">Email *</Label>
+                      <Input
+                        id="vendor_email"
+                        type="email"
+                        value={formData.email}
+                        onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                        placeholder="orders@acme.com"
+                        required
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="vendor_account_number">Account Number</Label>
+                      <Input
+                        id="vendor_account_number"
+                        value={formData.account_number}
+                        onChange={(e) => setFormData({ ...formData, account_number: e.target.value })}
+                        placeholder="Optional"
+                      />
+                    </div>
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button type="submit" disabled={isCreating}>
+                    {isCreating ? "Creating..." : "Create"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      {vendorsTruncated && (
+        <div className="p-2 bg-amber-50 border border-amber-200 rounded text-sm text-amber-700">
+          Showing the first {vendors.length} vendors only; this ShipHero account has more.
+        </div>
+      )}
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Account #</TableHead>
+              <TableHead>Vendor ID</TableHead>
+              <TableHead className="text-right">Swag Items</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-[220px]">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading && vendors.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8">
+                  Loading vendors...
+                </TableCell>
+              </TableRow>
+            ) : vendors.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                  No vendors in ShipHero. Create your first vendor to get started.
+                </TableCell>
+              </TableRow>
+            ) : (
+              vendors.map((vendor) => (
+                <TableRow key={vendor.id}>
+                  <TableCell className="font-medium">{vendor.name}</TableCell>
+                  <TableCell>{vendor.email || "-"}</TableCell>
+                  <TableCell>{vendor.account_number || "-"}</TableCell>
+                  <TableCell className="font-mono text-xs">{vendor.legacy_id}</TableCell>
+                  <TableCell className="text-right">{vendor.swag_item_count}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      {vendor.is_default && <Badge>Default</Badge>}
+                      {vendor.linked ? <Badge variant="secondary">Linked</Badge> : <Badge variant="outline">Not linked</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      {vendor.linked ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleUnlink(vendor)}
+                          disabled={busyVendorId === vendor.id}
+                        >
+                          <Unlink className="h-4 w-4 mr-1" />
+                          Unlink
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleLink(vendor)}
+                          disabled={busyVendorId === vendor.id}
+                        >
+                          <Link2 className="h-4 w-4 mr-1" />
+                          Link
+                        </Button>
+                      )}
+                      {!vendor.is_default && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleMakeDefault(vendor)}
+                          disabled={busyVendorId === vendor.id}
+                        >
+                          <Star className="h-4 w-4 mr-1" />
+                          Default
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -17,9 +17,13 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog"
 import { Textarea } from "@/components/ui/textarea"
-import { Plus, Edit, Trash2 } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, Edit, Trash2, AlertTriangle, Download, RefreshCw } from "lucide-react"
 import { createClient } from "@/lib/supabase/client"
+import { validateAddress } from "@/lib/address"
 import { useToast } from "@/hooks/use-toast"
+import { fetchWarehouseImportList, importShipHeroWarehouse } from "@/lib/shiphero/settings-client"
+import type { WarehouseImportAction, WarehouseImportEntry } from "@/lib/shiphero/warehouse-sync"
 
 interface Warehouse {
   id: string
@@ -54,13 +58,53 @@ export function WarehousesTab() {
     country: "US",
     shiphero_warehouse_id: ""
   })
+  const [addressErrors, setAddressErrors] = useState<string[]>([])
+  // ShipHero warehouses with link and drift status; null until loaded or when ShipHero is unreachable
+  const [importEntries, setImportEntries] = useState<WarehouseImportEntry[] | null>(null)
+  const [isLoadingImport, setIsLoadingImport] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
   const { toast } = useToast()
   const supabase = createClient()
 
   useEffect(() => {
     fetchWarehouses()
+    fetchImportEntries()
   }, [])
 
+  const fetchImportEntries = async (showErrors = false) => {
+    setIsLoadingImport(true)
+    try {
+      setImportEntries(await fetchWarehouseImportList())
+    } catch (error: any) {
+      // Drift markers are a bonus on page load; only complain when the user asked
+      console.error("Failed to load ShipHero warehouses:", error)
+      if (showErrors) {
+        toast({
+          title: "Error",
+          description: error.message || "Failed to load ShipHero warehouses",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setIsLoadingImport(false)
+    }
+  }
+
+  const handleImportAction = async (request: WarehouseImportAction, successMessage: string) => {
+    try {
+      await importShipHeroWarehouse(request)
+      toast({ title: "Success", description: successMessage })
+      fetchWarehouses()
+      fetchImportEntries(true)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import warehouse",
+        variant: "destructive",
+      })
+    }
+  }
+
   const fetchWarehouses = async () => {
     try {
       const { data, error } = await supabase.from("warehouses").select("*").order("created_at", { ascending: false })
@@ -80,19 +124,33 @@ export function WarehousesTab() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+
+    // Store the normalized address (state and country codes) so orders never need to guess
+    const { address, errors } = validateAddress(formData)
+    setAddressErrors(errors)
+    if (errors.length > 0) {
+      toast({
+        title: "Invalid Address",
+        description: errors.join(". "),
+        variant: "destructive",
+      })
+      return
+    }
+    const warehouseData = { ...formData, ...address }
+
     setIsLoading(true)
 
     try {
       // Debug: Log the form data being submitted
-      console.log("Submitting warehouse data:", formData)
+      console.log("Submitting warehouse data:", warehouseData)
       
       if (editingWarehouse) {
-        const { data, error } = await supabase.from("warehouses").update(formData).eq("id", editingWarehouse.id).select()
+        const { data, error } = await supabase.from("warehouses").update(warehouseData).eq("id", editingWarehouse.id).select()
         console.log("Update result:", { data, error })
         if (error) throw error
         toast({ title: "Success", description: "Warehouse updated successfully" })
       } else {
-        const { data, error } = await supabase.from("warehouses").insert([formData]).select()
+        const { data, error } = await supabase.from("warehouses").insert([warehouseData]).select()
         console.log("Insert result:", { data, error })
         if (error) {
           console.error("Warehouse insert error:", error)
@@ -128,6 +186,7 @@ export function WarehousesTab() {
 
   const handleEdit = (warehouse: Warehouse) => {
     setEditingWarehouse(warehouse)
+    setAddressErrors(validateAddress(warehouse).errors)
     setFormData({
       name: warehouse.name,
       code: warehouse.code || "",
@@ -173,6 +232,7 @@ export function WarehousesTab() {
       country: "US",
       shiphero_warehouse_id: ""
     })
+    setAddressErrors([])
     setEditingWarehouse(null)
   }
 
@@ -180,152 +240,194 @@ export function WarehousesTab() {
     <div className="space-y-4">
       <div className="flex justify-between items-center">
         <h3 className="text-lg font-semibold">Warehouses</h3>
-        <Dialog
-          open={isDialogOpen}
-          onOpenChange={(open) => {
-            setIsDialogOpen(open)
-            if (!open) resetForm()
-          }}
-        >
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Warehouse
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>{editingWarehouse ? "Edit Warehouse" : "Add New Warehouse"}</DialogTitle>
-              <DialogDescription>
-                {editingWarehouse ? "Update the warehouse information." : "Add a new warehouse location."}
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleSubmit}>
-              <div className="grid gap-4 py-4">
-                {/* ShipHero Integration */}
-                <div className="space-y-4">
-                  <h4 className="text-sm font-medium text-muted-foreground">ShipHero Integration</h4>
-                  <div className="grid gap-2">
-                    <Label htmlFor="shiphero_warehouse_id">ShipHero Warehouse ID *</Label>
-                    <Input
-                      id="shiphero_warehouse_id"
-                      value={formData.shiphero_warehouse_id}
-                      onChange={(e) => setFormData({ ...formData, shiphero_warehouse_id: e.target.value })}
-                      placeholder="V2FyZWhvdXN10jExOTM0Mw=="
-                      required
-                    />
-                  </div>
-                </div>
-
-                {/* Basic Info */}
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="grid gap-2">
-                    <Label htmlFor="name">Warehouse Name *</Label>
-                    <Input
-                      id="name"
-                      value={formData.name}
-                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                      placeholder="Main Distribution Center"
-                      required
-                    />
-                  </div>
-                  <div className="grid gap-2">
-                    <Label htmlFor="code">Airport Code *</Label>
-                    <Input
-                      id="code"
-                      value={formData.code}
-                      onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
-                      placeholder="LAX"
-                      maxLength={3}
-                      required
-                    />
+        <div className="flex gap-2">
+          <Dialog
+            open={isImportOpen}
+            onOpenChange={(open) => {
+              setIsImportOpen(open)
+              if (open) fetchImportEntries(true)
+            }}
+          >
+            <DialogTrigger asChild>
+              <Button variant="outline">
+                <Download className="h-4 w-4 mr-2" />
+                Import from ShipHero
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Import from ShipHero</DialogTitle>
+                <DialogDescription>
+                  Link your ShipHero warehouses to existing warehouses or create them here. Codes come from the warehouse code mapping.
+                </DialogDescription>
+              </DialogHeader>
+              <ShipHeroImportList
+                entries={importEntries}
+                isLoading={isLoadingImport}
+                warehouses={warehouses}
+                onRefresh={() => fetchImportEntries(true)}
+                onAction={handleImportAction}
+              />
+            </DialogContent>
+          </Dialog>
+          <Dialog
+            open={isDialogOpen}
+            onOpenChange={(open) => {
+              setIsDialogOpen(open)
+              if (!open) resetForm()
+            }}
+          >
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Warehouse
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{editingWarehouse ? "Edit Warehouse" : "Add New Warehouse"}</DialogTitle>
+                <DialogDescription>
+                  {editingWarehouse ? "Update the warehouse information." : "Add a new warehouse location."}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit}>
+                <div className="grid gap-4 py-4">
+                  {/* ShipHero Integration */}
+                  <div className="space-y-4">
+                    <h4 className="text-sm font-medium text-muted-foreground">ShipHero Integration</h4>
+                    <div className="grid gap-2">
+                      <Label htmlFor="shiphero_warehouse_id">ShipHero Warehouse ID *</Label>
+                      <Input
+                        id="shiphero_warehouse_id"
+                        value={formData.shiphero_warehouse_id}
+                        onChange={(e) => setFormData({ ...formData, shiphero_warehouse_id: e.target.value })}
+                        placeholder="V2FyZWhvdXN10jExOTM0Mw=="
+                        required
+                      />
+                    </div>
                   </div>
-                </div>
 
-                {/* Address Section */}
-                <div className="space-y-4">
-                  <h4 className="text-sm font-medium text-muted-foreground">Address Information</h4>
-                  <div className="grid gap-4">
+                  {/* Basic Info */}
+                  <div className="grid grid-cols-2 gap-4">
                     <div className="grid gap-2">
-                      <Label htmlFor="address">Street Address *</Label>
+                      <Label htmlFor="name">Warehouse Name *</Label>
                       <Input
-                        id="address"
-                        value={formData.address}
-                        onChange={(e) => setFormData({ ...formData, address: e.target.value })}
-                        placeholder="123 Industrial Blvd"
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                        placeholder="Main Distribution Center"
                         required
                       />
                     </div>
                     <div className="grid gap-2">
-                      <Label htmlFor="address2">Address Line 2</Label>
+                      <Label htmlFor="code">Airport Code *</Label>
                       <Input
-                        id="address2"
-                        value={formData.address2}
-                        onChange={(e) => setFormData({ ...formData, address2: e.target.value })}
-                        placeholder="Suite 100"
+                        id="code"
+                        value={formData.code}
+                        onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                        placeholder="LAX"
+                        maxLength={3}
+                        required
                       />
                     </div>
-                    <div className="grid grid-cols-2 gap-4">
+                  </div>
+
+                  {/* Address Section */}
+                  <div className="space-y-4">
+                    <h4 className="text-sm font-medium text-muted-foreground">Address Information</h4>
+                    <div className="grid gap-4">
                       <div className="grid gap-2">
-                        <Label htmlFor="city">City *</Label>
+                        <Label htmlFor="address">Street Address *</Label>
                         <Input
-                          id="city"
-                          value={formData.city}
-                          onChange={(e) => setFormData({ ...formData, city: e.target.value })}
-                          placeholder="Los Angeles"
+                          id="address"
+                          value={formData.address}
+                          onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                          placeholder="123 Industrial Blvd"
                           required
                         />
                       </div>
                       <div className="grid gap-2">
-                        <Label htmlFor="state">State *</Label>
+                        <Label htmlFor="address2">Address Line 2</Label>
                         <Input
-                          id="state"
-                          value={formData.state}
-                          onChange={(e) => setFormData({ ...formData, state: e.target.value })}
-                          placeholder="CA"
-                          required
+                          id="address2"
+                          value={formData.address2}
+                          onChange={(e) => setFormData({ ...formData, address2: e.target.value })}
+                          placeholder="Suite 100"
                         />
                       </div>
-                    </div>
-                    <div className="grid grid-cols-2 gap-4">
-                      <div className="grid gap-2">
-                        <Label htmlFor="zip">ZIP Code *</Label>
-                        <Input
-                          id="zip"
-                          value={formData.zip}
-                          onChange={(e) => setFormData({ ...formData, zip: e.target.value })}
-                          placeholder="90210"
-                          required
-                        />
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="grid gap-2">
+                          <Label htmlFor="city">City *</Label>
+                          <Input
+                            id="city"
+                            value={formData.city}
+                            onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+                            placeholder="Los Angeles"
+                            required
+                          />
+                        </div>
+                        <div className="grid gap-2">
+                          <Label htmlFor="state">State / Province *</Label>
+                          <Input
+                            id="state"
+                            value={formData.state}
+                            onChange={(e) => setFormData({ ...formData, state: e.target.value })}
+                            placeholder="CA"
+                            required
+                          />
+                          <p className="text-xs text-muted-foreground">Code or full name, e.g. OH or Ohio</p>
+                        </div>
                       </div>
-                      <div className="grid gap-2">
-                        <Label htmlFor="country">Country *</Label>
-                        <Input
-                          id="country"
-                          value={formData.country}
-                          onChange={(e) => setFormData({ ...formData, country: e.target.value })}
-                          placeholder="US"
-                          required
-                        />
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="grid gap-2">
+                          <Label htmlFor="zip">ZIP Code *</Label>
+                          <Input
+                            id="zip"
+                            value={formData.zip}
+                            onChange={(e) => setFormData({ ...formData, zip: e.target.value })}
+                            placeholder="90210"
+                            required
+                          />
+                        </div>
+                        <div className="grid gap-2">
+                          <Label htmlFor="country">Country *</Label>
+                          <Input
+                            id="country"
+                            value={formData.country}
+                            onChange={(e) => setFormData({ ...formData, country: e.target.value })}
+                            placeholder="US"
+                            required
+                          />
+                          <p className="text-xs text-muted-foreground">ISO code or name, e.g. US, CA, MX</p>
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
 
+                  {addressErrors.length > 0 && (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800">
+                      <p className="font-medium">ShipHero will reject this address:</p>
+                      <ul className="list-disc ml-5">
+                        {addressErrors.map(error => <li key={error}>{error}</li>)}
+                      </ul>
+                    </div>
+                  )}
 
-              </div>
-              <DialogFooter>
-                <Button 
-                  type="submit" 
-                  disabled={isLoading}
-                  className={isLoading ? "cursor-wait" : ""}
-                >
-                  {isLoading ? "Saving..." : editingWarehouse ? "Update" : "Create"}
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+
+                </div>
+                <DialogFooter>
+                  <Button 
+                    type="submit" 
+                    disabled={isLoading}
+                    className={isLoading ? "cursor-wait" : ""}
+                  >
+                    {isLoading ? "Saving..." : editingWarehouse ? "Update" : "Create"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <div className="border rounded-lg overflow-hidden">
@@ -364,6 +466,22 @@ export function WarehousesTab() {
                       ? `${warehouse.city}, ${warehouse.state}` 
                       : warehouse.address || '-'
                     }
+                    {validateAddress(warehouse).errors.length > 0 && (
+                      <span className="flex items-center gap-1 text-xs text-red-600" title={validateAddress(warehouse).errors.join('\n')}>
+                        <AlertTriangle className="h-3 w-3" />
+                        Invalid address
+                      </span>
+                    )}
+                    {importEntries?.some(entry => entry.linked_warehouse?.id === warehouse.id && entry.drift.length > 0) && (
+                      <button
+                        type="button"
+                        className="flex items-center gap-1 text-xs text-amber-600 hover:underline"
+                        onClick={() => setIsImportOpen(true)}
+                      >
+                        <AlertTriangle className="h-3 w-3" />
+                        ShipHero address changed
+                      </button>
+                    )}
                   </TableCell>
                   <TableCell className="font-mono text-xs">{warehouse.shiphero_warehouse_id || '-'}</TableCell>
                   <TableCell>{new Date(warehouse.created_at).toLocaleDateString()}</TableCell>
@@ -389,3 +507,168 @@ export function WarehousesTab() {
     </div>
   )
 }
+
+function ShipHeroImportList({
+  entries,
+  isLoading,
+  warehouses,
+  onRefresh,
+  onAction,
+}: {
+  entries: WarehouseImportEntry[] | null
+  isLoading: boolean
+  warehouses: Warehouse[]
+  onRefresh: () => void
+  onAction: (request: WarehouseImportAction, successMessage: string) => Promise<void>
+}) {
+  const [linkTargets, setLinkTargets] = useState<Record<string, string>>({})
+  const [codes, setCodes] = useState<Record<string, string>>({})
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const run = async (shipheroId: string, request: WarehouseImportAction, successMessage: string) => {
+    setBusyId(shipheroId)
+    try {
+      await onAction(request, successMessage)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  // Only warehouses without a ShipHero link can be linked
+  const unlinkedWarehouses = warehouses.filter(warehouse => !warehouse.shiphero_warehouse_id)
+
+  if (!entries) {
+    return <div className="py-8 text-center text-muted-foreground">{isLoading ? "Loading ShipHero warehouses..." : "ShipHero warehouses could not be loaded."}</div>
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={onRefresh} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+      {entries.length === 0 && (
+        <div className="py-8 text-center text-muted-foreground">No warehouses in this ShipHero account.</div>
+      )}
+      {entries.map(entry => {
+        const { shiphero } = entry
+        const busy = busyId === shiphero.id
+        return (
+          <div key={shiphero.id} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="font-medium">
+                  {shiphero.identifier}
+                  {entry.code && <span className="ml-2 text-xs text-muted-foreground">{entry.code}</span>}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {[shiphero.address.address, shiphero.address.address2, shiphero.address.city, shiphero.address.state, shiphero.address.zip, shiphero.address.country].filter(Boolean).join(", ")}
+                </div>
+                <div className="text-xs font-mono text-muted-foreground">{shiphero.id}</div>
+              </div>
+              {entry.linked_warehouse && (
+                <span className="text-sm text-green-700 whitespace-nowrap">Linked to {entry.linked_warehouse.name}</span>
+              )}
+            </div>
+
+            {entry.linked_warehouse && entry.drift.length > 0 && (
+              <div className="p-2 bg-amber-50 border border-amber-200 rounded text-sm space-y-2">
+                <p className="font-medium text-amber-800">The ShipHero address has changed since it was last synced</p>
+                <ul className="text-xs text-amber-900">
+                  {entry.drift.map(drift => (
+                    <li key={drift.field}>
+                      {drift.field}: {drift.synced || "(empty)"} → {drift.shiphero || "(empty)"}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={busy}
+                    onClick={() => run(shiphero.id, { action: "apply_address", shiphero_warehouse_id: shiphero.id }, `Updated the address of ${entry.linked_warehouse?.name}`)}
+                  >
+                    Use ShipHero Address
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busy}
+                    onClick={() => run(shiphero.id, { action: "acknowledge", shiphero_warehouse_id: shiphero.id }, `Kept the address of ${entry.linked_warehouse?.name}`)}
+                  >
+                    Keep Ours
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {!entry.linked_warehouse && (
+              <>
+                {entry.address_errors.length > 0 && (
+                  <p className="text-xs text-red-600">
+                    Fix the address in ShipHero before creating this warehouse: {entry.address_errors.join("; ")}
+                  </p>
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                  <Input
+                    className="w-24 h-9"
+                    aria-label={`Airport code for ${shiphero.identifier}`}
+                    placeholder="Code"
+                    maxLength={3}
+                    value={codes[shiphero.id] ?? entry.code ?? ""}
+                    onChange={(e) => setCodes({ ...codes, [shiphero.id]: e.target.value.toUpperCase() })}
+                  />
+                  <Button
+                    size="sm"
+                    disabled={busy || entry.address_errors.length > 0}
+                    onClick={() => run(
+                      shiphero.id,
+                      { action: "create", shiphero_warehouse_id: shiphero.id, code: codes[shiphero.id] ?? entry.code ?? "" },
+                      `Created ${shiphero.identifier}`
+                    )}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Create
+                  </Button>
+                  {unlinkedWarehouses.length > 0 && (
+                    <>
+                      <span className="text-sm text-muted-foreground">or link to</span>
+                      <Select
+                        value={linkTargets[shiphero.id] || ""}
+                        onValueChange={(value) => setLinkTargets({ ...linkTargets, [shiphero.id]: value })}
+                      >
+                        <SelectTrigger className="w-56 h-9">
+                          <SelectValue placeholder="Existing warehouse" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {unlinkedWarehouses.map(warehouse => (
+                            <SelectItem key={warehouse.id} value={warehouse.id}>
+                              {warehouse.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busy || !linkTargets[shiphero.id]}
+                        onClick={() => run(
+                          shiphero.id,
+                          { action: "link", shiphero_warehouse_id: shiphero.id, warehouse_id: linkTargets[shiphero.id] },
+                          `Linked ${shiphero.identifier}`
+                        )}
+                      >
+                        Link
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertTriangle, CheckCircle } from "lucide-react"
+import { formatTourReference } from "@/lib/shiphero/naming-utils"
+import type { StockCheckResult } from "@/lib/shiphero/stock-check"
+
+// Per-SKU result of a stock check, shared by the schedule form and the tour details sheet
+export function StockCheckTable({ result }: { result: StockCheckResult }) {
+  const shortfalls = result.lines.filter((line) => line.shortfall > 0)
+
+  return (
+    <div className="space-y-2">
+      {shortfalls.length > 0 ? (
+        <div className="flex items-center gap-2 text-sm text-red-700">
+          <AlertTriangle className="h-4 w-4" />
+          Short of {shortfalls.length} SKU{shortfalls.length === 1 ? "" : "s"} at this warehouse
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle className="h-4 w-4" />
+          Enough stock for every SKU
+        </div>
+      )}
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-right">Needed</TableHead>
+              <TableHead className="text-right">Other Tours</TableHead>
+              <TableHead className="text-right">Available</TableHead>
+              <TableHead className="text-right">On PO</TableHead>
+              <TableHead className="text-right">Short</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {result.lines.map((line) => (
+              <TableRow key={line.sku} className={line.shortfall > 0 ? "bg-red-50" : ""}>
+                <TableCell>
+                  <div className="font-medium">{line.name}</div>
+                  <div className="text-xs text-muted-foreground font-mono">{line.sku}</div>
+                </TableCell>
+                <TableCell className="text-right">{line.required}</TableCell>
+                <TableCell className="text-right">{line.committed}</TableCell>
+                <TableCell className="text-right">{line.available}</TableCell>
+                <TableCell className="text-right">{line.incoming || "-"}</TableCell>
+                <TableCell className={`text-right ${line.shortfall > 0 ? "font-medium text-red-700" : ""}`}>
+                  {line.shortfall || "-"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {result.committed_tours.length > 0
+          ? `Other Tours counts ${result.committed_tours.length} upcoming tour${result.committed_tours.length === 1 ? "" : "s"} at this warehouse: ${result.committed_tours.map((tour) => formatTourReference(tour.tour_numeric_id)).join(", ")}.`
+          : "No other upcoming tours at this warehouse."}{" "}
+        Checked {new Date(result.checked_at).toLocaleTimeString()}.
+      </p>
+    </div>
+  )
+}
@@ -7,13 +7,32 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
 import { Badge } from "@/components/ui/badge"
-import { Eye, Search, Calendar, MapPin, Users, Package, ChevronLeft, ChevronRight, ShoppingCart, FileText, X, CheckCircle, ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react"
+import { Textarea } from "@/components/ui/textarea"
+import { Eye, Search, Calendar, MapPin, Users, Package, ChevronLeft, ChevronRight, ShoppingCart, FileText, X, CheckCircle, ArrowUpDown, ArrowUp, ArrowDown, RefreshCw, AlertTriangle, BookOpen, Edit, Download, Printer, Plus } from "lucide-react"
 import { createClient } from "@/lib/supabase/client"
 import { useToast } from "@/hooks/use-toast"
-import { ShipHeroOrderService } from "@/lib/shiphero/order-service"
+import { streamTourFinalization } from "@/lib/shiphero/finalization-client"
+import {
+  createTourOrders,
+  cancelTourWithOrders,
+  syncTourStatus,
+  generateTourInstructionGuide,
+  saveTourInstructionGuide,
+  checkTourStock,
+} from "@/lib/shiphero/tour-client"
+import { instructionGuideToHtml } from "@/lib/shiphero/instruction-guide"
+import type { FinalizationStep, RollbackEntry } from "@/lib/shiphero/finalization-job"
+import type { OrderCancellation } from "@/lib/shiphero/tour-cancellation"
+import type { SalesOrderSummary, TourOrderSummary } from "@/lib/shiphero/order-summary"
+import type { StockCheckResult } from "@/lib/shiphero/stock-check"
+import { getWorkflow } from "@/lib/shiphero/workflows"
+import { formatTourReference } from "@/lib/shiphero/naming-utils"
+import { validateAddress } from "@/lib/address"
+import { StockCheckTable } from "@/components/stock-check-table"
 
 interface Tour {
   id: string
+  tour_numeric_id: number
   date: string
   time: string
 
@@ -22,6 +41,18 @@ interface Tour {
   shiphero_purchase_order_id?: string
   shiphero_purchase_order_number?: string
   shiphero_purchase_order_url?: string
+  shiphero_purchase_order_status?: string
+  host_shiphero_sales_order_number?: string
+  host_shiphero_sales_order_url?: string
+  host_shiphero_fulfillment_status?: string
+  host_shiphero_status_updated_at?: string
+  order_summary?: TourOrderSummary | null
+  selected_workflows?: string[] | null
+  selected_skus?: string[] | null
+  sku_quantities?: Record<string, number> | null
+  po_extra_quantities?: Record<string, number> | null
+  instruction_guide?: string | null
+  instruction_guide_generated_at?: string | null
   warehouse: {
     id: string
     name: string
@@ -49,12 +80,30 @@ interface Tour {
     shiphero_sales_order_id?: string
     shiphero_sales_order_number?: string
     shiphero_sales_order_url?: string
+    shiphero_fulfillment_status?: string
+    shiphero_status_updated_at?: string
   }>
   // Removed swag_allocations - swag items will be added manually
 }
 
 const ITEMS_PER_PAGE = 10
 
+// Check stock before finalizing and let the host back out when SKUs are short
+async function confirmFinalizeStock(tourId: string): Promise<boolean> {
+  try {
+    const result = await checkTourStock(tourId)
+    const shortfalls = result.lines.filter((line) => line.shortfall > 0)
+    if (shortfalls.length === 0) return true
+    return confirm(
+      `ShipHero stock is short for this tour:\n${shortfalls.map((line) => `- ${line.shortfall} x ${line.sku} (${line.name})`).join("\n")}\n\n` +
+      'Open the tour details to adjust the kit or add the shortfall to the PO. Finalize anyway?'
+    )
+  } catch (error: any) {
+    console.error('Stock check failed:', error)
+    return confirm(`Stock could not be checked in ShipHero: ${error.message}. Finalize anyway?`)
+  }
+}
+
 export function ViewToursPage() {
   const [tours, setTours] = useState<Tour[]>([])
   const [filteredTours, setFilteredTours] = useState<Tour[]>([])
@@ -64,6 +113,7 @@ export function ViewToursPage() {
   const [currentPage, setCurrentPage] = useState(1)
   const [isFinalizingTour, setIsFinalizingTour] = useState(false)
   const [finalizingTourId, setFinalizingTourId] = useState<string | null>(null)
+  const [finalizeProgress, setFinalizeProgress] = useState<{ completed: number; total: number } | null>(null)
   const [cancellingTourId, setCancellingTourId] = useState<string | null>(null)
   const [showCancelled, setShowCancelled] = useState(false)
   const [sortField, setSortField] = useState<string>('date')
@@ -80,8 +130,11 @@ export function ViewToursPage() {
     if (!searchTerm.trim()) {
       setFilteredTours(tours)
     } else {
+      // "#123456", "Tour #123456" and "123456" all find a tour by its reference
+      const reference = searchTerm.trim().replace(/^(tour\s*)?#?\s*/i, '')
       const filtered = tours.filter(
         (tour) =>
+          (/^\d+$/.test(reference) && String(tour.tour_numeric_id).includes(reference)) ||
           tour.warehouse.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
           tour.participants.some(
             (p) =>
@@ -149,6 +202,7 @@ export function ViewToursPage() {
         .select(
           `
           id,
+          tour_numeric_id,
           date,
           time,
           status,
@@ -156,9 +210,21 @@ export function ViewToursPage() {
           shiphero_purchase_order_id,
           shiphero_purchase_order_number,
           shiphero_purchase_order_url,
+          shiphero_purchase_order_status,
+          host_shiphero_sales_order_number,
+          host_shiphero_sales_order_url,
+          host_shiphero_fulfillment_status,
+          host_shiphero_status_updated_at,
+          order_summary,
+          selected_workflows,
+          selected_skus,
+          sku_quantities,
+          po_extra_quantities,
+          instruction_guide,
+          instruction_guide_generated_at,
           warehouse:warehouses(id, name, code, address, address2, city, state, zip, country),
           host:team_members(id, first_name, last_name, email),
-          participants:tour_participants(id, first_name, last_name, email, company, title, shiphero_sales_order_id, shiphero_sales_order_number, shiphero_sales_order_url)
+          participants:tour_participants(id, first_name, last_name, email, company, title, shiphero_sales_order_id, shiphero_sales_order_number, shiphero_sales_order_url, shiphero_fulfillment_status, shiphero_status_updated_at)
         `,
         )
 
@@ -197,7 +263,7 @@ export function ViewToursPage() {
   const handleCancelTour = async (tourId: string) => {
     if (cancellingTourId === tourId) return // Prevent double-clicks
     
-    if (!confirm('Are you sure you want to cancel this tour? This action cannot be undone.')) {
+    if (!confirm('Are you sure you want to cancel this tour? Its ShipHero sales orders and purchase order will be cancelled too. This action cannot be undone.')) {
       return
     }
 
@@ -213,35 +279,38 @@ export function ViewToursPage() {
     )
 
     try {
-      // Update tour status to cancelled
-      const { error: updateError } = await supabase
-        .from('tours')
-        .update({ status: 'cancelled' })
-        .eq('id', tourId)
+      // Cancels the tour and every linked ShipHero order on the server
+      const { cancellations, failed, save_errors } = await cancelTourWithOrders(tourId)
 
-      if (updateError) {
-        throw updateError
+      if (failed.length > 0) {
+        toast({
+          title: "Tour Cancelled with Errors",
+          description: `Could not cancel in ShipHero: ${failed.map(c => c.order_number || c.label).join(', ')}. Open the tour details to retry.`,
+          variant: "destructive",
+        })
+      } else if (save_errors.length > 0) {
+        toast({
+          title: "Tour Cancelled with Errors",
+          description: `The ShipHero orders were processed, but the results could not all be saved: ${save_errors.join('; ')}`,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Tour Cancelled",
+          description: cancellations.length > 0
+            ? `The tour and ${cancellations.length} ShipHero order${cancellations.length !== 1 ? 's' : ''} have been cancelled`
+            : "The tour has been cancelled successfully",
+        })
       }
-
-      toast({
-        title: "Tour Cancelled",
-        description: "The tour has been cancelled successfully",
-      })
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error cancelling tour:', error)
-      
-      // Revert optimistic update on error
-      setTours(prevTours => 
-        prevTours.map(tour => 
-          tour.id === tourId 
-            ? { ...tour, status: 'scheduled' } // Revert to original status
-            : tour
-        )
-      )
-      
+
+      // The server may have cancelled the tour and some of its orders before failing; show what it has
+      fetchTours()
+
       toast({
         title: "Error",
-        description: "Failed to cancel tour",
+        description: error.message || "Failed to cancel tour",
         variant: "destructive",
       })
     } finally {
@@ -250,34 +319,23 @@ export function ViewToursPage() {
   }
 
   const handleFinalizeTour = async (tourId: string) => {
+    if (!(await confirmFinalizeStock(tourId))) return
+
     setIsFinalizingTour(true)
     setFinalizingTourId(tourId)
     try {
       console.log(`Finalizing tour with ID: ${tourId}`)
-      // Order service handles token management internally
-      const orderService = new ShipHeroOrderService()
-      
-      // Create sales orders for all participants + host
-      const salesResult = await orderService.createSalesOrdersForTour(tourId)
-      
-      if (!salesResult.success) {
-        throw new Error(`Sales orders failed: ${salesResult.message}`)
-      }
-
-      // Create aggregated purchase order
-      const poResult = await orderService.createPurchaseOrderForTour(tourId)
-      
-      if (!poResult.success) {
-        throw new Error(`Purchase order failed: ${poResult.message}`)
-      }
-
-      // Update tour status to finalized
-      const { error: updateError } = await supabase
-        .from('tours')
-        .update({ status: 'finalized' })
-        .eq('id', tourId)
-
-      if (updateError) throw updateError
+      // The job runs on the server; closing the tab does not stop it and retrying resumes it
+      const job = await streamTourFinalization(tourId, (event) => {
+        if (event.type === 'job') {
+          setFinalizeProgress({
+            completed: event.job.steps.filter(s => s.status === 'completed').length,
+            total: event.job.steps.length
+          })
+        } else if (event.type === 'step' && event.step.status === 'completed') {
+          setFinalizeProgress(prev => prev ? { ...prev, completed: prev.completed + 1 } : prev)
+        }
+      })
 
       // Update local state instead of refetching all tours
       setTours(prevTours => 
@@ -290,19 +348,21 @@ export function ViewToursPage() {
 
       toast({
         title: "🎉 Tour Finalized Successfully!",
-        description: `Created ${salesResult.ordersCreated} sales orders and 1 purchase order. Tour is now finalized.`,
+        description: `Completed ${job.steps.length} order steps in ShipHero. Tour is now finalized.`,
       })
 
     } catch (error: any) {
       console.error('Tour finalization error:', error)
       toast({
         title: "Tour Finalization Failed",
-        description: error.message || "Failed to finalize tour. Please try again.",
+        description: `${error.message || "Failed to finalize tour."} Retry to resume from the last completed order.`,
         variant: "destructive",
       })
+      fetchTours()
     } finally {
       setIsFinalizingTour(false)
       setFinalizingTourId(null)
+      setFinalizeProgress(null)
     }
   }
 
@@ -365,7 +425,7 @@ export function ViewToursPage() {
             <div className="relative flex-1 max-w-sm">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search by warehouse or participant..."
+                placeholder="Search by tour #, warehouse or participant..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10"
@@ -417,6 +477,7 @@ export function ViewToursPage() {
                         <div>
                           <div className="font-medium">{formatDate(tour.date)}</div>
                           <div className="text-sm text-muted-foreground">{formatTime(tour.time)}</div>
+                          <div className="text-xs text-muted-foreground font-mono">{formatTourReference(tour.tour_numeric_id)}</div>
                         </div>
                       </TableCell>
                       <TableCell>
@@ -461,7 +522,7 @@ export function ViewToursPage() {
                       <TableCell>
                         <Badge variant="outline" className="flex items-center gap-1 w-fit">
                           <Package className="h-3 w-3" />
-                          Manual
+                          {tour.selected_skus ? `${tour.selected_skus.length} SKU${tour.selected_skus.length === 1 ? "" : "s"}` : "All"}
                         </Badge>
                       </TableCell>
                       <TableCell>
@@ -480,13 +541,24 @@ export function ViewToursPage() {
                               variant="default" 
                               size="sm" 
                               onClick={() => handleFinalizeTour(tour.id)}
-                              disabled={isFinalizingTour && (finalizingTourId === tour.id || finalizingTourId === null)}
+                              disabled={(isFinalizingTour && (finalizingTourId === tour.id || finalizingTourId === null)) || validateAddress(tour.warehouse).errors.length > 0}
                               className={`w-full bg-blue-600 hover:bg-blue-700 ${isFinalizingTour && finalizingTourId === tour.id ? 'cursor-wait' : ''}`}
                             >
                               <ShoppingCart className="h-4 w-4 mr-2" />
-                              {isFinalizingTour ? 'Finalizing...' : 'Finalize Tour'}
+                              {isFinalizingTour && finalizingTourId === tour.id
+                                ? finalizeProgress ? `Finalizing ${finalizeProgress.completed}/${finalizeProgress.total}...` : 'Finalizing...'
+                                : 'Finalize Tour'}
                             </Button>
                           )}
+                          {tour.status === 'scheduled' && validateAddress(tour.warehouse).errors.length > 0 && (
+                            <span
+                              className="flex items-center gap-1 text-xs text-red-600"
+                              title={validateAddress(tour.warehouse).errors.join('\n')}
+                            >
+                              <AlertTriangle className="h-3 w-3" />
+                              Invalid warehouse address
+                            </span>
+                          )}
                           
                           {/* Secondary Actions */}
                           <div className="flex items-center gap-1">
@@ -575,10 +647,88 @@ export function ViewToursPage() {
 function TourDetailsSheet({ tour }: { tour: Tour }) {
   const [isCreatingOrders, setIsCreatingOrders] = useState(false)
   const [isCreatingPO, setIsCreatingPO] = useState(false)
-  const [isValidatingTour, setIsValidatingTour] = useState(false)
+  const [isFinalizingTour, setIsFinalizingTour] = useState(false)
+  const [finalizationSteps, setFinalizationSteps] = useState<FinalizationStep[]>([])
+  const [rollbackOnFailure, setRollbackOnFailure] = useState(false)
+  const [rollbackReport, setRollbackReport] = useState<RollbackEntry[] | null>(null)
   const [isCancellingTour, setIsCancellingTour] = useState(false)
+  const [cancellations, setCancellations] = useState<OrderCancellation[]>([])
+  const [isCancelled, setIsCancelled] = useState(tour.status === 'cancelled')
+  // Finalization refuses invalid warehouse addresses; show why before the host tries
+  const addressErrors = validateAddress(tour.warehouse).errors
+  // Copy of the tour kept current with ShipHero webhook updates
+  const [liveTour, setLiveTour] = useState<Tour>(tour)
+  const [isSyncingStatus, setIsSyncingStatus] = useState(false)
+  const [isGeneratingGuide, setIsGeneratingGuide] = useState(false)
+  const [isSavingGuide, setIsSavingGuide] = useState(false)
+  const [guideDraft, setGuideDraft] = useState<string | null>(null)
+  const [stockCheck, setStockCheck] = useState<StockCheckResult | null>(null)
+  const [isCheckingStock, setIsCheckingStock] = useState(false)
+  // Per-SKU kit quantities being edited after a shortfall; null when not editing
+  const [kitDraft, setKitDraft] = useState<Record<string, number> | null>(null)
+  const [isSavingKit, setIsSavingKit] = useState(false)
   const { toast } = useToast()
 
+  useEffect(() => {
+    setLiveTour(tour)
+    const supabase = createClient()
+
+    const channel = supabase
+      .channel(`tour-order-status-${tour.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'tour_participants', filter: `tour_id=eq.${tour.id}` },
+        (payload) => {
+          const updated = payload.new as Tour['participants'][number]
+          setLiveTour(prev => ({
+            ...prev,
+            participants: prev.participants.map(p => p.id === updated.id ? { ...p, ...updated } : p)
+          }))
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'tours', filter: `id=eq.${tour.id}` },
+        (payload) => {
+          const updated = payload.new as Partial<Tour>
+          setLiveTour(prev => ({
+            ...prev,
+            order_summary: updated.order_summary,
+            shiphero_purchase_order_status: updated.shiphero_purchase_order_status,
+            host_shiphero_sales_order_number: updated.host_shiphero_sales_order_number,
+            host_shiphero_sales_order_url: updated.host_shiphero_sales_order_url,
+            host_shiphero_fulfillment_status: updated.host_shiphero_fulfillment_status,
+            host_shiphero_status_updated_at: updated.host_shiphero_status_updated_at,
+            instruction_guide: updated.instruction_guide,
+            instruction_guide_generated_at: updated.instruction_guide_generated_at
+          }))
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [tour])
+
+  useEffect(() => {
+    // Show progress of an earlier (possibly interrupted) finalization run
+    fetch(`/api/tours/${tour.id}/finalize`)
+      .then(response => response.ok ? response.json() : null)
+      .then(result => {
+        setFinalizationSteps(result?.job?.steps || [])
+        setRollbackReport(result?.job?.rollback_report || null)
+      })
+      .catch(error => console.error('Failed to load finalization job:', error))
+
+    if (isCancelled) {
+      fetch(`/api/tours/${tour.id}/cancel`)
+        .then(response => response.ok ? response.json() : null)
+        .then(result => setCancellations(result?.cancellations || []))
+        .catch(error => console.error('Failed to load order cancellations:', error))
+    }
+  }, [tour.id, isCancelled])
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       weekday: "long",
@@ -599,8 +749,7 @@ function TourDetailsSheet({ tour }: { tour: Tour }) {
   const handleCreateSalesOrders = async () => {
     setIsCreatingOrders(true)
     try {
-      const orderService = new ShipHeroOrderService()
-      const result = await orderService.createSalesOrdersForTour(tour.id)
+      const result = await createTourOrders(tour.id, 'sales_orders')
       
       if (result.success) {
         toast({
@@ -628,8 +777,7 @@ function TourDetailsSheet({ tour }: { tour: Tour }) {
   const handleCreatePurchaseOrder = async () => {
     setIsCreatingPO(true)
     try {
-      const orderService = new ShipHeroOrderService()
-      const result = await orderService.createPurchaseOrderForTour(tour.id)
+      const result = await createTourOrders(tour.id, 'purchase_order')
       
       if (result.success) {
         toast({
@@ -654,81 +802,268 @@ function TourDetailsSheet({ tour }: { tour: Tour }) {
     }
   }
 
-  const handleValidateTour = async () => {
-    setIsValidatingTour(true)
+  const handleFinalizeTour = async () => {
+    if (!(await confirmFinalizeStock(tour.id))) return
+
+    setIsFinalizingTour(true)
+    setRollbackReport(null)
     try {
-      const supabase = createClient()
-      
-      // Update tour status to validated
-      const { error: updateError } = await supabase
+      const job = await streamTourFinalization(tour.id, (event) => {
+        if (event.type === 'job') {
+          setFinalizationSteps(event.job.steps)
+        } else if (event.type === 'step') {
+          setFinalizationSteps(prev => prev.map(s => s.id === event.step.id ? event.step : s))
+        } else if (event.type === 'rollback') {
+          setRollbackReport(event.report)
+        }
+      }, { rollbackOnFailure })
+
+      toast({
+        title: "Tour Finalized Successfully!",
+        description: `Completed ${job.steps.length} order steps in ShipHero`,
+      })
+    } catch (error: any) {
+      console.error('Error finalizing tour:', error)
+      toast({
+        title: "Tour Finalization Failed",
+        description: `${error.message || "Failed to finalize tour."} Retry to resume from the last completed order.`,
+        variant: "destructive",
+      })
+    } finally {
+      setIsFinalizingTour(false)
+    }
+  }
+
+  const handleCheckStock = async () => {
+    setIsCheckingStock(true)
+    try {
+      setStockCheck(await checkTourStock(tour.id))
+    } catch (error: any) {
+      toast({
+        title: "Stock Check Failed",
+        description: error.message || "Failed to check stock in ShipHero",
+        variant: "destructive",
+      })
+    } finally {
+      setIsCheckingStock(false)
+    }
+  }
+
+  // Save the edited kit; a quantity of 0 drops the SKU from the kit
+  const handleSaveKit = async () => {
+    if (!kitDraft) return
+    const selectedSkus = Object.keys(kitDraft).filter((sku) => kitDraft[sku] > 0)
+    if (selectedSkus.length === 0 && !liveTour.selected_workflows?.length) {
+      toast({
+        title: "Error",
+        description: "Keep at least one SKU in the swag kit",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSavingKit(true)
+    try {
+      const skuQuantities = Object.fromEntries(selectedSkus.map((sku) => [sku, kitDraft[sku]]))
+      const { error } = await createClient()
         .from('tours')
-        .update({ status: 'validated' })
+        .update({ selected_skus: selectedSkus, sku_quantities: skuQuantities })
         .eq('id', tour.id)
+      if (error) throw new Error(error.message)
 
-      if (updateError) {
-        throw updateError
-      }
+      setLiveTour(prev => ({ ...prev, selected_skus: selectedSkus, sku_quantities: skuQuantities }))
+      setKitDraft(null)
+      toast({ title: "Swag Kit Updated", description: "Re-checking stock" })
+      await handleCheckStock()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the swag kit",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSavingKit(false)
+    }
+  }
 
-      // Create both sales orders and purchase order
-      const orderService = new ShipHeroOrderService()
-      const [salesResult, poResult] = await Promise.all([
-        orderService.createSalesOrdersForTour(tour.id),
-        orderService.createPurchaseOrderForTour(tour.id)
-      ])
+  // Add every current shortfall to the units the tour's PO will order
+  const handleRaisePO = async () => {
+    if (!stockCheck) return
+    const extras = { ...(liveTour.po_extra_quantities || {}) }
+    for (const line of stockCheck.lines.filter((line) => line.shortfall > 0)) {
+      extras[line.sku] = (extras[line.sku] || 0) + line.shortfall
+    }
 
-      if (salesResult.success && poResult.success) {
-        toast({
-          title: "Tour Validated Successfully!",
-          description: `Created ${salesResult.ordersCreated} sales orders and 1 purchase order`,
-        })
-      } else {
-        const errors = [...(salesResult.errors || []), ...(poResult.errors || [])]
+    setIsSavingKit(true)
+    try {
+      const { error } = await createClient()
+        .from('tours')
+        .update({ po_extra_quantities: extras })
+        .eq('id', tour.id)
+      if (error) throw new Error(error.message)
+
+      setLiveTour(prev => ({ ...prev, po_extra_quantities: extras }))
+      toast({ title: "Purchase Order Raised", description: "The shortfall will be added to the tour's purchase order" })
+      await handleCheckStock()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to raise the purchase order",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSavingKit(false)
+    }
+  }
+
+  const handleSyncStatus = async () => {
+    setIsSyncingStatus(true)
+    try {
+      const result = await syncTourStatus(tour.id)
+      setLiveTour(prev => ({
+        ...prev,
+        order_summary: { ...(prev.order_summary || {}), last_reconciled_at: result.reconciled_at, drift: result.drift }
+      }))
+
+      if (result.save_errors.length > 0) {
         toast({
-          title: "Tour Validated with Errors",
-          description: `Tour validated but some orders failed: ${errors.join(', ')}`,
+          title: "Order Status Not Saved",
+          description: `Could not save the status of ${result.save_errors.length} order${result.save_errors.length !== 1 ? 's' : ''}. Sync again to retry.`,
           variant: "destructive",
         })
+        return
       }
-    } catch (error) {
-      console.error('Error validating tour:', error)
+
+      toast({
+        title: result.drift.length > 0 ? "Order Drift Detected" : "Order Status Synced",
+        description: result.drift.length > 0
+          ? `${result.drift.length} issue${result.drift.length !== 1 ? 's' : ''} found across ${result.orders_checked} ShipHero orders`
+          : `${result.orders_checked} ShipHero orders match`,
+        variant: result.drift.length > 0 ? "destructive" : "default",
+      })
+    } catch (error: any) {
+      console.error('Error syncing order status:', error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sync order status",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSyncingStatus(false)
+    }
+  }
+
+  const handleGenerateGuide = async () => {
+    if (liveTour.instruction_guide && !confirm('Regenerate the instruction guide? Any edits will be replaced.')) return
+
+    setIsGeneratingGuide(true)
+    try {
+      const guide = await generateTourInstructionGuide(tour.id)
+      setLiveTour(prev => ({ ...prev, ...guide }))
+      setGuideDraft(null)
+      toast({ title: "Instruction Guide Generated", description: "The host guide reflects the tour's current orders" })
+    } catch (error: any) {
+      console.error('Error generating instruction guide:', error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate instruction guide",
+        variant: "destructive",
+      })
+    } finally {
+      setIsGeneratingGuide(false)
+    }
+  }
+
+  const handleSaveGuide = async () => {
+    if (guideDraft === null) return
+
+    setIsSavingGuide(true)
+    try {
+      await saveTourInstructionGuide(tour.id, guideDraft)
+      setLiveTour(prev => ({ ...prev, instruction_guide: guideDraft }))
+      setGuideDraft(null)
+      toast({ title: "Instruction Guide Saved", description: "Your edits have been saved" })
+    } catch (error: any) {
+      console.error('Error saving instruction guide:', error)
       toast({
         title: "Error",
-        description: "Failed to validate tour",
+        description: error.message || "Failed to save instruction guide",
         variant: "destructive",
       })
     } finally {
-      setIsValidatingTour(false)
+      setIsSavingGuide(false)
+    }
+  }
+
+  const guideTitle = `${tour.warehouse.name} tour ${tour.date} - instruction guide`
+
+  const handleDownloadGuide = () => {
+    if (!liveTour.instruction_guide) return
+
+    const html = instructionGuideToHtml(liveTour.instruction_guide, guideTitle)
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${guideTitle.replace(/[^a-zA-Z0-9-]+/g, '-').toLowerCase()}.html`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Opens the printable guide; the browser's print dialog can also save it as PDF
+  const handlePrintGuide = () => {
+    if (!liveTour.instruction_guide) return
+
+    const printWindow = window.open('', '_blank')
+    if (!printWindow) {
+      toast({ title: "Error", description: "Allow pop-ups to print the guide", variant: "destructive" })
+      return
     }
+    printWindow.document.write(instructionGuideToHtml(liveTour.instruction_guide, guideTitle))
+    printWindow.document.close()
+    printWindow.focus()
+    printWindow.print()
   }
 
-  const handleCancelTour = async () => {
-    if (!confirm('Are you sure you want to cancel this tour? This action cannot be undone.')) {
+  // `retry` re-attempts only the ShipHero cancellations that failed last time
+  const handleCancelTour = async (retry = false) => {
+    if (!retry && !confirm('Are you sure you want to cancel this tour? Its ShipHero sales orders and purchase order will be cancelled too. This action cannot be undone.')) {
       return
     }
 
     setIsCancellingTour(true)
     try {
-      const supabase = createClient()
-      
-      // Update tour status to cancelled
-      const { error: updateError } = await supabase
-        .from('tours')
-        .update({ status: 'cancelled' })
-        .eq('id', tour.id)
+      const { cancellations, failed, save_errors } = await cancelTourWithOrders(tour.id)
+      setCancellations(cancellations)
+      setIsCancelled(true)
 
-      if (updateError) {
-        throw updateError
+      if (failed.length > 0) {
+        toast({
+          title: "Tour Cancelled with Errors",
+          description: `${failed.length} ShipHero order${failed.length !== 1 ? 's' : ''} could not be cancelled`,
+          variant: "destructive",
+        })
+      } else if (save_errors.length > 0) {
+        toast({
+          title: "Tour Cancelled with Errors",
+          description: `The ShipHero orders were processed, but the results could not all be saved: ${save_errors.join('; ')}`,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Tour Cancelled",
+          description: "The tour and its ShipHero orders have been cancelled successfully",
+        })
       }
-
-      toast({
-        title: "Tour Cancelled",
-        description: "The tour has been cancelled successfully",
-      })
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error cancelling tour:', error)
+
+      // The server may have cancelled the tour before failing; offer the retry if it did
+      const { data } = await createClient().from('tours').select('status').eq('id', tour.id).single()
+      setIsCancelled(data?.status === 'cancelled')
+
       toast({
         title: "Error",
-        description: "Failed to cancel tour",
+        description: error.message || "Failed to cancel tour",
         variant: "destructive",
       })
     } finally {
@@ -736,10 +1071,12 @@ function TourDetailsSheet({ tour }: { tour: Tour }) {
     }
   }
 
+  const orderSummary = orderSummaryFor(liveTour)
+
   return (
     <div className="space-y-6">
       <SheetHeader>
-        <SheetTitle>Tour Details</SheetTitle>
+        <SheetTitle>{formatTourReference(tour.tour_numeric_id)}</SheetTitle>
         <SheetDescription>View complete information about this warehouse tour</SheetDescription>
       </SheetHeader>
 
@@ -785,6 +1122,16 @@ function TourDetailsSheet({ tour }: { tour: Tour }) {
               <p className="text-sm text-muted-foreground">{tour.host.email}</p>
             </div>
           )}
+          {tour.selected_workflows && tour.selected_workflows.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Workflows</p>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {tour.selected_workflows.map((workflow) => (
+                  <Badge key={workflow} variant="outline">{getWorkflow(workflow)?.label || workflow}</Badge>
+                ))}
+              </div>
+            </div>
+          )}
 
         </CardContent>
       </Card>
@@ -823,18 +1170,6 @@ function TourDetailsSheet({ tour }: { tour: Tour }) {
                       )}
                     </div>
                     <p className="text-sm text-muted-foreground">{participant.email}</p>
-                    {participant.shiphero_sales_order_url && (
-                      <div className="mt-1">
-                        <a 
-                          href={participant.shiphero_sales_order_url} 
-                          target="_blank" 
-                          rel="noopener noreferrer"
-                          className="text-blue-600 hover:text-blue-800 text-xs underline"
-                        >
-                          SO: {participant.shiphero_sales_order_number || 'View Order'}
-                        </a>
-                      </div>
-                    )}
                     {participant.company && (
                       <p className="text-sm text-muted-foreground">{participant.company}</p>
                     )}
@@ -846,21 +1181,231 @@ function TourDetailsSheet({ tour }: { tour: Tour }) {
         </CardContent>
       </Card>
 
-      {/* Swag Items - Manual Addition */}
+      {/* Swag Kit */}
       <Card>
         <CardHeader>
           <CardTitle className="text-base flex items-center gap-2">
             <Package className="h-4 w-4" />
-            Swag Items (Manual Addition)
+            Swag Kit
           </CardTitle>
         </CardHeader>
-        <CardContent>
-          <p className="text-sm text-muted-foreground">
-            Swag items will be added manually during tour finalization. Each participant and host will receive the standard swag package.
-          </p>
+        <CardContent className="space-y-4">
+          {!liveTour.selected_skus ? (
+            <p className="text-sm text-muted-foreground">
+              This tour was scheduled before kits were picked, so each participant and the host receive one of every swag item.
+            </p>
+          ) : liveTour.selected_skus.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No swag kit; orders come from the selected workflows.</p>
+          ) : (
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">Per participant and host:</p>
+              {liveTour.selected_skus.map((sku) => (
+                <div key={sku} className="flex items-center justify-between text-sm">
+                  <span className="font-mono">{sku}</span>
+                  {kitDraft ? (
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-20 h-8"
+                      aria-label={`Quantity of ${sku} per person`}
+                      value={kitDraft[sku] ?? 0}
+                      onChange={(e) => setKitDraft({ ...kitDraft, [sku]: parseInt(e.target.value) || 0 })}
+                    />
+                  ) : (
+                    <span>{liveTour.sku_quantities?.[sku] ?? 1} each</span>
+                  )}
+                </div>
+              ))}
+              {kitDraft && (
+                <div className="flex items-center justify-end gap-2 pt-2">
+                  <span className="text-xs text-muted-foreground mr-auto">Set a quantity to 0 to drop the SKU</span>
+                  <Button variant="outline" size="sm" onClick={() => setKitDraft(null)} disabled={isSavingKit}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={handleSaveKit} disabled={isSavingKit}>
+                    {isSavingKit ? "Saving..." : "Save Kit"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+          {liveTour.po_extra_quantities && Object.keys(liveTour.po_extra_quantities).length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Added to the purchase order for shortfalls: {Object.entries(liveTour.po_extra_quantities).map(([sku, quantity]) => `${quantity} x ${sku}`).join(", ")}
+            </p>
+          )}
+
+          {liveTour.status === 'scheduled' && !isCancelled && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-medium text-muted-foreground">Stock Check</div>
+                <Button variant="outline" size="sm" onClick={handleCheckStock} disabled={isCheckingStock}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${isCheckingStock ? "animate-spin" : ""}`} />
+                  {isCheckingStock ? "Checking..." : "Check Stock"}
+                </Button>
+              </div>
+              {stockCheck && <StockCheckTable result={stockCheck} />}
+              {stockCheck && stockCheck.lines.some((line) => line.shortfall > 0) && (
+                <div className="flex gap-2">
+                  {liveTour.selected_skus && liveTour.selected_skus.length > 0 && !kitDraft && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setKitDraft(Object.fromEntries(
+                        (liveTour.selected_skus || []).map((sku) => [sku, liveTour.sku_quantities?.[sku] ?? 1])
+                      ))}
+                    >
+                      <Edit className="h-4 w-4 mr-2" />
+                      Adjust Kit
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleRaisePO}
+                    disabled={isSavingKit || !!liveTour.shiphero_purchase_order_id}
+                    title={liveTour.shiphero_purchase_order_id ? "The purchase order has already been created" : undefined}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Shortfall to PO
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {/* Order Summary */}
+      {(orderSummary.sales_orders?.length || orderSummary.purchase_order || orderSummary.purchase_orders?.length || orderSummary.demo_orders?.length) ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <FileText className="h-4 w-4" />
+              Order Summary
+            </CardTitle>
+            {orderSummary.generated_at && (
+              <CardDescription>Recorded {new Date(orderSummary.generated_at).toLocaleString()}</CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {[
+              ...(orderSummary.purchase_order ? [orderSummary.purchase_order] : []),
+              ...(orderSummary.purchase_orders || [])
+            ].map((purchaseOrder) => (
+              <div key={purchaseOrder.id} className="p-3 bg-muted/30 rounded-lg space-y-1">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <a 
+                      href={purchaseOrder.url} 
+                      target="_blank" 
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:text-blue-800 text-sm font-medium underline"
+                    >
+                      PO: {purchaseOrder.po_number}
+                    </a>
+                    {purchaseOrder.workflow && (
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                        {getWorkflow(purchaseOrder.workflow)?.label || purchaseOrder.workflow}
+                      </Badge>
+                    )}
+                    {purchaseOrder.vendor_id && (
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                        {purchaseOrder.vendor_name || `Vendor ${purchaseOrder.vendor_id}`}
+                      </Badge>
+                    )}
+                  </div>
+                  <OrderStatusBadge status={purchaseOrder.status} />
+                </div>
+                {purchaseOrder.line_items.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {purchaseOrder.line_items.map(item => `${item.quantity} × ${item.sku}`).join(', ')}
+                  </p>
+                )}
+              </div>
+            ))}
+            {orderSummary.sales_orders?.map((order) => (
+              <SalesOrderSummaryRow key={order.id} order={order} />
+            ))}
+            {orderSummary.demo_orders && orderSummary.demo_orders.length > 0 && (
+              <div className="space-y-3 pt-2">
+                <p className="text-sm font-medium text-muted-foreground">
+                  Demo orders ({orderSummary.demo_orders.length})
+                </p>
+                {orderSummary.demo_orders.map((order) => (
+                  <SalesOrderSummaryRow key={order.id} order={order} />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {/* Host Instruction Guide */}
+      {(liveTour.instruction_guide || tour.status === 'finalized') && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <BookOpen className="h-4 w-4" />
+              Host Instruction Guide
+            </CardTitle>
+            <CardDescription>
+              {liveTour.instruction_guide_generated_at
+                ? `Generated ${new Date(liveTour.instruction_guide_generated_at).toLocaleString()}`
+                : 'Not generated yet'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {guideDraft !== null ? (
+              <Textarea
+                value={guideDraft}
+                onChange={(e) => setGuideDraft(e.target.value)}
+                className="min-h-[320px] font-mono text-xs"
+              />
+            ) : liveTour.instruction_guide ? (
+              <pre className="whitespace-pre-wrap text-xs bg-muted/30 rounded-lg p-3 max-h-[320px] overflow-y-auto font-sans">
+                {liveTour.instruction_guide}
+              </pre>
+            ) : null}
+            <div className="flex flex-wrap gap-2">
+              {guideDraft !== null ? (
+                <>
+                  <Button size="sm" onClick={handleSaveGuide} disabled={isSavingGuide}>
+                    {isSavingGuide ? "Saving..." : "Save"}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setGuideDraft(null)} disabled={isSavingGuide}>
+                    Cancel
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button size="sm" variant="outline" onClick={handleGenerateGuide} disabled={isGeneratingGuide}>
+                    <RefreshCw className={`h-4 w-4 mr-2 ${isGeneratingGuide ? 'animate-spin' : ''}`} />
+                    {liveTour.instruction_guide ? "Regenerate" : "Generate"}
+                  </Button>
+                  {liveTour.instruction_guide && (
+                    <>
+                      <Button size="sm" variant="outline" onClick={() => setGuideDraft(liveTour.instruction_guide || '')}>
+                        <Edit className="h-4 w-4 mr-2" />
+                        Edit
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={handleDownloadGuide}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Download HTML
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={handlePrintGuide}>
+                        <Printer className="h-4 w-4 mr-2" />
+                        Print / PDF
+                      </Button>
+                    </>
+                  )}
+                </>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* ShipHero Integration */}
       <Card>
         <CardHeader>
@@ -873,37 +1418,161 @@ function TourDetailsSheet({ tour }: { tour: Tour }) {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          {/* Primary Action - Validate Tour */}
-          {tour.status === 'validated' ? (
+          {/* Primary Action - Finalize Tour */}
+          {!isCancelled && (tour.status === 'validated' || tour.status === 'finalized') ? (
             <div className="space-y-2">
               <div className="w-full bg-green-50 border border-green-200 rounded-lg p-4 text-center">
                 <CheckCircle className="h-8 w-8 text-green-600 mx-auto mb-2" />
-                <h3 className="font-medium text-green-800">Tour Validated</h3>
+                <h3 className="font-medium text-green-800">Tour Finalized</h3>
                 <p className="text-sm text-green-600">All orders have been created successfully</p>
               </div>
+              <Button
+                onClick={handleSyncStatus}
+                disabled={isSyncingStatus}
+                variant="outline"
+                className="w-full"
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${isSyncingStatus ? 'animate-spin' : ''}`} />
+                {isSyncingStatus ? "Syncing..." : "Sync Status from ShipHero"}
+              </Button>
+              {liveTour.order_summary?.last_reconciled_at && (
+                <p className="text-xs text-muted-foreground text-center">
+                  Last synced {new Date(liveTour.order_summary.last_reconciled_at).toLocaleString()}
+                </p>
+              )}
+              {(liveTour.order_summary?.drift || []).map((drift, index) => (
+                <div key={index} className="flex items-start gap-2 text-sm p-2 bg-amber-50 border border-amber-200 rounded">
+                  <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 shrink-0" />
+                  <div className="grid gap-0.5">
+                    <span>{drift.label}{drift.order_number ? ` (${drift.order_number})` : ''}</span>
+                    <span className="text-xs text-amber-700">{drift.message}</span>
+                  </div>
+                </div>
+              ))}
             </div>
-          ) : tour.status === 'cancelled' ? (
+          ) : isCancelled ? (
             <div className="space-y-2">
               <div className="w-full bg-red-50 border border-red-200 rounded-lg p-4 text-center">
                 <X className="h-8 w-8 text-red-600 mx-auto mb-2" />
                 <h3 className="font-medium text-red-800">Tour Cancelled</h3>
                 <p className="text-sm text-red-600">This tour has been cancelled</p>
               </div>
+              {cancellations.length > 0 && (
+                <div className="space-y-2">
+                  <div className="text-sm font-medium text-muted-foreground">ShipHero Cancellations</div>
+                  {cancellations.map((cancellation) => (
+                    <div key={cancellation.id} className="flex items-center justify-between text-sm p-2 bg-muted/30 rounded">
+                      <div className="grid gap-0.5">
+                        <span>{cancellation.label}{cancellation.order_number ? ` (${cancellation.order_number})` : ''}</span>
+                        {cancellation.error && <span className="text-xs text-red-600">{cancellation.error}</span>}
+                      </div>
+                      <Badge variant={cancellation.status === 'failed' ? 'destructive' : 'secondary'} className="capitalize">
+                        {cancellation.status}
+                      </Badge>
+                    </div>
+                  ))}
+                  {cancellations.some(c => c.status === 'failed') && (
+                    <Button
+                      onClick={() => handleCancelTour(true)}
+                      disabled={isCancellingTour}
+                      variant="outline"
+                      className="w-full"
+                    >
+                      {isCancellingTour ? "Retrying..." : "Retry Failed Cancellations"}
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
           ) : (
             <div className="space-y-2">
+              {addressErrors.length > 0 && (
+                <div className="flex items-start gap-2 text-sm p-2 bg-red-50 border border-red-200 rounded">
+                  <AlertTriangle className="h-4 w-4 text-red-600 mt-0.5 shrink-0" />
+                  <div className="grid gap-0.5">
+                    <span className="font-medium text-red-800">Fix the warehouse address in Settings before finalizing</span>
+                    {addressErrors.map(error => (
+                      <span key={error} className="text-xs text-red-700">{error}</span>
+                    ))}
+                  </div>
+                </div>
+              )}
               <Button 
-                onClick={handleValidateTour}
-                disabled={isValidatingTour}
+                onClick={handleFinalizeTour}
+                disabled={isFinalizingTour || addressErrors.length > 0}
                 className="w-full bg-green-600 hover:bg-green-700 text-white"
                 size="lg"
               >
                 <CheckCircle className="h-5 w-5 mr-2" />
-                {isValidatingTour ? "Validating Tour..." : "Validate Tour & Create All Orders"}
+                {isFinalizingTour
+                  ? "Finalizing Tour..."
+                  : finalizationSteps.some(s => s.status === 'completed')
+                    ? "Resume Finalization"
+                    : "Finalize Tour & Create All Orders"}
               </Button>
               <p className="text-sm text-muted-foreground text-center">
                 This will create sales orders for all participants (including host) and one purchase order for inventory
               </p>
+              <label className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={rollbackOnFailure}
+                  onChange={(e) => setRollbackOnFailure(e.target.checked)}
+                  disabled={isFinalizingTour}
+                />
+                Cancel orders created in this run if finalization fails
+              </label>
+            </div>
+          )}
+
+          {/* Rollback report */}
+          {rollbackReport && rollbackReport.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium text-muted-foreground">Rolled Back Orders</div>
+              {rollbackReport.map((entry) => (
+                <div key={entry.step_id} className="flex items-center justify-between text-sm p-2 bg-muted/30 rounded">
+                  <div className="grid gap-0.5">
+                    <span>{entry.label}{entry.order_number ? ` (${entry.order_number})` : ''}</span>
+                    {entry.error && <span className="text-xs text-red-600">{entry.error}</span>}
+                  </div>
+                  <Badge variant={entry.status === 'failed' ? 'destructive' : 'secondary'} className="capitalize">
+                    {entry.status === 'failed' ? 'Not cancelled' : 'Cancelled'}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!isCancelled && (
+            <Button
+              onClick={() => handleCancelTour()}
+              disabled={isCancellingTour}
+              variant="outline"
+              className="w-full text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <X className="h-4 w-4 mr-2" />
+              {isCancellingTour ? "Cancelling Tour..." : "Cancel Tour & ShipHero Orders"}
+            </Button>
+          )}
+
+          {/* Finalization job progress */}
+          {finalizationSteps.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium text-muted-foreground">Finalization Progress</div>
+              {finalizationSteps.map((step) => (
+                <div key={step.id} className="flex items-center justify-between text-sm p-2 bg-muted/30 rounded">
+                  <div className="grid gap-0.5">
+                    <span>{step.label}</span>
+                    {step.error && <span className="text-xs text-red-600">{step.error}</span>}
+                  </div>
+                  <Badge
+                    variant={step.status === 'completed' ? 'default' : step.status === 'failed' ? 'destructive' : 'secondary'}
+                    className="capitalize"
+                  >
+                    {step.status.replace('_', ' ')}
+                  </Badge>
+                </div>
+              ))}
             </div>
           )}
 
@@ -953,3 +1622,105 @@ function TourDetailsSheet({ tour }: { tour: Tour }) {
     </div>
   )
 }
+
+// Tours finalized before order summaries were recorded get one rebuilt from the tracking columns
+function orderSummaryFor(tour: Tour): TourOrderSummary {
+  if (tour.order_summary?.sales_orders || tour.order_summary?.purchase_order) {
+    return tour.order_summary
+  }
+
+  const salesOrders: NonNullable<TourOrderSummary['sales_orders']> = tour.participants
+    .filter(p => p.shiphero_sales_order_id)
+    .map(p => ({
+      kind: 'participant' as const,
+      participant_id: p.id,
+      recipient_name: `${p.first_name} ${p.last_name}`,
+      email: p.email,
+      id: p.shiphero_sales_order_id!,
+      legacy_id: null,
+      order_number: p.shiphero_sales_order_number || '',
+      url: p.shiphero_sales_order_url || '',
+      status: p.shiphero_fulfillment_status || '',
+      line_items: []
+    }))
+
+  if (tour.host && tour.host_shiphero_sales_order_url) {
+    salesOrders.push({
+      kind: 'host',
+      participant_id: null,
+      recipient_name: `${tour.host.first_name} ${tour.host.last_name}`,
+      email: tour.host.email,
+      id: 'host',
+      legacy_id: null,
+      order_number: tour.host_shiphero_sales_order_number || '',
+      url: tour.host_shiphero_sales_order_url,
+      status: tour.host_shiphero_fulfillment_status || '',
+      line_items: []
+    })
+  }
+
+  return {
+    ...(tour.order_summary || {}),
+    sales_orders: salesOrders,
+    purchase_order: tour.shiphero_purchase_order_id
+      ? {
+          id: tour.shiphero_purchase_order_id,
+          legacy_id: null,
+          po_number: tour.shiphero_purchase_order_number || '',
+          url: tour.shiphero_purchase_order_url || '',
+          status: tour.shiphero_purchase_order_status || '',
+          line_items: []
+        }
+      : null
+  }
+}
+
+// One sales order from the stored order summary
+function SalesOrderSummaryRow({ order }: { order: SalesOrderSummary }) {
+  return (
+    <div className="p-3 bg-muted/30 rounded-lg space-y-1">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <a 
+            href={order.url} 
+            target="_blank" 
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:text-blue-800 text-sm font-medium underline"
+          >
+            SO: {order.order_number}
+          </a>
+          {order.kind === 'host' && <Badge variant="default" className="bg-blue-600 text-[10px] px-1.5 py-0">Host</Badge>}
+          {order.kind === 'extra' && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Demo</Badge>}
+          {order.workflow && (
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+              {getWorkflow(order.workflow)?.label || order.workflow}
+            </Badge>
+          )}
+        </div>
+        <OrderStatusBadge status={order.status} />
+      </div>
+      <p className="text-xs text-muted-foreground">{order.recipient_name} · {order.email}</p>
+      {order.line_items.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {order.line_items.map(item => `${item.quantity} × ${item.sku}`).join(', ')}
+        </p>
+      )}
+    </div>
+  )
+}
+
+// Fulfillment status reported by ShipHero webhooks, with the time it was last updated
+function OrderStatusBadge({ status, updatedAt }: { status?: string; updatedAt?: string }) {
+  if (!status) return null
+
+  const variant = status === 'canceled' ? 'destructive' : status === 'pending' ? 'secondary' : 'default'
+  return (
+    <Badge
+      variant={variant}
+      className="capitalize text-[10px] px-1.5 py-0"
+      title={updatedAt ? `Updated ${new Date(updatedAt).toLocaleString()}` : undefined}
+    >
+      {status.replace(/_/g, ' ')}
+    </Badge>
+  )
+}
@@ -0,0 +1,517 @@
+/**
+ * Address normalization for ShipHero orders. ShipHero wants ISO 3166-1 alpha-2 country
+ * codes and two-letter state / province codes, while warehouses are entered by hand
+ * ("Georgia", "USA", "ontario"). Pure functions only, so the Settings form, the tours
+ * page and the order service validate addresses the same way.
+ */
+
+export interface AddressInput {
+  address?: string | null
+  address2?: string | null
+  city?: string | null
+  state?: string | null
+  zip?: string | null
+  country?: string | null
+}
+
+export interface NormalizedAddress {
+  address: string
+  address2: string
+  city: string
+  // Two-letter code for the US and Canada, trimmed free text elsewhere
+  state: string
+  zip: string
+  // ISO 3166-1 alpha-2
+  country: string
+}
+
+export interface AddressValidation {
+  address: NormalizedAddress
+  errors: string[]
+}
+
+// Warehouses created before the country field existed have none; they are all in the US
+export const DEFAULT_COUNTRY_CODE = 'US'
+
+// 50 states, DC, inhabited territories and military "states"
+export const US_STATES: Record<string, string> = {
+  AL: 'Alabama',
+  AK: 'Alaska',
+  AZ: 'Arizona',
+  AR: 'Arkansas',
+  CA: 'California',
+  CO: 'Colorado',
+  CT: 'Connecticut',
+  DE: 'Delaware',
+  DC: 'District of Columbia',
+  FL: 'Florida',
+  GA: 'Georgia',
+  HI: 'Hawaii',
+  ID: 'Idaho',
+  IL: 'Illinois',
+  IN: 'Indiana',
+  IA: 'Iowa',
+  KS: 'Kansas',
+  KY: 'Kentucky',
+  LA: 'Louisiana',
+  ME: 'Maine',
+  MD: 'Maryland',
+  MA: 'Massachusetts',
+  MI: 'Michigan',
+  MN: 'Minnesota',
+  MS: 'Mississippi',
+  MO: 'Missouri',
+  MT: 'Montana',
+  NE: 'Nebraska',
+  NV: 'Nevada',
+  NH: 'New Hampshire',
+  NJ: 'New Jersey',
+  NM: 'New Mexico',
+  NY: 'New York',
+  NC: 'North Carolina',
+  ND: 'North Dakota',
+  OH: 'Ohio',
+  OK: 'Oklahoma',
+  OR: 'Oregon',
+  PA: 'Pennsylvania',
+  RI: 'Rhode Island',
+  SC: 'South Carolina',
+  SD: 'South Dakota',
+  TN: 'Tennessee',
+  TX: 'Texas',
+  UT: 'Utah',
+  VT: 'Vermont',
+  VA: 'Virginia',
+  WA: 'Washington',
+  WV: 'West Virginia',
+  WI: 'Wisconsin',
+  WY: 'Wyoming',
+  AS: 'American Samoa',
+  GU: 'Guam',
+  MP: 'Northern Mariana Islands',
+  PR: 'Puerto Rico',
+  VI: 'U.S. Virgin Islands',
+  UM: 'U.S. Minor Outlying Islands',
+  AA: 'Armed Forces Americas',
+  AE: 'Armed Forces Europe',
+  AP: 'Armed Forces Pacific'
+}
+
+export const CANADIAN_PROVINCES: Record<string, string> = {
+  AB: 'Alberta',
+  BC: 'British Columbia',
+  MB: 'Manitoba',
+  NB: 'New Brunswick',
+  NL: 'Newfoundland and Labrador',
+  NS: 'Nova Scotia',
+  NT: 'Northwest Territories',
+  NU: 'Nunavut',
+  ON: 'Ontario',
+  PE: 'Prince Edward Island',
+  QC: 'Quebec',
+  SK: 'Saskatchewan',
+  YT: 'Yukon'
+}
+
+// ISO 3166-1 alpha-2 codes with their short English names
+export const COUNTRIES: Record<string, string> = {
+  AD: 'Andorra',
+  AE: 'United Arab Emirates',
+  AF: 'Afghanistan',
+  AG: 'Antigua and Barbuda',
+  AI: 'Anguilla',
+  AL: 'Albania',
+  AM: 'Armenia',
+  AO: 'Angola',
+  AQ: 'Antarctica',
+  AR: 'Argentina',
+  AS: 'American Samoa',
+  AT: 'Austria',
+  AU: 'Australia',
+  AW: 'Aruba',
+  AX: 'Åland Islands',
+  AZ: 'Azerbaijan',
+  BA: 'Bosnia and Herzegovina',
+  BB: 'Barbados',
+  BD: 'Bangladesh',
+  BE: 'Belgium',
+  BF: 'Burkina Faso',
+  BG: 'Bulgaria',
+  BH: 'Bahrain',
+  BI: 'Burundi',
+  BJ: 'Benin',
+  BL: 'Saint Barthélemy',
+  BM: 'Bermuda',
+  BN: 'Brunei Darussalam',
+  BO: 'Bolivia',
+  BQ: 'Bonaire, Sint Eustatius and Saba',
+  BR: 'Brazil',
+  BS: 'Bahamas',
+  BT: 'Bhutan',
+  BV: 'Bouvet Island',
+  BW: 'Botswana',
+  BY: 'Belarus',
+  BZ: 'Belize',
+  CA: 'Canada',
+  CC: 'Cocos (Keeling) Islands',
+  CD: 'Congo, Democratic Republic of the',
+  CF: 'Central African Republic',
+  CG: 'Congo',
+  CH: 'Switzerland',
+  CI: "Côte d'Ivoire",
+  CK: 'Cook Islands',
+  CL: 'Chile',
+  CM: 'Cameroon',
+  CN: 'China',
+  CO: 'Colombia',
+  CR: 'Costa Rica',
+  CU: 'Cuba',
+  CV: 'Cabo Verde',
+  CW: 'Curaçao',
+  CX: 'Christmas Island',
+  CY: 'Cyprus',
+  CZ: 'Czechia',
+  DE: 'Germany',
+  DJ: 'Djibouti',
+  DK: 'Denmark',
+  DM: 'Dominica',
+  DO: 'Dominican Republic',
+  DZ: 'Algeria',
+  EC: 'Ecuador',
+  EE: 'Estonia',
+  EG: 'Egypt',
+  EH: 'Western Sahara',
+  ER: 'Eritrea',
+  ES: 'Spain',
+  ET: 'Ethiopia',
+  FI: 'Finland',
+  FJ: 'Fiji',
+  FK: 'Falkland Islands (Malvinas)',
+  FM: 'Micronesia',
+  FO: 'Faroe Islands',
+  FR: 'France',
+  GA: 'Gabon',
+  GB: 'United Kingdom',
+  GD: 'Grenada',
+  GE: 'Georgia',
+  GF: 'French Guiana',
+  GG: 'Guernsey',
+  GH: 'Ghana',
+  GI: 'Gibraltar',
+  GL: 'Greenland',
+  GM: 'Gambia',
+  GN: 'Guinea',
+  GP: 'Guadeloupe',
+  GQ: 'Equatorial Guinea',
+  GR: 'Greece',
+  GS: 'South Georgia and the South Sandwich Islands',
+  GT: 'Guatemala',
+  GU: 'Guam',
+  GW: 'Guinea-Bissau',
+  GY: 'Guyana',
+  HK: 'Hong Kong',
+  HM: 'Heard Island and McDonald Islands',
+  HN: 'Honduras',
+  HR: 'Croatia',
+  HT: 'Haiti',
+  HU: 'Hungary',
+  ID: 'Indonesia',
+  IE: 'Ireland',
+  IL: 'Israel',
+  IM: 'Isle of Man',
+  IN: 'India',
+  IO: 'British Indian Ocean Territory',
+  IQ: 'Iraq',
+  IR: 'Iran',
+  IS: 'Iceland',
+  IT: 'Italy',
+  JE: 'Jersey',
+  JM: 'Jamaica',
+  JO: 'Jordan',
+  JP: 'Japan',
+  KE: 'Kenya',
+  KG: 'Kyrgyzstan',
+  KH: 'Cambodia',
+  KI: 'Kiribati',
+  KM: 'Comoros',
+  KN: 'Saint Kitts and Nevis',
+  KP: 'North Korea',
+  KR: 'South Korea',
+  KW: 'Kuwait',
+  KY: 'Cayman Islands',
+  KZ: 'Kazakhstan',
+  LA: "Lao People's Democratic Republic",
+  LB: 'Lebanon',
+  LC: 'Saint Lucia',
+  LI: 'Liechtenstein',
+  LK: 'Sri Lanka',
+  LR: 'Liberia',
+  LS: 'Lesotho',
+  LT: 'Lithuania',
+  LU: 'Luxembourg',
+  LV: 'Latvia',
+  LY: 'Libya',
+  MA: 'Morocco',
+  MC: 'Monaco',
+  MD: 'Moldova',
+  ME: 'Montenegro',
+  MF: 'Saint Martin (French part)',
+  MG: 'Madagascar',
+  MH: 'Marshall Islands',
+  MK: 'North Macedonia',
+  ML: 'Mali',
+  MM: 'Myanmar',
+  MN: 'Mongolia',
+  MO: 'Macao',
+  MP: 'Northern Mariana Islands',
+  MQ: 'Martinique',
+  MR: 'Mauritania',
+  MS: 'Montserrat',
+  MT: 'Malta',
+  MU: 'Mauritius',
+  MV: 'Maldives',
+  MW: 'Malawi',
+  MX: 'Mexico',
+  MY: 'Malaysia',
+  MZ: 'Mozambique',
+  NA: 'Namibia',
+  NC: 'New Caledonia',
+  NE: 'Niger',
+  NF: 'Norfolk Island',
+  NG: 'Nigeria',
+  NI: 'Nicaragua',
+  NL: 'Netherlands',
+  NO: 'Norway',
+  NP: 'Nepal',
+  NR: 'Nauru',
+  NU: 'Niue',
+  NZ: 'New Zealand',
+  OM: 'Oman',
+  PA: 'Panama',
+  PE: 'Peru',
+  PF: 'French Polynesia',
+  PG: 'Papua New Guinea',
+  PH: 'Philippines',
+  PK: 'Pakistan',
+  PL: 'Poland',
+  PM: 'Saint Pierre and Miquelon',
+  PN: 'Pitcairn',
+  PR: 'Puerto Rico',
+  PS: 'Palestine, State of',
+  PT: 'Portugal',
+  PW: 'Palau',
+  PY: 'Paraguay',
+  QA: 'Qatar',
+  RE: 'Réunion',
+  RO: 'Romania',
+  RS: 'Serbia',
+  RU: 'Russian Federation',
+  RW: 'Rwanda',
+  SA: 'Saudi Arabia',
+  SB: 'Solomon Islands',
+  SC: 'Seychelles',
+  SD: 'Sudan',
+  SE: 'Sweden',
+  SG: 'Singapore',
+  SH: 'Saint Helena, Ascension and Tristan da Cunha',
+  SI: 'Slovenia',
+  SJ: 'Svalbard and Jan Mayen',
+  SK: 'Slovakia',
+  SL: 'Sierra Leone',
+  SM: 'San Marino',
+  SN: 'Senegal',
+  SO: 'Somalia',
+  SR: 'Suriname',
+  SS: 'South Sudan',
+  ST: 'Sao Tome and Principe',
+  SV: 'El Salvador',
+  SX: 'Sint Maarten (Dutch part)',
+  SY: 'Syrian Arab Republic',
+  SZ: 'Eswatini',
+  TC: 'Turks and Caicos Islands',
+  TD: 'Chad',
+  TF: 'French Southern Territories',
+  TG: 'Togo',
+  TH: 'Thailand',
+  TJ: 'Tajikistan',
+  TK: 'Tokelau',
+  TL: 'Timor-Leste',
+  TM: 'Turkmenistan',
+  TN: 'Tunisia',
+  TO: 'Tonga',
+  TR: 'Türkiye',
+  TT: 'Trinidad and Tobago',
+  TV: 'Tuvalu',
+  TW: 'Taiwan',
+  TZ: 'Tanzania',
+  UA: 'Ukraine',
+  UG: 'Uganda',
+  UM: 'United States Minor Outlying Islands',
+  US: 'United States',
+  UY: 'Uruguay',
+  UZ: 'Uzbekistan',
+  VA: 'Holy See',
+  VC: 'Saint Vincent and the Grenadines',
+  VE: 'Venezuela',
+  VG: 'Virgin Islands (British)',
+  VI: 'Virgin Islands (U.S.)',
+  VN: 'Viet Nam',
+  VU: 'Vanuatu',
+  WF: 'Wallis and Futuna',
+  WS: 'Samoa',
+  YE: 'Yemen',
+  YT: 'Mayotte',
+  ZA: 'South Africa',
+  ZM: 'Zambia',
+  ZW: 'Zimbabwe'
+}
+
+// Common names that differ from the ISO short names above
+const COUNTRY_ALIASES: Record<string, string> = {
+  'usa': 'US',
+  'u.s.': 'US',
+  'u.s.a.': 'US',
+  'united states of america': 'US',
+  'america': 'US',
+  'uk': 'GB',
+  'great britain': 'GB',
+  'britain': 'GB',
+  'england': 'GB',
+  'scotland': 'GB',
+  'wales': 'GB',
+  'northern ireland': 'GB',
+  'holland': 'NL',
+  'the netherlands': 'NL',
+  'czech republic': 'CZ',
+  'turkey': 'TR',
+  'russia': 'RU',
+  'vietnam': 'VN',
+  'laos': 'LA',
+  'syria': 'SY',
+  'ivory coast': 'CI',
+  'cote d\'ivoire': 'CI',
+  'swaziland': 'SZ',
+  'macedonia': 'MK',
+  'burma': 'MM',
+  'cape verde': 'CV',
+  'east timor': 'TL',
+  'vatican city': 'VA',
+  'republic of korea': 'KR',
+  'korea': 'KR',
+  'brunei': 'BN',
+  'macau': 'MO',
+  'palestine': 'PS',
+  'democratic republic of the congo': 'CD',
+  'republic of the congo': 'CG',
+  'curacao': 'CW',
+  'reunion': 'RE',
+  'aland islands': 'AX',
+  'saint barthelemy': 'BL'
+}
+
+const SUBDIVISIONS: Record<string, Record<string, string>> = {
+  US: US_STATES,
+  CA: CANADIAN_PROVINCES
+}
+
+const POSTAL_CODE_FORMATS: Record<string, { pattern: RegExp; example: string }> = {
+  US: { pattern: /^\d{5}(-\d{4})?$/, example: '12345 or 12345-6789' },
+  CA: { pattern: /^[A-Z]\d[A-Z] \d[A-Z]\d$/, example: 'A1A 1A1' }
+}
+
+function lookupKey(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+/**
+ * ISO 3166-1 alpha-2 code for a country code or name, or null if it is not recognised
+ */
+export function normalizeCountryCode(country: string | null | undefined): string | null {
+  const value = (country || '').trim()
+  if (!value) return null
+
+  const upper = value.toUpperCase()
+  if (COUNTRIES[upper]) return upper
+
+  const key = lookupKey(value)
+  if (COUNTRY_ALIASES[key]) return COUNTRY_ALIASES[key]
+
+  return Object.keys(COUNTRIES).find(code => lookupKey(COUNTRIES[code]) === key) || null
+}
+
+/**
+ * Two-letter state / province code for US and Canadian addresses, or null if it is not
+ * recognised. Other countries have no list here, so any non-empty value is kept as entered.
+ */
+export function normalizeStateCode(state: string | null | undefined, countryCode: string): string | null {
+  const value = (state || '').trim()
+  if (!value) return null
+
+  const subdivisions = SUBDIVISIONS[countryCode]
+  if (!subdivisions) return value
+
+  const upper = value.toUpperCase().replace(/\./g, '')
+  if (subdivisions[upper]) return upper
+
+  const key = lookupKey(value)
+  return Object.keys(subdivisions).find(code => lookupKey(subdivisions[code]) === key) || null
+}
+
+/**
+ * Postal code in its canonical form (uppercase, Canadian codes with the middle space)
+ */
+export function normalizePostalCode(zip: string | null | undefined, countryCode: string): string {
+  const value = (zip || '').trim().toUpperCase()
+  if (countryCode === 'CA') {
+    const compact = value.replace(/[\s-]/g, '')
+    return compact.length === 6 ? `${compact.slice(0, 3)} ${compact.slice(3)}` : value
+  }
+  return value
+}
+
+/**
+ * Normalize an address and list everything that would make ShipHero reject it
+ */
+export function validateAddress(input: AddressInput): AddressValidation {
+  const errors: string[] = []
+
+  const country = normalizeCountryCode(input.country || DEFAULT_COUNTRY_CODE)
+  if (!country) {
+    errors.push(`Unknown country "${input.country}". Use an ISO country code such as US, CA or MX.`)
+  }
+  const countryCode = country || (input.country || '').trim()
+
+  const state = normalizeStateCode(input.state, countryCode)
+  const subdivisionLabel = countryCode === 'CA' ? 'province' : 'state'
+  if (!(input.state || '').trim()) {
+    if (SUBDIVISIONS[countryCode]) errors.push(`A ${subdivisionLabel} is required`)
+  } else if (!state) {
+    errors.push(`Unknown ${subdivisionLabel} "${input.state}" for ${COUNTRIES[countryCode] || countryCode}`)
+  }
+
+  const zip = normalizePostalCode(input.zip, countryCode)
+  const postalFormat = POSTAL_CODE_FORMATS[countryCode]
+  if (!zip) {
+    if (postalFormat) errors.push('A postal code is required')
+  } else if (postalFormat && !postalFormat.pattern.test(zip)) {
+    errors.push(`Postal code "${zip}" is not valid for ${COUNTRIES[countryCode]} (expected ${postalFormat.example})`)
+  }
+
+  const address = (input.address || '').trim()
+  if (!address) errors.push('A street address is required')
+
+  const city = (input.city || '').trim()
+  if (!city) errors.push('A city is required')
+
+  return {
+    address: {
+      address,
+      address2: (input.address2 || '').trim(),
+      city,
+      state: state || (input.state || '').trim(),
+      zip,
+      country: countryCode
+    },
+    errors
+  }
+}
@@ -0,0 +1,136 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+
+/**
+ * Audit log of outbound ShipHero calls (shiphero_api_log). The request pipeline and the token
+ * store record every call here; Settings > API Log reads it back through /api/shiphero/api-log.
+ * Tokens, secrets and Authorization values are redacted before anything is stored. Order payloads
+ * still carry recipients' personal details, so the table is server-only and rows are kept for
+ * API_LOG_RETENTION_DAYS.
+ */
+
+export type ShipHeroApiCallStatus = 'success' | 'error'
+
+export interface ShipHeroApiLogEntry {
+  id: string
+  request_id: string | null
+  operation: string
+  tour_id: string | null
+  status: ShipHeroApiCallStatus
+  http_status: number | null
+  duration_ms: number
+  complexity: number | null
+  attempts: number
+  error: string | null
+  request: any
+  response: any
+  created_at: string
+}
+
+export type ShipHeroApiCall = Omit<ShipHeroApiLogEntry, 'id' | 'created_at'>
+
+// A log row without its request and response bodies, as listed in Settings > API Log
+export type ShipHeroApiLogSummary = Omit<ShipHeroApiLogEntry, 'request' | 'response'>
+
+export interface ShipHeroApiLogFilter {
+  tourId?: string | null
+  status?: ShipHeroApiCallStatus | null
+}
+
+export const API_LOG_RETENTION_DAYS = 30
+// Most recent calls listed; filter by tour to see older ones
+export const API_LOG_PAGE_SIZE = 200
+
+const REDACTED = '[REDACTED]'
+const SECRET_KEY = /token|secret|password|authorization|api[_-]?key|credential/i
+
+/**
+ * Copy of a value with secret-looking keys and bearer tokens replaced by [REDACTED]
+ */
+export function redactSecrets(value: any): any {
+  if (typeof value === 'string') {
+    return value.replace(/Bearer\s+[^\s"',]+/gi, `Bearer ${REDACTED}`)
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets)
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, SECRET_KEY.test(key) && field ? REDACTED : redactSecrets(field)])
+    )
+  }
+  return value
+}
+
+/**
+ * Store one call. Never throws: a logging failure must not fail the ShipHero call it describes.
+ */
+export async function recordShipHeroApiCall(call: ShipHeroApiCall): Promise<void> {
+  try {
+    const { error } = await createAdminClient()
+      .from('shiphero_api_log')
+      .insert([{
+        ...call,
+        error: call.error ? redactSecrets(call.error) : null,
+        request: redactSecrets(call.request),
+        response: redactSecrets(call.response)
+      }])
+
+    if (error) {
+      console.error('Failed to record ShipHero API call:', error.message)
+    }
+  } catch (error) {
+    console.error('Failed to record ShipHero API call:', error)
+  }
+}
+
+/**
+ * The most recent calls, newest first, without their request and response bodies
+ */
+export async function listShipHeroApiCalls(filter: ShipHeroApiLogFilter = {}): Promise<ShipHeroApiLogSummary[]> {
+  let query = createAdminClient()
+    .from('shiphero_api_log')
+    .select('id, request_id, operation, tour_id, status, http_status, duration_ms, complexity, attempts, error, created_at')
+    .order('created_at', { ascending: false })
+    .limit(API_LOG_PAGE_SIZE)
+
+  if (filter.tourId) query = query.eq('tour_id', filter.tourId)
+  if (filter.status) query = query.eq('status', filter.status)
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(`Failed to load the ShipHero API log: ${error.message}`)
+  }
+  return data || []
+}
+
+/**
+ * One call with its request and response, or null when it does not exist (or was pruned)
+ */
+export async function getShipHeroApiCall(id: string): Promise<ShipHeroApiLogEntry | null> {
+  const { data, error } = await createAdminClient()
+    .from('shiphero_api_log')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load the ShipHero API call: ${error.message}`)
+  }
+  return data
+}
+
+/**
+ * Delete calls older than the retention period; resolves with the number deleted
+ */
+export async function pruneShipHeroApiLog(retentionDays: number = API_LOG_RETENTION_DAYS): Promise<number> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString()
+  const { count, error } = await createAdminClient()
+    .from('shiphero_api_log')
+    .delete({ count: 'exact' })
+    .lt('created_at', cutoff)
+
+  if (error) {
+    throw new Error(`Failed to prune the ShipHero API log: ${error.message}`)
+  }
+  return count || 0
+}
@@ -0,0 +1,25 @@
+/**
+ * Browser helper shared by the *-client modules: call one of the app's JSON API routes.
+ * A `body` is sent as JSON; an error status throws the route's `details` (when it is a message)
+ * or `error`.
+ */
+export async function requestJson<T = any>(
+  url: string,
+  init: { method?: 'GET' | 'POST' | 'PUT' | 'DELETE'; body?: unknown } = {}
+): Promise<T> {
+  const response = await fetch(url, {
+    method: init.method || (init.body === undefined ? 'GET' : 'POST'),
+    ...(init.body !== undefined && {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(init.body)
+    })
+  })
+
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    const details = typeof result.details === 'string' ? result.details : null
+    throw new Error(details || result.error || `Request failed: ${response.status}`)
+  }
+
+  return result
+}
@@ -0,0 +1,19 @@
+/**
+ * Where ShipHero requests go. SHIPHERO_API_URL points the server at another ShipHero API,
+ * e.g. the local mock (`npm run mock:shiphero`, http://localhost:4010); it defaults to the
+ * live public API. Server-side only.
+ */
+
+export const DEFAULT_SHIPHERO_API_URL = 'https://public-api.shiphero.com'
+
+export function shipHeroApiUrl(): string {
+  return (process.env.SHIPHERO_API_URL || DEFAULT_SHIPHERO_API_URL).replace(/\/+$/, '')
+}
+
+export function shipHeroGraphQLEndpoint(): string {
+  return `${shipHeroApiUrl()}/graphql`
+}
+
+export function shipHeroRefreshEndpoint(): string {
+  return `${shipHeroApiUrl()}/auth/refresh`
+}
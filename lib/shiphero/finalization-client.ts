@@ -0,0 +1,57 @@
+import type { FinalizationEvent, FinalizationJob } from './finalization-job'
+
+/**
+ * Browser helper: start or resume a tour's finalization job and follow its progress.
+ * Resolves with the completed job; a stream that ends without a completed `done` event
+ * (dropped connection, server timeout) is a failure, and retrying resumes the job.
+ */
+export async function streamTourFinalization(
+  tourId: string,
+  onEvent: (event: FinalizationEvent) => void,
+  options: { rollbackOnFailure?: boolean } = {}
+): Promise<FinalizationJob> {
+  const response = await fetch(`/api/tours/${tourId}/finalize`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ rollback_on_failure: !!options.rollbackOnFailure })
+  })
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.details || errorData.error || `Finalization failed: ${response.status}`)
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let completed: FinalizationJob | null = null
+  let failure: string | null = null
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const messages = buffer.split('\n\n')
+    buffer = messages.pop() || ''
+
+    for (const message of messages) {
+      const dataLine = message.split('\n').find(line => line.startsWith('data: '))
+      if (!dataLine) continue
+
+      const event: FinalizationEvent = JSON.parse(dataLine.slice(6))
+      if (event.type === 'done' && event.job.status === 'completed') completed = event.job
+      if (event.type === 'error') failure = event.error
+      onEvent(event)
+    }
+  }
+
+  if (failure) {
+    throw new Error(failure)
+  }
+  if (!completed) {
+    throw new Error('Lost contact with the server before finalization finished')
+  }
+
+  return completed
+}
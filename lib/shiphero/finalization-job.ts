@@ -0,0 +1,554 @@
+import { createClient } from '@/lib/supabase/client'
+import { CreatedOrderRef, ShipHeroOrderService, TourOrderContext } from './order-service'
+import { getWorkflow, WorkflowId } from './workflows'
+import { generateInstructionGuide } from './instruction-guide'
+
+/**
+ * Server-side tour finalization.
+ * Each ShipHero order is a persisted step, so a failed or interrupted run
+ * resumes from the first step that has not completed instead of starting over.
+ * With `rollbackOnFailure`, a run that aborts cancels the orders it created instead.
+ * Tours with selected workflows get one step per workflow order instead of per person.
+ */
+
+export type FinalizationStepType =
+  | 'participant_order'
+  | 'host_order'
+  | 'purchase_order'
+  | 'workflow_order'
+  | 'workflow_purchase_order'
+export type FinalizationStatus = 'pending' | 'running' | 'completed' | 'failed' | 'rolled_back'
+
+export interface FinalizationStep {
+  id: string
+  job_id: string
+  position: number
+  step_type: FinalizationStepType
+  participant_id: string | null
+  workflow: string | null
+  sequence: number | null
+  label: string
+  status: FinalizationStatus
+  attempts: number
+  result: Record<string, any> | null
+  error: string | null
+  started_at: string | null
+  completed_at: string | null
+}
+
+export interface FinalizationJob {
+  id: string
+  tour_id: string
+  status: FinalizationStatus
+  error: string | null
+  started_at: string | null
+  completed_at: string | null
+  heartbeat_at: string | null
+  created_at: string
+  rollback_on_failure: boolean
+  rollback_report: RollbackEntry[] | null
+  steps: FinalizationStep[]
+}
+
+export interface RollbackEntry {
+  step_id: string
+  label: string
+  order_number: string | null
+  shiphero_order_id: string | null
+  status: 'cancelled' | 'failed'
+  error: string | null
+}
+
+export interface FinalizationOptions {
+  // Cancel the orders created in this run (and clear their tracking columns) if the run aborts
+  rollbackOnFailure?: boolean
+}
+
+export type FinalizationEvent =
+  | { type: 'job'; job: FinalizationJob; resumed: boolean }
+  | { type: 'step'; step: FinalizationStep }
+  | { type: 'done'; job: FinalizationJob }
+  | { type: 'rollback'; report: RollbackEntry[] }
+  | { type: 'error'; error: string; job?: FinalizationJob }
+
+// A running job refreshes its heartbeat this often; one silent for STALE_HEARTBEAT_MS was abandoned
+const HEARTBEAT_INTERVAL_MS = 30 * 1000
+const STALE_HEARTBEAT_MS = 2 * 60 * 1000
+
+const ALREADY_RUNNING = 'Finalization is already running for this tour'
+// Postgres unique_violation, raised by the one-running-job-per-tour index
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Latest finalization job for a tour (with its steps), or null if it was never finalized
+ */
+export async function getLatestFinalizationJob(tourId: string): Promise<FinalizationJob | null> {
+  const supabase = createClient()
+
+  const { data: job, error } = await supabase
+    .from('tour_finalization_jobs')
+    .select('*, steps:tour_finalization_steps(*)')
+    .eq('tour_id', tourId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load finalization job: ${error.message}`)
+  }
+
+  return job ? sortSteps(job as FinalizationJob) : null
+}
+
+/**
+ * Whether a run currently holds the job: marked running and still sending heartbeats
+ */
+export function isFinalizationJobActive(job: Pick<FinalizationJob, 'status' | 'heartbeat_at'> | null): boolean {
+  return !!job && job.status === 'running' && !!job.heartbeat_at &&
+    Date.now() - new Date(job.heartbeat_at).getTime() < STALE_HEARTBEAT_MS
+}
+
+/**
+ * Run (or resume) the finalization job for a tour, reporting progress through `emit`.
+ * Progress is persisted before it is emitted, so the job keeps going if the listener goes away.
+ */
+export async function runFinalizationJob(
+  tourId: string,
+  emit: (event: FinalizationEvent) => void,
+  options: FinalizationOptions = {}
+): Promise<FinalizationJob> {
+  const supabase = createClient()
+  const service = new ShipHeroOrderService()
+
+  const send = (event: FinalizationEvent) => {
+    try {
+      emit(event)
+    } catch (error) {
+      console.log('Finalization listener went away, continuing job:', error)
+    }
+  }
+
+  const context = await service.loadTourContext(tourId)
+
+  // The tour's status when the run started; it is only marked finalized if nothing changed it since
+  const startStatus = await loadTourStatus(tourId)
+  if (startStatus === 'cancelled') {
+    throw new Error('This tour is cancelled and cannot be finalized')
+  }
+
+  const latest = await getLatestFinalizationJob(tourId)
+  if (latest?.status === 'completed') {
+    send({ type: 'done', job: latest })
+    return latest
+  }
+
+  // Claiming the job is the lock: only one run per tour gets past here
+  const resumed = !!latest
+  let job = latest
+    ? await claimJob(latest, options)
+    : await createJob(tourId, service, context, options)
+
+  const heartbeat = setInterval(() => {
+    refreshHeartbeat(job.id).catch(error => console.error('Failed to refresh finalization heartbeat:', error))
+  }, HEARTBEAT_INTERVAL_MS)
+
+  try {
+    send({ type: 'job', job, resumed })
+
+    // Every ShipHero order created during this run, with the step that created it, including
+    // orders of a step that failed partway (reused orders are never rolled back)
+    const createdThisRun: CreatedStepOrder[] = []
+    const recordCreated = (step: FinalizationStep, from: number) => {
+      context.createdOrders.slice(from).forEach(order => createdThisRun.push({ step, order }))
+    }
+
+    const abort = async (error: string): Promise<FinalizationJob> => {
+      if (!options.rollbackOnFailure || createdThisRun.length === 0) {
+        job = await updateJob(job, { status: 'failed', error })
+        send({ type: 'error', error, job })
+        return job
+      }
+
+      const report = await rollbackOrders(service, context, createdThisRun, (step) => {
+        replaceStep(job, step)
+        send({ type: 'step', step })
+      })
+      send({ type: 'rollback', report })
+
+      job = await updateJob(job, { status: 'rolled_back', error, rollback_report: report })
+      send({ type: 'error', error, job })
+      return job
+    }
+
+    for (const step of [...job.steps]) {
+      if (step.status === 'completed') continue
+
+      if (await loadTourStatus(tourId) === 'cancelled') {
+        return abort('The tour was cancelled during finalization')
+      }
+
+      let current = await updateStep(step, {
+        status: 'running',
+        error: null,
+        attempts: step.attempts + 1,
+        started_at: new Date().toISOString()
+      })
+      send({ type: 'step', step: current })
+      const createdBefore = context.createdOrders.length
+
+      try {
+        const result = await runStep(service, context, current)
+        current = await updateStep(current, {
+          status: 'completed',
+          result,
+          completed_at: new Date().toISOString()
+        })
+        recordCreated(current, createdBefore)
+        send({ type: 'step', step: current })
+      } catch (error: any) {
+        const message = error.message || String(error)
+        console.error(`Finalization step "${current.label}" failed:`, error)
+
+        // Keep what the step created before it failed, so it is rolled back and can be found later
+        recordCreated(current, createdBefore)
+        const created = context.createdOrders.slice(createdBefore)
+        current = await updateStep(current, {
+          status: 'failed',
+          error: message,
+          result: created.length > 0 ? { created_orders: created } : null
+        })
+        replaceStep(job, current)
+        send({ type: 'step', step: current })
+
+        return abort(`${current.label}: ${message}`)
+      }
+
+      replaceStep(job, current)
+    }
+
+    try {
+      await service.writeOrderSummary(context)
+    } catch (error: any) {
+      // The orders exist either way, so a summary failure does not fail the job
+      console.error('Failed to write order summary:', error)
+    }
+
+    try {
+      await generateInstructionGuide(tourId)
+    } catch (error: any) {
+      // The host can regenerate the guide from the tour details
+      console.error('Failed to generate instruction guide:', error)
+    }
+
+    const { data: finalizedTour, error: tourError } = await supabase
+      .from('tours')
+      .update({ status: 'finalized' })
+      .eq('id', tourId)
+      .eq('status', startStatus)
+      .select('id')
+      .maybeSingle()
+
+    if (tourError) {
+      return abort(`Orders created but failed to mark tour finalized: ${tourError.message}`)
+    }
+    if (!finalizedTour) {
+      return abort(`The tour's status changed to ${await loadTourStatus(tourId)} during finalization`)
+    }
+
+    job = await updateJob(job, { status: 'completed', completed_at: new Date().toISOString() })
+    send({ type: 'done', job })
+    return job
+  } catch (error: any) {
+    // Release the lock so a retry does not have to wait for the heartbeat to go stale
+    await updateJob(job, { status: 'failed', error: error.message || String(error) })
+      .catch(updateError => console.error('Failed to mark finalization job failed:', updateError))
+    throw error
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+async function runStep(
+  service: ShipHeroOrderService,
+  context: TourOrderContext,
+  step: FinalizationStep
+): Promise<Record<string, any>> {
+  switch (step.step_type) {
+    case 'participant_order':
+      return { ...await service.createParticipantSalesOrder(context, step.participant_id!) }
+    case 'host_order':
+      return { ...await service.createHostSalesOrder(context) }
+    case 'purchase_order':
+      return { ...await service.createPurchaseOrder(context) }
+    case 'workflow_order':
+      return { ...await service.createWorkflowSalesOrder(context, step.workflow as WorkflowId, step.sequence!) }
+    case 'workflow_purchase_order':
+      return { ...await service.createWorkflowPurchaseOrder(context, step.workflow as WorkflowId) }
+    default:
+      throw new Error(`Unknown finalization step: ${step.step_type}`)
+  }
+}
+
+interface CreatedStepOrder {
+  step: FinalizationStep
+  order: CreatedOrderRef
+}
+
+/**
+ * Cancel the given orders, newest first, and mark completed steps whose orders were all cancelled
+ * as rolled back. A step with an order that could not be cancelled keeps its status and tracking info.
+ */
+async function rollbackOrders(
+  service: ShipHeroOrderService,
+  context: TourOrderContext,
+  created: CreatedStepOrder[],
+  onStep: (step: FinalizationStep) => void
+): Promise<RollbackEntry[]> {
+  const report: RollbackEntry[] = []
+  const reason = 'Tour finalization rolled back'
+  const failedSteps = new Set<string>()
+
+  for (const { step, order } of [...created].reverse()) {
+    const entry: RollbackEntry = {
+      step_id: step.id,
+      label: step.label,
+      order_number: order.number,
+      shiphero_order_id: order.id,
+      status: 'cancelled',
+      error: null
+    }
+
+    try {
+      await service.undoCreatedOrder(context, order, reason)
+    } catch (error: any) {
+      console.error(`Failed to roll back ${order.number} ("${step.label}"):`, error)
+      entry.status = 'failed'
+      entry.error = error.message || String(error)
+      failedSteps.add(step.id)
+    }
+
+    report.push(entry)
+  }
+
+  const steps = new Map(created.map(({ step }) => [step.id, step]))
+  for (const step of steps.values()) {
+    if (step.status !== 'completed' || failedSteps.has(step.id)) continue
+    try {
+      onStep(await updateStep(step, { status: 'rolled_back', completed_at: null }))
+    } catch (error) {
+      console.error(`Failed to mark "${step.label}" rolled back:`, error)
+    }
+  }
+
+  return report
+}
+
+type PlannedStep = Pick<FinalizationStep, 'step_type' | 'participant_id' | 'workflow' | 'sequence' | 'label'>
+
+// One sales order per participant and the host, then the purchase order
+function defaultSteps(context: TourOrderContext): PlannedStep[] {
+  const steps: PlannedStep[] = context.participants.map(p => ({
+    step_type: 'participant_order',
+    participant_id: p.id,
+    workflow: null,
+    sequence: null,
+    label: `Sales order for ${p.first_name} ${p.last_name}`
+  }))
+
+  if (context.host) {
+    steps.push({
+      step_type: 'host_order',
+      participant_id: null,
+      workflow: null,
+      sequence: null,
+      label: `Host sales order for ${context.host.first_name} ${context.host.last_name}`
+    })
+  }
+
+  steps.push({ step_type: 'purchase_order', participant_id: null, workflow: null, sequence: null, label: 'Purchase order' })
+  return steps
+}
+
+// Every sales order and purchase order needed by the tour's workflows
+function workflowSteps(service: ShipHeroOrderService, context: TourOrderContext): PlannedStep[] {
+  const plan = service.planWorkflowOrders(context)
+  const label = (workflow: string) => getWorkflow(workflow)?.label || workflow
+
+  return [
+    ...plan.salesOrders.map(order => ({
+      step_type: 'workflow_order' as const,
+      participant_id: order.recipientType === 'participant' ? order.recipient.id : null,
+      workflow: order.workflow,
+      sequence: order.sequence,
+      label: `${label(order.workflow)} order ${order.sequence} for ${order.recipient.first_name} ${order.recipient.last_name}` +
+        (order.recipientType === 'extra' ? ' (demo)' : '')
+    })),
+    ...plan.purchaseOrders.map(order => ({
+      step_type: 'workflow_purchase_order' as const,
+      participant_id: null,
+      workflow: order.workflow,
+      sequence: 1,
+      label: `${label(order.workflow)} purchase order`
+    }))
+  ]
+}
+
+async function createJob(
+  tourId: string,
+  service: ShipHeroOrderService,
+  context: TourOrderContext,
+  options: FinalizationOptions
+): Promise<FinalizationJob> {
+  const supabase = createClient()
+
+  // Plan first: an invalid workflow configuration should not leave an empty job behind
+  const steps = context.workflows.length > 0
+    ? workflowSteps(service, context)
+    : defaultSteps(context)
+
+  // Created already running; the one-running-job-per-tour index turns a concurrent first run away
+  const now = new Date().toISOString()
+  const { data: job, error } = await supabase
+    .from('tour_finalization_jobs')
+    .insert({
+      tour_id: tourId,
+      status: 'running',
+      started_at: now,
+      heartbeat_at: now,
+      rollback_on_failure: !!options.rollbackOnFailure
+    })
+    .select()
+    .single()
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    throw new Error(ALREADY_RUNNING)
+  }
+  if (error || !job) {
+    throw new Error(`Failed to create finalization job: ${error?.message}`)
+  }
+
+  const { data: createdSteps, error: stepsError } = await supabase
+    .from('tour_finalization_steps')
+    .insert(steps.map((step, position) => ({ ...step, job_id: job.id, position })))
+    .select()
+
+  if (stepsError) {
+    await supabase
+      .from('tour_finalization_jobs')
+      .update({ status: 'failed', error: stepsError.message })
+      .eq('id', job.id)
+    throw new Error(`Failed to create finalization steps: ${stepsError.message}`)
+  }
+
+  return sortSteps({ ...job, steps: createdSteps || [] })
+}
+
+/**
+ * Take over an existing job for this run. The update only matches a job that is not running,
+ * or whose run stopped sending heartbeats, so two runs cannot both claim it.
+ */
+async function claimJob(job: FinalizationJob, options: FinalizationOptions): Promise<FinalizationJob> {
+  const supabase = createClient()
+  const now = new Date().toISOString()
+  const staleBefore = new Date(Date.now() - STALE_HEARTBEAT_MS).toISOString()
+
+  const { data, error } = await supabase
+    .from('tour_finalization_jobs')
+    .update({
+      status: 'running',
+      error: null,
+      started_at: now,
+      heartbeat_at: now,
+      rollback_on_failure: !!options.rollbackOnFailure,
+      rollback_report: null
+    })
+    .eq('id', job.id)
+    .neq('status', 'completed')
+    .or(`status.neq.running,heartbeat_at.is.null,heartbeat_at.lt."${staleBefore}"`)
+    .select()
+    .maybeSingle()
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    throw new Error(ALREADY_RUNNING)
+  }
+  if (error) {
+    throw new Error(`Failed to claim finalization job: ${error.message}`)
+  }
+  if (!data) {
+    throw new Error(ALREADY_RUNNING)
+  }
+
+  return { ...data, steps: job.steps }
+}
+
+async function loadTourStatus(tourId: string): Promise<string> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('tours')
+    .select('status')
+    .eq('id', tourId)
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to load tour status: ${error?.message || 'Tour not found'}`)
+  }
+
+  return data.status
+}
+
+async function refreshHeartbeat(jobId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('tour_finalization_jobs')
+    .update({ heartbeat_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'running')
+
+  if (error) {
+    throw new Error(error.message)
+  }
+}
+
+async function updateJob(job: FinalizationJob, changes: Partial<FinalizationJob>): Promise<FinalizationJob> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('tour_finalization_jobs')
+    .update(changes)
+    .eq('id', job.id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update finalization job: ${error.message}`)
+  }
+
+  return { ...data, steps: job.steps }
+}
+
+async function updateStep(step: FinalizationStep, changes: Partial<FinalizationStep>): Promise<FinalizationStep> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('tour_finalization_steps')
+    .update(changes)
+    .eq('id', step.id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update finalization step: ${error.message}`)
+  }
+
+  return data
+}
+
+function replaceStep(job: FinalizationJob, step: FinalizationStep) {
+  job.steps = job.steps.map(s => s.id === step.id ? step : s)
+}
+
+function sortSteps(job: FinalizationJob): FinalizationJob {
+  return { ...job, steps: [...(job.steps || [])].sort((a, b) => a.position - b.position) }
+}
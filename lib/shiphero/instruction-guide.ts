@@ -0,0 +1,292 @@
+import { createClient } from '@/lib/supabase/client'
+import type { OrderSummaryLineItem, SalesOrderSummary, TourOrderSummary } from './order-summary'
+import { getWorkflow, WorkflowDefinition } from './workflows'
+import { formatTourReference, tourReferenceTag } from './naming-utils'
+
+/**
+ * Host instruction guide for a finalized tour, stored in tours.instruction_guide.
+ * The guide is plain text with a small Markdown subset (#, ##, ###, "- " and "1. " lists)
+ * so hosts can edit it in a textarea; instructionGuideToHtml renders it for printing.
+ */
+
+export interface InstructionGuide {
+  instruction_guide: string
+  instruction_guide_generated_at: string
+}
+
+/**
+ * Build the guide from the tour's current orders and save it on the tour
+ */
+export async function generateInstructionGuide(tourId: string): Promise<InstructionGuide> {
+  const supabase = createClient()
+
+  const { data: tour, error } = await supabase
+    .from('tours')
+    .select(`
+      id,
+      tour_numeric_id,
+      date,
+      time,
+      selected_workflows,
+      order_summary,
+      warehouse:warehouses(name, code, address, address2, city, state, zip, country),
+      host:team_members(first_name, last_name, email),
+      participants:tour_participants(first_name, last_name, email, company, title)
+    `)
+    .eq('id', tourId)
+    .single()
+
+  if (error || !tour) {
+    throw new Error(error?.message || 'Tour not found')
+  }
+
+  const guide: InstructionGuide = {
+    instruction_guide: buildInstructionGuide({
+      tourNumericId: tour.tour_numeric_id,
+      date: tour.date,
+      time: tour.time,
+      warehouse: Array.isArray(tour.warehouse) ? tour.warehouse[0] : tour.warehouse,
+      host: Array.isArray(tour.host) ? tour.host[0] : tour.host,
+      participants: tour.participants || [],
+      selectedWorkflows: tour.selected_workflows || [],
+      orderSummary: tour.order_summary || {}
+    }),
+    instruction_guide_generated_at: new Date().toISOString()
+  }
+
+  const { error: updateError } = await supabase
+    .from('tours')
+    .update(guide)
+    .eq('id', tourId)
+
+  if (updateError) {
+    throw new Error(`Failed to save instruction guide: ${updateError.message}`)
+  }
+
+  return guide
+}
+
+/**
+ * Save a host's edits to the guide. The generated-at time is kept so edits are not mistaken for a regeneration.
+ */
+export async function saveInstructionGuide(tourId: string, guide: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('tours')
+    .update({ instruction_guide: guide })
+    .eq('id', tourId)
+
+  if (error) {
+    throw new Error(`Failed to save instruction guide: ${error.message}`)
+  }
+}
+
+interface GuideData {
+  tourNumericId: number
+  date: string
+  time: string
+  warehouse: any
+  host: any
+  participants: any[]
+  selectedWorkflows: string[]
+  orderSummary: TourOrderSummary
+}
+
+function buildInstructionGuide(data: GuideData): string {
+  const { warehouse, host, orderSummary } = data
+  const lines: string[] = []
+  const salesOrders = orderSummary.sales_orders || []
+  const demoOrders = orderSummary.demo_orders || []
+  const purchaseOrders = [
+    ...(orderSummary.purchase_order ? [orderSummary.purchase_order] : []),
+    ...(orderSummary.purchase_orders || [])
+  ]
+
+  lines.push(`# Tour Instruction Guide: ${warehouse?.name || 'Warehouse'}`)
+  lines.push('')
+  lines.push(`- Reference: ${formatTourReference(data.tourNumericId)} (ShipHero tag: ${tourReferenceTag(data.tourNumericId)})`)
+  lines.push(`- Date: ${formatGuideDate(data.date)}`)
+  lines.push(`- Time: ${formatGuideTime(data.time)}`)
+  lines.push(`- Warehouse: ${warehouse?.name || '-'}${warehouse?.code ? ` (${warehouse.code})` : ''}`)
+  const address = [
+    warehouse?.address,
+    warehouse?.address2,
+    [warehouse?.city, warehouse?.state, warehouse?.zip].filter(Boolean).join(' '),
+    warehouse?.country
+  ].filter(Boolean).join(', ')
+  if (address) lines.push(`- Address: ${address}`)
+  if (host) lines.push(`- Host: ${host.first_name} ${host.last_name} (${host.email})`)
+  lines.push('')
+
+  lines.push(`## Participants (${data.participants.length})`)
+  lines.push('')
+  for (const participant of data.participants) {
+    const details = [participant.title, participant.company].filter(Boolean).join(', ')
+    lines.push(`- ${participant.first_name} ${participant.last_name}${details ? `, ${details}` : ''} (${participant.email})`)
+  }
+  lines.push('')
+
+  lines.push('## Orders')
+  lines.push('')
+  if (purchaseOrders.length > 0) {
+    lines.push(purchaseOrders.length === 1 ? '### Purchase Order' : '### Purchase Orders')
+    lines.push('')
+    for (const purchaseOrder of purchaseOrders) {
+      const workflow = purchaseOrder.workflow ? ` [${workflowLabel(purchaseOrder.workflow)}]` : ''
+      const vendor = purchaseOrder.vendor_id ? ` (${purchaseOrder.vendor_name || `vendor ${purchaseOrder.vendor_id}`})` : ''
+      lines.push(`- PO ${purchaseOrder.po_number}${vendor}${workflow}: ${formatLineItems(purchaseOrder.line_items)}`)
+    }
+    lines.push('')
+  }
+  if (salesOrders.length > 0) {
+    lines.push('### Sales Orders')
+    lines.push('')
+    salesOrders.forEach(order => lines.push(formatSalesOrder(order)))
+    lines.push('')
+  }
+  if (demoOrders.length > 0) {
+    lines.push('### Demo Orders')
+    lines.push('')
+    demoOrders.forEach(order => lines.push(formatSalesOrder(order)))
+    lines.push('')
+  }
+  if (purchaseOrders.length === 0 && salesOrders.length === 0 && demoOrders.length === 0) {
+    lines.push('No ShipHero orders have been created for this tour yet.')
+    lines.push('')
+  }
+
+  const workflows = data.selectedWorkflows
+    .map(getWorkflow)
+    .filter((workflow): workflow is WorkflowDefinition => !!workflow)
+  if (workflows.length > 0) {
+    lines.push('## Workflow Instructions')
+    lines.push('')
+
+    for (const workflow of workflows) {
+      lines.push(`### ${workflow.label}`)
+      lines.push('')
+
+      const orderNumbers = [...salesOrders, ...demoOrders]
+        .filter(order => order.workflow === workflow.id)
+        .map(order => order.order_number)
+      const poNumbers = purchaseOrders
+        .filter(order => order.workflow === workflow.id)
+        .map(order => order.po_number)
+      if (poNumbers.length > 0) lines.push(`Purchase order: ${poNumbers.join(', ')}`)
+      if (orderNumbers.length > 0) lines.push(`Orders: ${orderNumbers.join(', ')}`)
+      if (poNumbers.length > 0 || orderNumbers.length > 0) lines.push('')
+
+      workflow.instructions.forEach((step, index) => lines.push(`${index + 1}. ${step}`))
+      lines.push('')
+    }
+  }
+
+  return lines.join('\n').trim() + '\n'
+}
+
+/**
+ * Render a stored guide as a standalone, printable HTML document
+ */
+export function instructionGuideToHtml(guide: string, title: string): string {
+  const body: string[] = []
+  let list: 'ul' | 'ol' | null = null
+
+  const closeList = () => {
+    if (list) body.push(`</${list}>`)
+    list = null
+  }
+  const openList = (type: 'ul' | 'ol') => {
+    if (list === type) return
+    closeList()
+    body.push(`<${type}>`)
+    list = type
+  }
+
+  for (const rawLine of guide.split('\n')) {
+    const line = rawLine.trimEnd()
+    const heading = line.match(/^(#{1,3}) (.*)$/)
+    const bullet = line.match(/^- (.*)$/)
+    const numbered = line.match(/^\d+\. (.*)$/)
+
+    if (heading) {
+      closeList()
+      const level = heading[1].length
+      body.push(`<h${level}>${escapeHtml(heading[2])}</h${level}>`)
+    } else if (bullet) {
+      openList('ul')
+      body.push(`<li>${escapeHtml(bullet[1])}</li>`)
+    } else if (numbered) {
+      openList('ol')
+      body.push(`<li>${escapeHtml(numbered[1])}</li>`)
+    } else if (line.trim() === '') {
+      closeList()
+    } else {
+      closeList()
+      body.push(`<p>${escapeHtml(line)}</p>`)
+    }
+  }
+  closeList()
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #111; max-width: 800px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.5rem; border-bottom: 2px solid #111; padding-bottom: 0.25rem; }
+  h2 { font-size: 1.2rem; margin-top: 1.5rem; border-bottom: 1px solid #ccc; }
+  h3 { font-size: 1rem; margin-top: 1rem; }
+  li { margin: 0.15rem 0; }
+  @media print { body { margin: 0; } h2, h3 { break-after: avoid; } li { break-inside: avoid; } }
+</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`
+}
+
+function formatSalesOrder(order: SalesOrderSummary): string {
+  const role = order.kind === 'host' ? ' (host)' : order.kind === 'extra' ? ' (demo)' : ''
+  const workflow = order.workflow ? ` [${workflowLabel(order.workflow)}]` : ''
+  return `- ${order.order_number}: ${order.recipient_name}${role}${workflow}: ${formatLineItems(order.line_items)}`
+}
+
+function formatLineItems(items: OrderSummaryLineItem[]): string {
+  return items.length > 0
+    ? items.map(item => `${item.quantity} x ${item.sku}`).join(', ')
+    : 'no line items recorded'
+}
+
+function workflowLabel(id: string): string {
+  return getWorkflow(id)?.label || id
+}
+
+function formatGuideDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  })
+}
+
+function formatGuideTime(time: string): string {
+  if (!time) return '-'
+  return new Date(`2000-01-01T${time}`).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  })
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
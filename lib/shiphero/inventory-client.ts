@@ -0,0 +1,44 @@
+import { requestJson } from './api-request'
+import type { WarehouseProductList } from './inventory'
+import type { StockCheckResult } from './stock-check'
+import type { WorkflowConfigs } from './workflows'
+import type { DemandForecast, ReplenishmentOrderRequest, ReplenishmentOrderResult } from './replenishment'
+
+/**
+ * Browser helpers for ShipHero stock: the schedule form's SKU picker and stock check, and planning
+ */
+
+/**
+ * Products and stock levels at a ShipHero warehouse, for the schedule form's SKU picker
+ */
+export async function fetchWarehouseProducts(shipheroWarehouseId: string): Promise<WarehouseProductList> {
+  return requestJson(`/api/shiphero/products?warehouse_id=${encodeURIComponent(shipheroWarehouseId)}`)
+}
+
+/**
+ * Check the schedule form's kit, workflows and participant count against ShipHero stock
+ */
+export async function checkScheduleStock(request: {
+  warehouse_id: string
+  kit: Array<{ sku: string; quantity: number }>
+  participant_count: number
+  selected_workflows: string[]
+  workflow_configs: WorkflowConfigs
+}): Promise<StockCheckResult> {
+  return requestJson('/api/shiphero/stock-check', { body: request })
+}
+
+/**
+ * Swag demand of scheduled tours over the next `weeks` weeks, per warehouse and SKU
+ */
+export async function fetchDemandForecast(weeks: number): Promise<DemandForecast> {
+  return requestJson(`/api/shiphero/replenishment?weeks=${weeks}`)
+}
+
+/**
+ * Create replenishment POs (one per warehouse); resolves with the per-warehouse outcomes
+ */
+export async function createReplenishmentOrders(orders: ReplenishmentOrderRequest[]): Promise<ReplenishmentOrderResult[]> {
+  const result = await requestJson('/api/shiphero/replenishment', { body: { orders } })
+  return result.results
+}
@@ -0,0 +1,86 @@
+import { executeShipHeroQuery } from './order-api'
+import { WAREHOUSE_PRODUCT_STOCK_QUERY, WAREHOUSE_PRODUCTS_QUERY } from './operations'
+import type { ShipHeroCallOptions } from './request-pipeline'
+
+/**
+ * Live inventory at a ShipHero warehouse: the whole product list for the schedule form's
+ * SKU picker, and single SKUs for stock checks and replenishment
+ */
+
+export interface WarehouseProduct {
+  sku: string
+  name: string
+  on_hand: number
+  allocated: number
+  available: number
+}
+
+export interface WarehouseProductList {
+  products: WarehouseProduct[]
+  // True when the warehouse has more products than MAX_PAGES returns
+  truncated: boolean
+}
+
+// 100 products per page; stop here so one picker load stays within ShipHero's credit budget
+const MAX_PAGES = 10
+
+/**
+ * Active products at the warehouse with their stock levels, sorted by name.
+ * Stops after MAX_PAGES pages and reports that through `truncated`.
+ */
+export async function getWarehouseProducts(shipheroWarehouseId: string, options: ShipHeroCallOptions = {}): Promise<WarehouseProductList> {
+  const products: WarehouseProduct[] = []
+  let after: string | null = null
+  let truncated = false
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const data: any = await executeShipHeroQuery(WAREHOUSE_PRODUCTS_QUERY, {
+      warehouse_id: shipheroWarehouseId,
+      after
+    }, options)
+
+    const connection = data?.warehouse_products?.data
+    for (const edge of connection?.edges || []) {
+      if (edge?.node?.sku) products.push(toWarehouseProduct(edge.node))
+    }
+
+    if (!connection?.pageInfo?.hasNextPage) break
+    if (page === MAX_PAGES - 1) {
+      truncated = true
+      break
+    }
+    after = connection.pageInfo.endCursor
+  }
+
+  return { products: products.sort((a, b) => a.name.localeCompare(b.name)), truncated }
+}
+
+/**
+ * Stock levels of just these SKUs at the warehouse, one query per SKU.
+ * SKUs ShipHero does not stock there are left out.
+ */
+export async function getWarehouseStock(shipheroWarehouseId: string, skus: string[], options: ShipHeroCallOptions = {}): Promise<WarehouseProduct[]> {
+  const products: WarehouseProduct[] = []
+
+  for (const sku of Array.from(new Set(skus))) {
+    const data: any = await executeShipHeroQuery(WAREHOUSE_PRODUCT_STOCK_QUERY, {
+      warehouse_id: shipheroWarehouseId,
+      sku
+    }, options)
+
+    const node = data?.warehouse_products?.data?.edges?.[0]?.node
+    if (node?.sku) products.push(toWarehouseProduct(node))
+  }
+
+  return products
+}
+
+function toWarehouseProduct(node: any): WarehouseProduct {
+  return {
+    sku: node.sku,
+    name: node.product?.name || node.sku,
+    on_hand: Number(node.on_hand) || 0,
+    allocated: Number(node.allocated) || 0,
+    available: Number(node.available) || 0
+  }
+}
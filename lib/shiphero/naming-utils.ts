@@ -1,94 +1,180 @@
 /**
- * Utility functions for generating ShipHero order names according to custom conventions
+ * ShipHero order and PO names, built from the templates in tenant_config
+ * (Settings > Organization). Pure functions, shared by the order service,
+ * the adhoc order forms and the Settings preview.
+ *
+ * Templates mix literal text with tokens:
+ *   {first} {last}    recipient first / last name (the host for purchase orders)
+ *   {first1} {last3}  the first N letters, uppercased (any N from 1-9)
+ *   {date:MMDDYY}     order date; MM, M, DD, D, YYYY and YY are replaced, anything else kept.
+ *                     Taken from the calendar date as given, so no timezone can shift the day.
+ *   {code}            warehouse airport code
+ *   {tourRef}         the tour's 6-digit reference (tours.tour_numeric_id)
+ *   {seq}             the order's number within the tour, allocated once per order
+ *
+ * {tourRef} + {seq} is what makes a name unique, so every template needs both.
  */
 
+// ShipHero rejects order_number / po_number values longer than this
+export const ORDER_NAME_MAX_LENGTH = 32
+
+export const DEFAULT_SALES_ORDER_NAME_TEMPLATE = '{first1}{last3}_{date:M/D/YY}_{code}_{tourRef}-{seq}'
+export const DEFAULT_PURCHASE_ORDER_NAME_TEMPLATE = '{code}_{date:M/D/YY}_{last}_{tourRef}-{seq}'
+
+export const ORDER_NAME_TOKENS: Array<{ token: string; description: string }> = [
+  { token: '{first}', description: 'First name' },
+  { token: '{last}', description: 'Last name' },
+  { token: '{first1}', description: 'First letter of the first name, uppercased' },
+  { token: '{last3}', description: 'First 3 letters of the last name, uppercased' },
+  { token: '{date:MMDDYY}', description: 'Order date (MM, M, DD, D, YYYY, YY)' },
+  { token: '{code}', description: 'Warehouse airport code' },
+  { token: '{tourRef}', description: 'Tour reference number' },
+  { token: '{seq}', description: 'Order number within the tour' }
+]
+
+export interface OrderNameValues {
+  first: string
+  last: string
+  // Calendar date, YYYY-MM-DD (e.g. the tour's date)
+  date: string
+  code: string
+  tourRef: string
+  seq: number | string
+}
+
+// Used for the Settings preview and for checking a template's length
+export const SAMPLE_ORDER_NAME_VALUES: OrderNameValues = {
+  first: 'Maria',
+  last: 'Azimi',
+  date: '2025-09-23',
+  code: 'ATL',
+  tourRef: '123456',
+  seq: 12
+}
+
+const TOKEN_PATTERN = /\{([a-zA-Z]+)(\d*)(?::([^}]*))?\}/g
+
+/**
+ * Problems with a template, one message per problem. Length is checked with one-letter
+ * names, since {first} and {last} are shortened to fit when a real name is too long.
+ */
+export function validateOrderNameTemplate(template: string): string[] {
+  const errors: string[] = []
+  if (!template.trim()) {
+    return ['Template is required']
+  }
+
+  const tokens = Array.from(template.matchAll(TOKEN_PATTERN))
+  for (const [match, name, digits, format] of tokens) {
+    if (!['first', 'last', 'date', 'code', 'tourRef', 'seq'].includes(name)) {
+      errors.push(`Unknown token ${match}`)
+    } else if (digits && name !== 'first' && name !== 'last') {
+      errors.push(`${match}: only {first} and {last} take a letter count`)
+    } else if (name === 'date' && !format) {
+      errors.push('{date} needs a format, e.g. {date:MMDDYY}')
+    }
+  }
+
+  const names = tokens.map(([, name]) => name)
+  if (!names.includes('tourRef') || !names.includes('seq')) {
+    errors.push('Include both {tourRef} and {seq} so every name is unique')
+  }
+  if (/[{}]/.test(template.replace(TOKEN_PATTERN, ''))) {
+    errors.push('Unmatched { or }')
+  }
+
+  if (errors.length === 0) {
+    const shortest = renderTokens(template, { ...SAMPLE_ORDER_NAME_VALUES, first: 'M', last: 'A', seq: 999 })
+    if (shortest.length > ORDER_NAME_MAX_LENGTH) {
+      errors.push(`Names would be at least ${shortest.length} characters; ShipHero allows ${ORDER_NAME_MAX_LENGTH}`)
+    }
+  }
+
+  return errors
+}
+
 /**
- * Generate sales order name: first letter first name, first three letters last name, date (mm/dd/yy), warehouse code, unique suffix
- * Example: mazi_9/2/25_ATL_A1B2
- * 
- * NOTE: ShipHero has a 32 character limit for order_number
+ * Render a template. When the result is too long, {first} and {last} are shortened
+ * (never the reference or sequence); if that is not enough, this throws.
  */
-export function generateSalesOrderName(
-  participantFirstName: string,
-  participantLastName: string,
-  warehouseName: string,
-  airportCode?: string,
-  date: Date = new Date()
-): string {
-  const firstLetter = participantFirstName.charAt(0).toUpperCase()
-  const firstThreeLastName = participantLastName.substring(0, 3).toUpperCase()
-  
-  // Format date as mm/dd/yy
-  const mm = date.getMonth() + 1
-  const dd = date.getDate()
-  const yy = date.getFullYear().toString().slice(-2)
-  const dateStr = `${mm}/${dd}/${yy}`
-  
-  // Use airport code if available, otherwise use first 3 chars of warehouse name
-  const warehouseCode = airportCode ? airportCode.toUpperCase().substring(0, 3) : 
-    warehouseName.replace(/[^a-zA-Z0-9]/g, '').toUpperCase().substring(0, 3)
-  
-  // Add unique suffix to avoid duplicates (4-digit random number)
-  const uniqueSuffix = Math.floor(1000 + Math.random() * 9000).toString()
-  
-  // Build order name ensuring it's under 32 characters
-  const baseName = `${firstLetter}${firstThreeLastName}_${dateStr}_${warehouseCode}`
-  const maxBaseLength = 31 - uniqueSuffix.length - 1 // -1 for underscore
-  const truncatedBase = baseName.substring(0, maxBaseLength)
-  
-  return `${truncatedBase}_${uniqueSuffix}`
+export function renderOrderName(template: string, values: OrderNameValues): string {
+  let { first, last } = values
+  let name = renderTokens(template, values)
+
+  while (name.length > ORDER_NAME_MAX_LENGTH && (first.length > 1 || last.length > 1)) {
+    if (last.length >= first.length) {
+      last = last.slice(0, -1)
+    } else {
+      first = first.slice(0, -1)
+    }
+    name = renderTokens(template, { ...values, first, last })
+  }
+
+  if (name.length > ORDER_NAME_MAX_LENGTH) {
+    throw new Error(`Order name "${name}" is longer than ${ORDER_NAME_MAX_LENGTH} characters. Shorten the naming template in Settings > Organization.`)
+  }
+  return name
+}
+
+function renderTokens(template: string, values: OrderNameValues): string {
+  return template.replace(TOKEN_PATTERN, (match, name: string, digits: string, format?: string) => {
+    switch (name) {
+      case 'first':
+      case 'last': {
+        const value = (name === 'first' ? values.first : values.last).trim()
+        return digits ? value.substring(0, Number(digits)).toUpperCase() : value
+      }
+      case 'date':
+        return formatNameDate(values.date, format || 'MMDDYY')
+      case 'code':
+        return values.code.toUpperCase()
+      case 'tourRef':
+        return values.tourRef
+      case 'seq':
+        return String(values.seq)
+      default:
+        return match
+    }
+  })
+}
+
+function formatNameDate(date: string, format: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date)
+  if (!match) {
+    throw new Error(`Order date "${date}" is not a YYYY-MM-DD date`)
+  }
+
+  const [, year, month, day] = match
+  const parts: Record<string, string> = {
+    YYYY: year,
+    YY: year.slice(-2),
+    MM: month,
+    M: String(Number(month)),
+    DD: day,
+    D: String(Number(day))
+  }
+  return format.replace(/YYYY|YY|MM|M|DD|D/g, part => parts[part])
 }
 
 /**
- * Generate purchase order name: warehouse code, date (mm/dd/yy), host last name, unique suffix
- * Example: ATL_9/2/25_Azimi_A1B2
- * 
- * NOTE: ShipHero has a 32 character limit for po_number
+ * Sequence and reference for orders created outside a tour (Settings > ShipHero adhoc forms).
+ * There is no tour counter to draw from, so the time in seconds stands in for the sequence.
  */
-export function generatePurchaseOrderName(
-  hostLastName: string,
-  warehouseCode: string,
-  date: Date = new Date()
-): string {
-  // Format date as mm/dd/yy
-  const mm = date.getMonth() + 1
-  const dd = date.getDate()
-  const yy = date.getFullYear().toString().slice(-2)
-  const dateStr = `${mm}/${dd}/${yy}`
-  
-  // Capitalize first letter of last name, rest lowercase
-  const formattedLastName = hostLastName.charAt(0).toUpperCase() + hostLastName.slice(1).toLowerCase()
-  
-  // Use first 3 chars of warehouse code
-  const shortWarehouseCode = warehouseCode.toUpperCase().substring(0, 3)
-  
-  // Add unique suffix to avoid duplicates (4-digit random number)
-  const uniqueSuffix = Math.floor(1000 + Math.random() * 9000).toString()
-  
-  // Build PO name ensuring it's under 32 characters
-  const baseName = `${shortWarehouseCode}_${dateStr}_${formattedLastName}`
-  const maxBaseLength = 31 - uniqueSuffix.length - 1 // -1 for underscore
-  const truncatedBase = baseName.substring(0, maxBaseLength)
-  
-  return `${truncatedBase}_${uniqueSuffix}`
+export function adhocOrderNameValues(): Pick<OrderNameValues, 'tourRef' | 'seq'> {
+  const seconds = Math.floor(Date.now() / 1000).toString()
+  return { tourRef: 'ADHOC', seq: seconds.slice(-6) }
 }
 
 /**
- * Generate unique order number for sales orders
- * Format: SO-{timestamp}-{random}
+ * How a tour's reference is shown to people, e.g. "Tour #123456"
  */
-export function generateSalesOrderNumber(): string {
-  const timestamp = Date.now().toString().slice(-8)
-  const random = Math.random().toString(36).substring(2, 6).toUpperCase()
-  return `SO-${timestamp}-${random}`
+export function formatTourReference(tourNumericId: number | string): string {
+  return `Tour #${tourNumericId}`
 }
 
 /**
- * Generate unique purchase order number
- * Format: PO-{timestamp}-{random}
+ * ShipHero tag put on every order and PO of a tour, so staff can filter a tour's orders by one tag
  */
-export function generatePurchaseOrderNumber(): string {
-  const timestamp = Date.now().toString().slice(-8)
-  const random = Math.random().toString(36).substring(2, 6).toUpperCase()
-  return `PO-${timestamp}-${random}`
-}
\ No newline at end of file
+export function tourReferenceTag(tourRef: number | string): string {
+  return `tour-${tourRef}`
+}
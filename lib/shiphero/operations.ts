@@ -0,0 +1,343 @@
+import {
+  orderCreateInputSchema,
+  purchaseOrderCreateInputSchema,
+  type OrderCreateInput,
+  type PurchaseOrderCreateInput,
+} from './schemas'
+
+/**
+ * GraphQL documents for the ShipHero operations this app performs.
+ * User data is always passed as variables, never pasted into the query text.
+ */
+
+export const ORDER_CREATE_MUTATION = `
+  mutation CreateOrder($data: OrderCreateInput!) {
+    order_create(data: $data) {
+      request_id
+      complexity
+      order {
+        id
+        legacy_id
+        order_number
+        shop_name
+        email
+        total_price
+        fulfillment_status
+        order_date
+        tags
+      }
+    }
+  }
+`
+
+export const PURCHASE_ORDER_CREATE_MUTATION = `
+  mutation CreatePurchaseOrder($data: PurchaseOrderCreateInput!) {
+    purchase_order_create(data: $data) {
+      request_id
+      complexity
+      purchase_order {
+        id
+        legacy_id
+        po_number
+        warehouse_id
+        subtotal
+        total_price
+        fulfillment_status
+        po_date
+      }
+    }
+  }
+`
+
+export const FIND_ORDER_BY_NUMBER_QUERY = `
+  query FindOrderByNumber($order_number: String) {
+    orders(order_number: $order_number) {
+      request_id
+      complexity
+      data(first: 5) {
+        edges {
+          node {
+            id
+            legacy_id
+            order_number
+            fulfillment_status
+          }
+        }
+      }
+    }
+  }
+`
+
+export const FIND_PURCHASE_ORDER_BY_NUMBER_QUERY = `
+  query FindPurchaseOrderByNumber($po_number: String) {
+    purchase_orders(po_number: $po_number) {
+      request_id
+      complexity
+      data(first: 5) {
+        edges {
+          node {
+            id
+            legacy_id
+            po_number
+            fulfillment_status
+          }
+        }
+      }
+    }
+  }
+`
+
+export const ORDER_CANCEL_MUTATION = `
+  mutation CancelOrder($data: CancelOrderInput!) {
+    order_cancel(data: $data) {
+      request_id
+      complexity
+      order {
+        id
+        order_number
+        fulfillment_status
+      }
+    }
+  }
+`
+
+export const PURCHASE_ORDER_CANCEL_MUTATION = `
+  mutation CancelPurchaseOrder($data: CancelPurchaseOrderInput!) {
+    purchase_order_cancel(data: $data) {
+      request_id
+      complexity
+      purchase_order {
+        id
+        po_number
+        fulfillment_status
+      }
+    }
+  }
+`
+
+export const ORDER_STATUS_QUERY = `
+  query OrderStatus($id: String!) {
+    order(id: $id) {
+      request_id
+      complexity
+      data {
+        id
+        order_number
+        fulfillment_status
+      }
+    }
+  }
+`
+
+export const PURCHASE_ORDER_STATUS_QUERY = `
+  query PurchaseOrderStatus($id: String!) {
+    purchase_order(id: $id) {
+      request_id
+      complexity
+      data {
+        id
+        po_number
+        status
+        fulfillment_status
+        line_items(first: 100) {
+          edges {
+            node {
+              sku
+              quantity
+            }
+          }
+        }
+      }
+    }
+  }
+`
+
+export const WAREHOUSE_PRODUCTS_QUERY = `
+  query WarehouseProducts($warehouse_id: String, $after: String) {
+    warehouse_products(warehouse_id: $warehouse_id, active: true) {
+      request_id
+      complexity
+      data(first: 100, after: $after) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        edges {
+          node {
+            sku
+            on_hand
+            allocated
+            available
+            product {
+              name
+            }
+          }
+        }
+      }
+    }
+  }
+`
+
+export const WAREHOUSE_PRODUCT_STOCK_QUERY = `
+  query WarehouseProductStock($warehouse_id: String, $sku: String) {
+    warehouse_products(warehouse_id: $warehouse_id, sku: $sku) {
+      request_id
+      complexity
+      data(first: 1) {
+        edges {
+          node {
+            sku
+            on_hand
+            allocated
+            available
+            product {
+              name
+            }
+          }
+        }
+      }
+    }
+  }
+`
+
+export const ACCOUNT_WAREHOUSES_QUERY = `
+  query {
+    account {
+      request_id
+      complexity
+      data {
+        warehouses {
+          id
+          legacy_id
+          identifier
+          account_id
+          address {
+            name
+            address1
+            address2
+            city
+            state
+            country
+            zip
+            phone
+          }
+          dynamic_slotting
+          invoice_email
+          phone_number
+          profile
+        }
+      }
+    }
+  }
+`
+
+// Vendors appear on purchase orders; paged 100 at a time
+export const VENDORS_QUERY = `
+  query ($after: String) {
+    vendors {
+      request_id
+      complexity
+      data(first: 100, after: $after) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        edges {
+          node {
+            id
+            legacy_id
+            name
+            email
+            account_number
+          }
+        }
+      }
+    }
+  }
+`
+
+export const VENDOR_CREATE_MUTATION = `
+  mutation ($data: CreateVendorInput!) {
+    vendor_create(data: $data) {
+      request_id
+      complexity
+      vendor {
+        id
+        legacy_id
+        name
+        email
+        account_number
+      }
+    }
+  }
+`
+
+export const PRODUCT_BY_SKU_QUERY = `
+  query ($sku: String!) {
+    product(sku: $sku) {
+      request_id
+      complexity
+      data {
+        id
+        legacy_id
+        sku
+        name
+        barcode
+      }
+    }
+  }
+`
+
+export const PRODUCT_CREATE_MUTATION = `
+  mutation ($data: CreateProductInput!) {
+    product_create(data: $data) {
+      request_id
+      complexity
+      product {
+        id
+        legacy_id
+        sku
+        name
+      }
+    }
+  }
+`
+
+export type OrderType = 'sales_order' | 'purchase_order'
+
+export type ShipHeroOperation =
+  | { type: 'sales_order'; query: string; variables: { data: OrderCreateInput } }
+  | { type: 'purchase_order'; query: string; variables: { data: PurchaseOrderCreateInput } }
+
+export type BuildOperationResult =
+  | { success: true; operation: ShipHeroOperation }
+  | { success: false; error: string; details?: unknown }
+
+/**
+ * Validate order data for the given type and build the matching mutation
+ */
+export function buildOrderOperation(type: unknown, data: unknown): BuildOperationResult {
+  if (type === 'sales_order') {
+    const parsed = orderCreateInputSchema.safeParse(data)
+    if (!parsed.success) {
+      return { success: false, error: 'Invalid sales order data', details: parsed.error.flatten() }
+    }
+    return {
+      success: true,
+      operation: { type, query: ORDER_CREATE_MUTATION, variables: { data: parsed.data } },
+    }
+  }
+
+  if (type === 'purchase_order') {
+    const parsed = purchaseOrderCreateInputSchema.safeParse(data)
+    if (!parsed.success) {
+      return { success: false, error: 'Invalid purchase order data', details: parsed.error.flatten() }
+    }
+    return {
+      success: true,
+      operation: { type, query: PURCHASE_ORDER_CREATE_MUTATION, variables: { data: parsed.data } },
+    }
+  }
+
+  return { success: false, error: 'Invalid order type' }
+}
@@ -0,0 +1,78 @@
+import { buildOrderOperation } from './operations'
+import { sendShipHeroRequest, type ShipHeroCallOptions } from './request-pipeline'
+
+export interface OrderOperationResult {
+  ok: boolean
+  status: number
+  // ShipHero's GraphQL response, or { error, details } when the call never succeeded
+  body: any
+  request?: {
+    query: string
+    variables: Record<string, unknown>
+  }
+}
+
+/**
+ * Run a ShipHero GraphQL query or mutation and return its `data`. Throws on HTTP or GraphQL errors.
+ */
+export async function executeShipHeroQuery<T = any>(
+  query: string,
+  variables: Record<string, unknown>,
+  options: ShipHeroCallOptions = {}
+): Promise<T> {
+  const response = await sendShipHeroRequest(query, variables, options)
+
+  if (!response.ok) {
+    throw new Error(`ShipHero API error: ${response.status} ${response.statusText} - ${response.text}`)
+  }
+
+  const result = response.body
+  if (!result) {
+    throw new Error(`ShipHero API returned an invalid response: ${response.text}`)
+  }
+  if (result.errors && result.errors.length > 0) {
+    throw new Error(`ShipHero GraphQL error: ${result.errors[0].message}`)
+  }
+
+  return result.data
+}
+
+/**
+ * Validate and send an order_create / purchase_order_create mutation to ShipHero.
+ * Server-side only: the access token comes from the token vault.
+ */
+export async function executeOrderOperation(
+  type: unknown,
+  data: unknown,
+  options: ShipHeroCallOptions = {}
+): Promise<OrderOperationResult> {
+  const built = buildOrderOperation(type, data)
+
+  if (!built.success) {
+    console.log('ShipHero Orders API - Validation failed:', JSON.stringify(built.details, null, 2))
+    return { ok: false, status: 400, body: { error: built.error, details: built.details } }
+  }
+
+  // The full request and response are recorded in shiphero_api_log
+  const { query, variables } = built.operation
+  const response = await sendShipHeroRequest(query, variables, options)
+
+  if (!response.ok || !response.body) {
+    console.log('ShipHero Orders API - Error Response:', response.status, response.statusText)
+    return {
+      ok: false,
+      status: response.ok ? 502 : response.status,
+      body: { error: `ShipHero API error: ${response.status} ${response.statusText}`, details: response.text },
+      request: { query, variables },
+    }
+  }
+
+  const result = response.body
+
+  // Check for GraphQL errors in successful response
+  if (result.errors && result.errors.length > 0) {
+    console.log('ShipHero GraphQL Errors:', result.errors.map((error: any) => error.message).join('; '))
+  }
+
+  return { ok: true, status: response.status, body: result, request: { query, variables } }
+}
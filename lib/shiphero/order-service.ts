@@ -1,437 +1,884 @@
-import { createShipHeroClient } from './client'
 import { createClient } from '@/lib/supabase/client'
-import { 
-  generateSalesOrderName, 
-  generatePurchaseOrderName, 
-  generateSalesOrderNumber, 
-  generatePurchaseOrderNumber 
-} from './naming-utils'
+import { executeOrderOperation, executeShipHeroQuery } from './order-api'
+import { isShipHeroCircuitOpen } from './request-pipeline'
+import {
+  FIND_ORDER_BY_NUMBER_QUERY,
+  FIND_PURCHASE_ORDER_BY_NUMBER_QUERY,
+  ORDER_CANCEL_MUTATION,
+  PURCHASE_ORDER_CANCEL_MUTATION,
+} from './operations'
+import { renderOrderName, tourReferenceTag } from './naming-utils'
+import { getTenantConfig, requireShipHeroVendorId, TenantConfig } from '@/lib/tenant-config'
+import { validateAddress } from '@/lib/address'
+import type { OrderSummaryLineItem, PurchaseOrderSummary, SalesOrderSummary, TourOrderSummary } from './order-summary'
+import {
+  getWorkflow,
+  isWorkflowId,
+  planWorkflowOrders,
+  requiredWorkflowRecipients,
+  validateWorkflowConfigs,
+  PlannedWorkflowPurchaseOrder,
+  PlannedWorkflowSalesOrder,
+  WorkflowConfigs,
+  WorkflowId,
+} from './workflows'
+
+/**
+ * Creates the ShipHero sales orders and purchase order for a tour.
+ * Server-side only: orders are sent straight to ShipHero through executeOrderOperation.
+ *
+ * Every create is idempotent: orders already tracked in the database are skipped, order
+ * numbers are derived from the tour (and participant) id, and ShipHero is searched for an
+ * order with that number before a new one is created.
+ *
+ * Tours with selected workflows get the orders each workflow needs (tracked in
+ * tour_workflow_orders); other tours get one of every swag item per person.
+ */
+
+export interface OrderRecipient {
+  id: string
+  first_name: string
+  last_name: string
+  email: string
+  company: string | null
+  title: string | null
+  // Sales order already created for this recipient, if any
+  existingOrder?: CreatedSalesOrder | null
+}
+
+export interface TourOrderContext {
+  tourId: string
+  // Human-readable tour reference, used as {tourRef} in order names
+  tourRef: string
+  date: string
+  warehouse: {
+    id: string
+    name: string
+    code: string | null
+    shiphero_warehouse_id: string
+    address: string
+    address2: string | null
+    city: string
+    // Normalized: two-letter state / province code and ISO country code
+    state: string
+    zip: string
+    country: string
+  }
+  host: OrderRecipient | null
+  participants: OrderRecipient[]
+  // vendor_id is the ShipHero legacy vendor ID, or null for the organization default vendor
+  swagItems: Array<{ id: string; name: string; sku: string; vendor_id: string | null }>
+  // Names of the linked vendors (public.vendors), keyed by legacy vendor ID
+  vendorNames: Record<string, string>
+  // What each participant and the host receive (tours.selected_skus / sku_quantities)
+  kit: OrderSummaryLineItem[]
+  // Units added to the tour's purchase order to cover stock shortfalls (tours.po_extra_quantities)
+  poExtraQuantities: Record<string, number>
+  purchaseOrder: CreatedPurchaseOrder | null
+  // POs for the kit's other vendors, when its SKUs come from more than one
+  vendorPurchaseOrders: VendorPurchaseOrder[]
+  workflows: WorkflowId[]
+  workflowConfigs: WorkflowConfigs
+  // Workflow orders already created for this tour
+  workflowOrders: WorkflowOrder[]
+  // Demo customers (public.extras) for workflow orders beyond participants + host
+  extras: OrderRecipient[]
+  // Shop name, company, vendor and fulfillment status for new orders
+  tenant: TenantConfig
+  // Orders created in ShipHero through this context, oldest first, recorded the moment ShipHero
+  // returns them (before tracking info is saved). Orders that were reused are not listed.
+  createdOrders: CreatedOrderRef[]
+}
+
+export type WorkflowRecipientType = 'participant' | 'host' | 'extra'
+
+export type WorkflowOrderType = 'sales_order' | 'purchase_order'
+
+export interface WorkflowOrder {
+  workflow: WorkflowId
+  order_type: WorkflowOrderType
+  sequence: number
+  recipient_type: WorkflowRecipientType | null
+  participant_id: string | null
+  extra_id: string | null
+  recipient_name: string | null
+  email: string | null
+  shiphero_order_id: string
+  shiphero_legacy_id: number | null
+  order_number: string
+  order_url: string | null
+  line_items: OrderSummaryLineItem[]
+  fulfillment_status: string | null
+}
+
+export interface VendorPurchaseOrder {
+  vendor_id: string
+  vendor_name: string | null
+  shiphero_order_id: string
+  shiphero_legacy_id: number | null
+  order_number: string
+  order_url: string | null
+  line_items: OrderSummaryLineItem[]
+  fulfillment_status: string | null
+}
+
+// Purchase order line items bought from one vendor
+export interface PurchaseOrderGroup {
+  vendorId: string
+  vendorName: string | null
+  lineItems: OrderSummaryLineItem[]
+}
+
+export interface WorkflowSalesOrderAssignment extends PlannedWorkflowSalesOrder {
+  recipientType: WorkflowRecipientType
+  recipient: OrderRecipient
+}
+
+export interface WorkflowOrderAssignments {
+  salesOrders: WorkflowSalesOrderAssignment[]
+  purchaseOrders: PlannedWorkflowPurchaseOrder[]
+}
+
+export interface CreatedSalesOrder {
+  id: string
+  legacy_id?: number
+  order_number: string
+  url: string
+  // True when the order already existed (tracked locally or found in ShipHero)
+  reused?: boolean
+}
+
+export interface CreatedPurchaseOrder {
+  id: string
+  legacy_id?: number
+  po_number: string
+  url: string
+  reused?: boolean
+}
+
+export interface CreatedOrderRef {
+  order_type: WorkflowOrderType
+  id: string
+  number: string
+}
 
 export class ShipHeroOrderService {
-  private shipHero: any
   private supabase
 
   constructor() {
-    // Don't create ShipHero client in constructor - we'll create it when needed with fresh tokens
     this.supabase = createClient()
   }
 
   /**
-   * Get a fresh access token using the stored refresh token
-   * This method works the same way as the adhoc order functionality
+   * Load everything needed to build a tour's orders. Throws if the tour cannot be ordered.
    */
-  private async getAccessToken(): Promise<string> {
-    // Check if we're in a browser environment
-    if (typeof window === 'undefined') {
-      throw new Error('ShipHero order service must be used in browser environment. Please configure access tokens in Settings → ShipHero tab.')
+  async loadTourContext(tourId: string): Promise<TourOrderContext> {
+    const { data: tour, error: tourError } = await this.supabase
+      .from('tours')
+      .select(`
+        id,
+        tour_numeric_id,
+        date,
+        selected_workflows,
+        workflow_configs,
+        selected_skus,
+        sku_quantities,
+        po_extra_quantities,
+        shiphero_purchase_order_id,
+        shiphero_purchase_order_number,
+        shiphero_purchase_order_url,
+        host_shiphero_sales_order_id,
+        host_shiphero_sales_order_number,
+        host_shiphero_sales_order_url,
+        warehouse:warehouses(
+          id,
+          name,
+          code,
+          shiphero_warehouse_id,
+          address,
+          address2,
+          city,
+          state,
+          zip,
+          country
+        ),
+        host:team_members(
+          id,
+          first_name,
+          last_name,
+          email
+        ),
+        participants:tour_participants(
+          id,
+          first_name,
+          last_name,
+          email,
+          company,
+          title,
+          shiphero_sales_order_id,
+          shiphero_sales_order_number,
+          shiphero_sales_order_url
+        )
+      `)
+      .eq('id', tourId)
+      .single()
+
+    if (tourError || !tour) {
+      throw new Error(tourError?.message || 'Tour not found')
     }
 
-    const refreshToken = localStorage.getItem('shiphero_refresh_token')
-    
-    if (!refreshToken) {
-      throw new Error('ShipHero refresh token is required. Please configure it in Settings → ShipHero tab.')
+    const tourWarehouse: any = Array.isArray(tour.warehouse) ? tour.warehouse[0] : tour.warehouse
+    if (!tourWarehouse?.shiphero_warehouse_id) {
+      throw new Error('Warehouse does not have a ShipHero ID configured')
     }
 
-    const tokenResponse = await fetch('/api/shiphero/refresh-token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        refresh_token: refreshToken
+    // Catch bad addresses here rather than as ShipHero errors halfway through the orders
+    const { address: warehouseAddress, errors: addressErrors } = validateAddress(tourWarehouse)
+    if (addressErrors.length > 0) {
+      throw new Error(`Warehouse ${tourWarehouse.name} has an invalid address: ${addressErrors.join('; ')}. Fix it in Settings > Warehouses.`)
+    }
+    const warehouse = { ...tourWarehouse, ...warehouseAddress }
+
+    // Get all available swag items (since we removed tour-specific allocations)
+    const { data: allSwagItems, error: swagError } = await this.supabase
+      .from('swag_items')
+      .select(`
+        id,
+        name,
+        sku,
+        vendor_id
+      `)
+
+    if (swagError) {
+      throw new Error(`Failed to fetch swag items: ${swagError.message}`)
+    }
+
+    const { data: vendors, error: vendorsError } = await this.supabase
+      .from('vendors')
+      .select('legacy_id, name')
+
+    if (vendorsError) {
+      throw new Error(`Failed to fetch vendors: ${vendorsError.message}`)
+    }
+
+    const workflows = ((tour.selected_workflows || []) as string[]).filter(isWorkflowId)
+    const swagItems = (allSwagItems || []).filter((item: any) => item && item.sku)
+
+    const kit = buildTourKit(tour.selected_skus, tour.sku_quantities, swagItems)
+
+    if (kit.length === 0 && workflows.length === 0) {
+      throw new Error(tour.selected_skus
+        ? 'No SKUs were selected for this tour\'s swag kit.'
+        : 'No swag items available. Please add swag items in Settings.')
+    }
+
+    const { data: workflowOrders, error: workflowOrdersError } = await this.supabase
+      .from('tour_workflow_orders')
+      .select('*')
+      .eq('tour_id', tourId)
+
+    if (workflowOrdersError) {
+      throw new Error(`Failed to fetch workflow orders: ${workflowOrdersError.message}`)
+    }
+
+    const { data: vendorPurchaseOrders, error: vendorPurchaseOrdersError } = await this.supabase
+      .from('tour_vendor_purchase_orders')
+      .select('vendor_id, vendor_name, shiphero_order_id, shiphero_legacy_id, order_number, order_url, line_items, fulfillment_status')
+      .eq('tour_id', tourId)
+      .order('created_at')
+
+    if (vendorPurchaseOrdersError) {
+      throw new Error(`Failed to fetch vendor purchase orders: ${vendorPurchaseOrdersError.message}`)
+    }
+
+    // Ordered so each workflow order keeps the same demo customer across retries
+    let extras: any[] = []
+    if (workflows.length > 0) {
+      const { data: extrasData, error: extrasError } = await this.supabase
+        .from('extras')
+        .select('id, first_name, last_name, email, company')
+        .order('created_at')
+        .order('id')
+
+      if (extrasError) {
+        throw new Error(`Failed to fetch extras: ${extrasError.message}`)
+      }
+      extras = extrasData || []
+    }
+
+    const tenant = await getTenantConfig()
+
+    const host: any = Array.isArray(tour.host) ? tour.host[0] : tour.host
+
+    const participants: any[] = Array.isArray(tour.participants) ? tour.participants : []
+
+    return {
+      tourId,
+      tourRef: String(tour.tour_numeric_id),
+      date: tour.date,
+      warehouse,
+      host: host
+        ? {
+            id: host.id,
+            first_name: host.first_name,
+            last_name: host.last_name,
+            email: host.email,
+            company: null,
+            title: null,
+            existingOrder: tour.host_shiphero_sales_order_id
+              ? {
+                  id: tour.host_shiphero_sales_order_id,
+                  order_number: tour.host_shiphero_sales_order_number,
+                  url: tour.host_shiphero_sales_order_url
+                }
+              : null
+          }
+        : null,
+      participants: participants.map(p => ({
+        id: p.id,
+        first_name: p.first_name,
+        last_name: p.last_name,
+        email: p.email,
+        company: p.company,
+        title: p.title,
+        existingOrder: p.shiphero_sales_order_id
+          ? { id: p.shiphero_sales_order_id, order_number: p.shiphero_sales_order_number, url: p.shiphero_sales_order_url }
+          : null
+      })),
+      swagItems,
+      vendorNames: Object.fromEntries((vendors || []).map((vendor: any) => [String(vendor.legacy_id), vendor.name])),
+      kit,
+      poExtraQuantities: tour.po_extra_quantities || {},
+      purchaseOrder: tour.shiphero_purchase_order_id
+        ? {
+            id: tour.shiphero_purchase_order_id,
+            po_number: tour.shiphero_purchase_order_number,
+            url: tour.shiphero_purchase_order_url
+          }
+        : null,
+      vendorPurchaseOrders: vendorPurchaseOrders || [],
+      workflows,
+      workflowConfigs: tour.workflow_configs || {},
+      workflowOrders: workflowOrders || [],
+      createdOrders: [],
+      extras: extras.map(extra => ({
+        id: extra.id,
+        first_name: extra.first_name,
+        last_name: extra.last_name,
+        email: extra.email,
+        company: extra.company,
+        title: null
+      })),
+      tenant
+    }
+  }
+
+  /**
+   * Work out the orders the tour's workflows need and who receives each sales order.
+   * Each workflow assigns its orders to the participants in turn, then the host, then
+   * demo customers from the extras table when the workflow needs more orders than that.
+   */
+  planWorkflowOrders(context: TourOrderContext): WorkflowOrderAssignments {
+    const errors = validateWorkflowConfigs(context.workflows, context.workflowConfigs)
+    if (errors.length > 0) {
+      throw new Error(`Invalid workflow configuration: ${errors.join('; ')}`)
+    }
+
+    const recipients: Array<{ recipientType: WorkflowRecipientType; recipient: OrderRecipient }> = [
+      ...context.participants.map(recipient => ({ recipientType: 'participant' as const, recipient })),
+      ...(context.host ? [{ recipientType: 'host' as const, recipient: context.host }] : []),
+      ...context.extras.map(recipient => ({ recipientType: 'extra' as const, recipient }))
+    ]
+
+    const needed = requiredWorkflowRecipients(context.workflows, context.workflowConfigs)
+    if (needed > recipients.length) {
+      throw new Error(
+        `Workflows need ${needed} orders but the tour only has ${recipients.length - context.extras.length} participants and host ` +
+        `plus ${context.extras.length} extras. Add more extras in Settings.`
+      )
+    }
+
+    const plan = planWorkflowOrders(context.workflows, context.workflowConfigs)
+    return {
+      salesOrders: plan.salesOrders.map(order => ({ ...order, ...recipients[order.sequence - 1] })),
+      purchaseOrders: plan.purchaseOrders
+    }
+  }
+
+  /**
+   * Create the sales order for one participant and store its tracking info
+   */
+  async createParticipantSalesOrder(context: TourOrderContext, participantId: string): Promise<CreatedSalesOrder> {
+    const participant = context.participants.find(p => p.id === participantId)
+    if (!participant) {
+      throw new Error(`Participant ${participantId} is not part of this tour`)
+    }
+
+    if (participant.existingOrder) {
+      console.log(`Skipping ${participant.first_name} ${participant.last_name}: already has order ${participant.existingOrder.order_number}`)
+      return { ...participant.existingOrder, reused: true }
+    }
+
+    const order = await this.sendSalesOrder(context, participant, `${context.tourId}:${participant.id}`)
+
+    const { error: updateError } = await this.supabase
+      .from('tour_participants')
+      .update({
+        shiphero_sales_order_id: order.id,
+        shiphero_sales_order_number: order.order_number,
+        shiphero_sales_order_url: order.url
       })
-    })
+      .eq('id', participant.id)
 
-    if (!tokenResponse.ok) {
-      throw new Error('Failed to get ShipHero access token. Please check your refresh token in Settings.')
+    if (updateError) {
+      console.error('Failed to update participant with ShipHero order ID:', updateError)
+      throw new Error(`Order ${order.order_number} created but failed to save tracking info for ${participant.first_name} ${participant.last_name}`)
     }
 
-    const tokenData = await tokenResponse.json()
-    const accessToken = tokenData.access_token
+    console.log(`Successfully stored order tracking info for ${participant.first_name} ${participant.last_name}`)
+    participant.existingOrder = order
+    return order
+  }
 
-    if (!accessToken) {
-      throw new Error('No access token received from ShipHero. Please check your refresh token.')
+  /**
+   * Create the host's sales order and store its tracking info on the tour
+   */
+  async createHostSalesOrder(context: TourOrderContext): Promise<CreatedSalesOrder> {
+    const host = context.host
+    if (!host) {
+      throw new Error('Tour host not found')
+    }
+
+    if (host.existingOrder) {
+      console.log(`Skipping host ${host.first_name} ${host.last_name}: already has order ${host.existingOrder.order_number}`)
+      return { ...host.existingOrder, reused: true }
     }
 
-    // Return the access token (we'll use fetch directly like adhoc orders)
-    return accessToken
+    const order = await this.sendSalesOrder(context, host, `${context.tourId}:host`)
+
+    // For host orders, update the tours table instead of tour_participants
+    const { error: updateError } = await this.supabase
+      .from('tours')
+      .update({
+        host_shiphero_sales_order_id: order.id,
+        host_shiphero_sales_order_number: order.order_number,
+        host_shiphero_sales_order_url: order.url
+      })
+      .eq('id', context.tourId)
+      .eq('host_id', host.id)
+
+    if (updateError) {
+      console.error('Failed to update tour with host ShipHero order ID:', updateError)
+      throw new Error(`Host order ${order.order_number} created but failed to save tracking info for ${host.first_name} ${host.last_name}`)
+    }
+
+    console.log(`Successfully stored host order tracking info for ${host.first_name} ${host.last_name}`)
+    host.existingOrder = order
+    return order
   }
 
-  private getStateCode(state: string): string {
-    const stateMap: Record<string, string> = {
-      'Georgia': 'GA',
-      'California': 'CA',
-      'New York': 'NY',
-      'Texas': 'TX',
-      'Florida': 'FL',
-      // Add more as needed
+  /**
+   * Create the tour's purchase order (one swag kit per participant + host). When the kit's SKUs
+   * come from several vendors, each vendor gets its own PO: the first group's is the tour's
+   * purchase order and the rest are recorded in tour_vendor_purchase_orders.
+   */
+  async createPurchaseOrder(context: TourOrderContext): Promise<CreatedPurchaseOrder> {
+    const { host } = context
+    if (!host) {
+      throw new Error('Tour host not found')
     }
-    return stateMap[state] || state
+
+    const [primary, ...otherVendors] = this.purchaseOrderGroups(context)
+    if (!primary) {
+      throw new Error('The tour\'s swag kit has nothing to order')
+    }
+
+    let purchaseOrder: CreatedPurchaseOrder
+    if (context.purchaseOrder) {
+      console.log(`Skipping purchase order: tour already has ${context.purchaseOrder.po_number}`)
+      purchaseOrder = { ...context.purchaseOrder, reused: true }
+    } else {
+      purchaseOrder = await this.createMainPurchaseOrder(context, host, primary)
+    }
+
+    for (const group of otherVendors) {
+      await this.createVendorPurchaseOrder(context, host, group)
+    }
+
+    return purchaseOrder
   }
 
-  private getCountryCode(country: string): string {
-    const countryMap: Record<string, string> = {
-      'United States': 'US',
-      'Canada': 'CA',
-      'United Kingdom': 'GB',
-      // Add more as needed
+  private async createMainPurchaseOrder(
+    context: TourOrderContext,
+    host: OrderRecipient,
+    group: PurchaseOrderGroup
+  ): Promise<CreatedPurchaseOrder> {
+    const purchaseOrder = await this.sendPurchaseOrder(context, host, context.tourId, group.lineItems, group.vendorId)
+
+    // Store ShipHero purchase order details in database
+    const { error: updateError } = await this.supabase
+      .from('tours')
+      .update({
+        shiphero_purchase_order_id: purchaseOrder.id,
+        shiphero_purchase_order_number: purchaseOrder.po_number,
+        shiphero_purchase_order_url: purchaseOrder.url
+      })
+      .eq('id', context.tourId)
+
+    if (updateError) {
+      console.error('Failed to update tour with ShipHero purchase order ID:', updateError)
+      throw new Error(`Created purchase order ${purchaseOrder.po_number} but failed to save tracking info`)
     }
-    return countryMap[country] || country
+
+    console.log(`Successfully stored purchase order tracking info for tour ${context.tourId}`)
+    const { reused, ...tracked } = purchaseOrder
+    context.purchaseOrder = tracked
+    return purchaseOrder
   }
 
   /**
-   * Create sales orders in ShipHero for each participant in a tour
+   * Create the PO for one of the kit's other vendors and record it in tour_vendor_purchase_orders
    */
-  async createSalesOrdersForTour(tourId: string): Promise<{
-    success: boolean
-    message: string
-    ordersCreated: number
-    errors: string[]
-  }> {
-    try {
-      // Get tour details with participants, swag allocations, and host
-      const { data: tour, error: tourError } = await this.supabase
-        .from('tours')
-        .select(`
-          id,
-          date,
-          warehouse:warehouses(
-            id,
-            name,
-            code,
-            shiphero_warehouse_id,
-            address,
-            address2,
-            city,
-            state,
-            zip,
-            country
-          ),
-          host:team_members(
-            id,
-            first_name,
-            last_name,
-            email
-          ),
-          participants:tour_participants(
-            id,
-            first_name,
-            last_name,
-            email,
-            company,
-            title
-          )
-        `)
-        .eq('id', tourId)
-        .single()
-
-      if (tourError || !tour) {
-        return {
-          success: false,
-          message: 'Tour not found',
-          ordersCreated: 0,
-          errors: [tourError?.message || 'Tour not found']
-        }
-      }
+  private async createVendorPurchaseOrder(
+    context: TourOrderContext,
+    host: OrderRecipient,
+    group: PurchaseOrderGroup
+  ): Promise<VendorPurchaseOrder> {
+    const existing = context.vendorPurchaseOrders.find(order => order.vendor_id === group.vendorId)
+    if (existing) {
+      console.log(`Skipping purchase order for vendor ${group.vendorName || group.vendorId}: tour already has ${existing.order_number}`)
+      return existing
+    }
 
-      const warehouse = Array.isArray(tour.warehouse) ? tour.warehouse[0] : tour.warehouse
-      if (!warehouse?.shiphero_warehouse_id) {
-        return {
-          success: false,
-          message: 'Warehouse does not have a ShipHero ID configured',
-          ordersCreated: 0,
-          errors: ['Missing warehouse ShipHero ID']
-        }
-      }
+    const purchaseOrder = await this.sendPurchaseOrder(
+      context,
+      host,
+      `${context.tourId}:vendor:${group.vendorId}`,
+      group.lineItems,
+      group.vendorId
+    )
 
-      const participants = Array.isArray(tour.participants) ? tour.participants : []
-      const host = Array.isArray(tour.host) ? tour.host[0] : tour.host
+    const order: VendorPurchaseOrder = {
+      vendor_id: group.vendorId,
+      vendor_name: group.vendorName,
+      shiphero_order_id: purchaseOrder.id,
+      shiphero_legacy_id: purchaseOrder.legacy_id ?? null,
+      order_number: purchaseOrder.po_number,
+      order_url: purchaseOrder.url,
+      line_items: group.lineItems,
+      fulfillment_status: null
+    }
 
-      let ordersCreated = 0
-      const errors: string[] = []
+    const { error } = await this.supabase
+      .from('tour_vendor_purchase_orders')
+      .upsert({ tour_id: context.tourId, ...order }, { onConflict: 'tour_id,vendor_id' })
 
-      // Get all available swag items (since we removed tour-specific allocations)
-      const { data: allSwagItems, error: swagError } = await this.supabase
-        .from('swag_items')
-        .select(`
-          id,
-          name,
-          sku
-        `)
-
-      if (swagError) {
-        return {
-          success: false,
-          message: 'Failed to fetch swag items',
-          ordersCreated: 0,
-          errors: [swagError.message]
-        }
-      }
+    if (error) {
+      console.error('Failed to save vendor purchase order tracking info:', error)
+      throw new Error(`Created purchase order ${order.order_number} for ${group.vendorName || group.vendorId} but failed to save tracking info`)
+    }
 
-      if (!allSwagItems || allSwagItems.length === 0) {
-        return {
-          success: false,
-          message: 'No swag items available. Please add swag items in Settings.',
-          ordersCreated: 0,
-          errors: ['No swag items found']
-        }
+    context.vendorPurchaseOrders.push(order)
+    return order
+  }
+
+  /**
+   * Create one sales order needed by a workflow and record it in tour_workflow_orders
+   */
+  async createWorkflowSalesOrder(context: TourOrderContext, workflow: WorkflowId, sequence: number): Promise<CreatedSalesOrder> {
+    const existing = this.findWorkflowOrder(context, workflow, 'sales_order', sequence)
+    if (existing) {
+      console.log(`Skipping ${workflow} order ${sequence}: already has order ${existing.order_number}`)
+      return {
+        id: existing.shiphero_order_id,
+        legacy_id: existing.shiphero_legacy_id ?? undefined,
+        order_number: existing.order_number,
+        url: existing.order_url || '',
+        reused: true
       }
+    }
 
-      // Create orders for each participant AND the host with ALL swag items
-      const participantOrders = new Map()
-      
-      // Add all participants
-      for (const participant of participants) {
-        participantOrders.set(participant.id, {
-          participant,
-          lineItems: []
-        })
+    const planned = this.planWorkflowOrders(context).salesOrders
+      .find(order => order.workflow === workflow && order.sequence === sequence)
+    if (!planned) {
+      throw new Error(`Workflow ${workflow} does not need order ${sequence}`)
+    }
 
-        // Add ALL available swag items to each participant (1 quantity each)
-        for (const swagItem of allSwagItems) {
-          if (!swagItem || !swagItem.sku) continue
-
-          // Use the same format as adhoc orders for line item IDs
-          const lineItemIndex = participantOrders.get(participant.id).lineItems.length + 1
-          // Create a consistent date format for all orders
-          const tourDate = new Date(tour.date)
-          const orderName = generateSalesOrderName(
-            participant.first_name,
-            participant.last_name,
-            warehouse.name || "",
-            warehouse.code || "",
-            tourDate
-          )
-          participantOrders.get(participant.id).lineItems.push({
-            sku: swagItem.sku,
-            partner_line_item_id: `${orderName}-${lineItemIndex}`, // Same format as adhoc orders
-            quantity: 1, // 1 of each swag item per participant
-            price: "0.00", // Free swag
-            warehouse_id: warehouse.shiphero_warehouse_id, // Required field
-            product_name: swagItem.name || swagItem.sku,
-            fulfillment_status: "pending",
-            quantity_pending_fulfillment: 1
-          })
-        }
+    const lineItems = this.namedLineItems(context, planned.line_items)
+    const order = await this.sendSalesOrder(
+      context,
+      planned.recipient,
+      `${context.tourId}:${workflow}:${sequence}`,
+      lineItems,
+      planned.recipientType === 'extra' ? [workflow, 'demo'] : [workflow]
+    )
+
+    await this.saveWorkflowOrder(context, {
+      workflow,
+      order_type: 'sales_order',
+      sequence,
+      recipient_type: planned.recipientType,
+      participant_id: planned.recipientType === 'participant' ? planned.recipient.id : null,
+      extra_id: planned.recipientType === 'extra' ? planned.recipient.id : null,
+      recipient_name: `${planned.recipient.first_name} ${planned.recipient.last_name}`,
+      email: planned.recipient.email,
+      shiphero_order_id: order.id,
+      shiphero_legacy_id: order.legacy_id ?? null,
+      order_number: order.order_number,
+      order_url: order.url,
+      line_items: lineItems,
+      fulfillment_status: null
+    })
+
+    return order
+  }
+
+  /**
+   * Create the purchase order needed by a receiving workflow and record it in tour_workflow_orders
+   */
+  async createWorkflowPurchaseOrder(context: TourOrderContext, workflow: WorkflowId): Promise<CreatedPurchaseOrder> {
+    const { host } = context
+    if (!host) {
+      throw new Error('Tour host not found')
+    }
+
+    const existing = this.findWorkflowOrder(context, workflow, 'purchase_order', 1)
+    if (existing) {
+      console.log(`Skipping ${workflow} purchase order: tour already has ${existing.order_number}`)
+      return {
+        id: existing.shiphero_order_id,
+        legacy_id: existing.shiphero_legacy_id ?? undefined,
+        po_number: existing.order_number,
+        url: existing.order_url || '',
+        reused: true
       }
+    }
 
-      // Add host as a participant if host exists
-      if (host) {
-        participantOrders.set(`host-${host.id}`, {
-          participant: {
-            id: `host-${host.id}`,
-            first_name: host.first_name,
-            last_name: host.last_name,
-            email: host.email,
-            company: null,
-            title: null
-          },
-          lineItems: []
-        })
+    const planned = this.planWorkflowOrders(context).purchaseOrders.find(order => order.workflow === workflow)
+    if (!planned) {
+      throw new Error(`Workflow ${workflow} does not need a purchase order`)
+    }
 
-        // Add ALL available swag items to the host (1 quantity each)
-        for (const swagItem of allSwagItems) {
-          if (!swagItem || !swagItem.sku) continue
-
-          // Use the same format as adhoc orders for line item IDs
-          const lineItemIndex = participantOrders.get(`host-${host.id}`).lineItems.length + 1
-          // Create a consistent date format for all orders
-          const tourDate = new Date(tour.date)
-          const orderName = generateSalesOrderName(
-            host.first_name,
-            host.last_name,
-            warehouse.name || "",
-            warehouse.code || "",
-            tourDate
-          )
-          participantOrders.get(`host-${host.id}`).lineItems.push({
-            sku: swagItem.sku,
-            partner_line_item_id: `${orderName}-${lineItemIndex}`, // Same format as adhoc orders
-            quantity: 1, // 1 of each swag item for host
-            price: "0.00", // Free swag
-            warehouse_id: warehouse.shiphero_warehouse_id, // Required field
-            product_name: swagItem.name || swagItem.sku,
-            fulfillment_status: "pending",
-            quantity_pending_fulfillment: 1
-          })
-        }
+    const lineItems = this.namedLineItems(context, planned.line_items)
+    const purchaseOrder = await this.sendPurchaseOrder(context, host, `${context.tourId}:${workflow}`, lineItems)
+
+    await this.saveWorkflowOrder(context, {
+      workflow,
+      order_type: 'purchase_order',
+      sequence: 1,
+      recipient_type: null,
+      participant_id: null,
+      extra_id: null,
+      recipient_name: null,
+      email: null,
+      shiphero_order_id: purchaseOrder.id,
+      shiphero_legacy_id: purchaseOrder.legacy_id ?? null,
+      order_number: purchaseOrder.po_number,
+      order_url: purchaseOrder.url,
+      line_items: lineItems,
+      fulfillment_status: null
+    })
+
+    return purchaseOrder
+  }
+
+  /**
+   * Write the structured order summary (every sales order and the PO) to tours.order_summary.
+   * legacy ids and statuses already recorded in a previous summary are kept.
+   */
+  async writeOrderSummary(context: TourOrderContext): Promise<TourOrderSummary> {
+    const { data: tour, error } = await this.supabase
+      .from('tours')
+      .select('order_summary')
+      .eq('id', context.tourId)
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to load order summary: ${error.message}`)
+    }
+
+    const previous: TourOrderSummary = tour?.order_summary || {}
+    const previousOrders = new Map(
+      [...(previous.sales_orders || []), ...(previous.demo_orders || [])].map(order => [order.id, order])
+    )
+
+    const salesOrderLineItems = context.kit
+    const salesOrders: SalesOrderSummary[] = []
+
+    const addSalesOrder = (kind: 'participant' | 'host', recipient: OrderRecipient) => {
+      const order = recipient.existingOrder
+      if (!order) return
+
+      const earlier = previousOrders.get(order.id)
+      salesOrders.push({
+        kind,
+        participant_id: kind === 'participant' ? recipient.id : null,
+        recipient_name: `${recipient.first_name} ${recipient.last_name}`,
+        email: recipient.email,
+        id: order.id,
+        legacy_id: order.legacy_id ?? earlier?.legacy_id ?? null,
+        order_number: order.order_number,
+        url: order.url,
+        status: earlier?.status || 'pending',
+        line_items: earlier?.line_items || salesOrderLineItems
+      })
+    }
+
+    context.participants.forEach(participant => addSalesOrder('participant', participant))
+    if (context.host) addSalesOrder('host', context.host)
+
+    const previousPurchaseOrders = new Map((previous.purchase_orders || []).map(order => [order.id, order]))
+    const workflowPurchaseOrders: PurchaseOrderSummary[] = []
+    const demoOrders: SalesOrderSummary[] = []
+
+    for (const order of context.workflowOrders) {
+      if (order.order_type === 'purchase_order') {
+        const earlier = previousPurchaseOrders.get(order.shiphero_order_id)
+        workflowPurchaseOrders.push({
+          workflow: order.workflow,
+          id: order.shiphero_order_id,
+          legacy_id: order.shiphero_legacy_id ?? earlier?.legacy_id ?? null,
+          po_number: order.order_number,
+          url: order.order_url || '',
+          status: order.fulfillment_status || earlier?.status || 'pending',
+          line_items: order.line_items
+        })
+        continue
       }
 
-      // Create sales order for each participant
-      
-      for (const [participantId, orderData] of participantOrders) {
-        try {
-          const participant = orderData.participant
-          const lineItems = orderData.lineItems
-
-          if (lineItems.length === 0) continue
-
-          // Generate custom order name and number (same as adhoc orders)
-          const tourDate = new Date(tour.date)
-          
-          console.log('🏢 Warehouse data for order creation:', {
-            name: warehouse.name,
-            code: warehouse.code,
-            participantName: `${participant.first_name} ${participant.last_name}`
-          })
-          
-          const orderName = generateSalesOrderName(
-            participant.first_name,
-            participant.last_name,
-            warehouse.name || "",
-            warehouse.code || "",
-            tourDate
-          )
-          
-          console.log('📦 Generated order name:', orderName)
-          console.log('🏷️ Order tags being sent:', [warehouse.code || ""].filter(Boolean))
-          console.log('🏢 Warehouse code value:', warehouse.code)
-
-          const accessToken = await this.getAccessToken()
-          const salesOrderResult = await fetch('/api/shiphero/orders', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${accessToken}`
-            },
-            body: JSON.stringify({
-              type: 'sales_order',
-              data: {
-                order_number: orderName,
-                shop_name: "Warehouse Tours",
-                fulfillment_status: "pending",
-                order_date: tourDate.toISOString().split('T')[0], // Use date format like "2025-09-23"
-                total_tax: "0.00",
-                subtotal: "0.00",
-                total_discounts: "0.00",
-                total_price: "0.00",
-                shipping_lines: {
-                  title: "Generic Shipping",
-                  price: "0.00",
-                  carrier: "Generic Carrier",
-                  method: "Generic Label"
-                },
-                shipping_address: {
-                  first_name: warehouse.name,
-                  last_name: "Warehouse",
-                  company: warehouse.name,
-                  address1: warehouse.address,
-                  address2: warehouse.address2 || '',
-                  city: warehouse.city,
-                  state: this.getStateCode(warehouse.state),
-                  state_code: this.getStateCode(warehouse.state),
-                  zip: warehouse.zip,
-                  country: this.getCountryCode(warehouse.country || 'United States'),
-                  country_code: this.getCountryCode(warehouse.country || 'United States'),
-                  email: participant.email,
-                  phone: "5555555555"
-                },
-                billing_address: {
-                  first_name: participant.first_name,
-                  last_name: participant.last_name,
-                  company: participant.company || '',
-                  address1: warehouse.address,
-                  address2: warehouse.address2 || '',
-                  city: warehouse.city,
-                  state: this.getStateCode(warehouse.state),
-                  state_code: this.getStateCode(warehouse.state),
-                  zip: warehouse.zip,
-                  country: this.getCountryCode(warehouse.country || 'United States'),
-                  country_code: this.getCountryCode(warehouse.country || 'United States'),
-                  email: participant.email,
-                  phone: "5555555555"
-                },
-                line_items: lineItems,
-                required_ship_date: tourDate.toISOString().split('T')[0], // Use date format like "2025-09-23"
-                tags: [warehouse.code || ""].filter(Boolean) // Add airport code as tag
-              }
+      const earlier = previousOrders.get(order.shiphero_order_id)
+      const target = order.recipient_type === 'extra' ? demoOrders : salesOrders
+      target.push({
+        kind: order.recipient_type || 'participant',
+        workflow: order.workflow,
+        participant_id: order.participant_id,
+        recipient_name: order.recipient_name || '',
+        email: order.email || '',
+        id: order.shiphero_order_id,
+        legacy_id: order.shiphero_legacy_id ?? earlier?.legacy_id ?? null,
+        order_number: order.order_number,
+        url: order.order_url || '',
+        status: order.fulfillment_status || earlier?.status || 'pending',
+        line_items: order.line_items
+      })
+    }
+
+    for (const order of context.vendorPurchaseOrders) {
+      const earlier = previousPurchaseOrders.get(order.shiphero_order_id)
+      workflowPurchaseOrders.push({
+        vendor_id: order.vendor_id,
+        vendor_name: order.vendor_name,
+        id: order.shiphero_order_id,
+        legacy_id: order.shiphero_legacy_id ?? earlier?.legacy_id ?? null,
+        po_number: order.order_number,
+        url: order.order_url || '',
+        status: order.fulfillment_status || earlier?.status || 'pending',
+        line_items: order.line_items
+      })
+    }
+
+    const purchaseOrder = context.purchaseOrder
+    const earlierPO = purchaseOrder && previous.purchase_order?.id === purchaseOrder.id ? previous.purchase_order : null
+    const primaryGroup = purchaseOrder ? this.purchaseOrderGroups(context)[0] : null
+
+    const summary: TourOrderSummary = {
+      ...previous,
+      generated_at: new Date().toISOString(),
+      sales_orders: salesOrders,
+      purchase_order: purchaseOrder
+        ? {
+            id: purchaseOrder.id,
+            legacy_id: purchaseOrder.legacy_id ?? earlierPO?.legacy_id ?? null,
+            po_number: purchaseOrder.po_number,
+            url: purchaseOrder.url,
+            status: earlierPO?.status || 'pending',
+            line_items: earlierPO?.line_items || primaryGroup?.lineItems || [],
+            ...(context.vendorPurchaseOrders.length > 0 && {
+              vendor_id: earlierPO?.vendor_id || primaryGroup?.vendorId,
+              vendor_name: earlierPO?.vendor_name || primaryGroup?.vendorName
             })
-          })
-
-          const salesOrderData = await salesOrderResult.json()
-
-          if (salesOrderData.data?.order_create?.order) {
-            ordersCreated++
-            const order = salesOrderData.data.order_create.order
-            console.log(`Created sales order for ${participant.first_name} ${participant.last_name}: ${order.order_number} (ID: ${order.id})`)
-            
-            // Store ShipHero order details in database
-            const shipheroOrderUrl = `https://app.shiphero.com/orders/${order.id}`
-            
-            // Check if this is a host order (participantId starts with "host-")
-            if (participantId.startsWith('host-')) {
-              // For host orders, update the tours table instead of tour_participants
-              const actualHostId = participantId.replace('host-', '')
-              const { error: updateError } = await this.supabase
-                .from('tours')
-                .update({
-                  host_shiphero_sales_order_id: order.id,
-                  host_shiphero_sales_order_number: order.order_number,
-                  host_shiphero_sales_order_url: shipheroOrderUrl
-                })
-                .eq('id', tourId)
-                .eq('host_id', actualHostId)
-              
-              if (updateError) {
-                console.error('Failed to update tour with host ShipHero order ID:', updateError)
-                errors.push(`Host order created but failed to save tracking info for ${participant.first_name} ${participant.last_name}`)
-              } else {
-                console.log(`Successfully stored host order tracking info for ${participant.first_name} ${participant.last_name}`)
-              }
-            } else {
-              // For regular participants, update tour_participants table
-              const { error: updateError } = await this.supabase
-                .from('tour_participants')
-                .update({
-                  shiphero_sales_order_id: order.id,
-                  shiphero_sales_order_number: order.order_number,
-                  shiphero_sales_order_url: shipheroOrderUrl
-                })
-                .eq('id', participantId)
-              
-              if (updateError) {
-                console.error('Failed to update participant with ShipHero order ID:', updateError)
-                errors.push(`Order created but failed to save tracking info for ${participant.first_name} ${participant.last_name}`)
-              } else {
-                console.log(`Successfully stored order tracking info for ${participant.first_name} ${participant.last_name}`)
-              }
-            }
-          } else {
-            const errorMsg = salesOrderData.errors?.[0]?.message || 'Unknown error'
-            errors.push(`Failed to create order for ${participant.first_name} ${participant.last_name}: ${errorMsg}`)
-            console.error('Sales order creation failed - FULL DETAILS:', JSON.stringify(salesOrderData, null, 2))
-            // Log any specific error messages
-            if (salesOrderData.errors && salesOrderData.errors.length > 0) {
-              console.error('ShipHero specific errors:', salesOrderData.errors.map((e: any) => e.message).join(', '))
-            }
           }
+        : null,
+      purchase_orders: workflowPurchaseOrders,
+      demo_orders: demoOrders
+    }
+
+    const { error: updateError } = await this.supabase
+      .from('tours')
+      .update({ order_summary: summary })
+      .eq('id', context.tourId)
+
+    if (updateError) {
+      throw new Error(`Failed to save order summary: ${updateError.message}`)
+    }
 
-        } catch (error) {
-          errors.push(`Error creating order for participant ${participantId}: ${error}`)
+    return summary
+  }
+
+  /**
+   * Create sales orders in ShipHero for each participant in a tour
+   */
+  async createSalesOrdersForTour(tourId: string): Promise<{
+    success: boolean
+    message: string
+    ordersCreated: number
+    ordersSkipped: number
+    errors: string[]
+  }> {
+    try {
+      const context = await this.loadTourContext(tourId)
+
+      let ordersCreated = 0
+      let ordersSkipped = 0
+      const errors: string[] = []
+
+      for (const participant of context.participants) {
+        try {
+          const order = await this.createParticipantSalesOrder(context, participant.id)
+          if (order.reused) ordersSkipped++
+          else ordersCreated++
+        } catch (error: any) {
+          errors.push(error.message || `Error creating order for participant ${participant.id}`)
           console.error('Error creating sales order:', error)
+          if (isShipHeroCircuitOpen()) break
+        }
+      }
+
+      if (isShipHeroCircuitOpen()) {
+        errors.push('Stopped early because ShipHero is not responding; run it again to create the remaining orders')
+      } else if (context.host) {
+        try {
+          const order = await this.createHostSalesOrder(context)
+          if (order.reused) ordersSkipped++
+          else ordersCreated++
+        } catch (error: any) {
+          errors.push(error.message || 'Error creating host order')
+          console.error('Error creating host sales order:', error)
         }
       }
 
       return {
-        success: ordersCreated > 0,
-        message: `Created ${ordersCreated} sales orders in ShipHero`,
+        success: ordersCreated + ordersSkipped > 0,
+        message: ordersSkipped > 0
+          ? `Created ${ordersCreated} sales orders in ShipHero (${ordersSkipped} already existed)`
+          : `Created ${ordersCreated} sales orders in ShipHero`,
         ordersCreated,
+        ordersSkipped,
         errors
       }
 
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error creating sales orders:', error)
       return {
         success: false,
-        message: `Failed to create sales orders: ${error}`,
+        message: `Failed to create sales orders: ${error.message || error}`,
         ordersCreated: 0,
-        errors: [String(error)]
+        ordersSkipped: 0,
+        errors: [String(error.message || error)]
       }
     }
   }
 
-  /**
-  /**
   /**
    * Create a purchase order in ShipHero for all swag items needed for a tour.
    */
@@ -442,219 +889,442 @@ export class ShipHeroOrderService {
     errors: string[];
   }> {
     try {
-      // Get tour with swag allocations and host
-      const { data: tour, error: tourError } = await this.supabase
-        .from('tours')
-        .select(`
-          id,
-          date,
-          warehouse:warehouses(
-            id,
-            name,
-            code,
-            shiphero_warehouse_id
-          ),
-          host:team_members(
-            id,
-            first_name,
-            last_name,
-            email
-          )
-        `)
-        .eq('id', tourId)
-        .single()
-
-      if (tourError || !tour) {
-        return {
-          success: false,
-          message: 'Tour not found',
-          errors: [tourError?.message || 'Tour not found']
-        }
-      }
+      const context = await this.loadTourContext(tourId)
+      const purchaseOrder = await this.createPurchaseOrder(context)
+      const vendorPONumbers = context.vendorPurchaseOrders.map(order => order.order_number)
 
-      const warehouse = Array.isArray(tour.warehouse) ? tour.warehouse[0] : tour.warehouse
-      if (!warehouse?.shiphero_warehouse_id) {
-        return {
-          success: false,
-          message: 'Warehouse does not have a ShipHero ID configured',
-          errors: ['Missing warehouse ShipHero ID']
-        }
+      return {
+        success: true,
+        message: vendorPONumbers.length > 0
+          ? `Purchase orders by vendor: ${[purchaseOrder.po_number, ...vendorPONumbers].join(', ')}`
+          : purchaseOrder.reused
+            ? `Purchase order ${purchaseOrder.po_number} already exists`
+            : `Created purchase order ${purchaseOrder.po_number}`,
+        poNumber: purchaseOrder.po_number,
+        errors: []
       }
 
-      // Get all available swag items (since we removed tour-specific allocations)
-      const { data: allSwagItems, error: swagError } = await this.supabase
-        .from('swag_items')
-        .select(`
-          id,
-          name,
-          sku
-        `)
-
-      if (swagError) {
-        return {
-          success: false,
-          message: 'Failed to fetch swag items',
-          errors: [swagError.message]
-        }
+    } catch (error: any) {
+      console.error('Error creating purchase order:', error)
+      return {
+        success: false,
+        message: `Failed to create purchase order: ${error.message || error}`,
+        errors: [String(error.message || error)]
       }
+    }
+  }
 
-      // Get participant count to calculate total quantities needed (including host)
-      const { data: participants, error: participantsError } = await this.supabase
-        .from('tour_participants')
-        .select('id')
-        .eq('tour_id', tourId)
-
-      if (participantsError) {
-        return {
-          success: false,
-          message: 'Failed to fetch participants',
-          errors: [participantsError.message]
-        }
-      }
+  /**
+   * Cancel a sales order in ShipHero. Throws with ShipHero's error message on failure.
+   */
+  async cancelSalesOrder(orderId: string, reason: string, tourId?: string): Promise<void> {
+    const data = await executeShipHeroQuery(ORDER_CANCEL_MUTATION, {
+      data: { order_id: orderId, reason }
+    }, { tourId })
 
-      const participantCount = (participants?.length || 0) + 1 // +1 for the host
+    if (!data?.order_cancel?.order) {
+      throw new Error(`ShipHero did not cancel order ${orderId}`)
+    }
+    console.log(`Cancelled sales order ${orderId}`)
+  }
 
-      if (!allSwagItems || allSwagItems.length === 0) {
-        return {
-          success: false,
-          message: 'No swag items available. Please add swag items in Settings.',
-          errors: ['No swag items found']
-        }
-      }
+  /**
+   * Cancel a purchase order in ShipHero. Throws with ShipHero's error message on failure.
+   */
+  async cancelPurchaseOrder(purchaseOrderId: string, tourId?: string): Promise<void> {
+    const data = await executeShipHeroQuery(PURCHASE_ORDER_CANCEL_MUTATION, {
+      data: { po_id: purchaseOrderId }
+    }, { tourId })
 
-      // Calculate total quantities needed (1 per item × number of participants)
-      const skuTotals = new Map()
-      
-      for (const swagItem of allSwagItems) {
-        const sku = swagItem.sku
-        const totalQty = 1 * participantCount // 1 of each item per participant
-        skuTotals.set(sku, {
-          sku: swagItem.sku,
-          name: swagItem.name,
-          totalQuantity: totalQty
-        })
+    if (!data?.purchase_order_cancel?.purchase_order) {
+      throw new Error(`ShipHero did not cancel purchase order ${purchaseOrderId}`)
+    }
+    console.log(`Cancelled purchase order ${purchaseOrderId}`)
+  }
+
+  /**
+   * Cancel an order created through this context and clear whatever tracking info was saved for it
+   * (participant, host or purchase order columns, vendor PO or workflow order rows)
+   */
+  async undoCreatedOrder(context: TourOrderContext, order: CreatedOrderRef, reason: string): Promise<void> {
+    if (order.order_type === 'purchase_order') {
+      await this.cancelPurchaseOrder(order.id, context.tourId)
+    } else {
+      await this.cancelSalesOrder(order.id, reason, context.tourId)
+    }
+
+    const clearing = order.order_type === 'purchase_order'
+      ? [
+          this.supabase
+            .from('tours')
+            .update({ shiphero_purchase_order_id: null, shiphero_purchase_order_number: null, shiphero_purchase_order_url: null })
+            .eq('id', context.tourId)
+            .eq('shiphero_purchase_order_id', order.id),
+          this.supabase
+            .from('tour_vendor_purchase_orders')
+            .delete()
+            .eq('tour_id', context.tourId)
+            .eq('shiphero_order_id', order.id)
+        ]
+      : [
+          this.supabase
+            .from('tour_participants')
+            .update({ shiphero_sales_order_id: null, shiphero_sales_order_number: null, shiphero_sales_order_url: null })
+            .eq('tour_id', context.tourId)
+            .eq('shiphero_sales_order_id', order.id),
+          this.supabase
+            .from('tours')
+            .update({ host_shiphero_sales_order_id: null, host_shiphero_sales_order_number: null, host_shiphero_sales_order_url: null })
+            .eq('id', context.tourId)
+            .eq('host_shiphero_sales_order_id', order.id)
+        ]
+    clearing.push(
+      this.supabase
+        .from('tour_workflow_orders')
+        .delete()
+        .eq('tour_id', context.tourId)
+        .eq('shiphero_order_id', order.id)
+    )
+
+    for (const { error } of await Promise.all(clearing)) {
+      if (error) {
+        throw new Error(`Cancelled ${order.number} but failed to clear tracking info: ${error.message}`)
       }
+    }
 
-      if (skuTotals.size === 0) {
-        return {
-          success: false,
-          message: 'No swag items found for this tour',
-          errors: ['No swag allocations']
-        }
+    for (const participant of context.participants) {
+      if (participant.existingOrder?.id === order.id) participant.existingOrder = null
+    }
+    if (context.host?.existingOrder?.id === order.id) context.host.existingOrder = null
+    if (context.purchaseOrder?.id === order.id) context.purchaseOrder = null
+    context.vendorPurchaseOrders = context.vendorPurchaseOrders.filter(o => o.shiphero_order_id !== order.id)
+    context.workflowOrders = context.workflowOrders.filter(o => o.shiphero_order_id !== order.id)
+  }
+
+  /**
+   * Build and send one sales order (participant or host). Defaults to the tour's swag kit.
+   */
+  private async sendSalesOrder(
+    context: TourOrderContext,
+    recipient: OrderRecipient,
+    uniqueKey: string,
+    items: OrderSummaryLineItem[] = context.kit,
+    extraTags: string[] = []
+  ): Promise<CreatedSalesOrder> {
+    const { warehouse, tenant } = context
+    const tourDate = new Date(context.date)
+
+    const orderName = renderOrderName(tenant.sales_order_name_template, {
+      first: recipient.first_name,
+      last: recipient.last_name,
+      date: context.date,
+      code: this.warehouseCode(context),
+      tourRef: context.tourRef,
+      seq: await this.allocateOrderSequence(context, `so:${uniqueKey}`)
+    })
+
+    console.log('📦 Generated order name:', orderName)
+
+    // A previous attempt may have created this order in ShipHero without saving it locally
+    const existing = await this.findExistingSalesOrder(orderName, context.tourId)
+    if (existing) {
+      console.log(`Found existing order ${orderName} in ShipHero, reusing it`)
+      return {
+        id: existing.id,
+        legacy_id: existing.legacy_id,
+        order_number: existing.order_number,
+        url: `https://app.shiphero.com/orders/${existing.id}`,
+        reused: true
       }
+    }
 
-      // Create line items for purchase order (match adhoc PO format exactly)
-      const lineItems = Array.from(skuTotals.entries()).map(([sku, itemData]) => ({
-        sku: itemData.sku,
-        quantity: itemData.totalQuantity,
-        expected_weight_in_lbs: "1.00",
-        vendor_id: "1076735",
-        quantity_received: 0,
-        quantity_rejected: 0,
+    // Same line item ID format as adhoc orders
+    const lineItems = items.map((item, index) => ({
+      sku: item.sku,
+      partner_line_item_id: `${orderName}-${index + 1}`,
+      quantity: item.quantity,
+      price: "0.00", // Free swag
+      warehouse_id: warehouse.shiphero_warehouse_id, // Required field
+      product_name: item.name || item.sku,
+      fulfillment_status: tenant.default_fulfillment_status,
+      quantity_pending_fulfillment: item.quantity
+    }))
+
+    const address = {
+      address1: warehouse.address,
+      address2: warehouse.address2 || '',
+      city: warehouse.city,
+      state: warehouse.state,
+      state_code: warehouse.state,
+      zip: warehouse.zip,
+      country: warehouse.country,
+      country_code: warehouse.country,
+      email: recipient.email,
+      phone: "5555555555"
+    }
+
+    const { body: salesOrderData } = await executeOrderOperation('sales_order', {
+      order_number: orderName,
+      shop_name: tenant.shop_name,
+      fulfillment_status: tenant.default_fulfillment_status,
+      order_date: tourDate.toISOString().split('T')[0], // Use date format like "2025-09-23"
+      total_tax: "0.00",
+      subtotal: "0.00",
+      total_discounts: "0.00",
+      total_price: "0.00",
+      shipping_lines: {
+        title: "Generic Shipping",
         price: "0.00",
-        product_name: itemData.name,
-        fulfillment_status: "pending",
-        sell_ahead: 0
-      }))
-
-      const tourDate = new Date(tour.date)
-      const host = Array.isArray(tour.host) ? tour.host[0] : tour.host
-      
-      if (!host) {
-        return {
-          success: false,
-          message: 'Tour host not found',
-          errors: ['Missing tour host']
-        }
-      }
+        carrier: "Generic Carrier",
+        method: "Generic Label"
+      },
+      shipping_address: {
+        first_name: warehouse.name,
+        last_name: "Warehouse",
+        company: warehouse.name,
+        ...address
+      },
+      billing_address: {
+        first_name: recipient.first_name,
+        last_name: recipient.last_name,
+        company: recipient.company || tenant.company_name,
+        ...address
+      },
+      line_items: lineItems,
+      required_ship_date: tourDate.toISOString().split('T')[0],
+      // Airport code, tour reference (and workflow) as tags
+      tags: [warehouse.code || "", tourReferenceTag(context.tourRef), ...extraTags].filter(Boolean)
+    }, { tourId: context.tourId })
 
-      // Generate custom purchase order name using the same format as our naming convention
-      // Use the actual airport/warehouse code, not just sanitized name
-      const warehouseCode = warehouse.code || warehouse.name?.replace(/[^a-zA-Z0-9]/g, '').toUpperCase().substring(0, 3) || '';
-      const poName = generatePurchaseOrderName(host.last_name, warehouseCode, tourDate)
-
-      const accessToken = await this.getAccessToken()
-      const purchaseOrderResult = await fetch('/api/shiphero/orders', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`
-        },
-        body: JSON.stringify({
-          type: 'purchase_order',
-          data: {
-            po_date: tourDate.toISOString().split('T')[0], // Use date format like "2025-09-23"
-            po_number: poName, // Use our custom naming convention instead of generic number
-            subtotal: "0.00",
-            shipping_price: "0.00",
-            total_price: "0.00",
-            warehouse_id: warehouse.shiphero_warehouse_id,
-            line_items: lineItems,
-            fulfillment_status: "pending",
-            discount: "0.00",
-            vendor_id: "1076735"
-          }
-        })
-      })
+    const order = salesOrderData.data?.order_create?.order
+    if (!order) {
+      const errorMsg = salesOrderData.errors?.[0]?.message || salesOrderData.error || 'Unknown error'
+      console.error('Sales order creation failed - FULL DETAILS:', JSON.stringify(salesOrderData, null, 2))
+      throw new Error(`Failed to create order for ${recipient.first_name} ${recipient.last_name}: ${errorMsg}`)
+    }
 
-      const purchaseOrderData = await purchaseOrderResult.json()
+    console.log(`Created sales order for ${recipient.first_name} ${recipient.last_name}: ${order.order_number} (ID: ${order.id})`)
+    context.createdOrders.push({ order_type: 'sales_order', id: order.id, number: order.order_number })
 
-      if (purchaseOrderData.data?.purchase_order_create?.purchase_order) {
-        const purchaseOrder = purchaseOrderData.data.purchase_order_create.purchase_order
-        console.log(`Created purchase order: ${purchaseOrder.po_number} (ID: ${purchaseOrder.id})`)
-        console.log('🔍 PO Response data:', {
-          id: purchaseOrder.id,
-          legacy_id: purchaseOrder.legacy_id,
-          po_number: purchaseOrder.po_number
-        })
-        
-        // Store ShipHero purchase order details in database
-        const shipheroPOUrl = `https://app.shiphero.com/dashboard/purchase-orders/details/${purchaseOrder.legacy_id}`
-        console.log('🔗 Generated PO URL:', shipheroPOUrl)
-        const { error: updateError } = await this.supabase
-          .from('tours')
-          .update({
-            shiphero_purchase_order_id: purchaseOrder.id,
-            shiphero_purchase_order_number: purchaseOrder.po_number,
-            shiphero_purchase_order_url: shipheroPOUrl
-          })
-          .eq('id', tourId)
-        
-        if (updateError) {
-          console.error('Failed to update tour with ShipHero purchase order ID:', updateError)
-          return {
-            success: true,
-            message: `Created purchase order ${purchaseOrder.po_number} but failed to save tracking info`,
-            poNumber: purchaseOrder.po_number,
-            errors: ['Order created but failed to save tracking info']
-          }
-        }
-        
-        console.log(`Successfully stored purchase order tracking info for tour ${tourId}`)
-        return {
-          success: true,
-          message: `Created purchase order ${purchaseOrder.po_number}`,
-          poNumber: purchaseOrder.po_number,
-          errors: []
-        }
-      } else {
-        const errorMsg = purchaseOrderData.errors?.[0]?.message || 'Unknown error'
+    return {
+      id: order.id,
+      legacy_id: order.legacy_id,
+      order_number: order.order_number,
+      url: `https://app.shiphero.com/orders/${order.id}`
+    }
+  }
+
+  /**
+   * Build and send one purchase order, reusing a PO with the same number if ShipHero already has it.
+   * Defaults to the organization's vendor.
+   */
+  private async sendPurchaseOrder(
+    context: TourOrderContext,
+    host: OrderRecipient,
+    uniqueKey: string,
+    items: OrderSummaryLineItem[],
+    vendorId: string = requireShipHeroVendorId(context.tenant)
+  ): Promise<CreatedPurchaseOrder> {
+    const { warehouse, tenant } = context
+
+    // Match adhoc PO format exactly
+    const lineItems = items.map(item => ({
+      sku: item.sku,
+      quantity: item.quantity,
+      expected_weight_in_lbs: "1.00",
+      vendor_id: vendorId,
+      quantity_received: 0,
+      quantity_rejected: 0,
+      price: "0.00",
+      product_name: item.name,
+      fulfillment_status: tenant.default_fulfillment_status,
+      sell_ahead: 0
+    }))
+
+    const tourDate = new Date(context.date)
+
+    const poName = renderOrderName(tenant.purchase_order_name_template, {
+      first: host.first_name,
+      last: host.last_name,
+      date: context.date,
+      code: this.warehouseCode(context),
+      tourRef: context.tourRef,
+      seq: await this.allocateOrderSequence(context, `po:${uniqueKey}`)
+    })
+
+    // A previous attempt may have created the PO in ShipHero without saving it locally
+    let purchaseOrder = await this.findExistingPurchaseOrder(poName, context.tourId)
+    const reused = !!purchaseOrder
+
+    if (purchaseOrder) {
+      console.log(`Found existing purchase order ${poName} in ShipHero, reusing it`)
+    } else {
+      const { body: purchaseOrderData } = await executeOrderOperation('purchase_order', {
+        po_date: tourDate.toISOString().split('T')[0], // Use date format like "2025-09-23"
+        po_number: poName,
+        subtotal: "0.00",
+        shipping_price: "0.00",
+        total_price: "0.00",
+        warehouse_id: warehouse.shiphero_warehouse_id,
+        line_items: lineItems,
+        fulfillment_status: tenant.default_fulfillment_status,
+        discount: "0.00",
+        vendor_id: vendorId,
+        tags: [warehouse.code || "", tourReferenceTag(context.tourRef)].filter(Boolean)
+      }, { tourId: context.tourId })
+
+      purchaseOrder = purchaseOrderData.data?.purchase_order_create?.purchase_order
+      if (!purchaseOrder) {
+        const errorMsg = purchaseOrderData.errors?.[0]?.message || purchaseOrderData.error || 'Unknown error'
         console.error('Purchase order creation failed:', purchaseOrderData)
-        return {
-          success: false,
-          message: `Failed to create purchase order: ${errorMsg}`,
-          errors: [`Purchase order creation failed: ${errorMsg}`]
-        }
+        throw new Error(`Purchase order creation failed: ${errorMsg}`)
       }
 
-    } catch (error) {
-      console.error('Error creating purchase order:', error)
-      return {
-        success: false,
-        message: `Failed to create purchase order: ${error}`,
-        errors: [String(error)]
+      console.log(`Created purchase order: ${purchaseOrder.po_number} (ID: ${purchaseOrder.id})`)
+      context.createdOrders.push({ order_type: 'purchase_order', id: purchaseOrder.id, number: purchaseOrder.po_number })
+    }
+
+    return {
+      id: purchaseOrder.id,
+      legacy_id: purchaseOrder.legacy_id,
+      po_number: purchaseOrder.po_number,
+      url: `https://app.shiphero.com/dashboard/purchase-orders/details/${purchaseOrder.legacy_id}`,
+      reused
+    }
+  }
+
+  private findWorkflowOrder(
+    context: TourOrderContext,
+    workflow: WorkflowId,
+    orderType: WorkflowOrderType,
+    sequence: number
+  ): WorkflowOrder | undefined {
+    return context.workflowOrders.find(order =>
+      order.workflow === workflow && order.order_type === orderType && order.sequence === sequence
+    )
+  }
+
+  private async saveWorkflowOrder(context: TourOrderContext, order: WorkflowOrder): Promise<void> {
+    const { error } = await this.supabase
+      .from('tour_workflow_orders')
+      .upsert({ tour_id: context.tourId, ...order }, { onConflict: 'tour_id,workflow,order_type,sequence' })
+
+    if (error) {
+      console.error('Failed to save workflow order tracking info:', error)
+      throw new Error(`Created ${order.order_number} for ${getWorkflow(order.workflow)?.label || order.workflow} but failed to save tracking info`)
+    }
+
+    context.workflowOrders.push(order)
+  }
+
+  // One kit per participant, +1 for the host, plus any shortfall units raised from the stock check
+  private purchaseOrderLineItems(context: TourOrderContext): OrderSummaryLineItem[] {
+    const lineItems = context.kit.map(item => ({ ...item, quantity: item.quantity * (context.participants.length + 1) }))
+
+    for (const [sku, extra] of Object.entries(context.poExtraQuantities)) {
+      if (!(Number(extra) > 0)) continue
+      const lineItem = lineItems.find(item => item.sku === sku)
+      if (lineItem) {
+        lineItem.quantity += Number(extra)
+      } else {
+        lineItems.push(...this.namedLineItems(context, [{ sku, quantity: Number(extra) }]))
       }
     }
+
+    return lineItems
+  }
+
+  /**
+   * The PO line items split by vendor: each swag item's linked vendor, otherwise the organization
+   * default. The default vendor's group comes first so a single-vendor kit keeps one tour PO.
+   */
+  private purchaseOrderGroups(context: TourOrderContext): PurchaseOrderGroup[] {
+    const defaultVendorId = context.tenant.shiphero_vendor_id
+    const groups = new Map<string, OrderSummaryLineItem[]>()
+
+    for (const item of this.purchaseOrderLineItems(context)) {
+      // Vendors that are not linked (e.g. free text from before Settings > Vendors) are ignored
+      const itemVendorId = context.swagItems.find(swagItem => swagItem.sku === item.sku)?.vendor_id
+      const vendorId = itemVendorId && context.vendorNames[itemVendorId]
+        ? itemVendorId
+        : requireShipHeroVendorId(context.tenant)
+      groups.set(vendorId, [...(groups.get(vendorId) || []), item])
+    }
+
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => (a === defaultVendorId ? -1 : b === defaultVendorId ? 1 : a.localeCompare(b)))
+      .map(([vendorId, lineItems]) => ({ vendorId, vendorName: context.vendorNames[vendorId] || null, lineItems }))
   }
 
+  // Workflow configs only carry SKUs; names come from the swag items where known
+  private namedLineItems(context: TourOrderContext, items: Array<{ sku: string; quantity: number }>): OrderSummaryLineItem[] {
+    return items.map(item => ({
+      sku: item.sku,
+      name: context.swagItems.find(swagItem => swagItem.sku === item.sku)?.name || item.sku,
+      quantity: item.quantity
+    }))
+  }
+
+  /**
+   * The order's {seq} within the tour. The same key always gets the same number, so a
+   * retried order gets the same name and is found (and reused) by the lookups below.
+   */
+  private async allocateOrderSequence(context: TourOrderContext, orderKey: string): Promise<number> {
+    const { data, error } = await this.supabase.rpc('allocate_tour_order_sequence', {
+      p_tour_id: context.tourId,
+      p_order_key: orderKey
+    })
+
+    if (error || typeof data !== 'number') {
+      throw new Error(`Failed to allocate an order number: ${error?.message || 'no sequence returned'}`)
+    }
+    return data
+  }
+
+  // Airport code, or the first letters of the warehouse name for warehouses without one
+  private warehouseCode(context: TourOrderContext): string {
+    const { warehouse } = context
+    return warehouse.code || warehouse.name?.replace(/[^a-zA-Z0-9]/g, '').toUpperCase().substring(0, 3) || ''
+  }
+
+  private async findExistingSalesOrder(orderNumber: string, tourId: string): Promise<{ id: string; legacy_id?: number; order_number: string } | null> {
+    const data = await executeShipHeroQuery(FIND_ORDER_BY_NUMBER_QUERY, { order_number: orderNumber }, { tourId })
+    const edges: any[] = data?.orders?.data?.edges || []
+    const node = edges.map(edge => edge.node).find(node => node.order_number === orderNumber && !isCancelledStatus(node.fulfillment_status))
+    return node || null
+  }
+
+  /**
+   * Look up a purchase order in ShipHero by its PO number
+   */
+  private async findExistingPurchaseOrder(poNumber: string, tourId: string): Promise<{ id: string; legacy_id?: number; po_number: string } | null> {
+    const data = await executeShipHeroQuery(FIND_PURCHASE_ORDER_BY_NUMBER_QUERY, { po_number: poNumber }, { tourId })
+    const edges: any[] = data?.purchase_orders?.data?.edges || []
+    const node = edges.map(edge => edge.node).find(node => node.po_number === poNumber && !isCancelledStatus(node.fulfillment_status))
+    return node || null
+  }
+}
+
+/**
+ * What each participant and the host receive. Tours scheduled before the SKU picker have
+ * no selected_skus and get one of every swag item.
+ */
+export function buildTourKit(
+  selectedSkus: string[] | null,
+  skuQuantities: Record<string, number> | null,
+  swagItems: Array<{ name: string; sku: string }>
+): OrderSummaryLineItem[] {
+  if (!selectedSkus) {
+    return swagItems.map(item => ({ sku: item.sku, name: item.name, quantity: 1 }))
+  }
+  return selectedSkus.map(sku => ({
+    sku,
+    name: swagItems.find(item => item.sku === sku)?.name || sku,
+    quantity: Number(skuQuantities?.[sku] ?? 1)
+  }))
+}
+
+// Orders that were cancelled (e.g. by a rollback) must not be reused by a retry
+function isCancelledStatus(status?: string | null): boolean {
+  return status === 'canceled' || status === 'cancelled'
 }
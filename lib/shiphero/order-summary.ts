@@ -0,0 +1,104 @@
+import { createClient } from '@/lib/supabase/client'
+import type { OrderDrift } from './reconciliation'
+
+/**
+ * Structured record of a tour's ShipHero orders, stored in tours.order_summary.
+ * Written after finalization; statuses are kept current by webhooks, reconciliation and cancellation.
+ */
+
+export interface OrderSummaryLineItem {
+  sku: string
+  name: string
+  quantity: number
+}
+
+export interface SalesOrderSummary {
+  kind: 'participant' | 'host' | 'extra'
+  // Set for orders generated by one of the tour's workflows
+  workflow?: string
+  participant_id: string | null
+  recipient_name: string
+  email: string
+  id: string
+  legacy_id: number | null
+  order_number: string
+  url: string
+  status: string
+  line_items: OrderSummaryLineItem[]
+}
+
+export interface PurchaseOrderSummary {
+  workflow?: string
+  // Set when the tour's PO was split by vendor (ShipHero legacy vendor ID)
+  vendor_id?: string
+  vendor_name?: string | null
+  id: string
+  legacy_id: number | null
+  po_number: string
+  url: string
+  status: string
+  line_items: OrderSummaryLineItem[]
+}
+
+export interface TourOrderSummary {
+  generated_at?: string
+  sales_orders?: SalesOrderSummary[]
+  purchase_order?: PurchaseOrderSummary | null
+  // One per receiving workflow, plus one per additional vendor when the tour's PO is split
+  purchase_orders?: PurchaseOrderSummary[]
+  // Workflow orders for demo customers (extras), kept apart from the real recipients
+  demo_orders?: SalesOrderSummary[]
+  // Written by reconciliation
+  last_reconciled_at?: string
+  drift?: OrderDrift[]
+}
+
+/**
+ * Return a copy of the summary with new statuses applied, keyed by ShipHero order / PO id
+ */
+export function applyOrderSummaryStatuses(summary: TourOrderSummary, statuses: Record<string, string>): TourOrderSummary {
+  return {
+    ...summary,
+    sales_orders: summary.sales_orders?.map(order =>
+      statuses[order.id] ? { ...order, status: statuses[order.id] } : order
+    ),
+    purchase_order: summary.purchase_order && statuses[summary.purchase_order.id]
+      ? { ...summary.purchase_order, status: statuses[summary.purchase_order.id] }
+      : summary.purchase_order,
+    purchase_orders: summary.purchase_orders?.map(order =>
+      statuses[order.id] ? { ...order, status: statuses[order.id] } : order
+    ),
+    demo_orders: summary.demo_orders?.map(order =>
+      statuses[order.id] ? { ...order, status: statuses[order.id] } : order
+    )
+  }
+}
+
+/**
+ * Update order statuses inside a tour's stored summary. No-op for tours without a summary.
+ */
+export async function updateOrderSummaryStatuses(tourId: string, statuses: Record<string, string>): Promise<void> {
+  if (Object.keys(statuses).length === 0) return
+
+  const supabase = createClient()
+  const { data: tour, error } = await supabase
+    .from('tours')
+    .select('order_summary')
+    .eq('id', tourId)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to load order summary: ${error.message}`)
+  }
+  const summary: TourOrderSummary | null = tour?.order_summary
+  if (!summary?.sales_orders && !summary?.purchase_order && !summary?.purchase_orders && !summary?.demo_orders) return
+
+  const { error: updateError } = await supabase
+    .from('tours')
+    .update({ order_summary: applyOrderSummaryStatuses(summary, statuses) })
+    .eq('id', tourId)
+
+  if (updateError) {
+    throw new Error(`Failed to update order summary: ${updateError.message}`)
+  }
+}
@@ -0,0 +1,171 @@
+import { createClient } from '@/lib/supabase/client'
+import { executeShipHeroQuery } from './order-api'
+import { PRODUCT_BY_SKU_QUERY, PRODUCT_CREATE_MUTATION } from './operations'
+
+/**
+ * Keeps swag items in step with ShipHero products. A swag item's SKU is checked when the item
+ * is saved (Settings > Swag Items), so a missing product shows up there instead of as an
+ * order_create failure at finalization; a missing product can be created from the item.
+ * The result of the last check is stored on the swag item (shiphero_sync_status).
+ */
+
+export type ProductSyncStatus = 'synced' | 'missing' | 'error'
+
+export interface ProductSyncResult {
+  swag_item_id: string
+  sku: string
+  status: ProductSyncStatus
+  shiphero_product_id: string | null
+  error: string | null
+  synced_at: string
+}
+
+/**
+ * Look the swag item's SKU up in ShipHero and record whether it exists.
+ * Lookup failures are recorded as 'error' rather than thrown.
+ */
+export async function checkSwagItemProduct(swagItemId: string): Promise<ProductSyncResult> {
+  const item = await fetchSwagItem(swagItemId)
+
+  let result: ProductSyncResult
+  try {
+    const product = await findProductBySku(item.sku)
+    result = syncResult(item, product ? 'synced' : 'missing', product?.id || null, null)
+  } catch (error: any) {
+    console.error(`ShipHero product lookup failed for ${item.sku}:`, error)
+    result = syncResult(item, 'error', null, error.message || String(error))
+  }
+
+  await saveSyncResult(result)
+  return result
+}
+
+/**
+ * Create the swag item's product in ShipHero with its name, price, weight, dimensions and barcode,
+ * stocked (at 0) in every warehouse linked to ShipHero. Reuses the product if the SKU already exists.
+ */
+export async function createSwagItemProduct(swagItemId: string): Promise<ProductSyncResult> {
+  const supabase = createClient()
+  const item = await fetchSwagItem(swagItemId)
+
+  const existing = await findProductBySku(item.sku)
+  if (existing) {
+    console.log(`Product ${item.sku} already exists in ShipHero, linking it`)
+    const result = syncResult(item, 'synced', existing.id, null)
+    await saveSyncResult(result)
+    return result
+  }
+
+  const { data: warehouses, error: warehousesError } = await supabase
+    .from('warehouses')
+    .select('shiphero_warehouse_id')
+    .not('shiphero_warehouse_id', 'is', null)
+
+  if (warehousesError) {
+    throw new Error(`Failed to fetch warehouses: ${warehousesError.message}`)
+  }
+  const warehouseIds = Array.from(new Set((warehouses || []).map((warehouse: any) => warehouse.shiphero_warehouse_id).filter(Boolean)))
+  if (warehouseIds.length === 0) {
+    throw new Error('No warehouse is linked to ShipHero. Link one in Settings > Warehouses first.')
+  }
+
+  const price = formatDecimal(item.price) || '0.00'
+  const dimensions = Object.fromEntries(
+    (['weight', 'length', 'width', 'height'] as const)
+      .filter(field => formatDecimal(item[field]))
+      .map(field => [field, formatDecimal(item[field])])
+  )
+
+  let product: any
+  try {
+    const data: any = await executeShipHeroQuery(PRODUCT_CREATE_MUTATION, {
+      data: {
+        name: item.name,
+        sku: item.sku,
+        price,
+        value: price,
+        ...(item.barcode && { barcode: item.barcode }),
+        ...(Object.keys(dimensions).length > 0 && { dimensions }),
+        warehouse_products: warehouseIds.map(warehouseId => ({
+          warehouse_id: warehouseId,
+          on_hand: 0,
+          price
+        }))
+      }
+    })
+    product = data?.product_create?.product
+    if (!product?.id) {
+      throw new Error(`ShipHero did not create product ${item.sku}`)
+    }
+  } catch (error: any) {
+    await saveSyncResult(syncResult(item, 'error', null, error.message || String(error)))
+    throw error
+  }
+
+  console.log(`Created ShipHero product ${product.sku} (ID: ${product.id})`)
+  const result = syncResult(item, 'synced', product.id, null)
+  await saveSyncResult(result)
+  return result
+}
+
+async function fetchSwagItem(swagItemId: string): Promise<any> {
+  const { data: item, error } = await createClient()
+    .from('swag_items')
+    .select('id, name, sku, price, weight, length, width, height, barcode')
+    .eq('id', swagItemId)
+    .single()
+
+  if (error || !item) {
+    throw new Error(error?.message || 'Swag item not found')
+  }
+  if (!item.sku) {
+    throw new Error(`${item.name} has no SKU`)
+  }
+  return item
+}
+
+async function findProductBySku(sku: string): Promise<{ id: string; sku: string } | null> {
+  try {
+    const data: any = await executeShipHeroQuery(PRODUCT_BY_SKU_QUERY, { sku })
+    const product = data?.product?.data
+    return product?.id && product.sku === sku ? product : null
+  } catch (error: any) {
+    // ShipHero answers an unknown SKU with a "not found" error rather than empty data
+    if (/not found|does not exist|not exist/i.test(error?.message || '')) return null
+    throw error
+  }
+}
+
+async function saveSyncResult(result: ProductSyncResult): Promise<void> {
+  const { error } = await createClient()
+    .from('swag_items')
+    .update({
+      shiphero_sync_status: result.status,
+      shiphero_sync_error: result.error,
+      shiphero_synced_at: result.synced_at,
+      // A failed lookup says nothing about the product, so keep the last known ID
+      ...(result.status !== 'error' && { shiphero_product_id: result.shiphero_product_id })
+    })
+    .eq('id', result.swag_item_id)
+
+  if (error) {
+    throw new Error(`Failed to save ShipHero sync status: ${error.message}`)
+  }
+}
+
+function syncResult(item: any, status: ProductSyncStatus, productId: string | null, error: string | null): ProductSyncResult {
+  return {
+    swag_item_id: item.id,
+    sku: item.sku,
+    status,
+    shiphero_product_id: productId,
+    error,
+    synced_at: new Date().toISOString()
+  }
+}
+
+function formatDecimal(value: number | string | null | undefined): string | null {
+  if (value === null || value === undefined || value === '') return null
+  const number = Number(value)
+  return Number.isFinite(number) && number > 0 ? number.toFixed(2) : null
+}
@@ -0,0 +1,358 @@
+import { createClient } from '@/lib/supabase/client'
+import { executeShipHeroQuery } from './order-api'
+import { ORDER_STATUS_QUERY, PURCHASE_ORDER_STATUS_QUERY } from './operations'
+import { applyOrderSummaryStatuses, OrderSummaryLineItem, TourOrderSummary } from './order-summary'
+import { getWorkflow } from './workflows'
+
+/**
+ * Reconciles a tour's local order status with ShipHero, as a backstop for missed webhooks.
+ * Differences that need attention are reported as drift and stored in tours.order_summary.
+ */
+
+export type DriftType =
+  | 'order_missing'
+  | 'purchase_order_missing'
+  | 'po_quantity_changed'
+  | 'unfulfilled_after_tour'
+  | 'lookup_failed'
+
+export interface OrderDrift {
+  type: DriftType
+  label: string
+  order_number: string | null
+  message: string
+}
+
+export interface TourReconciliation {
+  tour_id: string
+  reconciled_at: string
+  orders_checked: number
+  drift: OrderDrift[]
+  // Local status columns that could not be saved; the tour is not fully reconciled when set
+  save_errors: string[]
+}
+
+// Statuses after which an order no longer needs fulfilling
+const CLOSED_STATUSES = ['fulfilled', 'shipped', 'delivered', 'canceled', 'cancelled']
+// The scheduled run only looks at tours from this many days back onward; older tours are settled
+const RECONCILE_LOOKBACK_DAYS = 30
+// Finalized tours loaded per page by the scheduled run
+const TOUR_PAGE_SIZE = 50
+
+/**
+ * Query ShipHero for every order and PO linked to the tour, update local status columns and record drift
+ */
+export async function reconcileTour(tourId: string): Promise<TourReconciliation> {
+  const supabase = createClient()
+
+  const { data: tour, error } = await supabase
+    .from('tours')
+    .select(`
+      id,
+      date,
+      order_summary,
+      shiphero_purchase_order_id,
+      shiphero_purchase_order_number,
+      host_shiphero_sales_order_id,
+      host_shiphero_sales_order_number,
+      participants:tour_participants(
+        id,
+        first_name,
+        last_name,
+        shiphero_sales_order_id,
+        shiphero_sales_order_number
+      )
+    `)
+    .eq('id', tourId)
+    .single()
+
+  if (error || !tour) {
+    throw new Error(error?.message || 'Tour not found')
+  }
+
+  const { data: workflowOrders, error: workflowOrdersError } = await supabase
+    .from('tour_workflow_orders')
+    .select('id, workflow, order_type, sequence, recipient_type, recipient_name, shiphero_order_id, order_number, line_items')
+    .eq('tour_id', tourId)
+    .order('created_at')
+
+  if (workflowOrdersError) {
+    throw new Error(`Failed to load workflow orders: ${workflowOrdersError.message}`)
+  }
+
+  const { data: vendorPurchaseOrders, error: vendorPurchaseOrdersError } = await supabase
+    .from('tour_vendor_purchase_orders')
+    .select('id, vendor_id, vendor_name, shiphero_order_id, order_number, line_items')
+    .eq('tour_id', tourId)
+    .order('created_at')
+
+  if (vendorPurchaseOrdersError) {
+    throw new Error(`Failed to load vendor purchase orders: ${vendorPurchaseOrdersError.message}`)
+  }
+
+  const reconciledAt = new Date().toISOString()
+  const tourDatePassed = new Date(`${tour.date}T23:59:59`) < new Date()
+  const participants: any[] = tour.participants || []
+  const summary: TourOrderSummary = tour.order_summary || {}
+  const drift: OrderDrift[] = []
+  const saveErrors: string[] = []
+  // Latest status per ShipHero order id, applied to the stored order summary
+  const statuses: Record<string, string> = {}
+  let ordersChecked = 0
+
+  const checkSalesOrder = async (orderId: string, orderNumber: string | null, label: string): Promise<string | null> => {
+    ordersChecked++
+    try {
+      const data = await executeShipHeroQuery(ORDER_STATUS_QUERY, { id: orderId }, { tourId })
+      const order = data?.order?.data
+      if (!order) {
+        drift.push({ type: 'order_missing', label, order_number: orderNumber, message: 'Order no longer exists in ShipHero' })
+        return 'deleted'
+      }
+
+      if (tourDatePassed && !CLOSED_STATUSES.includes(order.fulfillment_status)) {
+        drift.push({
+          type: 'unfulfilled_after_tour',
+          label,
+          order_number: order.order_number,
+          message: `Still ${order.fulfillment_status} after the tour date`
+        })
+      }
+      return order.fulfillment_status
+    } catch (error: any) {
+      if (isNotFound(error)) {
+        drift.push({ type: 'order_missing', label, order_number: orderNumber, message: 'Order no longer exists in ShipHero' })
+        return 'deleted'
+      }
+      drift.push({ type: 'lookup_failed', label, order_number: orderNumber, message: error.message || String(error) })
+      return null
+    }
+  }
+
+  for (const participant of participants) {
+    if (!participant.shiphero_sales_order_id) continue
+
+    const status = await checkSalesOrder(
+      participant.shiphero_sales_order_id,
+      participant.shiphero_sales_order_number,
+      `Sales order for ${participant.first_name} ${participant.last_name}`
+    )
+    if (status) {
+      statuses[participant.shiphero_sales_order_id] = status
+      const { error: saveError } = await supabase
+        .from('tour_participants')
+        .update({ shiphero_fulfillment_status: status, shiphero_status_updated_at: reconciledAt })
+        .eq('id', participant.id)
+      if (saveError) {
+        saveErrors.push(`Sales order ${participant.shiphero_sales_order_number || participant.shiphero_sales_order_id}: ${saveError.message}`)
+      }
+    }
+  }
+
+  const tourUpdates: Record<string, any> = {}
+
+  if (tour.host_shiphero_sales_order_id) {
+    const status = await checkSalesOrder(
+      tour.host_shiphero_sales_order_id,
+      tour.host_shiphero_sales_order_number,
+      'Host sales order'
+    )
+    if (status) {
+      statuses[tour.host_shiphero_sales_order_id] = status
+      tourUpdates.host_shiphero_fulfillment_status = status
+      tourUpdates.host_shiphero_status_updated_at = reconciledAt
+    }
+  }
+
+  // Returns the PO's status, 'deleted' if it no longer exists, or null if the lookup failed
+  const checkPurchaseOrder = async (
+    purchaseOrderId: string,
+    poNumber: string | null,
+    label: string,
+    expectedQuantity: (sku: string) => number,
+    // SKUs the PO was created with, so lines removed in ShipHero are reported too
+    expectedSkus: string[]
+  ): Promise<string | null> => {
+    ordersChecked++
+    try {
+      const data = await executeShipHeroQuery(PURCHASE_ORDER_STATUS_QUERY, { id: purchaseOrderId }, { tourId })
+      const purchaseOrder = data?.purchase_order?.data
+
+      if (!purchaseOrder) {
+        drift.push({ type: 'purchase_order_missing', label, order_number: poNumber, message: 'Purchase order no longer exists in ShipHero' })
+        return 'deleted'
+      }
+
+      const lineItems: any[] = purchaseOrder.line_items?.edges?.map((edge: any) => edge.node) || []
+      const changed = lineItems.filter(item => Number(item.quantity) !== expectedQuantity(item.sku))
+      const removed = expectedSkus.filter(sku => expectedQuantity(sku) > 0 && !lineItems.some(item => item.sku === sku))
+
+      if (changed.length > 0 || removed.length > 0) {
+        drift.push({
+          type: 'po_quantity_changed',
+          label,
+          order_number: purchaseOrder.po_number,
+          message: [
+            ...changed.map(item => `${item.sku}: ${item.quantity} (expected ${expectedQuantity(item.sku)})`),
+            ...removed.map(sku => `${sku}: removed (expected ${expectedQuantity(sku)})`)
+          ].join(', ')
+        })
+      }
+
+      return purchaseOrder.fulfillment_status || purchaseOrder.status
+    } catch (error: any) {
+      if (isNotFound(error)) {
+        drift.push({ type: 'purchase_order_missing', label, order_number: poNumber, message: 'Purchase order no longer exists in ShipHero' })
+        return 'deleted'
+      }
+      drift.push({ type: 'lookup_failed', label, order_number: poNumber, message: error.message || String(error) })
+      return null
+    }
+  }
+
+  if (tour.shiphero_purchase_order_id) {
+    // Compare against the quantities recorded when the PO was created; older tours without a
+    // summary fall back to 1 unit per participant plus the host
+    const recorded = summary.purchase_order && summary.purchase_order.id === tour.shiphero_purchase_order_id
+      ? summary.purchase_order.line_items
+      : null
+
+    const status = await checkPurchaseOrder(
+      tour.shiphero_purchase_order_id,
+      tour.shiphero_purchase_order_number,
+      'Purchase order',
+      sku => recorded ? recordedQuantity(recorded, sku) : participants.length + 1,
+      // Without a summary the PO's SKUs are unknown, so only changed quantities are reported
+      recorded ? recorded.map(item => item.sku) : []
+    )
+    if (status) {
+      statuses[tour.shiphero_purchase_order_id] = status
+      tourUpdates.shiphero_purchase_order_status = status
+      tourUpdates.shiphero_purchase_order_status_updated_at = reconciledAt
+    }
+  }
+
+  for (const order of vendorPurchaseOrders || []) {
+    const status = await checkPurchaseOrder(
+      order.shiphero_order_id,
+      order.order_number,
+      `Purchase order (${order.vendor_name || `vendor ${order.vendor_id}`})`,
+      sku => recordedQuantity(order.line_items || [], sku),
+      (order.line_items || []).map((item: OrderSummaryLineItem) => item.sku)
+    )
+    if (status) {
+      statuses[order.shiphero_order_id] = status
+      const { error: saveError } = await supabase
+        .from('tour_vendor_purchase_orders')
+        .update({ fulfillment_status: status, status_updated_at: reconciledAt })
+        .eq('id', order.id)
+      if (saveError) {
+        saveErrors.push(`Purchase order ${order.order_number || order.shiphero_order_id}: ${saveError.message}`)
+      }
+    }
+  }
+
+  for (const order of workflowOrders || []) {
+    const workflowLabel = getWorkflow(order.workflow)?.label || order.workflow
+    const status = order.order_type === 'purchase_order'
+      ? await checkPurchaseOrder(
+          order.shiphero_order_id,
+          order.order_number,
+          `${workflowLabel} purchase order`,
+          sku => recordedQuantity(order.line_items || [], sku),
+          (order.line_items || []).map((item: OrderSummaryLineItem) => item.sku)
+        )
+      : await checkSalesOrder(
+          order.shiphero_order_id,
+          order.order_number,
+          `${workflowLabel} order ${order.sequence} for ${order.recipient_name}${order.recipient_type === 'extra' ? ' (demo)' : ''}`
+        )
+
+    if (status) {
+      statuses[order.shiphero_order_id] = status
+      const { error: saveError } = await supabase
+        .from('tour_workflow_orders')
+        .update({ fulfillment_status: status, status_updated_at: reconciledAt })
+        .eq('id', order.id)
+      if (saveError) {
+        saveErrors.push(`Workflow order ${order.order_number || order.shiphero_order_id}: ${saveError.message}`)
+      }
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('tours')
+    .update({
+      ...tourUpdates,
+      order_summary: {
+        ...applyOrderSummaryStatuses(summary, statuses),
+        last_reconciled_at: reconciledAt,
+        drift
+      }
+    })
+    .eq('id', tourId)
+
+  if (updateError) {
+    throw new Error(`Failed to save reconciliation: ${updateError.message}`)
+  }
+
+  if (saveErrors.length > 0) {
+    console.error(`Reconciled tour ${tourId} but failed to save ${saveErrors.length} order statuses:`, saveErrors)
+  }
+  console.log(`Reconciled tour ${tourId}: ${ordersChecked} orders checked, ${drift.length} drift items`)
+  return { tour_id: tourId, reconciled_at: reconciledAt, orders_checked: ordersChecked, drift, save_errors: saveErrors }
+}
+
+/**
+ * Reconcile finalized tours dated within the last RECONCILE_LOOKBACK_DAYS days or later, a page at
+ * a time. Failures are logged per tour so one bad tour does not stop the run; a tour whose statuses
+ * could not all be saved is reported as an error, not as reconciled.
+ */
+export async function reconcileFinalizedTours(): Promise<{ reconciled: TourReconciliation[]; errors: string[] }> {
+  const supabase = createClient()
+  const since = new Date(Date.now() - RECONCILE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+
+  const reconciled: TourReconciliation[] = []
+  const errors: string[] = []
+
+  for (let from = 0; ; from += TOUR_PAGE_SIZE) {
+    const { data: tours, error } = await supabase
+      .from('tours')
+      .select('id')
+      .eq('status', 'finalized')
+      .gte('date', since)
+      .order('date')
+      .order('id')
+      .range(from, from + TOUR_PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load finalized tours: ${error.message}`)
+    }
+
+    for (const tour of tours || []) {
+      try {
+        const result = await reconcileTour(tour.id)
+        if (result.save_errors.length > 0) {
+          errors.push(`${tour.id}: failed to save ${result.save_errors.join('; ')}`)
+        } else {
+          reconciled.push(result)
+        }
+      } catch (error: any) {
+        console.error(`Failed to reconcile tour ${tour.id}:`, error)
+        errors.push(`${tour.id}: ${error.message || error}`)
+      }
+    }
+
+    if (!tours || tours.length < TOUR_PAGE_SIZE) break
+  }
+
+  return { reconciled, errors }
+}
+
+function recordedQuantity(lineItems: OrderSummaryLineItem[], sku: string): number {
+  return lineItems.find(item => item.sku === sku)?.quantity ?? 0
+}
+
+function isNotFound(error: any): boolean {
+  return /not found|does not exist|not exist/i.test(error?.message || '')
+}
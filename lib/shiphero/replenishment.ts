@@ -0,0 +1,336 @@
+import { createClient } from '@/lib/supabase/client'
+import { executeOrderOperation } from './order-api'
+import { getWarehouseStock, WarehouseProduct } from './inventory'
+import { buildTourKit } from './order-service'
+import { requiredStock } from './stock-check'
+import { renderOrderName } from './naming-utils'
+import { calendarDateInTimeZone, getTenantConfig, requireShipHeroVendorId, TenantConfig } from '@/lib/tenant-config'
+import type { OrderSummaryLineItem } from './order-summary'
+
+/**
+ * Swag demand forecast for the planning view. Adds up what every scheduled tour in the
+ * next N weeks needs (see requiredStock), per warehouse and SKU, compares it with ShipHero
+ * available stock plus units on open replenishment POs and suggests one replenishment PO
+ * per warehouse for the difference.
+ */
+
+export const DEFAULT_FORECAST_WEEKS = 4
+export const MAX_FORECAST_WEEKS = 26
+
+// ShipHero PO statuses after which the units are in stock (or will never arrive)
+const SETTLED_PO_STATUSES = ['closed', 'received', 'canceled', 'cancelled']
+
+export interface ForecastLine {
+  sku: string
+  name: string
+  demand: number
+  available: number
+  // Units on replenishment POs created here that ShipHero has not closed yet
+  on_order: number
+  suggested: number
+  // Tours in the window that need this SKU
+  tour_count: number
+}
+
+export interface WarehouseForecast {
+  warehouse_id: string
+  name: string
+  code: string | null
+  tours: Array<{ id: string; tour_numeric_id: number; date: string; participant_count: number }>
+  lines: ForecastLine[]
+  // Set when stock could not be read from ShipHero; demand is still shown
+  error: string | null
+}
+
+export interface DemandForecast {
+  weeks: number
+  from: string
+  to: string
+  warehouses: WarehouseForecast[]
+}
+
+export interface ReplenishmentOrderRequest {
+  warehouse_id: string
+  weeks: number
+  line_items: Array<{ sku: string; quantity: number }>
+}
+
+export interface ReplenishmentOrderResult {
+  warehouse_id: string
+  status: 'created' | 'failed'
+  po_number: string | null
+  po_url: string | null
+  error: string | null
+}
+
+export async function forecastSwagDemand(weeks: number): Promise<DemandForecast> {
+  const supabase = createClient()
+  const tenant = await getTenantConfig()
+  const fromDate = calendarDateInTimeZone(tenant.timezone)
+  const toDate = new Date(Date.parse(`${fromDate}T00:00:00Z`) + weeks * 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+
+  const { data: tours, error } = await supabase
+    .from('tours')
+    .select(`
+      id,
+      tour_numeric_id,
+      date,
+      selected_skus,
+      sku_quantities,
+      selected_workflows,
+      workflow_configs,
+      warehouse:warehouses(id, name, code, shiphero_warehouse_id),
+      participants:tour_participants(id)
+    `)
+    .eq('status', 'scheduled')
+    .gte('date', fromDate)
+    .lte('date', toDate)
+    .order('date')
+
+  if (error) {
+    throw new Error(`Failed to fetch scheduled tours: ${error.message}`)
+  }
+
+  const { data: swagItems, error: swagError } = await supabase.from('swag_items').select('name, sku')
+  if (swagError) {
+    throw new Error(`Failed to fetch swag items: ${swagError.message}`)
+  }
+  const namedSwagItems = (swagItems || []).filter((item: any) => item && item.sku)
+
+  const onOrder = await openReplenishmentQuantities()
+
+  // Demand per warehouse, then per SKU
+  const byWarehouse = new Map<string, {
+    warehouse: any
+    tours: WarehouseForecast['tours']
+    demand: Map<string, { quantity: number; tourCount: number }>
+  }>()
+
+  for (const tour of tours || []) {
+    const warehouse: any = Array.isArray(tour.warehouse) ? tour.warehouse[0] : tour.warehouse
+    if (!warehouse) continue
+
+    const participantCount = Array.isArray(tour.participants) ? tour.participants.length : 0
+    const entry = byWarehouse.get(warehouse.id) || { warehouse, tours: [] as WarehouseForecast['tours'], demand: new Map() }
+    entry.tours.push({ id: tour.id, tour_numeric_id: tour.tour_numeric_id, date: tour.date, participant_count: participantCount })
+
+    const tourRequired = requiredStock({
+      kit: buildTourKit(tour.selected_skus, tour.sku_quantities, namedSwagItems),
+      participantCount,
+      selectedWorkflows: tour.selected_workflows || [],
+      workflowConfigs: tour.workflow_configs || {}
+    })
+    for (const [sku, quantity] of Object.entries(tourRequired)) {
+      const line = entry.demand.get(sku) || { quantity: 0, tourCount: 0 }
+      entry.demand.set(sku, { quantity: line.quantity + quantity, tourCount: line.tourCount + 1 })
+    }
+
+    byWarehouse.set(warehouse.id, entry)
+  }
+
+  const warehouses: WarehouseForecast[] = []
+  // One warehouse at a time to stay inside ShipHero's credit budget
+  for (const { warehouse, tours: warehouseTours, demand } of byWarehouse.values()) {
+    let products: WarehouseProduct[] = []
+    let stockError: string | null = null
+    if (!warehouse.shiphero_warehouse_id) {
+      stockError = 'Warehouse does not have a ShipHero ID configured'
+    } else {
+      try {
+        products = await getWarehouseStock(warehouse.shiphero_warehouse_id, Array.from(demand.keys()))
+      } catch (error: any) {
+        console.error(`Failed to load ShipHero stock for ${warehouse.name}:`, error)
+        stockError = error.message
+      }
+    }
+
+    const lines = Array.from(demand.entries()).map(([sku, line]): ForecastLine => {
+      const product = products.find(p => p.sku === sku)
+      const available = product?.available || 0
+      const ordered = onOrder.get(warehouse.id)?.get(sku) || 0
+      return {
+        sku,
+        name: product?.name || namedSwagItems.find((item: any) => item.sku === sku)?.name || sku,
+        demand: line.quantity,
+        available,
+        on_order: ordered,
+        // Without stock levels there is nothing sensible to suggest
+        suggested: stockError ? 0 : Math.max(0, line.quantity - available - ordered),
+        tour_count: line.tourCount
+      }
+    })
+
+    warehouses.push({
+      warehouse_id: warehouse.id,
+      name: warehouse.name,
+      code: warehouse.code || null,
+      tours: warehouseTours,
+      lines: lines.sort((a, b) => b.suggested - a.suggested || a.name.localeCompare(b.name)),
+      error: stockError
+    })
+  }
+
+  return {
+    weeks,
+    from: fromDate,
+    to: toDate,
+    warehouses: warehouses.sort((a, b) => a.name.localeCompare(b.name))
+  }
+}
+
+/**
+ * Units per warehouse and SKU on replenishment POs that were created in ShipHero and are not
+ * settled yet, so the forecast does not suggest ordering them again
+ */
+async function openReplenishmentQuantities(): Promise<Map<string, Map<string, number>>> {
+  const supabase = createClient()
+
+  const { data: orders, error } = await supabase
+    .from('replenishment_purchase_orders')
+    .select('warehouse_id, line_items, fulfillment_status')
+    .eq('status', 'created')
+
+  if (error) {
+    throw new Error(`Failed to fetch replenishment orders: ${error.message}`)
+  }
+
+  const quantities = new Map<string, Map<string, number>>()
+  for (const order of orders || []) {
+    if (order.fulfillment_status && SETTLED_PO_STATUSES.includes(order.fulfillment_status.toLowerCase())) continue
+
+    const bySku = quantities.get(order.warehouse_id) || new Map<string, number>()
+    for (const item of (order.line_items || []) as OrderSummaryLineItem[]) {
+      bySku.set(item.sku, (bySku.get(item.sku) || 0) + (Number(item.quantity) || 0))
+    }
+    quantities.set(order.warehouse_id, bySku)
+  }
+
+  return quantities
+}
+
+/**
+ * Create one ShipHero PO per warehouse. Each order is tracked in replenishment_purchase_orders
+ * and fails on its own, so one bad warehouse does not stop the others.
+ */
+export async function createReplenishmentPurchaseOrders(orders: ReplenishmentOrderRequest[]): Promise<ReplenishmentOrderResult[]> {
+  const tenant = await getTenantConfig()
+  const vendorId = requireShipHeroVendorId(tenant)
+  const results: ReplenishmentOrderResult[] = []
+
+  for (const order of orders) {
+    try {
+      const purchaseOrder = await createReplenishmentPurchaseOrder(order, vendorId, tenant)
+      results.push({ warehouse_id: order.warehouse_id, status: 'created', ...purchaseOrder, error: null })
+    } catch (error: any) {
+      console.error(`Replenishment PO for warehouse ${order.warehouse_id} failed:`, error)
+      results.push({ warehouse_id: order.warehouse_id, status: 'failed', po_number: null, po_url: null, error: error.message })
+    }
+  }
+
+  return results
+}
+
+async function createReplenishmentPurchaseOrder(
+  order: ReplenishmentOrderRequest,
+  vendorId: string,
+  tenant: TenantConfig
+): Promise<{ po_number: string; po_url: string }> {
+  const supabase = createClient()
+
+  const items = order.line_items.filter(item => item.quantity > 0)
+  if (items.length === 0) {
+    throw new Error('No SKUs to order')
+  }
+
+  const [{ data: warehouse, error: warehouseError }, { data: swagItems }] = await Promise.all([
+    supabase.from('warehouses').select('id, name, code, shiphero_warehouse_id').eq('id', order.warehouse_id).single(),
+    supabase.from('swag_items').select('name, sku')
+  ])
+  if (warehouseError || !warehouse) {
+    throw new Error(warehouseError?.message || 'Warehouse not found')
+  }
+  if (!warehouse.shiphero_warehouse_id) {
+    throw new Error(`Warehouse ${warehouse.name} does not have a ShipHero ID configured`)
+  }
+
+  const lineItems: OrderSummaryLineItem[] = items.map(item => ({
+    sku: item.sku,
+    name: (swagItems || []).find((swagItem: any) => swagItem.sku === item.sku)?.name || item.sku,
+    quantity: item.quantity
+  }))
+
+  // The row's number is the PO's {seq}, so create it first
+  const { data: row, error: insertError } = await supabase
+    .from('replenishment_purchase_orders')
+    .insert([{ warehouse_id: warehouse.id, weeks: order.weeks, line_items: lineItems }])
+    .select('id, number')
+    .single()
+
+  if (insertError || !row) {
+    throw new Error(`Failed to record replenishment order: ${insertError?.message}`)
+  }
+
+  try {
+    const today = calendarDateInTimeZone(tenant.timezone)
+    const code = warehouse.code || warehouse.name.replace(/[^a-zA-Z0-9]/g, '').toUpperCase().substring(0, 3)
+    const poNumber = renderOrderName(tenant.purchase_order_name_template, {
+      first: 'Replenishment',
+      last: 'Replenishment',
+      date: today,
+      code,
+      tourRef: 'REPL',
+      seq: row.number
+    })
+
+    const { body } = await executeOrderOperation('purchase_order', {
+      po_date: today,
+      po_number: poNumber,
+      subtotal: "0.00",
+      shipping_price: "0.00",
+      total_price: "0.00",
+      warehouse_id: warehouse.shiphero_warehouse_id,
+      line_items: lineItems.map(item => ({
+        sku: item.sku,
+        quantity: item.quantity,
+        expected_weight_in_lbs: "1.00",
+        vendor_id: vendorId,
+        quantity_received: 0,
+        quantity_rejected: 0,
+        price: "0.00",
+        product_name: item.name,
+        fulfillment_status: tenant.default_fulfillment_status,
+        sell_ahead: 0
+      })),
+      fulfillment_status: tenant.default_fulfillment_status,
+      discount: "0.00",
+      vendor_id: vendorId,
+      tags: [code, 'replenishment'].filter(Boolean)
+    })
+
+    const purchaseOrder = body.data?.purchase_order_create?.purchase_order
+    if (!purchaseOrder) {
+      throw new Error(`Purchase order creation failed: ${body.errors?.[0]?.message || body.error || 'Unknown error'}`)
+    }
+
+    const poUrl = `https://app.shiphero.com/dashboard/purchase-orders/details/${purchaseOrder.legacy_id}`
+    await supabase
+      .from('replenishment_purchase_orders')
+      .update({
+        status: 'created',
+        shiphero_purchase_order_id: purchaseOrder.id,
+        shiphero_legacy_id: purchaseOrder.legacy_id,
+        po_number: purchaseOrder.po_number,
+        po_url: poUrl
+      })
+      .eq('id', row.id)
+
+    console.log(`Created replenishment purchase order ${purchaseOrder.po_number} for ${warehouse.name}`)
+    return { po_number: purchaseOrder.po_number, po_url: poUrl }
+  } catch (error: any) {
+    await supabase
+      .from('replenishment_purchase_orders')
+      .update({ status: 'failed', error: error.message })
+      .eq('id', row.id)
+    throw error
+  }
+}
@@ -0,0 +1,327 @@
+import { getShipHeroAccessToken, refreshShipHeroAccessToken } from './token-store'
+import { shipHeroGraphQLEndpoint } from './endpoint'
+import { recordShipHeroApiCall } from './api-log'
+
+/**
+ * The single path every ShipHero GraphQL call takes (order-api and the /api/shiphero
+ * routes). ShipHero meters requests in complexity credits: an account holds up
+ * to 2002 and they are restored at 60 per second. Calls run concurrently, paced against an
+ * estimate of that balance built from the `complexity` each response reports: each attempt
+ * reserves its expected cost up front and waits until the balance would cover it, so a call
+ * sleeping through a backoff holds nothing up. Throttled and failed calls are retried with
+ * backoff, and after repeated failures a circuit breaker fails calls fast so a finalize run
+ * stops instead of grinding through every order. Each call is recorded in shiphero_api_log.
+ * State is per server instance.
+ */
+
+const MAX_CREDITS = 2002
+const CREDITS_PER_SECOND = 60
+const MAX_ATTEMPTS = 4
+const BASE_BACKOFF_MS = 500
+const MAX_BACKOFF_MS = 10_000
+// ShipHero's "not enough credits" error code
+const THROTTLED_ERROR_CODE = 30
+// Consecutive failures (5xx / network) that open the circuit, and how long it stays open
+const CIRCUIT_FAILURE_THRESHOLD = 5
+const CIRCUIT_OPEN_MS = 30_000
+
+export interface ShipHeroCallOptions {
+  // Tour the call is made for, recorded in the API log
+  tourId?: string | null
+}
+
+export interface ShipHeroRequestOptions extends ShipHeroCallOptions {
+  endpoint?: string
+  // Token source and refresh on a 401; both default to the token vault
+  getAccessToken?: () => Promise<string>
+  refreshAccessToken?: () => Promise<string>
+}
+
+export interface ShipHeroResponse {
+  ok: boolean
+  status: number
+  statusText: string
+  // Parsed JSON body, or null when the body was not JSON
+  body: any
+  text: string
+  // Credits ShipHero charged for the call, when it reported them
+  complexity: number | null
+  attempts: number
+}
+
+const credits = { remaining: MAX_CREDITS, updatedAt: Date.now() }
+const circuit = { failures: 0, openUntil: 0 }
+// Last complexity seen per operation, used to estimate the next call's cost
+const knownComplexity = new Map<string, number>()
+
+/**
+ * Send a GraphQL document to ShipHero, paced by the shared credit balance. Resolves with the final
+ * HTTP response (after retries); throws only when the circuit is open or the request never got a response.
+ */
+export function sendShipHeroRequest(
+  query: string,
+  variables: Record<string, unknown> = {},
+  options: ShipHeroRequestOptions = {}
+): Promise<ShipHeroResponse> {
+  return sendAndRecord(query, variables, options)
+}
+
+/**
+ * Whether the circuit breaker is refusing calls; loops over many orders check this to stop early
+ */
+export function isShipHeroCircuitOpen(): boolean {
+  return circuit.openUntil > Date.now()
+}
+
+/**
+ * The first root field a document selects, e.g. "order_create" or "account"
+ */
+export function shipHeroOperationName(query: string): string {
+  const body = query.replace(/#[^\n]*/g, '')
+  const start = body.indexOf('{')
+  const match = start === -1 ? null : /^\s*(?:\w+\s*:\s*)?(\w+)/.exec(body.slice(start + 1))
+  return match?.[1] || 'unknown'
+}
+
+async function sendAndRecord(
+  query: string,
+  variables: Record<string, unknown>,
+  options: ShipHeroRequestOptions
+): Promise<ShipHeroResponse> {
+  const startedAt = Date.now()
+  const operation = shipHeroOperationName(query)
+  const request = { endpoint: options.endpoint || shipHeroGraphQLEndpoint(), query, variables }
+  // Attempts actually sent, known even when the call ends in a throw
+  const progress = { attempts: 0 }
+
+  try {
+    const response = await sendWithRetries(query, variables, options, progress)
+    const errors: any[] = Array.isArray(response.body?.errors) ? response.body.errors : []
+    await recordShipHeroApiCall({
+      request_id: responseRequestId(response.body),
+      operation,
+      tour_id: options.tourId || null,
+      status: response.ok && response.body && errors.length === 0 ? 'success' : 'error',
+      http_status: response.status,
+      duration_ms: Date.now() - startedAt,
+      complexity: response.complexity,
+      attempts: response.attempts,
+      error: errors[0]?.message || (response.ok ? null : `${response.status} ${response.statusText}`),
+      request,
+      response: response.body ?? response.text
+    })
+    return response
+  } catch (error: any) {
+    await recordShipHeroApiCall({
+      request_id: null,
+      operation,
+      tour_id: options.tourId || null,
+      status: 'error',
+      http_status: null,
+      duration_ms: Date.now() - startedAt,
+      complexity: null,
+      attempts: progress.attempts,
+      error: error.message || String(error),
+      request,
+      response: null
+    })
+    throw error
+  }
+}
+
+async function sendWithRetries(
+  query: string,
+  variables: Record<string, unknown>,
+  options: ShipHeroRequestOptions,
+  progress: { attempts: number }
+): Promise<ShipHeroResponse> {
+  const operation = shipHeroOperationName(query)
+  const isMutation = /^\s*mutation\b/.test(query)
+  const endpoint = options.endpoint || shipHeroGraphQLEndpoint()
+  const refreshAccessToken = options.refreshAccessToken || refreshShipHeroAccessToken
+
+  let accessToken = await (options.getAccessToken || getShipHeroAccessToken)()
+  let refreshed = false
+
+  for (let attempt = 1; ; attempt++) {
+    assertCircuitClosed()
+    const reserved = await reserveCredits(estimateCost(operation, query))
+
+    progress.attempts = attempt
+    let response: Response
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({ query, variables })
+      })
+    } catch (error: any) {
+      releaseCredits(reserved)
+      recordFailure()
+      // A mutation that lost its connection may have been applied; never send it twice
+      if (isMutation || attempt >= MAX_ATTEMPTS || isShipHeroCircuitOpen()) {
+        throw new Error(`ShipHero request failed: ${error.message || error}`)
+      }
+      console.log(`ShipHero ${operation} failed (${error.message || error}), retrying (attempt ${attempt + 1}/${MAX_ATTEMPTS})`)
+      await sleep(backoff(attempt))
+      continue
+    }
+
+    const text = await response.text()
+    const body = parseJson(text)
+    const result: ShipHeroResponse = {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      body,
+      text,
+      complexity: reportedComplexity(body),
+      attempts: attempt
+    }
+
+    if (response.status === 401 && !refreshed) {
+      releaseCredits(reserved)
+      refreshed = true
+      console.log(`ShipHero ${operation} was unauthorized, refreshing the access token`)
+      accessToken = await refreshAccessToken()
+      continue
+    }
+
+    const throttle = throttleError(body)
+    if (throttle) {
+      // ShipHero's own count replaces our estimate, reservations included
+      credits.remaining = Number(throttle.remaining_credits) || 0
+      credits.updatedAt = Date.now()
+      knownComplexity.set(operation, Number(throttle.required_credits) || estimateCost(operation, query))
+      if (attempt >= MAX_ATTEMPTS) return result
+      console.log(`ShipHero ${operation} throttled (${throttle.message}), retrying (attempt ${attempt + 1}/${MAX_ATTEMPTS})`)
+      continue
+    }
+
+    if (response.status === 429 || response.status >= 500) {
+      releaseCredits(reserved)
+      recordFailure(response.status)
+      if (attempt >= MAX_ATTEMPTS || !isRetryable(response.status, isMutation) || isShipHeroCircuitOpen()) return result
+      const wait = retryAfter(response) ?? backoff(attempt)
+      console.log(`ShipHero ${operation} returned ${response.status}, retrying in ${wait}ms (attempt ${attempt + 1}/${MAX_ATTEMPTS})`)
+      await sleep(wait)
+      continue
+    }
+
+    recordSuccess()
+    if (result.complexity !== null) {
+      // Settle the reservation against what ShipHero actually charged
+      releaseCredits(reserved - result.complexity)
+      knownComplexity.set(operation, result.complexity)
+    }
+    return result
+  }
+}
+
+// A 500 on a mutation may have been applied before it failed; gateway errors and 429s were not
+function isRetryable(status: number, isMutation: boolean): boolean {
+  if (status === 429 || status === 502 || status === 503 || status === 504) return true
+  return !isMutation
+}
+
+function assertCircuitClosed() {
+  if (isShipHeroCircuitOpen()) {
+    const seconds = Math.ceil((circuit.openUntil - Date.now()) / 1000)
+    throw new Error(`ShipHero appears to be down after ${circuit.failures} failed requests; not sending requests for another ${seconds}s`)
+  }
+}
+
+function recordFailure(status?: number) {
+  // Rate limiting means ShipHero is up
+  if (status === 429) return
+  circuit.failures++
+  if (circuit.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openUntil = Date.now() + CIRCUIT_OPEN_MS
+    console.error(`ShipHero circuit opened after ${circuit.failures} consecutive failures`)
+  }
+}
+
+function recordSuccess() {
+  if (circuit.openUntil) console.log('ShipHero circuit closed')
+  circuit.failures = 0
+  circuit.openUntil = 0
+}
+
+function availableCredits(): number {
+  const now = Date.now()
+  credits.remaining = Math.min(MAX_CREDITS, credits.remaining + ((now - credits.updatedAt) / 1000) * CREDITS_PER_SECOND)
+  credits.updatedAt = now
+  return credits.remaining
+}
+
+// Take the call's cost from the balance before waiting, so concurrent calls see each other's
+// reservations and line up behind them; the balance goes negative while calls are waiting
+async function reserveCredits(cost: number): Promise<number> {
+  const amount = Math.min(cost, MAX_CREDITS)
+  credits.remaining = availableCredits() - amount
+  if (credits.remaining < 0) {
+    const wait = Math.ceil((-credits.remaining / CREDITS_PER_SECOND) * 1000)
+    console.log(`Pacing ShipHero requests: waiting ${wait}ms for ${Math.ceil(-credits.remaining)} credits`)
+    await sleep(wait)
+  }
+  return amount
+}
+
+// Give back a reservation ShipHero did not charge (or the part of it that was overestimated)
+function releaseCredits(amount: number) {
+  credits.remaining = Math.min(MAX_CREDITS, availableCredits() + amount)
+}
+
+// The operation's last reported complexity, else one credit plus every page size in the document
+function estimateCost(operation: string, query: string): number {
+  const known = knownComplexity.get(operation)
+  if (known !== undefined) return known
+  const pageSizes = Array.from(query.matchAll(/\bfirst\s*:\s*(\d+)/g)).reduce((total, match) => total + Number(match[1]), 0)
+  return 1 + pageSizes
+}
+
+function reportedComplexity(body: any): number | null {
+  const data = body?.data
+  if (!data || typeof data !== 'object') return null
+  const values = Object.values(data)
+    .map((field: any) => Number(field?.complexity))
+    .filter(value => Number.isFinite(value))
+  return values.length > 0 ? values.reduce((total, value) => total + value, 0) : null
+}
+
+function responseRequestId(body: any): string | null {
+  const data = body?.data
+  if (!data || typeof data !== 'object') return null
+  const field: any = Object.values(data).find((field: any) => field?.request_id)
+  return field?.request_id || null
+}
+
+function throttleError(body: any): any | null {
+  const errors: any[] = Array.isArray(body?.errors) ? body.errors : []
+  return errors.find(error => error?.code === THROTTLED_ERROR_CODE || /not enough credits/i.test(error?.message || '')) || null
+}
+
+function retryAfter(response: Response): number | null {
+  const seconds = Number(response.headers.get('retry-after'))
+  return Number.isFinite(seconds) && seconds > 0 ? Math.min(seconds * 1000, MAX_BACKOFF_MS) : null
+}
+
+function backoff(attempt: number): number {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS)
+  return Math.round(delay / 2 + Math.random() * (delay / 2))
+}
+
+function parseJson(text: string): any {
+  try {
+    return text ? JSON.parse(text) : null
+  } catch {
+    return null
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
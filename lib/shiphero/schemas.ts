@@ -0,0 +1,148 @@
+import { z } from 'zod'
+import { isWorkflowId } from './workflows'
+
+/**
+ * Zod schemas for the ShipHero inputs we send from this app, and for the requests
+ * our ShipHero routes accept. Anything that fails these checks is rejected before
+ * it leaves our server.
+ */
+
+// ShipHero expects money values as decimal strings ("0.00")
+const money = z
+  .string()
+  .trim()
+  .regex(/^-?\d+(\.\d{1,4})?$/, 'Must be a decimal amount like "0.00"')
+
+const quantity = z.coerce.number().int().positive()
+
+const count = z.coerce.number().int().nonnegative()
+
+export const orderAddressSchema = z.object({
+  first_name: z.string().trim().min(1),
+  last_name: z.string().trim().min(1),
+  company: z.string().optional(),
+  address1: z.string().trim().min(1),
+  address2: z.string().optional(),
+  city: z.string().trim().min(1),
+  state: z.string().trim().min(1),
+  state_code: z.string().trim().optional(),
+  zip: z.string().trim().min(1),
+  country: z.string().trim().min(1),
+  country_code: z.string().trim().optional(),
+  email: z.string().trim().email(),
+  phone: z.string().optional(),
+})
+
+export const shippingLinesSchema = z.object({
+  title: z.string().trim().min(1),
+  price: money,
+  carrier: z.string().optional(),
+  method: z.string().optional(),
+})
+
+export const orderLineItemSchema = z.object({
+  sku: z.string().trim().min(1),
+  partner_line_item_id: z.string().trim().min(1),
+  quantity,
+  price: money,
+  product_name: z.string().trim().min(1),
+  fulfillment_status: z.string().optional(),
+  quantity_pending_fulfillment: count.optional(),
+  warehouse_id: z.string().trim().min(1),
+})
+
+export const orderCreateInputSchema = z.object({
+  order_number: z.string().trim().min(1).max(32, 'ShipHero order numbers are limited to 32 characters'),
+  shop_name: z.string().trim().min(1),
+  fulfillment_status: z.string().optional(),
+  order_date: z.string().trim().min(1),
+  total_tax: money,
+  subtotal: money,
+  total_discounts: money,
+  total_price: money,
+  shipping_lines: shippingLinesSchema,
+  shipping_address: orderAddressSchema,
+  billing_address: orderAddressSchema,
+  line_items: z.array(orderLineItemSchema).min(1, 'At least one line item is required'),
+  required_ship_date: z.string().trim().min(1),
+  tags: z.array(z.string().trim().min(1)).optional(),
+})
+
+export const purchaseOrderLineItemSchema = z.object({
+  sku: z.string().trim().min(1),
+  quantity,
+  expected_weight_in_lbs: z.string().optional(),
+  vendor_id: z.string().trim().min(1),
+  quantity_received: count.default(0),
+  quantity_rejected: count.default(0),
+  price: money,
+  product_name: z.string().trim().min(1),
+  fulfillment_status: z.string().optional(),
+  sell_ahead: count.default(0),
+})
+
+export const purchaseOrderCreateInputSchema = z.object({
+  po_date: z.string().trim().min(1),
+  po_number: z.string().trim().min(1).max(32, 'ShipHero PO numbers are limited to 32 characters'),
+  subtotal: money,
+  shipping_price: money,
+  total_price: money,
+  warehouse_id: z.string().trim().min(1),
+  fulfillment_status: z.string().optional(),
+  discount: money.optional(),
+  vendor_id: z.string().trim().min(1),
+  line_items: z.array(purchaseOrderLineItemSchema).min(1, 'At least one line item is required'),
+  tags: z.array(z.string().trim().min(1)).optional(),
+})
+
+const sku = z.string().trim().min(1)
+
+export const workflowConfigSchema = z.object({
+  orderCount: count,
+  selectedSkus: z.array(sku),
+  skuQuantities: z.record(sku, count),
+})
+
+// Body of POST /api/shiphero/stock-check (the schedule form's stock check)
+export const stockCheckRequestSchema = z.object({
+  warehouse_id: z.string().trim().min(1),
+  // Zero while a kit line is being edited; it adds nothing
+  kit: z.array(z.object({ sku, quantity: count })).default([]),
+  participant_count: count.default(0),
+  selected_workflows: z.array(z.string().refine(isWorkflowId, 'Unknown workflow')).default([]),
+  workflow_configs: z.record(z.string().refine(isWorkflowId, 'Unknown workflow'), workflowConfigSchema).default({}),
+  po_extra_quantities: z.record(sku, count).default({}),
+})
+
+// Body of POST /api/shiphero/replenishment (the planning view's Create button)
+export const replenishmentRequestSchema = z.object({
+  orders: z.array(z.object({
+    warehouse_id: z.string().uuid(),
+    // MAX_FORECAST_WEEKS in replenishment.ts
+    weeks: z.coerce.number().int().min(1).max(26),
+    line_items: z.array(z.object({ sku, quantity: z.number().int().positive() })).min(1),
+  })).min(1),
+})
+
+// Body of POST /api/shiphero/vendors (Settings > Vendors)
+export const vendorRequestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('create'),
+    name: z.string().trim().min(1),
+    email: z.string().trim().min(1),
+    account_number: z.string().trim().optional(),
+  }),
+  z.object({
+    action: z.literal('link'),
+    shiphero_vendor_id: z.string().trim().min(1),
+  }),
+])
+
+export type OrderAddressInput = z.infer<typeof orderAddressSchema>
+export type OrderLineItemInput = z.infer<typeof orderLineItemSchema>
+export type OrderCreateInput = z.infer<typeof orderCreateInputSchema>
+export type PurchaseOrderLineItemInput = z.infer<typeof purchaseOrderLineItemSchema>
+export type PurchaseOrderCreateInput = z.infer<typeof purchaseOrderCreateInputSchema>
+export type StockCheckRequestInput = z.infer<typeof stockCheckRequestSchema>
+export type ReplenishmentRequestInput = z.infer<typeof replenishmentRequestSchema>
+export type VendorRequestInput = z.infer<typeof vendorRequestSchema>
@@ -0,0 +1,69 @@
+import { requestJson } from './api-request'
+import type { WarehouseImportAction, WarehouseImportEntry } from './warehouse-sync'
+import type { ShipHeroVendor, VendorCreateRequest, VendorList } from './vendors'
+import type { ProductSyncResult } from './products'
+import type { ShipHeroApiLogEntry, ShipHeroApiLogFilter, ShipHeroApiLogSummary } from './api-log'
+
+/**
+ * Browser helpers for the ShipHero actions in Settings (warehouses, vendors, swag items, API log)
+ */
+
+/**
+ * ShipHero warehouses with their local link and address drift, for Settings > Warehouses
+ */
+export async function fetchWarehouseImportList(): Promise<WarehouseImportEntry[]> {
+  const result = await requestJson('/api/shiphero/warehouses/import')
+  return result.warehouses
+}
+
+/**
+ * Create, link or re-sync a local warehouse from a ShipHero warehouse
+ */
+export async function importShipHeroWarehouse(request: WarehouseImportAction): Promise<void> {
+  await requestJson('/api/shiphero/warehouses/import', { body: request })
+}
+
+/**
+ * The account's ShipHero vendors for Settings > Vendors; truncated when ShipHero has more
+ */
+export async function fetchVendorList(): Promise<VendorList> {
+  const result = await requestJson('/api/shiphero/vendors')
+  return { vendors: result.vendors, truncated: !!result.truncated }
+}
+
+/**
+ * Create a vendor in ShipHero, or link an existing one, so swag items can use it
+ */
+export async function saveShipHeroVendor(
+  request: ({ action: 'create' } & VendorCreateRequest) | { action: 'link'; shiphero_vendor_id: string }
+): Promise<ShipHeroVendor> {
+  const result = await requestJson('/api/shiphero/vendors', { body: request })
+  return result.vendor
+}
+
+/**
+ * Check a swag item's SKU against ShipHero ('check'), or create the product there ('create')
+ */
+export async function syncSwagItemProduct(swagItemId: string, action: 'check' | 'create'): Promise<ProductSyncResult> {
+  const result = await requestJson('/api/shiphero/products', { body: { action, swag_item_id: swagItemId } })
+  return result.result
+}
+
+/**
+ * Recent ShipHero calls for Settings > API Log, newest first
+ */
+export async function fetchApiLog(filter: ShipHeroApiLogFilter = {}): Promise<ShipHeroApiLogSummary[]> {
+  const params = new URLSearchParams()
+  if (filter.tourId) params.set('tour_id', filter.tourId)
+  if (filter.status) params.set('status', filter.status)
+  const result = await requestJson(`/api/shiphero/api-log?${params}`)
+  return result.entries
+}
+
+/**
+ * One logged call with its request and response
+ */
+export async function fetchApiLogEntry(id: string): Promise<ShipHeroApiLogEntry> {
+  const result = await requestJson(`/api/shiphero/api-log/${encodeURIComponent(id)}`)
+  return result.entry
+}
@@ -0,0 +1,205 @@
+import { createClient } from '@/lib/supabase/client'
+import { calendarDateInTimeZone, getTenantConfig } from '@/lib/tenant-config'
+import { getWarehouseStock } from './inventory'
+import { buildTourKit } from './order-service'
+import { planWorkflowOrders, WorkflowConfigs } from './workflows'
+
+/**
+ * Checks a tour's swag against live ShipHero stock before it is scheduled and again
+ * before it is finalized. A tour needs its kit for every participant and the host, plus
+ * the units in its workflow sales orders. Other scheduled tours at the same warehouse
+ * have not created their orders yet, so ShipHero does not see their demand; it is
+ * counted here as committed.
+ */
+
+export interface StockRequirement {
+  kit: Array<{ sku: string; quantity: number }>
+  participantCount: number
+  selectedWorkflows: string[]
+  workflowConfigs: WorkflowConfigs
+}
+
+export interface StockCheckRequest extends StockRequirement {
+  // Our warehouse id (warehouses.id)
+  warehouseId: string
+  // Units already added to the tour's PO to cover shortfalls
+  poExtraQuantities?: Record<string, number>
+  // The tour being checked, so it is not counted against itself
+  excludeTourId?: string
+}
+
+export interface StockCheckLine {
+  sku: string
+  name: string
+  // Units this tour needs
+  required: number
+  // Units needed by other upcoming tours at the warehouse
+  committed: number
+  // ShipHero available (on hand minus allocated)
+  available: number
+  // Units added to this tour's PO
+  incoming: number
+  shortfall: number
+}
+
+export interface StockCheckResult {
+  checked_at: string
+  lines: StockCheckLine[]
+  // Upcoming tours whose demand is counted as committed
+  committed_tours: Array<{ id: string; tour_numeric_id: number; date: string }>
+}
+
+/**
+ * Units of each SKU a tour needs: its kit for every participant and the host, plus
+ * its workflow sales orders. Receiving workflows bring stock in, so they add nothing.
+ */
+export function requiredStock(requirement: StockRequirement): Record<string, number> {
+  const required: Record<string, number> = {}
+  const add = (sku: string, quantity: number) => {
+    required[sku] = (required[sku] || 0) + quantity
+  }
+
+  for (const item of requirement.kit) {
+    add(item.sku, item.quantity * (requirement.participantCount + 1))
+  }
+
+  const plan = planWorkflowOrders(requirement.selectedWorkflows, requirement.workflowConfigs)
+  for (const order of plan.salesOrders) {
+    order.line_items.forEach(item => add(item.sku, item.quantity))
+  }
+
+  return required
+}
+
+export async function checkStock(request: StockCheckRequest): Promise<StockCheckResult> {
+  const supabase = createClient()
+
+  const { data: warehouse, error: warehouseError } = await supabase
+    .from('warehouses')
+    .select('id, name, shiphero_warehouse_id')
+    .eq('id', request.warehouseId)
+    .single()
+
+  if (warehouseError || !warehouse) {
+    throw new Error(warehouseError?.message || 'Warehouse not found')
+  }
+  if (!warehouse.shiphero_warehouse_id) {
+    throw new Error(`Warehouse ${warehouse.name} does not have a ShipHero ID configured`)
+  }
+
+  const [swagItems, tenant] = await Promise.all([fetchSwagItems(), getTenantConfig()])
+
+  // Finalized tours already have their orders in ShipHero, where they count as allocated
+  let toursQuery = supabase
+    .from('tours')
+    .select(`
+      id,
+      tour_numeric_id,
+      date,
+      selected_skus,
+      sku_quantities,
+      selected_workflows,
+      workflow_configs,
+      participants:tour_participants(id)
+    `)
+    .eq('warehouse_id', request.warehouseId)
+    .eq('status', 'scheduled')
+    .gte('date', calendarDateInTimeZone(tenant.timezone))
+    .order('date')
+
+  if (request.excludeTourId) {
+    toursQuery = toursQuery.neq('id', request.excludeTourId)
+  }
+
+  const { data: upcomingTours, error: toursError } = await toursQuery
+  if (toursError) {
+    throw new Error(`Failed to fetch upcoming tours: ${toursError.message}`)
+  }
+
+  const committed: Record<string, number> = {}
+  for (const tour of upcomingTours || []) {
+    const tourRequired = requiredStock({
+      kit: buildTourKit(tour.selected_skus, tour.sku_quantities, swagItems),
+      participantCount: Array.isArray(tour.participants) ? tour.participants.length : 0,
+      selectedWorkflows: tour.selected_workflows || [],
+      workflowConfigs: tour.workflow_configs || {}
+    })
+    for (const [sku, quantity] of Object.entries(tourRequired)) {
+      committed[sku] = (committed[sku] || 0) + quantity
+    }
+  }
+
+  const required = requiredStock(request)
+  const products = await getWarehouseStock(warehouse.shiphero_warehouse_id, Object.keys(required), { tourId: request.excludeTourId })
+
+  const lines = Object.entries(required).map(([sku, quantity]): StockCheckLine => {
+    const product = products.find(p => p.sku === sku)
+    const available = product?.available || 0
+    const incoming = Number(request.poExtraQuantities?.[sku]) || 0
+    return {
+      sku,
+      name: product?.name || swagItems.find(item => item.sku === sku)?.name || sku,
+      required: quantity,
+      committed: committed[sku] || 0,
+      available,
+      incoming,
+      shortfall: Math.max(0, quantity + (committed[sku] || 0) - available - incoming)
+    }
+  })
+
+  return {
+    checked_at: new Date().toISOString(),
+    lines: lines.sort((a, b) => b.shortfall - a.shortfall || a.name.localeCompare(b.name)),
+    committed_tours: (upcomingTours || []).map(tour => ({
+      id: tour.id,
+      tour_numeric_id: tour.tour_numeric_id,
+      date: tour.date
+    }))
+  }
+}
+
+/**
+ * Check a scheduled tour's current kit, workflows and participants
+ */
+export async function checkTourStock(tourId: string): Promise<StockCheckResult> {
+  const supabase = createClient()
+
+  const { data: tour, error } = await supabase
+    .from('tours')
+    .select(`
+      id,
+      warehouse_id,
+      selected_skus,
+      sku_quantities,
+      po_extra_quantities,
+      selected_workflows,
+      workflow_configs,
+      participants:tour_participants(id)
+    `)
+    .eq('id', tourId)
+    .single()
+
+  if (error || !tour) {
+    throw new Error(error?.message || 'Tour not found')
+  }
+
+  return checkStock({
+    warehouseId: tour.warehouse_id,
+    kit: buildTourKit(tour.selected_skus, tour.sku_quantities, await fetchSwagItems()),
+    participantCount: Array.isArray(tour.participants) ? tour.participants.length : 0,
+    selectedWorkflows: tour.selected_workflows || [],
+    workflowConfigs: tour.workflow_configs || {},
+    poExtraQuantities: tour.po_extra_quantities || {},
+    excludeTourId: tour.id
+  })
+}
+
+async function fetchSwagItems(): Promise<Array<{ name: string; sku: string }>> {
+  const supabase = createClient()
+  const { data, error } = await supabase.from('swag_items').select('name, sku')
+
+  if (error) {
+    throw new Error(`Failed to fetch swag items: ${error.message}`)
+  }
+  return (data || []).filter((item: any) => item && item.sku)
+}
@@ -0,0 +1,179 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { shipHeroRefreshEndpoint } from './endpoint'
+import { recordShipHeroApiCall } from './api-log'
+
+/**
+ * Server-side vault for ShipHero credentials, backed by the shiphero_tokens table (service role only).
+ * Tokens never leave the server: API routes call getShipHeroAccessToken() and the
+ * browser only ever sees the expiry status.
+ */
+
+// Refresh an access token this long before ShipHero would reject it
+const REFRESH_MARGIN_MS = 60 * 60 * 1000
+
+interface StoredToken {
+  id: number
+  access_token: string
+  refresh_token: string
+  expires_at: string
+  updated_at: string | null
+}
+
+export interface ShipHeroTokenStatus {
+  configured: boolean
+  expires_at: string | null
+  updated_at: string | null
+}
+
+// Concurrent requests share one refresh call instead of racing each other
+let refreshInFlight: Promise<string> | null = null
+
+async function loadStoredToken(): Promise<StoredToken | null> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('shiphero_tokens')
+    .select('id, access_token, refresh_token, expires_at, updated_at')
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load ShipHero credentials: ${error.message}`)
+  }
+
+  return data
+}
+
+async function saveToken(
+  existing: StoredToken | null,
+  values: { access_token: string; refresh_token: string; expires_at: string }
+): Promise<void> {
+  const supabase = createAdminClient()
+  const { error } = existing
+    ? await supabase.from('shiphero_tokens').update(values).eq('id', existing.id)
+    : await supabase.from('shiphero_tokens').insert([values])
+
+  if (error) {
+    throw new Error(`Failed to store ShipHero credentials: ${error.message}`)
+  }
+}
+
+async function requestAccessToken(refreshToken: string): Promise<{ access_token: string; expires_in: number }> {
+  const startedAt = Date.now()
+  const endpoint = shipHeroRefreshEndpoint()
+  const record = (call: { http_status: number | null; error: string | null; response: any }) =>
+    recordShipHeroApiCall({
+      request_id: null,
+      operation: 'token_refresh',
+      tour_id: null,
+      status: call.error ? 'error' : 'success',
+      duration_ms: Date.now() - startedAt,
+      complexity: null,
+      attempts: 1,
+      request: { endpoint, refresh_token: refreshToken },
+      ...call
+    })
+
+  let response: Response
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ refresh_token: refreshToken }),
+    })
+  } catch (error: any) {
+    await record({ http_status: null, error: error.message || String(error), response: null })
+    throw error
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error('ShipHero refresh error:', response.status, errorText)
+    await record({ http_status: response.status, error: `ShipHero rejected the refresh token (${response.status})`, response: errorText })
+    throw new Error(`ShipHero rejected the refresh token (${response.status})`)
+  }
+
+  const data = await response.json()
+  if (!data.access_token) {
+    await record({ http_status: response.status, error: 'No access token received from ShipHero', response: data })
+    throw new Error('No access token received from ShipHero')
+  }
+
+  await record({ http_status: response.status, error: null, response: data })
+  return { access_token: data.access_token, expires_in: Number(data.expires_in) || 0 }
+}
+
+async function refreshAndStore(existing: StoredToken | null, refreshToken: string): Promise<string> {
+  const { access_token, expires_in } = await requestAccessToken(refreshToken)
+  const expiresAt = new Date(Date.now() + expires_in * 1000).toISOString()
+
+  await saveToken(existing, {
+    access_token,
+    refresh_token: refreshToken,
+    expires_at: expiresAt,
+  })
+
+  console.log('ShipHero access token refreshed, expires at', expiresAt)
+  return access_token
+}
+
+/**
+ * Refresh the stored access token now, regardless of its expiry
+ */
+export async function refreshShipHeroAccessToken(): Promise<string> {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const existing = await loadStoredToken()
+      const refreshToken = existing?.refresh_token || process.env.SHIPHERO_REFRESH_TOKEN
+
+      if (!refreshToken) {
+        throw new Error('ShipHero is not connected. Please add a refresh token in Settings → ShipHero tab.')
+      }
+
+      return refreshAndStore(existing, refreshToken)
+    })().finally(() => {
+      refreshInFlight = null
+    })
+  }
+
+  return refreshInFlight
+}
+
+/**
+ * Get a usable access token, reusing the cached one until shortly before it expires
+ */
+export async function getShipHeroAccessToken(): Promise<string> {
+  const existing = await loadStoredToken()
+
+  if (existing) {
+    const expiresAt = new Date(existing.expires_at).getTime()
+    if (expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+      return existing.access_token
+    }
+  }
+
+  return refreshShipHeroAccessToken()
+}
+
+/**
+ * Replace the stored refresh token. The token is exchanged once so a bad value is rejected up front.
+ */
+export async function saveShipHeroRefreshToken(refreshToken: string): Promise<ShipHeroTokenStatus> {
+  const existing = await loadStoredToken()
+  await refreshAndStore(existing, refreshToken.trim())
+  return getShipHeroTokenStatus()
+}
+
+/**
+ * Describe the stored credentials without exposing them
+ */
+export async function getShipHeroTokenStatus(): Promise<ShipHeroTokenStatus> {
+  const existing = await loadStoredToken()
+  return {
+    configured: !!existing || !!process.env.SHIPHERO_REFRESH_TOKEN,
+    expires_at: existing?.expires_at || null,
+    updated_at: existing?.updated_at || null,
+  }
+}
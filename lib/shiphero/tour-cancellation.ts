@@ -0,0 +1,294 @@
+import { createClient } from '@/lib/supabase/client'
+import { ShipHeroOrderService } from './order-service'
+import { updateOrderSummaryStatuses } from './order-summary'
+import { getWorkflow } from './workflows'
+import { getLatestFinalizationJob, isFinalizationJobActive } from './finalization-job'
+
+/**
+ * Cancels a tour together with every ShipHero order linked to it.
+ * Each order's outcome is stored in tour_order_cancellations; orders that were already
+ * cancelled successfully are skipped, so cancelling again only retries the failures.
+ */
+
+export type CancelledOrderType =
+  | 'participant_order'
+  | 'host_order'
+  | 'purchase_order'
+  | 'workflow_order'
+  | 'workflow_purchase_order'
+
+export interface OrderCancellation {
+  id: string
+  tour_id: string
+  order_type: CancelledOrderType
+  participant_id: string | null
+  shiphero_order_id: string
+  order_number: string | null
+  label: string
+  status: 'cancelled' | 'failed'
+  error: string | null
+  created_at: string
+}
+
+export interface TourCancellationResult {
+  cancellations: OrderCancellation[]
+  failed: OrderCancellation[]
+  // Outcomes or order statuses that could not be saved. When the outcomes are lost, cancellations
+  // does not show this attempt and cancelling again retries orders that may already be cancelled.
+  save_errors: string[]
+}
+
+const CANCEL_REASON = 'Warehouse tour cancelled'
+// A finalization run stops before its next order once the tour is cancelled; wait this long for it
+const FINALIZATION_WAIT_MS = 60 * 1000
+const FINALIZATION_POLL_MS = 2 * 1000
+
+/**
+ * Latest cancellation outcome per ShipHero order for a tour
+ */
+export async function getTourCancellations(tourId: string): Promise<OrderCancellation[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('tour_order_cancellations')
+    .select('*')
+    .eq('tour_id', tourId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load order cancellations: ${error.message}`)
+  }
+
+  // Keep only the most recent attempt for each order
+  const latest = new Map<string, OrderCancellation>()
+  for (const row of data || []) {
+    if (!latest.has(row.shiphero_order_id)) latest.set(row.shiphero_order_id, row)
+  }
+  return [...latest.values()]
+}
+
+/**
+ * Mark the tour cancelled, wait for a running finalization to stop, then cancel its sales orders
+ * (participants + host), purchase order and workflow orders in ShipHero
+ */
+export async function cancelTour(tourId: string): Promise<TourCancellationResult> {
+  const supabase = createClient()
+  const service = new ShipHeroOrderService()
+
+  // Cancel first: a finalization run checks the status before each order and stops, so once it
+  // has stopped the order columns below hold everything it created
+  const { error: updateError } = await supabase
+    .from('tours')
+    .update({ status: 'cancelled' })
+    .eq('id', tourId)
+
+  if (updateError) {
+    throw new Error(`Failed to cancel tour: ${updateError.message}`)
+  }
+
+  await waitForFinalizationToStop(tourId)
+
+  const { data: tour, error: tourError } = await supabase
+    .from('tours')
+    .select(`
+      id,
+      shiphero_purchase_order_id,
+      shiphero_purchase_order_number,
+      host_shiphero_sales_order_id,
+      host_shiphero_sales_order_number,
+      participants:tour_participants(
+        id,
+        first_name,
+        last_name,
+        shiphero_sales_order_id,
+        shiphero_sales_order_number
+      )
+    `)
+    .eq('id', tourId)
+    .single()
+
+  if (tourError || !tour) {
+    throw new Error(tourError?.message || 'Tour not found')
+  }
+
+  const { data: workflowOrders, error: workflowOrdersError } = await supabase
+    .from('tour_workflow_orders')
+    .select('workflow, order_type, sequence, recipient_type, participant_id, recipient_name, shiphero_order_id, order_number')
+    .eq('tour_id', tourId)
+    .order('created_at')
+
+  if (workflowOrdersError) {
+    throw new Error(`Failed to load workflow orders: ${workflowOrdersError.message}`)
+  }
+
+  const { data: vendorPurchaseOrders, error: vendorPurchaseOrdersError } = await supabase
+    .from('tour_vendor_purchase_orders')
+    .select('vendor_id, vendor_name, shiphero_order_id, order_number')
+    .eq('tour_id', tourId)
+    .order('created_at')
+
+  if (vendorPurchaseOrdersError) {
+    throw new Error(`Failed to load vendor purchase orders: ${vendorPurchaseOrdersError.message}`)
+  }
+
+  const orders: Array<{
+    order_type: CancelledOrderType
+    participant_id: string | null
+    shiphero_order_id: string
+    order_number: string | null
+    label: string
+  }> = []
+
+  for (const participant of (tour.participants || []) as any[]) {
+    if (!participant.shiphero_sales_order_id) continue
+    orders.push({
+      order_type: 'participant_order',
+      participant_id: participant.id,
+      shiphero_order_id: participant.shiphero_sales_order_id,
+      order_number: participant.shiphero_sales_order_number,
+      label: `Sales order for ${participant.first_name} ${participant.last_name}`
+    })
+  }
+
+  if (tour.host_shiphero_sales_order_id) {
+    orders.push({
+      order_type: 'host_order',
+      participant_id: null,
+      shiphero_order_id: tour.host_shiphero_sales_order_id,
+      order_number: tour.host_shiphero_sales_order_number,
+      label: 'Host sales order'
+    })
+  }
+
+  if (tour.shiphero_purchase_order_id) {
+    orders.push({
+      order_type: 'purchase_order',
+      participant_id: null,
+      shiphero_order_id: tour.shiphero_purchase_order_id,
+      order_number: tour.shiphero_purchase_order_number,
+      label: 'Purchase order'
+    })
+  }
+
+  for (const order of vendorPurchaseOrders || []) {
+    orders.push({
+      order_type: 'purchase_order',
+      participant_id: null,
+      shiphero_order_id: order.shiphero_order_id,
+      order_number: order.order_number,
+      label: `Purchase order (${order.vendor_name || `vendor ${order.vendor_id}`})`
+    })
+  }
+
+  for (const order of workflowOrders || []) {
+    const workflowLabel = getWorkflow(order.workflow)?.label || order.workflow
+    const isPurchaseOrder = order.order_type === 'purchase_order'
+    orders.push({
+      order_type: isPurchaseOrder ? 'workflow_purchase_order' : 'workflow_order',
+      participant_id: order.participant_id,
+      shiphero_order_id: order.shiphero_order_id,
+      order_number: order.order_number,
+      label: isPurchaseOrder
+        ? `${workflowLabel} purchase order`
+        : `${workflowLabel} order ${order.sequence} for ${order.recipient_name}${order.recipient_type === 'extra' ? ' (demo)' : ''}`
+    })
+  }
+
+  const previous = await getTourCancellations(tourId)
+  const alreadyCancelled = new Set(
+    previous.filter(c => c.status === 'cancelled').map(c => c.shiphero_order_id)
+  )
+
+  const outcomes = []
+  const saveErrors: string[] = []
+  for (const order of orders) {
+    if (alreadyCancelled.has(order.shiphero_order_id)) continue
+
+    try {
+      if (order.order_type === 'purchase_order' || order.order_type === 'workflow_purchase_order') {
+        await service.cancelPurchaseOrder(order.shiphero_order_id, tourId)
+      } else {
+        await service.cancelSalesOrder(order.shiphero_order_id, CANCEL_REASON, tourId)
+      }
+      outcomes.push({ ...order, tour_id: tourId, status: 'cancelled', error: null })
+    } catch (error: any) {
+      console.error(`Failed to cancel ${order.label} (${order.shiphero_order_id}):`, error)
+      outcomes.push({ ...order, tour_id: tourId, status: 'failed', error: error.message || String(error) })
+    }
+  }
+
+  if (outcomes.length > 0) {
+    const { error: insertError } = await supabase
+      .from('tour_order_cancellations')
+      .insert(outcomes)
+
+    if (insertError) {
+      console.error('Failed to record order cancellations:', insertError)
+      saveErrors.push(`Cancellation outcomes of ${outcomes.length} order${outcomes.length === 1 ? '' : 's'}: ${insertError.message}`)
+    }
+
+    const cancelled = outcomes.filter(outcome => outcome.status === 'cancelled')
+
+    const cancelledWorkflowOrderIds = cancelled
+      .filter(outcome => outcome.order_type === 'workflow_order' || outcome.order_type === 'workflow_purchase_order')
+      .map(outcome => outcome.shiphero_order_id)
+    if (cancelledWorkflowOrderIds.length > 0) {
+      const { error: workflowUpdateError } = await supabase
+        .from('tour_workflow_orders')
+        .update({ fulfillment_status: 'canceled', canceled_at: new Date().toISOString() })
+        .eq('tour_id', tourId)
+        .in('shiphero_order_id', cancelledWorkflowOrderIds)
+
+      if (workflowUpdateError) {
+        console.error('Failed to update workflow order status after cancellation:', workflowUpdateError)
+        saveErrors.push(`Workflow order statuses: ${workflowUpdateError.message}`)
+      }
+    }
+
+    const cancelledPurchaseOrderIds = cancelled
+      .filter(outcome => outcome.order_type === 'purchase_order')
+      .map(outcome => outcome.shiphero_order_id)
+    if (cancelledPurchaseOrderIds.length > 0 && (vendorPurchaseOrders || []).length > 0) {
+      const { error: vendorUpdateError } = await supabase
+        .from('tour_vendor_purchase_orders')
+        .update({ fulfillment_status: 'canceled', canceled_at: new Date().toISOString() })
+        .eq('tour_id', tourId)
+        .in('shiphero_order_id', cancelledPurchaseOrderIds)
+
+      if (vendorUpdateError) {
+        console.error('Failed to update vendor purchase order status after cancellation:', vendorUpdateError)
+        saveErrors.push(`Vendor purchase order statuses: ${vendorUpdateError.message}`)
+      }
+    }
+    try {
+      await updateOrderSummaryStatuses(
+        tourId,
+        Object.fromEntries(cancelled.map(outcome => [outcome.shiphero_order_id, 'canceled']))
+      )
+    } catch (error: any) {
+      console.error('Failed to update order summary after cancellation:', error)
+      saveErrors.push(`Order summary: ${error.message || String(error)}`)
+    }
+  }
+
+  const cancellations = await getTourCancellations(tourId)
+  return {
+    cancellations,
+    failed: cancellations.filter(c => c.status === 'failed'),
+    save_errors: saveErrors
+  }
+}
+
+/**
+ * Wait for a running finalization job to stop, so no order is created after the snapshot
+ */
+async function waitForFinalizationToStop(tourId: string): Promise<void> {
+  const deadline = Date.now() + FINALIZATION_WAIT_MS
+
+  while (isFinalizationJobActive(await getLatestFinalizationJob(tourId))) {
+    if (Date.now() >= deadline) {
+      throw new Error('The tour is marked cancelled, but its finalization is still creating orders. Cancel again once it stops to cancel its ShipHero orders.')
+    }
+    await new Promise(resolve => setTimeout(resolve, FINALIZATION_POLL_MS))
+  }
+}
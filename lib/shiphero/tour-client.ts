@@ -0,0 +1,60 @@
+import { requestJson } from './api-request'
+import type { TourCancellationResult } from './tour-cancellation'
+import type { TourReconciliation } from './reconciliation'
+import type { InstructionGuide } from './instruction-guide'
+import type { StockCheckResult } from './stock-check'
+
+/**
+ * Browser helpers for a tour's ShipHero actions in the tours view
+ */
+
+/**
+ * Manually create a tour's sales orders or purchase order through the server
+ */
+export async function createTourOrders(tourId: string, type: 'sales_orders' | 'purchase_order') {
+  return requestJson<{
+    success: boolean
+    message: string
+    ordersCreated?: number
+    poNumber?: string
+    errors: string[]
+  }>(`/api/tours/${tourId}/orders`, { body: { type } })
+}
+
+/**
+ * Cancel a tour and its ShipHero orders; resolves with the per-order outcomes
+ */
+export async function cancelTourWithOrders(tourId: string): Promise<TourCancellationResult> {
+  return requestJson(`/api/tours/${tourId}/cancel`, { method: 'POST' })
+}
+
+/**
+ * Refresh a tour's order status from ShipHero ("Sync status") and get the drift report
+ */
+export async function syncTourStatus(tourId: string): Promise<TourReconciliation> {
+  return requestJson(`/api/tours/${tourId}/reconcile`, { method: 'POST' })
+}
+
+/**
+ * Regenerate the tour's host instruction guide from its current orders
+ */
+export async function generateTourInstructionGuide(tourId: string): Promise<InstructionGuide> {
+  return requestJson(`/api/tours/${tourId}/instruction-guide`, { method: 'POST' })
+}
+
+/**
+ * Save edits to the tour's host instruction guide
+ */
+export async function saveTourInstructionGuide(tourId: string, guide: string): Promise<void> {
+  await requestJson(`/api/tours/${tourId}/instruction-guide`, {
+    method: 'PUT',
+    body: { instruction_guide: guide }
+  })
+}
+
+/**
+ * Check a tour's swag against ShipHero stock before it is finalized
+ */
+export async function checkTourStock(tourId: string): Promise<StockCheckResult> {
+  return requestJson(`/api/tours/${tourId}/stock-check`)
+}
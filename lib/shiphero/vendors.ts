@@ -0,0 +1,169 @@
+import { createClient } from '@/lib/supabase/client'
+import { executeShipHeroQuery } from './order-api'
+import { VENDORS_QUERY, VENDOR_CREATE_MUTATION } from './operations'
+
+/**
+ * ShipHero vendors for Settings > Vendors. Vendors are created in ShipHero and linked into
+ * the local vendors table, which the swag item vendor dropdown and the PO split read from.
+ * A vendor is referenced by its legacy ID everywhere (swag_items.vendor_id, tenant_config).
+ */
+
+export interface ShipHeroVendor {
+  id: string
+  legacy_id: number
+  name: string
+  email: string | null
+  account_number: string | null
+}
+
+export interface VendorListEntry extends ShipHeroVendor {
+  linked: boolean
+  // Swag items bought from this vendor
+  swag_item_count: number
+  // The organization default (tenant_config.shiphero_vendor_id)
+  is_default: boolean
+}
+
+export interface ShipHeroVendorList {
+  vendors: ShipHeroVendor[]
+  // True when the account has more vendors than MAX_PAGES returns
+  truncated: boolean
+}
+
+export interface VendorList {
+  vendors: VendorListEntry[]
+  truncated: boolean
+}
+
+export interface VendorCreateRequest {
+  name: string
+  email: string
+  account_number?: string
+}
+
+// 100 vendors per page; no account is expected to come close to this
+const MAX_PAGES = 10
+
+/**
+ * The account's vendors sorted by name. Stops after MAX_PAGES pages and reports that through `truncated`.
+ */
+export async function listShipHeroVendors(): Promise<ShipHeroVendorList> {
+  const vendors: ShipHeroVendor[] = []
+  let after: string | null = null
+  let truncated = false
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const data: any = await executeShipHeroQuery(VENDORS_QUERY, { after })
+
+    const connection = data?.vendors?.data
+    for (const edge of connection?.edges || []) {
+      if (edge?.node?.id) vendors.push(toVendor(edge.node))
+    }
+
+    if (!connection?.pageInfo?.hasNextPage) break
+    if (page === MAX_PAGES - 1) {
+      truncated = true
+      break
+    }
+    after = connection.pageInfo.endCursor
+  }
+
+  return { vendors: vendors.sort((a, b) => a.name.localeCompare(b.name)), truncated }
+}
+
+/**
+ * Every ShipHero vendor with whether it is linked, the default, and used by swag items
+ */
+export async function getVendorList(): Promise<VendorList> {
+  const supabase = createClient()
+  const { vendors: shipheroVendors, truncated } = await listShipHeroVendors()
+
+  const [{ data: linked, error: linkedError }, { data: swagItems, error: swagError }, { data: tenant }] = await Promise.all([
+    supabase.from('vendors').select('legacy_id'),
+    supabase.from('swag_items').select('vendor_id'),
+    supabase.from('tenant_config').select('shiphero_vendor_id').order('created_at').limit(1).maybeSingle()
+  ])
+
+  if (linkedError) {
+    throw new Error(`Failed to fetch vendors: ${linkedError.message}`)
+  }
+  if (swagError) {
+    throw new Error(`Failed to fetch swag items: ${swagError.message}`)
+  }
+
+  const linkedIds = new Set((linked || []).map((vendor: any) => String(vendor.legacy_id)))
+  return {
+    vendors: shipheroVendors.map(vendor => ({
+      ...vendor,
+      linked: linkedIds.has(String(vendor.legacy_id)),
+      swag_item_count: (swagItems || []).filter((item: any) => item.vendor_id === String(vendor.legacy_id)).length,
+      is_default: tenant?.shiphero_vendor_id === String(vendor.legacy_id)
+    })),
+    truncated
+  }
+}
+
+/**
+ * Create a vendor in ShipHero and link it
+ */
+export async function createShipHeroVendor(request: VendorCreateRequest): Promise<ShipHeroVendor> {
+  const data: any = await executeShipHeroQuery(VENDOR_CREATE_MUTATION, {
+    data: {
+      name: request.name.trim(),
+      email: request.email.trim(),
+      ...(request.account_number?.trim() && { account_number: request.account_number.trim() })
+    }
+  })
+
+  const created = data?.vendor_create?.vendor
+  if (!created?.id) {
+    throw new Error(`ShipHero did not create vendor ${request.name}`)
+  }
+
+  const vendor = toVendor(created)
+  await saveVendorLink(vendor)
+  console.log(`Created ShipHero vendor ${vendor.name} (${vendor.legacy_id})`)
+  return vendor
+}
+
+/**
+ * Link an existing ShipHero vendor, refreshing its name and email if it was linked before
+ */
+export async function linkShipHeroVendor(shipheroVendorId: string): Promise<ShipHeroVendor> {
+  const { vendors, truncated } = await listShipHeroVendors()
+  const vendor = vendors.find(vendor => vendor.id === shipheroVendorId)
+  if (!vendor) {
+    throw new Error(truncated
+      ? `ShipHero vendor not found in the first ${vendors.length} vendors of this account`
+      : 'ShipHero vendor not found in this account')
+  }
+
+  await saveVendorLink(vendor)
+  return vendor
+}
+
+async function saveVendorLink(vendor: ShipHeroVendor): Promise<void> {
+  const { error } = await createClient()
+    .from('vendors')
+    .upsert({
+      shiphero_vendor_id: vendor.id,
+      legacy_id: vendor.legacy_id,
+      name: vendor.name,
+      email: vendor.email,
+      account_number: vendor.account_number
+    }, { onConflict: 'shiphero_vendor_id' })
+
+  if (error) {
+    throw new Error(`Failed to link vendor ${vendor.name}: ${error.message}`)
+  }
+}
+
+function toVendor(node: any): ShipHeroVendor {
+  return {
+    id: node.id,
+    legacy_id: Number(node.legacy_id),
+    name: node.name || `Vendor ${node.legacy_id}`,
+    email: node.email || null,
+    account_number: node.account_number || null
+  }
+}
@@ -0,0 +1,206 @@
+import { createClient } from '@/lib/supabase/client'
+import { executeShipHeroQuery } from './order-api'
+import { ACCOUNT_WAREHOUSES_QUERY } from './operations'
+import { validateAddress, NormalizedAddress } from '@/lib/address'
+
+/**
+ * "Import from ShipHero" for Settings > Warehouses. Lists the account's warehouses, links
+ * them to local rows or creates new ones (code from warehouse_codes), and reports drift:
+ * a linked warehouse whose ShipHero address no longer matches the one last synced.
+ */
+
+export interface ShipHeroWarehouse {
+  id: string
+  legacy_id: number | null
+  identifier: string
+  // Normalized ShipHero address
+  address: NormalizedAddress
+}
+
+export interface AddressDrift {
+  field: keyof NormalizedAddress
+  synced: string
+  shiphero: string
+}
+
+export interface WarehouseImportEntry {
+  shiphero: ShipHeroWarehouse
+  // Airport code from warehouse_codes, if mapped
+  code: string | null
+  linked_warehouse: { id: string; name: string; code: string | null } | null
+  drift: AddressDrift[]
+  // Address problems that would stop orders, for warehouses that are not linked yet; these
+  // cannot be created until the address is fixed in ShipHero
+  address_errors: string[]
+}
+
+export type WarehouseImportAction =
+  | { action: 'create'; shiphero_warehouse_id: string; code?: string }
+  | { action: 'link'; shiphero_warehouse_id: string; warehouse_id: string }
+  // Copy the ShipHero address onto the linked warehouse
+  | { action: 'apply_address'; shiphero_warehouse_id: string }
+  // Keep the local address and stop reporting the current drift
+  | { action: 'acknowledge'; shiphero_warehouse_id: string }
+
+const ADDRESS_FIELDS: Array<keyof NormalizedAddress> = ['address', 'address2', 'city', 'state', 'zip', 'country']
+
+export async function listShipHeroWarehouses(): Promise<ShipHeroWarehouse[]> {
+  const data: any = await executeShipHeroQuery(ACCOUNT_WAREHOUSES_QUERY, {})
+  const warehouses: any[] = data?.account?.data?.warehouses || []
+
+  return warehouses.map(warehouse => ({
+    id: warehouse.id,
+    legacy_id: warehouse.legacy_id ?? null,
+    identifier: warehouse.identifier || warehouse.address?.name || warehouse.id,
+    address: validateAddress({
+      address: warehouse.address?.address1,
+      address2: warehouse.address?.address2,
+      city: warehouse.address?.city,
+      state: warehouse.address?.state,
+      zip: warehouse.address?.zip,
+      country: warehouse.address?.country
+    }).address
+  }))
+}
+
+export async function getWarehouseImportList(): Promise<WarehouseImportEntry[]> {
+  const supabase = createClient()
+  const shipheroWarehouses = await listShipHeroWarehouses()
+
+  const [{ data: localWarehouses, error: warehousesError }, { data: codes, error: codesError }] = await Promise.all([
+    supabase
+      .from('warehouses')
+      .select('id, name, code, address, address2, city, state, zip, country, shiphero_warehouse_id, shiphero_address'),
+    supabase.from('warehouse_codes').select('shiphero_warehouse_id, code')
+  ])
+
+  if (warehousesError) {
+    throw new Error(`Failed to fetch warehouses: ${warehousesError.message}`)
+  }
+  if (codesError) {
+    throw new Error(`Failed to fetch warehouse codes: ${codesError.message}`)
+  }
+
+  return shipheroWarehouses.map(shiphero => {
+    const linked = (localWarehouses || []).find((warehouse: any) => warehouse.shiphero_warehouse_id === shiphero.id)
+    // Rows linked by hand before the import existed have no snapshot; compare with their own address
+    const synced: NormalizedAddress | null = linked
+      ? linked.shiphero_address || validateAddress(linked).address
+      : null
+
+    return {
+      shiphero,
+      code: (codes || []).find((code: any) => code.shiphero_warehouse_id === shiphero.id)?.code || null,
+      linked_warehouse: linked ? { id: linked.id, name: linked.name, code: linked.code || null } : null,
+      drift: synced ? addressDrift(synced, shiphero.address) : [],
+      address_errors: linked ? [] : validateAddress(shiphero.address).errors
+    }
+  })
+}
+
+export async function applyWarehouseImportAction(request: WarehouseImportAction): Promise<void> {
+  const supabase = createClient()
+
+  const shiphero = (await listShipHeroWarehouses()).find(warehouse => warehouse.id === request.shiphero_warehouse_id)
+  if (!shiphero) {
+    throw new Error('ShipHero warehouse not found in this account')
+  }
+  const snapshot = {
+    shiphero_address: shiphero.address,
+    shiphero_address_synced_at: new Date().toISOString()
+  }
+
+  if (request.action === 'create' || request.action === 'link') {
+    const { data: alreadyLinked, error: alreadyLinkedError } = await supabase
+      .from('warehouses')
+      .select('id, name')
+      .eq('shiphero_warehouse_id', shiphero.id)
+      .maybeSingle()
+    if (alreadyLinkedError) {
+      throw new Error(`Failed to check existing links: ${alreadyLinkedError.message}`)
+    }
+    if (alreadyLinked) {
+      throw new Error(`${shiphero.identifier} is already linked to ${alreadyLinked.name}`)
+    }
+  }
+
+  const { data: mappedCode } = await supabase
+    .from('warehouse_codes')
+    .select('code')
+    .eq('shiphero_warehouse_id', shiphero.id)
+    .maybeSingle()
+
+  if (request.action === 'create') {
+    // Orders from a warehouse with an unusable address fail at finalize; fix it in ShipHero first
+    const { errors } = validateAddress(shiphero.address)
+    if (errors.length > 0) {
+      throw new Error(`${shiphero.identifier} has an invalid address in ShipHero: ${errors.join('; ')}`)
+    }
+
+    const code = (request.code || mappedCode?.code || '').trim().toUpperCase()
+    const { error } = await supabase.from('warehouses').insert([{
+      name: shiphero.identifier,
+      code: code || null,
+      ...shiphero.address,
+      shiphero_warehouse_id: shiphero.id,
+      ...snapshot
+    }])
+    if (error) {
+      throw new Error(`Failed to create warehouse: ${error.message}`)
+    }
+    return
+  }
+
+  if (request.action === 'link') {
+    const { data: warehouse, error: fetchError } = await supabase
+      .from('warehouses')
+      .select('id, name, code, shiphero_warehouse_id')
+      .eq('id', request.warehouse_id)
+      .single()
+    if (fetchError || !warehouse) {
+      throw new Error(fetchError?.message || 'Warehouse not found')
+    }
+    // Tours and stock checks follow the existing link, so changing it is left to the warehouse form
+    if (warehouse.shiphero_warehouse_id && warehouse.shiphero_warehouse_id !== shiphero.id) {
+      throw new Error(`${warehouse.name} is already linked to another ShipHero warehouse`)
+    }
+
+    // Keep a code someone already chose; fill it in from warehouse_codes otherwise
+    const { error } = await supabase
+      .from('warehouses')
+      .update({
+        shiphero_warehouse_id: shiphero.id,
+        code: warehouse.code || mappedCode?.code || null,
+        ...snapshot
+      })
+      .eq('id', warehouse.id)
+    if (error) {
+      throw new Error(`Failed to link warehouse: ${error.message}`)
+    }
+    return
+  }
+
+  const { data: linked, error: linkedError } = await supabase
+    .from('warehouses')
+    .select('id')
+    .eq('shiphero_warehouse_id', shiphero.id)
+    .maybeSingle()
+  if (linkedError || !linked) {
+    throw new Error(linkedError?.message || `${shiphero.identifier} is not linked to a warehouse`)
+  }
+
+  const { error } = await supabase
+    .from('warehouses')
+    .update(request.action === 'apply_address' ? { ...shiphero.address, ...snapshot } : snapshot)
+    .eq('id', linked.id)
+  if (error) {
+    throw new Error(`Failed to update warehouse: ${error.message}`)
+  }
+}
+
+function addressDrift(synced: NormalizedAddress, current: NormalizedAddress): AddressDrift[] {
+  const normalizedSynced = validateAddress(synced).address
+  return ADDRESS_FIELDS
+    .filter(field => (normalizedSynced[field] || '').toLowerCase() !== (current[field] || '').toLowerCase())
+    .map(field => ({ field, synced: normalizedSynced[field] || '', shiphero: current[field] || '' }))
+}
@@ -0,0 +1,308 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { createClient } from '@/lib/supabase/client'
+import { updateOrderSummaryStatuses } from './order-summary'
+
+/**
+ * ShipHero webhook handling: signature verification and matching events to tour orders.
+ * Server-side only.
+ */
+
+export interface WebhookMatch {
+  kind: 'participant_order' | 'host_order' | 'purchase_order' | 'vendor_purchase_order' | 'workflow_order' | 'workflow_purchase_order' | 'replenishment_purchase_order'
+  id: string
+}
+
+export interface WebhookResult {
+  webhookType: string
+  matches: WebhookMatch[]
+}
+
+/**
+ * Check ShipHero's HMAC-SHA256 signature (base64) of the raw request body
+ */
+export function verifyShipHeroWebhookSignature(rawBody: string, signature: string | null): boolean {
+  const secret = process.env.SHIPHERO_WEBHOOK_SECRET
+  if (!secret) {
+    throw new Error('SHIPHERO_WEBHOOK_SECRET is not configured')
+  }
+  if (!signature) {
+    return false
+  }
+
+  const expected = createHmac('sha256', secret).update(rawBody, 'utf8').digest('base64')
+  const expectedBuffer = Buffer.from(expected)
+  const signatureBuffer = Buffer.from(signature.trim())
+
+  return expectedBuffer.length === signatureBuffer.length && timingSafeEqual(expectedBuffer, signatureBuffer)
+}
+
+/**
+ * Apply a verified webhook payload to the matching participant, host, purchase, workflow or replenishment order
+ */
+export async function handleShipHeroWebhook(payload: any): Promise<WebhookResult> {
+  const webhookType: string = payload?.webhook_type || ''
+  const receivedAt = new Date().toISOString()
+
+  switch (webhookType) {
+    case 'Shipment Update': {
+      const shipment = payload.fulfillment || payload
+      const matches = await updateSalesOrderStatus(
+        salesOrderRef(shipment),
+        {
+          fulfillment_status: shipment.status || 'shipped',
+          tracking_number: shipment.tracking_number || null,
+          shipped_at: shipment.created_at || shipment.shipped_date || receivedAt,
+        },
+        receivedAt
+      )
+      return { webhookType, matches }
+    }
+
+    case 'Order Canceled': {
+      const order = payload.order || payload
+      const matches = await updateSalesOrderStatus(
+        salesOrderRef(order),
+        {
+          fulfillment_status: 'canceled',
+          canceled_at: order.canceled_at || receivedAt,
+        },
+        receivedAt
+      )
+      return { webhookType, matches }
+    }
+
+    case 'PO Update': {
+      const purchaseOrder = payload.purchase_order || payload
+      const matches = await updatePurchaseOrderStatus(purchaseOrder, receivedAt)
+      return { webhookType, matches }
+    }
+
+    default:
+      console.log(`Ignoring unsupported ShipHero webhook type: ${webhookType || '(none)'}`)
+      return { webhookType, matches: [] }
+  }
+}
+
+interface OrderRef {
+  ids: string[]
+  number: string | null
+}
+
+// Where a tour order's ShipHero id and number are stored
+interface OrderTarget {
+  kind: WebhookMatch['kind']
+  table: string
+  idColumn: string
+  numberColumn: string
+  tourColumn: string
+  // Extra equality filters, e.g. the workflow order type
+  filters?: Record<string, string>
+}
+
+interface OrderRow extends WebhookMatch {
+  tour_id: string
+}
+
+const SALES_ORDER_TARGETS: OrderTarget[] = [
+  { kind: 'participant_order', table: 'tour_participants', idColumn: 'shiphero_sales_order_id', numberColumn: 'shiphero_sales_order_number', tourColumn: 'tour_id' },
+  { kind: 'host_order', table: 'tours', idColumn: 'host_shiphero_sales_order_id', numberColumn: 'host_shiphero_sales_order_number', tourColumn: 'id' },
+  { kind: 'workflow_order', table: 'tour_workflow_orders', idColumn: 'shiphero_order_id', numberColumn: 'order_number', tourColumn: 'tour_id', filters: { order_type: 'sales_order' } },
+]
+
+const PURCHASE_ORDER_TARGETS: OrderTarget[] = [
+  { kind: 'purchase_order', table: 'tours', idColumn: 'shiphero_purchase_order_id', numberColumn: 'shiphero_purchase_order_number', tourColumn: 'id' },
+  { kind: 'vendor_purchase_order', table: 'tour_vendor_purchase_orders', idColumn: 'shiphero_order_id', numberColumn: 'order_number', tourColumn: 'tour_id' },
+  { kind: 'workflow_purchase_order', table: 'tour_workflow_orders', idColumn: 'shiphero_order_id', numberColumn: 'order_number', tourColumn: 'tour_id', filters: { order_type: 'purchase_order' } },
+  // Planning view POs belong to no tour; each counts as its own group when matching by number
+  { kind: 'replenishment_purchase_order', table: 'replenishment_purchase_orders', idColumn: 'shiphero_purchase_order_id', numberColumn: 'po_number', tourColumn: 'id' },
+]
+
+// ShipHero GraphQL ids are base64("<Type>:<legacy id>"); webhooks usually carry the legacy id
+function graphqlIds(type: string, uuid?: string | null, legacyId?: string | number | null): string[] {
+  const ids: string[] = []
+  if (uuid) ids.push(String(uuid))
+  if (legacyId) ids.push(Buffer.from(`${type}:${legacyId}`).toString('base64'))
+  return ids
+}
+
+function salesOrderRef(data: any): OrderRef {
+  return {
+    ids: graphqlIds('Order', data.order_uuid, data.order_id),
+    number: data.order_number || null,
+  }
+}
+
+/**
+ * Tour orders the webhook is about. ShipHero ids are unique, so an id match wins. Order numbers
+ * come from per-tenant templates and can repeat across tours, so they are only used when no id
+ * matches, and only when every row with that number belongs to the same tour.
+ */
+async function findOrderRows(targets: OrderTarget[], ref: OrderRef): Promise<OrderRow[]> {
+  if (ref.ids.length > 0) {
+    const byId = await findRows(targets, target => target.idColumn, ref.ids)
+    if (byId.length > 0) return byId
+  }
+  if (!ref.number) return []
+
+  const byNumber = await findRows(targets, target => target.numberColumn, [ref.number])
+  const tourIds = new Set(byNumber.map(row => row.tour_id))
+  if (tourIds.size > 1) {
+    console.warn(`ShipHero webhook for order ${ref.number} matches ${tourIds.size} tours by number and no tour by id; ignoring it`)
+    return []
+  }
+  return byNumber
+}
+
+async function findRows(targets: OrderTarget[], column: (target: OrderTarget) => string, values: string[]): Promise<OrderRow[]> {
+  const supabase = createClient()
+  const rows: OrderRow[] = []
+
+  for (const target of targets) {
+    let query = supabase
+      .from(target.table)
+      .select(target.tourColumn === 'id' ? 'id' : `id, ${target.tourColumn}`)
+      .in(column(target), values)
+    for (const [filterColumn, value] of Object.entries(target.filters || {})) {
+      query = query.eq(filterColumn, value)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(`Failed to look up ${target.kind.replace(/_/g, ' ')}s: ${error.message}`)
+    }
+    for (const row of (data || []) as any[]) {
+      rows.push({ kind: target.kind, id: row.id, tour_id: row[target.tourColumn] })
+    }
+  }
+
+  return rows
+}
+
+async function updateSalesOrderStatus(
+  ref: OrderRef,
+  status: { fulfillment_status: string; tracking_number?: string | null; shipped_at?: string; canceled_at?: string },
+  receivedAt: string
+): Promise<WebhookMatch[]> {
+  const supabase = createClient()
+  const rows = await findOrderRows(SALES_ORDER_TARGETS, ref)
+
+  for (const row of rows) {
+    if (row.kind === 'participant_order') {
+      const { data: participant, error } = await supabase
+        .from('tour_participants')
+        .update({
+          shiphero_fulfillment_status: status.fulfillment_status,
+          ...(status.tracking_number !== undefined && { shiphero_tracking_number: status.tracking_number }),
+          ...(status.shipped_at && { shiphero_shipped_at: status.shipped_at }),
+          ...(status.canceled_at && { shiphero_canceled_at: status.canceled_at }),
+          shiphero_status_updated_at: receivedAt
+        })
+        .eq('id', row.id)
+        .select('shiphero_sales_order_id')
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to update participant order status: ${error.message}`)
+      }
+      await updateOrderSummaryStatuses(row.tour_id, { [participant.shiphero_sales_order_id]: status.fulfillment_status })
+    } else if (row.kind === 'host_order') {
+      const { data: tour, error } = await supabase
+        .from('tours')
+        .update({
+          host_shiphero_fulfillment_status: status.fulfillment_status,
+          ...(status.tracking_number !== undefined && { host_shiphero_tracking_number: status.tracking_number }),
+          ...(status.shipped_at && { host_shiphero_shipped_at: status.shipped_at }),
+          ...(status.canceled_at && { host_shiphero_canceled_at: status.canceled_at }),
+          host_shiphero_status_updated_at: receivedAt
+        })
+        .eq('id', row.id)
+        .select('host_shiphero_sales_order_id')
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to update host order status: ${error.message}`)
+      }
+      await updateOrderSummaryStatuses(row.tour_id, { [tour.host_shiphero_sales_order_id]: status.fulfillment_status })
+    } else {
+      await updateWorkflowOrderStatus(row, {
+        fulfillment_status: status.fulfillment_status,
+        ...(status.tracking_number !== undefined && { tracking_number: status.tracking_number }),
+        ...(status.shipped_at && { shipped_at: status.shipped_at }),
+        ...(status.canceled_at && { canceled_at: status.canceled_at }),
+        status_updated_at: receivedAt
+      })
+    }
+  }
+
+  return rows.map(({ kind, id }) => ({ kind, id }))
+}
+
+async function updatePurchaseOrderStatus(purchaseOrder: any, receivedAt: string): Promise<WebhookMatch[]> {
+  const supabase = createClient()
+  const rows = await findOrderRows(PURCHASE_ORDER_TARGETS, {
+    ids: graphqlIds('PurchaseOrder', purchaseOrder.po_uuid, purchaseOrder.po_id || purchaseOrder.id),
+    number: purchaseOrder.po_number || null,
+  })
+
+  const status: string = purchaseOrder.fulfillment_status || purchaseOrder.status || 'updated'
+  for (const row of rows) {
+    if (row.kind === 'purchase_order') {
+      const { data: tour, error } = await supabase
+        .from('tours')
+        .update({
+          shiphero_purchase_order_status: status,
+          shiphero_purchase_order_status_updated_at: receivedAt
+        })
+        .eq('id', row.id)
+        .select('shiphero_purchase_order_id')
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to update purchase order status: ${error.message}`)
+      }
+      await updateOrderSummaryStatuses(row.tour_id, { [tour.shiphero_purchase_order_id]: status })
+    } else if (row.kind === 'vendor_purchase_order') {
+      // POs for a tour's additional vendors
+      const { data: order, error } = await supabase
+        .from('tour_vendor_purchase_orders')
+        .update({ fulfillment_status: status, status_updated_at: receivedAt })
+        .eq('id', row.id)
+        .select('shiphero_order_id')
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to update vendor purchase order status: ${error.message}`)
+      }
+      await updateOrderSummaryStatuses(row.tour_id, { [order.shiphero_order_id]: status })
+    } else if (row.kind === 'replenishment_purchase_order') {
+      const { error } = await supabase
+        .from('replenishment_purchase_orders')
+        .update({ fulfillment_status: status, status_updated_at: receivedAt })
+        .eq('id', row.id)
+
+      if (error) {
+        throw new Error(`Failed to update replenishment purchase order status: ${error.message}`)
+      }
+    } else {
+      await updateWorkflowOrderStatus(row, { fulfillment_status: status, status_updated_at: receivedAt })
+    }
+  }
+
+  return rows.map(({ kind, id }) => ({ kind, id }))
+}
+
+async function updateWorkflowOrderStatus(row: OrderRow, changes: Record<string, string | null>): Promise<void> {
+  const supabase = createClient()
+
+  const { data: order, error } = await supabase
+    .from('tour_workflow_orders')
+    .update(changes)
+    .eq('id', row.id)
+    .select('shiphero_order_id')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update workflow order status: ${error.message}`)
+  }
+  await updateOrderSummaryStatuses(row.tour_id, { [order.shiphero_order_id]: changes.fulfillment_status! })
+}
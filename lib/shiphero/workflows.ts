@@ -0,0 +1,238 @@
+/**
+ * Warehouse workflows a tour can demonstrate, and the ShipHero orders each one needs.
+ * Stored on the tour as `selected_workflows` and `workflow_configs`.
+ *
+ * Receiving workflows get one purchase order with the configured quantities.
+ * Fulfillment workflows get `orderCount` sales orders shaped for that workflow.
+ * Pure functions only, so the schedule form and the order service share the same plan.
+ */
+
+export type WorkflowId =
+  | 'receive_to_light'
+  | 'pack_to_light'
+  | 'standard_receiving'
+  | 'bulk_shipping'
+  | 'single_item_batch'
+  | 'multi_item_batch'
+
+export type WorkflowKind = 'receiving' | 'fulfillment'
+
+export interface WorkflowDefinition {
+  id: WorkflowId
+  label: string
+  description: string
+  kind: WorkflowKind
+  // Step-by-step demo instructions for the host, used in the tour's instruction guide
+  instructions: string[]
+}
+
+export interface WorkflowConfig {
+  orderCount: number
+  selectedSkus: string[]
+  // Units per SKU: per order for fulfillment workflows, on the PO for receiving workflows
+  skuQuantities: Record<string, number>
+}
+
+export type WorkflowConfigs = Partial<Record<WorkflowId, WorkflowConfig>>
+
+export interface WorkflowLineItem {
+  sku: string
+  quantity: number
+}
+
+export interface PlannedWorkflowSalesOrder {
+  workflow: WorkflowId
+  sequence: number
+  line_items: WorkflowLineItem[]
+}
+
+export interface PlannedWorkflowPurchaseOrder {
+  workflow: WorkflowId
+  line_items: WorkflowLineItem[]
+}
+
+export interface WorkflowOrderPlan {
+  salesOrders: PlannedWorkflowSalesOrder[]
+  purchaseOrders: PlannedWorkflowPurchaseOrder[]
+}
+
+export const WORKFLOWS: WorkflowDefinition[] = [
+  {
+    id: 'standard_receiving',
+    label: 'Standard Receiving',
+    description: 'One purchase order to receive and put away',
+    kind: 'receiving',
+    instructions: [
+      'Open the purchase order in ShipHero and show the expected SKUs and quantities.',
+      'At the receiving dock, scan the PO barcode with the ShipHero mobile app.',
+      'Scan each SKU and confirm the received quantity against the PO.',
+      'Put the received units away to a bin location and scan the bin to confirm.',
+      'Show the PO status change to received and the updated on-hand inventory.'
+    ]
+  },
+  {
+    id: 'receive_to_light',
+    label: 'Receive to Light',
+    description: 'One purchase order received into put-to-light slots',
+    kind: 'receiving',
+    instructions: [
+      'Open the purchase order in ShipHero and explain receive-to-light.',
+      'Scan the PO barcode at the receive-to-light station.',
+      'Scan each unit; the light shows which slot it goes to.',
+      'Place the unit in the lit slot and press the light to confirm.',
+      'When all lights are cleared, show the PO marked as received.'
+    ]
+  },
+  {
+    id: 'bulk_shipping',
+    label: 'Bulk Shipping',
+    description: 'Identical orders shipped together in bulk',
+    kind: 'fulfillment',
+    instructions: [
+      'In ShipHero, filter the orders by the tour tag to show the identical bulk orders.',
+      'Create a bulk ship batch for the orders.',
+      'Pick the total quantity of each SKU for the whole batch in one trip.',
+      'Pack one order, then print labels for the whole batch at once.',
+      'Show every order in the batch moving to shipped.'
+    ]
+  },
+  {
+    id: 'single_item_batch',
+    label: 'Single-Item Batch',
+    description: 'Orders with a single unit each, picked as one batch',
+    kind: 'fulfillment',
+    instructions: [
+      'Show the single-item orders in ShipHero and create a single-item batch.',
+      'Pick all units for the batch into one tote with the mobile app.',
+      'At the pack station, scan each unit; ShipHero matches it to an order and prints its label.',
+      'Show each order moving to shipped as its label prints.'
+    ]
+  },
+  {
+    id: 'multi_item_batch',
+    label: 'Multi-Item Batch',
+    description: 'Orders with several units each, picked as one batch',
+    kind: 'fulfillment',
+    instructions: [
+      'Show the multi-item orders in ShipHero and create a multi-item batch.',
+      'Pick the batch with the mobile app, placing each order in its own tote or cart slot.',
+      'At the pack station, scan the tote and verify every item in the order.',
+      'Pack the order, print the label and show it moving to shipped.'
+    ]
+  },
+  {
+    id: 'pack_to_light',
+    label: 'Pack to Light',
+    description: 'Multi-unit orders sorted to lights at the pack station',
+    kind: 'fulfillment',
+    instructions: [
+      'Pick the pack-to-light orders as one batch with the mobile app.',
+      'At the pack-to-light wall, scan each unit; the light shows its order\'s slot.',
+      'Place the unit in the lit slot and press the light to confirm.',
+      'When a slot is complete, pack the order from that slot and print its label.',
+      'Show the orders moving to shipped.'
+    ]
+  }
+]
+
+export const MAX_WORKFLOW_ORDER_COUNT = 50
+
+export function getWorkflow(id: string): WorkflowDefinition | undefined {
+  return WORKFLOWS.find(workflow => workflow.id === id)
+}
+
+export function isWorkflowId(id: string): id is WorkflowId {
+  return WORKFLOWS.some(workflow => workflow.id === id)
+}
+
+export function defaultWorkflowConfig(): WorkflowConfig {
+  return { orderCount: 1, selectedSkus: [], skuQuantities: {} }
+}
+
+/**
+ * Problems that would stop the workflows from producing orders, one message per problem
+ */
+export function validateWorkflowConfigs(selectedWorkflows: string[], configs: WorkflowConfigs): string[] {
+  const errors: string[] = []
+
+  for (const id of selectedWorkflows) {
+    const workflow = getWorkflow(id)
+    if (!workflow) {
+      errors.push(`Unknown workflow: ${id}`)
+      continue
+    }
+
+    const config = configs[workflow.id]
+    if (!config || config.selectedSkus.length === 0) {
+      errors.push(`${workflow.label}: select at least one SKU`)
+      continue
+    }
+
+    const invalidSkus = config.selectedSkus.filter(sku => !(skuQuantity(config, sku) > 0))
+    if (invalidSkus.length > 0) {
+      errors.push(`${workflow.label}: quantity must be at least 1 for ${invalidSkus.join(', ')}`)
+    }
+
+    if (workflow.kind === 'fulfillment') {
+      if (!Number.isInteger(config.orderCount) || config.orderCount < 1) {
+        errors.push(`${workflow.label}: order count must be at least 1`)
+      } else if (config.orderCount > MAX_WORKFLOW_ORDER_COUNT) {
+        errors.push(`${workflow.label}: order count cannot exceed ${MAX_WORKFLOW_ORDER_COUNT}`)
+      }
+    }
+
+    if ((workflow.id === 'multi_item_batch' || workflow.id === 'pack_to_light') &&
+        config.selectedSkus.reduce((units, sku) => units + skuQuantity(config, sku), 0) < 2) {
+      errors.push(`${workflow.label}: each order needs at least 2 units`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * The sales orders and purchase orders needed by the selected workflows, in a stable order.
+ * Call validateWorkflowConfigs first; incomplete workflows are skipped here.
+ */
+export function planWorkflowOrders(selectedWorkflows: string[], configs: WorkflowConfigs): WorkflowOrderPlan {
+  const plan: WorkflowOrderPlan = { salesOrders: [], purchaseOrders: [] }
+
+  // Follow WORKFLOWS order rather than selection order so the plan does not depend on click order
+  for (const workflow of WORKFLOWS) {
+    if (!selectedWorkflows.includes(workflow.id)) continue
+
+    const config = configs[workflow.id]
+    if (!config || config.selectedSkus.length === 0) continue
+
+    const allSkus = config.selectedSkus.map(sku => ({ sku, quantity: skuQuantity(config, sku) }))
+
+    if (workflow.kind === 'receiving') {
+      plan.purchaseOrders.push({ workflow: workflow.id, line_items: allSkus })
+      continue
+    }
+
+    for (let sequence = 1; sequence <= config.orderCount; sequence++) {
+      // Single-item batches rotate through the SKUs, one unit per order
+      const lineItems = workflow.id === 'single_item_batch'
+        ? [{ sku: config.selectedSkus[(sequence - 1) % config.selectedSkus.length], quantity: 1 }]
+        : allSkus
+
+      plan.salesOrders.push({ workflow: workflow.id, sequence, line_items: lineItems })
+    }
+  }
+
+  return plan
+}
+
+/**
+ * Largest order count of any single fulfillment workflow. Each workflow assigns its orders to
+ * recipients from the start, so this is how many recipients the tour needs.
+ */
+export function requiredWorkflowRecipients(selectedWorkflows: string[], configs: WorkflowConfigs): number {
+  return planWorkflowOrders(selectedWorkflows, configs).salesOrders
+    .reduce((max, order) => Math.max(max, order.sequence), 0)
+}
+
+function skuQuantity(config: WorkflowConfig, sku: string): number {
+  return Number(config.skuQuantities[sku] ?? 1)
+}
@@ -0,0 +1,17 @@
+import { createClient } from "@supabase/supabase-js"
+
+/**
+ * Service-role client for server code that reads or writes tables closed to the anon key
+ * (ShipHero credentials and similar). It bypasses RLS, so never import it from a
+ * "use client" module, and create a new client within each function like the others.
+ */
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY is not configured")
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
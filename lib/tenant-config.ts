@@ -0,0 +1,137 @@
+import { createClient } from '@/lib/supabase/client'
+import {
+  DEFAULT_PURCHASE_ORDER_NAME_TEMPLATE,
+  DEFAULT_SALES_ORDER_NAME_TEMPLATE,
+  validateOrderNameTemplate
+} from '@/lib/shiphero/naming-utils'
+
+/**
+ * Organization-wide settings, stored as a single row in tenant_config and edited
+ * from Settings > Organization. Order creation (tour finalization and adhoc orders)
+ * reads its shop name, company, vendor, fulfillment status and order naming
+ * templates from here; stock checks and planning read "today" in its time zone.
+ */
+
+export interface TenantConfig {
+  id: string | null
+  shiphero_vendor_id: string | null
+  shop_name: string
+  company_name: string
+  default_fulfillment_status: string
+  sales_order_name_template: string
+  purchase_order_name_template: string
+  // IANA time zone, e.g. America/New_York
+  timezone: string
+}
+
+export type TenantConfigInput = Omit<TenantConfig, 'id'>
+
+// Same as the column defaults, so a missing row behaves like a freshly inserted one
+export const DEFAULT_TENANT_CONFIG: TenantConfig = {
+  id: null,
+  shiphero_vendor_id: null,
+  shop_name: 'Tour Orders',
+  company_name: 'Tour Company',
+  default_fulfillment_status: 'pending',
+  sales_order_name_template: DEFAULT_SALES_ORDER_NAME_TEMPLATE,
+  purchase_order_name_template: DEFAULT_PURCHASE_ORDER_NAME_TEMPLATE,
+  timezone: 'UTC'
+}
+
+export async function getTenantConfig(): Promise<TenantConfig> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('tenant_config')
+    .select('id, shiphero_vendor_id, shop_name, company_name, default_fulfillment_status, sales_order_name_template, purchase_order_name_template, timezone')
+    .order('created_at')
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load organization settings: ${error.message}`)
+  }
+  if (!data) return DEFAULT_TENANT_CONFIG
+
+  return {
+    id: data.id,
+    shiphero_vendor_id: data.shiphero_vendor_id || null,
+    shop_name: data.shop_name || DEFAULT_TENANT_CONFIG.shop_name,
+    company_name: data.company_name || DEFAULT_TENANT_CONFIG.company_name,
+    default_fulfillment_status: data.default_fulfillment_status || DEFAULT_TENANT_CONFIG.default_fulfillment_status,
+    sales_order_name_template: data.sales_order_name_template || DEFAULT_TENANT_CONFIG.sales_order_name_template,
+    purchase_order_name_template: data.purchase_order_name_template || DEFAULT_TENANT_CONFIG.purchase_order_name_template,
+    timezone: data.timezone || DEFAULT_TENANT_CONFIG.timezone
+  }
+}
+
+/**
+ * Update the organization row, creating it on first save
+ */
+export async function saveTenantConfig(values: TenantConfigInput): Promise<TenantConfig> {
+  const supabase = createClient()
+  const existing = await getTenantConfig()
+
+  const row = {
+    shiphero_vendor_id: values.shiphero_vendor_id?.trim() || null,
+    shop_name: values.shop_name.trim(),
+    company_name: values.company_name.trim(),
+    default_fulfillment_status: values.default_fulfillment_status.trim(),
+    sales_order_name_template: values.sales_order_name_template.trim(),
+    purchase_order_name_template: values.purchase_order_name_template.trim(),
+    timezone: values.timezone.trim()
+  }
+
+  const errors = [
+    ...validateOrderNameTemplate(row.sales_order_name_template).map(error => `Sales order template: ${error}`),
+    ...validateOrderNameTemplate(row.purchase_order_name_template).map(error => `Purchase order template: ${error}`)
+  ]
+  if (!isValidTimeZone(row.timezone)) {
+    errors.push(`Unknown time zone: ${row.timezone}`)
+  }
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '))
+  }
+
+  const { data, error } = existing.id
+    ? await supabase.from('tenant_config').update(row).eq('id', existing.id).select('id').single()
+    : await supabase.from('tenant_config').insert([row]).select('id').single()
+
+  if (error) {
+    throw new Error(`Failed to save organization settings: ${error.message}`)
+  }
+
+  return { id: data.id, ...row }
+}
+
+/**
+ * Vendor for ShipHero purchase orders. There is no sensible fallback, so fail with a pointer to Settings.
+ */
+export function requireShipHeroVendorId(config: TenantConfig): string {
+  if (!config.shiphero_vendor_id) {
+    throw new Error('ShipHero vendor ID is not configured. Pick a default vendor in Settings > Vendors.')
+  }
+  return config.shiphero_vendor_id
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) in the given time zone, the same form as tours.date
+ */
+export function calendarDateInTimeZone(timeZone: string, at: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(at)
+  const part = (type: string) => parts.find(p => p.type === type)?.value
+  return `${part('year')}-${part('month')}-${part('day')}`
+}
@@ -0,0 +1,459 @@
+import { buildSchema, Kind, visit } from 'graphql'
+import {
+  MockError,
+  requestId,
+  findOrder,
+  findPurchaseOrder,
+  findProduct,
+  findWarehouse,
+  createOrder,
+  cancelOrder,
+  updateOrder,
+  createPurchaseOrder,
+  cancelPurchaseOrder,
+  createVendor,
+  createProduct
+} from './state.mjs'
+
+/**
+ * The slice of ShipHero's public GraphQL schema this app uses, with the same result shapes
+ * ({ request_id, complexity, data | order | purchase_order | ... }). Input objects are declared
+ * as scalars: the resolvers check required fields themselves, so the app's variables are accepted
+ * as sent and a missing field comes back as a ShipHero-style error rather than a schema error.
+ */
+
+const typeDefs = `
+  scalar OrderCreateInput
+  scalar UpdateOrderInput
+  scalar UpdateOrderFulfillmentStatusInput
+  scalar CancelOrderInput
+  scalar PurchaseOrderCreateInput
+  scalar CancelPurchaseOrderInput
+  scalar CreateVendorInput
+  scalar CreateProductInput
+  scalar JSON
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type Address {
+    name: String
+    address1: String
+    address2: String
+    city: String
+    state: String
+    country: String
+    zip: String
+    phone: String
+  }
+
+  type Warehouse {
+    id: String
+    legacy_id: Int
+    identifier: String
+    account_id: String
+    address: Address
+    dynamic_slotting: Boolean
+    invoice_email: String
+    phone_number: String
+    profile: String
+  }
+
+  type Account {
+    id: String
+    warehouses: [Warehouse]
+  }
+
+  type AccountQueryResult {
+    request_id: String
+    complexity: Int
+    data: Account
+  }
+
+  type OrderLineItem {
+    sku: String
+    product_name: String
+    quantity: Int
+    price: String
+    warehouse_id: String
+  }
+
+  type OrderLineItemEdge {
+    node: OrderLineItem
+    cursor: String
+  }
+
+  type OrderLineItemConnection {
+    pageInfo: PageInfo
+    edges: [OrderLineItemEdge]
+  }
+
+  type Order {
+    id: String
+    legacy_id: Int
+    order_number: String
+    partner_order_id: String
+    shop_name: String
+    email: String
+    total_price: String
+    fulfillment_status: String
+    order_date: String
+    required_ship_date: String
+    tags: [String]
+    shipping_address: JSON
+    line_items(first: Int, after: String): OrderLineItemConnection
+  }
+
+  type OrderEdge {
+    node: Order
+    cursor: String
+  }
+
+  type OrderConnection {
+    pageInfo: PageInfo
+    edges: [OrderEdge]
+  }
+
+  type OrdersQueryResult {
+    request_id: String
+    complexity: Int
+    data(first: Int, after: String): OrderConnection
+  }
+
+  type OrderQueryResult {
+    request_id: String
+    complexity: Int
+    data: Order
+  }
+
+  type OrderMutationOutput {
+    request_id: String
+    complexity: Int
+    order: Order
+  }
+
+  type PurchaseOrderLineItem {
+    sku: String
+    product_name: String
+    quantity: Int
+    quantity_received: Int
+    price: String
+    vendor_id: String
+  }
+
+  type PurchaseOrderLineItemEdge {
+    node: PurchaseOrderLineItem
+    cursor: String
+  }
+
+  type PurchaseOrderLineItemConnection {
+    pageInfo: PageInfo
+    edges: [PurchaseOrderLineItemEdge]
+  }
+
+  type PurchaseOrder {
+    id: String
+    legacy_id: Int
+    po_number: String
+    warehouse_id: String
+    vendor_id: String
+    subtotal: String
+    total_price: String
+    status: String
+    fulfillment_status: String
+    po_date: String
+    line_items(first: Int, after: String): PurchaseOrderLineItemConnection
+  }
+
+  type PurchaseOrderEdge {
+    node: PurchaseOrder
+    cursor: String
+  }
+
+  type PurchaseOrderConnection {
+    pageInfo: PageInfo
+    edges: [PurchaseOrderEdge]
+  }
+
+  type PurchaseOrdersQueryResult {
+    request_id: String
+    complexity: Int
+    data(first: Int, after: String): PurchaseOrderConnection
+  }
+
+  type PurchaseOrderQueryResult {
+    request_id: String
+    complexity: Int
+    data: PurchaseOrder
+  }
+
+  type PurchaseOrderMutationOutput {
+    request_id: String
+    complexity: Int
+    purchase_order: PurchaseOrder
+  }
+
+  type Product {
+    id: String
+    legacy_id: Int
+    sku: String
+    name: String
+    barcode: String
+    price: String
+  }
+
+  type ProductQueryResult {
+    request_id: String
+    complexity: Int
+    data: Product
+  }
+
+  type ProductMutationOutput {
+    request_id: String
+    complexity: Int
+    product: Product
+  }
+
+  type WarehouseProduct {
+    id: String
+    sku: String
+    warehouse_id: String
+    on_hand: Int
+    allocated: Int
+    available: Int
+    product: Product
+  }
+
+  type WarehouseProductEdge {
+    node: WarehouseProduct
+    cursor: String
+  }
+
+  type WarehouseProductConnection {
+    pageInfo: PageInfo
+    edges: [WarehouseProductEdge]
+  }
+
+  type WarehouseProductsQueryResult {
+    request_id: String
+    complexity: Int
+    data(first: Int, after: String): WarehouseProductConnection
+  }
+
+  type Vendor {
+    id: String
+    legacy_id: Int
+    name: String
+    email: String
+    account_number: String
+  }
+
+  type VendorEdge {
+    node: Vendor
+    cursor: String
+  }
+
+  type VendorConnection {
+    pageInfo: PageInfo
+    edges: [VendorEdge]
+  }
+
+  type VendorsQueryResult {
+    request_id: String
+    complexity: Int
+    data(first: Int, after: String): VendorConnection
+  }
+
+  type VendorMutationOutput {
+    request_id: String
+    complexity: Int
+    vendor: Vendor
+  }
+
+  type Query {
+    account: AccountQueryResult
+    orders(order_number: String, partner_order_id: String, fulfillment_status: String): OrdersQueryResult
+    order(id: String!): OrderQueryResult
+    purchase_orders(po_number: String, warehouse_id: String): PurchaseOrdersQueryResult
+    purchase_order(id: String!): PurchaseOrderQueryResult
+    product(id: String, sku: String): ProductQueryResult
+    warehouse_products(warehouse_id: String, sku: String, active: Boolean): WarehouseProductsQueryResult
+    vendors: VendorsQueryResult
+  }
+
+  type Mutation {
+    order_create(data: OrderCreateInput!): OrderMutationOutput
+    order_update(data: UpdateOrderInput!): OrderMutationOutput
+    order_update_fulfillment_status(data: UpdateOrderFulfillmentStatusInput!): OrderMutationOutput
+    order_cancel(data: CancelOrderInput!): OrderMutationOutput
+    purchase_order_create(data: PurchaseOrderCreateInput!): PurchaseOrderMutationOutput
+    purchase_order_cancel(data: CancelPurchaseOrderInput!): PurchaseOrderMutationOutput
+    vendor_create(data: CreateVendorInput!): VendorMutationOutput
+    product_create(data: CreateProductInput!): ProductMutationOutput
+  }
+`
+
+export const schema = buildSchema(typeDefs)
+
+// Relay-style page over an in-memory list; cursors are base64 offsets
+function connection(list, { first = 100, after } = {}) {
+  const start = after ? Number(Buffer.from(after, 'base64').toString('utf8')) + 1 : 0
+  const page = list.slice(start, start + first)
+  const cursor = index => Buffer.from(String(start + index)).toString('base64')
+  return {
+    pageInfo: {
+      hasNextPage: start + page.length < list.length,
+      hasPreviousPage: start > 0,
+      startCursor: page.length > 0 ? cursor(0) : null,
+      endCursor: page.length > 0 ? cursor(page.length - 1) : null
+    },
+    edges: page.map((node, index) => ({ node, cursor: cursor(index) }))
+  }
+}
+
+function withLineItems(record) {
+  return record && { ...record, line_items: args => connection(record.line_items || [], args) }
+}
+
+function result(context, fields) {
+  return { request_id: requestId(), complexity: context.complexity, ...fields }
+}
+
+function warehouseProducts(state, warehouseId, sku) {
+  const warehouses = warehouseId ? [findWarehouse(state, warehouseId)].filter(Boolean) : state.warehouses
+  return warehouses.flatMap(warehouse =>
+    state.products
+      .filter(product => (!sku || product.sku === sku) && product.inventory[String(warehouse.legacy_id)])
+      .map(product => {
+        const { on_hand, allocated } = product.inventory[String(warehouse.legacy_id)]
+        return {
+          id: Buffer.from(`WarehouseProduct:${product.legacy_id}-${warehouse.legacy_id}`).toString('base64'),
+          sku: product.sku,
+          warehouse_id: warehouse.id,
+          on_hand,
+          allocated,
+          available: Math.max(0, on_hand - allocated),
+          product
+        }
+      })
+  )
+}
+
+const queryResolvers = {
+  account: (args, { state, ...context }) =>
+    result(context, { data: { id: Buffer.from('Account:1').toString('base64'), warehouses: state.warehouses } }),
+
+  orders: (args, { state, ...context }) => {
+    const orders = state.orders.filter(order =>
+      (!args.order_number || order.order_number === args.order_number) &&
+      (!args.partner_order_id || order.partner_order_id === args.partner_order_id) &&
+      (!args.fulfillment_status || order.fulfillment_status === args.fulfillment_status)
+    )
+    return result(context, { data: page => connection(orders.map(withLineItems), page) })
+  },
+
+  order: (args, { state, ...context }) => {
+    const order = findOrder(state, args.id)
+    if (!order) throw new MockError(`Order ${args.id} not found`)
+    return result(context, { data: withLineItems(order) })
+  },
+
+  purchase_orders: (args, { state, ...context }) => {
+    const purchaseOrders = state.purchase_orders.filter(po =>
+      (!args.po_number || po.po_number === args.po_number) &&
+      (!args.warehouse_id || findWarehouse(state, args.warehouse_id)?.id === po.warehouse_id)
+    )
+    return result(context, { data: page => connection(purchaseOrders.map(withLineItems), page) })
+  },
+
+  purchase_order: (args, { state, ...context }) => {
+    const purchaseOrder = findPurchaseOrder(state, args.id)
+    if (!purchaseOrder) throw new MockError(`Purchase order ${args.id} not found`)
+    return result(context, { data: withLineItems(purchaseOrder) })
+  },
+
+  product: (args, { state, ...context }) => {
+    const product = args.sku
+      ? findProduct(state, args.sku)
+      : state.products.find(product => product.id === args.id || String(product.legacy_id) === args.id)
+    if (!product) throw new MockError(`Product with sku ${args.sku || args.id} not found`)
+    return result(context, { data: product })
+  },
+
+  warehouse_products: (args, { state, ...context }) =>
+    result(context, { data: page => connection(warehouseProducts(state, args.warehouse_id, args.sku), page) }),
+
+  vendors: (args, { state, ...context }) =>
+    result(context, { data: page => connection(state.vendors, page) })
+}
+
+const mutationResolvers = {
+  order_create: ({ data }, { state, ...context }) =>
+    result(context, { order: withLineItems(createOrder(state, data)) }),
+
+  order_update: ({ data }, { state, ...context }) =>
+    result(context, { order: withLineItems(updateOrder(state, data)) }),
+
+  order_update_fulfillment_status: ({ data }, { state, ...context }) => {
+    if (!data?.fulfillment_status) {
+      throw new MockError('order_update_fulfillment_status: missing required field fulfillment_status')
+    }
+    return result(context, { order: withLineItems(updateOrder(state, data, 'order_update_fulfillment_status')) })
+  },
+
+  order_cancel: ({ data }, { state, ...context }) =>
+    result(context, { order: withLineItems(cancelOrder(state, data)) }),
+
+  purchase_order_create: ({ data }, { state, ...context }) =>
+    result(context, { purchase_order: withLineItems(createPurchaseOrder(state, data)) }),
+
+  purchase_order_cancel: ({ data }, { state, ...context }) =>
+    result(context, { purchase_order: withLineItems(cancelPurchaseOrder(state, data)) }),
+
+  vendor_create: ({ data }, { state, ...context }) =>
+    result(context, { vendor: createVendor(state, data) }),
+
+  product_create: ({ data }, { state, ...context }) =>
+    result(context, { product: createProduct(state, data) })
+}
+
+for (const [type, resolvers] of [[schema.getQueryType(), queryResolvers], [schema.getMutationType(), mutationResolvers]]) {
+  for (const [name, field] of Object.entries(type.getFields())) {
+    field.resolve = (source, args, context) => resolvers[name](args, context)
+  }
+}
+
+/**
+ * Root fields a document selects, e.g. ['order_create']; used to match injected faults
+ */
+export function rootFields(document, operationName) {
+  const operation = document.definitions.find(definition =>
+    definition.kind === Kind.OPERATION_DEFINITION && (!operationName || definition.name?.value === operationName)
+  )
+  return (operation?.selectionSet.selections || [])
+    .filter(selection => selection.kind === Kind.FIELD)
+    .map(selection => selection.name.value)
+}
+
+/**
+ * Rough credit cost of a document: one per root field plus the page size of every connection.
+ * ShipHero's real calculation differs, but it scales the same way with `first`.
+ */
+export function documentComplexity(document, variables = {}) {
+  let complexity = 0
+  visit(document, {
+    OperationDefinition(node) {
+      complexity += node.selectionSet.selections.length
+    },
+    Argument(node) {
+      if (node.name.value !== 'first') return
+      const value = node.value.kind === Kind.VARIABLE ? variables[node.value.name.value] : Number(node.value.value)
+      complexity += Number(value) || 0
+    }
+  })
+  return complexity
+}
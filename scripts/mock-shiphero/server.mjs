@@ -0,0 +1,239 @@
+#!/usr/bin/env node
+import { createServer } from 'node:http'
+import { randomBytes } from 'node:crypto'
+import { fileURLToPath } from 'node:url'
+import { dirname, join } from 'node:path'
+import { parse, validate, execute, GraphQLError } from 'graphql'
+import { schema, rootFields, documentComplexity } from './schema.mjs'
+import { MockError, createState, loadFixtures, applyAdminUpdate } from './state.mjs'
+
+/**
+ * Local stand-in for the ShipHero public API. Point the app at it with
+ * SHIPHERO_API_URL=http://localhost:4010 and run `npm run mock:shiphero`.
+ *
+ *   POST /graphql          the operations in lib/shiphero/operations.ts, against in-memory fixtures
+ *   POST /auth/refresh     { refresh_token } -> { access_token, expires_in }
+ *   GET  /__mock/state     current warehouses, products, orders, POs and credit balance
+ *   POST /__mock/reset     reload the fixtures and clear faults
+ *   POST /__mock/faults    inject a fault: { type, operation?, times?, message? }
+ *   GET|DELETE /__mock/faults
+ *   POST /__mock/update    change an order or PO as the warehouse would: { type, id, changes }
+ *
+ * Fault types: unauthorized (401), complexity (not enough credits), validation (GraphQL error),
+ * rate_limit (429) and server_error (500). `operation` is a root field such as order_create,
+ * or "refresh"; without it the fault hits the next request of any kind.
+ */
+
+const PORT = Number(process.env.MOCK_SHIPHERO_PORT) || 4010
+const FIXTURES = process.env.MOCK_SHIPHERO_FIXTURES || join(dirname(fileURLToPath(import.meta.url)), 'fixtures.json')
+const MAX_CREDITS = Number(process.env.MOCK_SHIPHERO_CREDITS) || 2002
+const CREDITS_PER_SECOND = 60
+const LATENCY_MS = Number(process.env.MOCK_SHIPHERO_LATENCY_MS) || 0
+// Only accept access tokens this server issued, so an expired/unknown token gets a 401
+const STRICT_AUTH = Boolean(process.env.MOCK_SHIPHERO_STRICT_AUTH)
+const TOKEN_TTL_SECONDS = 28 * 24 * 60 * 60
+
+let state = createState(loadFixtures(FIXTURES))
+let faults = []
+const issuedTokens = new Set()
+const credits = { balance: MAX_CREDITS, updatedAt: Date.now() }
+
+function availableCredits() {
+  const now = Date.now()
+  credits.balance = Math.min(MAX_CREDITS, credits.balance + ((now - credits.updatedAt) / 1000) * CREDITS_PER_SECOND)
+  credits.updatedAt = now
+  return Math.floor(credits.balance)
+}
+
+function notEnoughCredits(required) {
+  const remaining = availableCredits()
+  const seconds = Math.max(1, Math.ceil((required - remaining) / CREDITS_PER_SECOND))
+  return {
+    message: `There are not enough credits to perform the requested operation, which requires ${required} credits. The current credit balance is ${remaining}. The credit balance is restored at a rate of ${CREDITS_PER_SECOND} credits per second. The required credits will be available in ${seconds} seconds`,
+    code: 30,
+    required_credits: required,
+    remaining_credits: remaining,
+    time_remaining: `${seconds} seconds`
+  }
+}
+
+// Consume the first fault that matches this request, if any
+function takeFault(operations) {
+  const index = faults.findIndex(fault => !fault.operation || operations.includes(fault.operation))
+  if (index === -1) return null
+  const fault = faults[index]
+  fault.times -= 1
+  if (fault.times <= 0) faults.splice(index, 1)
+  return fault
+}
+
+function faultResponse(fault, complexity) {
+  switch (fault.type) {
+    case 'unauthorized':
+      return [401, { errors: [{ message: fault.message || 'The access token is invalid or has expired', code: 401 }] }]
+    case 'complexity':
+      return [200, { errors: [notEnoughCredits(Math.max(complexity, MAX_CREDITS + 1))], data: null }]
+    case 'validation':
+      return [200, { errors: [{ message: fault.message || 'Invalid input: a required field is missing' }], data: null }]
+    case 'rate_limit':
+      return [429, { errors: [{ message: fault.message || 'Too many requests' }] }]
+    default:
+      return [500, { errors: [{ message: fault.message || 'Internal server error' }] }]
+  }
+}
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    request.on('data', chunk => { body += chunk })
+    request.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {})
+      } catch (error) {
+        reject(new MockError('Request body is not valid JSON'))
+      }
+    })
+    request.on('error', reject)
+  })
+}
+
+function send(response, status, body) {
+  response.writeHead(status, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify(body))
+}
+
+function bearerToken(request) {
+  const match = /^Bearer\s+(.+)$/i.exec(request.headers.authorization || '')
+  return match ? match[1].trim() : null
+}
+
+async function handleGraphQL(request, response) {
+  const token = bearerToken(request)
+  if (!token || (STRICT_AUTH && !issuedTokens.has(token))) {
+    return send(response, 401, { errors: [{ message: 'The access token is invalid or has expired', code: 401 }] })
+  }
+
+  const { query, variables, operationName } = await readBody(request)
+  let document
+  try {
+    document = parse(query || '')
+  } catch (error) {
+    return send(response, 200, { errors: [{ message: error.message }] })
+  }
+
+  const validationErrors = validate(schema, document)
+  if (validationErrors.length > 0) {
+    return send(response, 200, { errors: validationErrors.map(error => ({ message: error.message, locations: error.locations })) })
+  }
+
+  const operations = rootFields(document, operationName)
+  const complexity = documentComplexity(document, variables || {})
+
+  const fault = takeFault(operations)
+  if (fault) {
+    console.log(`[mock-shiphero] ${operations.join(', ')} -> injected ${fault.type}`)
+    const [status, body] = faultResponse(fault, complexity)
+    return send(response, status, body)
+  }
+
+  if (availableCredits() < complexity) {
+    console.log(`[mock-shiphero] ${operations.join(', ')} -> not enough credits (${complexity} required)`)
+    return send(response, 200, { errors: [notEnoughCredits(complexity)], data: null })
+  }
+  credits.balance -= complexity
+
+  const result = await execute({
+    schema,
+    document,
+    variableValues: variables || {},
+    operationName,
+    contextValue: { state, complexity }
+  })
+
+  const errors = (result.errors || []).map(error => ({
+    message: error.message,
+    path: error.path,
+    ...(error.originalError instanceof MockError ? error.originalError.extra : {})
+  }))
+  console.log(`[mock-shiphero] ${operations.join(', ')} -> ${errors.length > 0 ? `error: ${errors[0].message}` : 'ok'} (complexity ${complexity})`)
+  send(response, 200, { data: result.data ?? null, ...(errors.length > 0 && { errors }) })
+}
+
+async function handleRefresh(request, response) {
+  const { refresh_token } = await readBody(request)
+
+  const fault = takeFault(['refresh'])
+  if (fault) {
+    console.log(`[mock-shiphero] refresh -> injected ${fault.type}`)
+    const [status] = faultResponse(fault, 0)
+    return send(response, status, { error: 'invalid_grant', error_description: fault.message || 'Refresh failed' })
+  }
+
+  if (!refresh_token) {
+    return send(response, 400, { error: 'invalid_request', error_description: 'refresh_token is required' })
+  }
+
+  const accessToken = `mock-${randomBytes(24).toString('hex')}`
+  issuedTokens.add(accessToken)
+  console.log('[mock-shiphero] refresh -> issued a new access token')
+  send(response, 200, { access_token: accessToken, expires_in: TOKEN_TTL_SECONDS, token_type: 'Bearer', scope: 'openid profile offline_access' })
+}
+
+async function handleAdmin(request, response, path) {
+  if (path === '/__mock/state' && request.method === 'GET') {
+    return send(response, 200, { ...state, credits: availableCredits(), faults })
+  }
+
+  if (path === '/__mock/reset' && request.method === 'POST') {
+    state = createState(loadFixtures(FIXTURES))
+    faults = []
+    issuedTokens.clear()
+    credits.balance = MAX_CREDITS
+    credits.updatedAt = Date.now()
+    return send(response, 200, { reset: true })
+  }
+
+  if (path === '/__mock/faults') {
+    if (request.method === 'GET') return send(response, 200, faults)
+    if (request.method === 'DELETE') {
+      faults = []
+      return send(response, 200, faults)
+    }
+    if (request.method === 'POST') {
+      const { type, operation, times, message } = await readBody(request)
+      if (!['unauthorized', 'complexity', 'validation', 'rate_limit', 'server_error'].includes(type)) {
+        return send(response, 400, { error: `Unknown fault type: ${type}` })
+      }
+      faults.push({ type, operation: operation || null, times: Number(times) || 1, message: message || null })
+      return send(response, 200, faults)
+    }
+  }
+
+  if (path === '/__mock/update' && request.method === 'POST') {
+    return send(response, 200, applyAdminUpdate(state, await readBody(request)))
+  }
+
+  send(response, 404, { error: `Not found: ${request.method} ${path}` })
+}
+
+const server = createServer(async (request, response) => {
+  const path = new URL(request.url, `http://localhost:${PORT}`).pathname
+
+  try {
+    if (LATENCY_MS > 0) await new Promise(resolve => setTimeout(resolve, LATENCY_MS))
+
+    if (path === '/graphql' && request.method === 'POST') return await handleGraphQL(request, response)
+    if (path === '/auth/refresh' && request.method === 'POST') return await handleRefresh(request, response)
+    if (path.startsWith('/__mock/')) return await handleAdmin(request, response, path)
+
+    send(response, 404, { error: `Not found: ${request.method} ${path}` })
+  } catch (error) {
+    const status = error instanceof MockError ? 400 : 500
+    if (status === 500) console.error('[mock-shiphero] error:', error)
+    send(response, status, { errors: [{ message: error instanceof GraphQLError || error instanceof MockError ? error.message : 'Internal server error' }] })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock ShipHero API listening on http://localhost:${PORT} (fixtures: ${FIXTURES})`)
+})
@@ -0,0 +1,266 @@
+import { readFileSync } from 'node:fs'
+import { randomBytes } from 'node:crypto'
+
+/**
+ * In-memory ShipHero account for the mock server: warehouses, products with per-warehouse
+ * stock, vendors, orders and purchase orders. Seeded from a fixtures file and changed by the
+ * mutations, so a finalization run sees the orders it created. Reset with POST /__mock/reset.
+ */
+
+export class MockError extends Error {
+  constructor(message, extra = {}) {
+    super(message)
+    this.extra = extra
+  }
+}
+
+// ShipHero ids are base64 "Type:legacy_id"
+export function toGlobalId(type, legacyId) {
+  return Buffer.from(`${type}:${legacyId}`).toString('base64')
+}
+
+export function requestId() {
+  return randomBytes(12).toString('hex')
+}
+
+export function loadFixtures(path) {
+  return JSON.parse(readFileSync(path, 'utf8'))
+}
+
+export function createState(fixtures) {
+  const copy = structuredClone(fixtures)
+  const state = {
+    warehouses: (copy.warehouses || []).map(warehouse => ({ ...warehouse, id: toGlobalId('Warehouse', warehouse.legacy_id) })),
+    products: (copy.products || []).map(product => ({ inventory: {}, ...product, id: toGlobalId('Product', product.legacy_id) })),
+    vendors: (copy.vendors || []).map(vendor => ({ ...vendor, id: toGlobalId('Vendor', vendor.legacy_id) })),
+    orders: (copy.orders || []).map(order => ({ ...order, id: toGlobalId('Order', order.legacy_id) })),
+    purchase_orders: (copy.purchase_orders || []).map(po => ({ ...po, id: toGlobalId('PurchaseOrder', po.legacy_id) })),
+    nextLegacyId: 500000
+  }
+  return state
+}
+
+function nextId(state) {
+  state.nextLegacyId += 1
+  return state.nextLegacyId
+}
+
+// Accepts a global id, a legacy id or its string form
+function findById(list, id) {
+  const value = String(id ?? '')
+  return list.find(item => item.id === value || String(item.legacy_id) === value) || null
+}
+
+export function findWarehouse(state, id) {
+  return findById(state.warehouses, id)
+}
+
+export function findOrder(state, id) {
+  return findById(state.orders, id)
+}
+
+export function findPurchaseOrder(state, id) {
+  return findById(state.purchase_orders, id)
+}
+
+export function findVendor(state, id) {
+  return findById(state.vendors, id)
+}
+
+export function findProduct(state, sku) {
+  return state.products.find(product => product.sku === sku) || null
+}
+
+function required(data, fields, operation) {
+  const missing = fields.filter(field => data?.[field] === undefined || data?.[field] === null || data?.[field] === '')
+  if (missing.length > 0) {
+    throw new MockError(`${operation}: missing required field${missing.length > 1 ? 's' : ''} ${missing.join(', ')}`)
+  }
+}
+
+function requireWarehouse(state, id) {
+  const warehouse = findWarehouse(state, id)
+  if (!warehouse) throw new MockError(`Warehouse ${id} not found`)
+  return warehouse
+}
+
+function requireProduct(state, sku) {
+  const product = findProduct(state, sku)
+  if (!product) throw new MockError(`Product with sku ${sku} not found`)
+  return product
+}
+
+function stock(product, warehouse) {
+  const key = String(warehouse.legacy_id)
+  product.inventory[key] = product.inventory[key] || { on_hand: 0, allocated: 0 }
+  return product.inventory[key]
+}
+
+export function createOrder(state, data) {
+  required(data, ['order_number', 'shop_name', 'line_items'], 'order_create')
+  if (!Array.isArray(data.line_items) || data.line_items.length === 0) {
+    throw new MockError('order_create: at least one line item is required')
+  }
+
+  const lineItems = data.line_items.map((item, index) => {
+    required(item, ['sku', 'quantity'], `order_create line item ${index + 1}`)
+    const product = requireProduct(state, item.sku)
+    const warehouse = item.warehouse_id ? requireWarehouse(state, item.warehouse_id) : state.warehouses[0]
+    return { ...item, product_name: item.product_name || product.name, warehouse_legacy_id: warehouse.legacy_id }
+  })
+
+  // New orders allocate stock, like ShipHero does for pending orders
+  for (const item of lineItems) {
+    const product = findProduct(state, item.sku)
+    stock(product, findWarehouse(state, item.warehouse_legacy_id)).allocated += Number(item.quantity)
+  }
+
+  const legacyId = nextId(state)
+  const order = {
+    ...data,
+    id: toGlobalId('Order', legacyId),
+    legacy_id: legacyId,
+    fulfillment_status: data.fulfillment_status || 'pending',
+    tags: data.tags || [],
+    line_items: lineItems,
+    created_at: new Date().toISOString()
+  }
+  state.orders.push(order)
+  return order
+}
+
+function releaseAllocation(state, order) {
+  for (const item of order.line_items || []) {
+    const product = findProduct(state, item.sku)
+    const warehouse = findWarehouse(state, item.warehouse_legacy_id)
+    if (!product || !warehouse) continue
+    const level = stock(product, warehouse)
+    level.allocated = Math.max(0, level.allocated - Number(item.quantity))
+  }
+}
+
+export function cancelOrder(state, data) {
+  required(data, ['order_id'], 'order_cancel')
+  const order = findOrder(state, data.order_id)
+  if (!order) throw new MockError(`Order ${data.order_id} not found`)
+  if (order.fulfillment_status !== 'canceled') {
+    releaseAllocation(state, order)
+    order.fulfillment_status = 'canceled'
+    order.cancel_reason = data.reason || null
+  }
+  return order
+}
+
+const UPDATABLE_ORDER_FIELDS = ['fulfillment_status', 'tags', 'email', 'required_ship_date', 'shipping_address', 'billing_address']
+
+export function updateOrder(state, data, operation = 'order_update') {
+  required(data, ['order_id'], operation)
+  const order = findOrder(state, data.order_id)
+  if (!order) throw new MockError(`Order ${data.order_id} not found`)
+  if (order.fulfillment_status === 'canceled') {
+    throw new MockError(`Order ${order.order_number} is canceled and cannot be updated`)
+  }
+  for (const field of UPDATABLE_ORDER_FIELDS) {
+    if (data[field] !== undefined) order[field] = data[field]
+  }
+  if (data.fulfillment_status === 'canceled') releaseAllocation(state, order)
+  return order
+}
+
+export function createPurchaseOrder(state, data) {
+  required(data, ['po_number', 'warehouse_id', 'vendor_id', 'line_items'], 'purchase_order_create')
+  const warehouse = requireWarehouse(state, data.warehouse_id)
+  if (!findVendor(state, data.vendor_id)) {
+    throw new MockError(`Vendor ${data.vendor_id} not found`)
+  }
+  if (!Array.isArray(data.line_items) || data.line_items.length === 0) {
+    throw new MockError('purchase_order_create: at least one line item is required')
+  }
+
+  const lineItems = data.line_items.map((item, index) => {
+    required(item, ['sku', 'quantity'], `purchase_order_create line item ${index + 1}`)
+    const product = requireProduct(state, item.sku)
+    if (item.vendor_id && !findVendor(state, item.vendor_id)) {
+      throw new MockError(`Vendor ${item.vendor_id} not found`)
+    }
+    return { ...item, product_name: item.product_name || product.name, quantity_received: 0 }
+  })
+
+  const legacyId = nextId(state)
+  const purchaseOrder = {
+    ...data,
+    id: toGlobalId('PurchaseOrder', legacyId),
+    legacy_id: legacyId,
+    warehouse_id: warehouse.id,
+    status: 'pending',
+    fulfillment_status: data.fulfillment_status || 'pending',
+    line_items: lineItems,
+    created_at: new Date().toISOString()
+  }
+  state.purchase_orders.push(purchaseOrder)
+  return purchaseOrder
+}
+
+export function cancelPurchaseOrder(state, data) {
+  required(data, ['po_id'], 'purchase_order_cancel')
+  const purchaseOrder = findPurchaseOrder(state, data.po_id)
+  if (!purchaseOrder) throw new MockError(`Purchase order ${data.po_id} not found`)
+  if (purchaseOrder.fulfillment_status === 'closed') {
+    throw new MockError(`Purchase order ${purchaseOrder.po_number} is closed and cannot be canceled`)
+  }
+  purchaseOrder.status = 'canceled'
+  purchaseOrder.fulfillment_status = 'canceled'
+  return purchaseOrder
+}
+
+export function createVendor(state, data) {
+  required(data, ['name', 'email'], 'vendor_create')
+  const legacyId = nextId(state)
+  const vendor = {
+    id: toGlobalId('Vendor', legacyId),
+    legacy_id: legacyId,
+    name: data.name,
+    email: data.email,
+    account_number: data.account_number || null
+  }
+  state.vendors.push(vendor)
+  return vendor
+}
+
+export function createProduct(state, data) {
+  required(data, ['name', 'sku', 'warehouse_products'], 'product_create')
+  if (findProduct(state, data.sku)) {
+    throw new MockError(`A product with sku ${data.sku} already exists`)
+  }
+
+  const inventory = {}
+  for (const warehouseProduct of data.warehouse_products) {
+    required(warehouseProduct, ['warehouse_id', 'on_hand'], 'product_create warehouse product')
+    const warehouse = requireWarehouse(state, warehouseProduct.warehouse_id)
+    inventory[String(warehouse.legacy_id)] = { on_hand: Number(warehouseProduct.on_hand) || 0, allocated: 0 }
+  }
+
+  const legacyId = nextId(state)
+  const product = {
+    id: toGlobalId('Product', legacyId),
+    legacy_id: legacyId,
+    sku: data.sku,
+    name: data.name,
+    barcode: data.barcode || null,
+    price: data.price || '0.00',
+    dimensions: data.dimensions || null,
+    inventory
+  }
+  state.products.push(product)
+  return product
+}
+
+/**
+ * Change an order or PO outside the API, to simulate warehouse activity (POST /__mock/update)
+ */
+export function applyAdminUpdate(state, { type, id, changes }) {
+  const record = type === 'purchase_order' ? findPurchaseOrder(state, id) : type === 'order' ? findOrder(state, id) : null
+  if (!record) throw new MockError(`${type || 'record'} ${id} not found`)
+  Object.assign(record, changes || {})
+  return record
+}
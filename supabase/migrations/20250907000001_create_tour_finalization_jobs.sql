@@ -0,0 +1,58 @@
+-- Persisted, resumable tour finalization jobs
+-- A job holds one step per ShipHero order (each participant, the host, and the PO).
+-- Retrying a failed job resumes from the first step that has not completed.
+
+CREATE TABLE IF NOT EXISTS public.tour_finalization_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tour_id UUID NOT NULL REFERENCES public.tours(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending',
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.tour_finalization_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.tour_finalization_jobs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  step_type TEXT NOT NULL,
+  participant_id UUID REFERENCES public.tour_participants(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  result JSONB,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (job_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tour_finalization_jobs_tour_id ON public.tour_finalization_jobs(tour_id);
+CREATE INDEX IF NOT EXISTS idx_tour_finalization_steps_job_id ON public.tour_finalization_steps(job_id);
+
+-- Reuse the updated_at trigger function from the shiphero_tokens migration
+DROP TRIGGER IF EXISTS update_tour_finalization_jobs_updated_at ON public.tour_finalization_jobs;
+CREATE TRIGGER update_tour_finalization_jobs_updated_at
+    BEFORE UPDATE ON public.tour_finalization_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_tour_finalization_steps_updated_at ON public.tour_finalization_steps;
+CREATE TRIGGER update_tour_finalization_steps_updated_at
+    BEFORE UPDATE ON public.tour_finalization_steps
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Disable RLS for development (matches the other tables)
+ALTER TABLE public.tour_finalization_jobs DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tour_finalization_steps DISABLE ROW LEVEL SECURITY;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.tour_finalization_jobs IS 'Server-side tour finalization runs; one active job per tour, resumed on retry';
+COMMENT ON COLUMN public.tour_finalization_jobs.status IS 'Job status: pending, running, completed, failed';
+COMMENT ON TABLE public.tour_finalization_steps IS 'Individual ShipHero order steps of a finalization job';
+COMMENT ON COLUMN public.tour_finalization_steps.step_type IS 'Step type: participant_order, host_order, purchase_order';
+COMMENT ON COLUMN public.tour_finalization_steps.status IS 'Step status: pending, running, completed, failed';
+COMMENT ON COLUMN public.tour_finalization_steps.result IS 'ShipHero identifiers returned by the step (id, legacy_id, number, url)';
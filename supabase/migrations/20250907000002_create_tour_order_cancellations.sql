@@ -0,0 +1,25 @@
+-- Outcome of cancelling each ShipHero order linked to a cancelled tour
+-- One row per attempt; a failed cancellation can be retried by cancelling the tour again.
+
+CREATE TABLE IF NOT EXISTS public.tour_order_cancellations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tour_id UUID NOT NULL REFERENCES public.tours(id) ON DELETE CASCADE,
+  order_type TEXT NOT NULL,
+  participant_id UUID REFERENCES public.tour_participants(id) ON DELETE SET NULL,
+  shiphero_order_id TEXT NOT NULL,
+  order_number TEXT,
+  label TEXT NOT NULL,
+  status TEXT NOT NULL,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tour_order_cancellations_tour_id ON public.tour_order_cancellations(tour_id);
+
+-- Disable RLS for development (matches the other tables)
+ALTER TABLE public.tour_order_cancellations DISABLE ROW LEVEL SECURITY;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.tour_order_cancellations IS 'Per-order results of cancelling a tour''s ShipHero sales orders and purchase order';
+COMMENT ON COLUMN public.tour_order_cancellations.order_type IS 'Order type: participant_order, host_order, purchase_order';
+COMMENT ON COLUMN public.tour_order_cancellations.status IS 'Cancellation outcome: cancelled, failed';
@@ -0,0 +1,12 @@
+-- Optional compensating rollback for finalization jobs
+-- When enabled and a job fails, the orders it created in that run are cancelled in ShipHero
+-- and their tracking columns cleared; what was undone is stored in rollback_report.
+
+ALTER TABLE public.tour_finalization_jobs
+ADD COLUMN IF NOT EXISTS rollback_on_failure BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS rollback_report JSONB;
+
+COMMENT ON COLUMN public.tour_finalization_jobs.status IS 'Job status: pending, running, completed, failed, rolled_back';
+COMMENT ON COLUMN public.tour_finalization_jobs.rollback_on_failure IS 'Whether the last run cancels the orders it created if it fails';
+COMMENT ON COLUMN public.tour_finalization_jobs.rollback_report IS 'Orders cancelled (or that failed to cancel) by the last rollback';
+COMMENT ON COLUMN public.tour_finalization_steps.status IS 'Step status: pending, running, completed, failed, rolled_back';
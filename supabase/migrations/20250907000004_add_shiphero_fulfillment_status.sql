@@ -0,0 +1,44 @@
+-- Fulfillment status of tour orders, kept up to date by ShipHero webhooks
+-- (Shipment Update, Order Canceled, PO Update) received at /api/shiphero/webhooks
+
+ALTER TABLE public.tour_participants
+ADD COLUMN IF NOT EXISTS shiphero_fulfillment_status TEXT,
+ADD COLUMN IF NOT EXISTS shiphero_tracking_number TEXT,
+ADD COLUMN IF NOT EXISTS shiphero_shipped_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS shiphero_canceled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS shiphero_status_updated_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.tours
+ADD COLUMN IF NOT EXISTS host_shiphero_fulfillment_status TEXT,
+ADD COLUMN IF NOT EXISTS host_shiphero_tracking_number TEXT,
+ADD COLUMN IF NOT EXISTS host_shiphero_shipped_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS host_shiphero_canceled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS host_shiphero_status_updated_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS shiphero_purchase_order_status TEXT,
+ADD COLUMN IF NOT EXISTS shiphero_purchase_order_status_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Let the tour details sheet subscribe to status changes
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'tour_participants'
+    ) THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE public.tour_participants;
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'tours'
+    ) THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE public.tours;
+    END IF;
+  END IF;
+END $$;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.tour_participants.shiphero_fulfillment_status IS 'Latest fulfillment status of the participant''s ShipHero sales order (from webhooks)';
+COMMENT ON COLUMN public.tour_participants.shiphero_status_updated_at IS 'When the last ShipHero webhook for this order was received';
+COMMENT ON COLUMN public.tours.host_shiphero_fulfillment_status IS 'Latest fulfillment status of the host''s ShipHero sales order (from webhooks)';
+COMMENT ON COLUMN public.tours.shiphero_purchase_order_status IS 'Latest status of the tour''s ShipHero purchase order (from PO Update webhooks)';
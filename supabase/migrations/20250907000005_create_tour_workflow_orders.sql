@@ -0,0 +1,55 @@
+-- ShipHero orders generated from a tour's selected workflows (tours.selected_workflows / workflow_configs)
+-- A workflow can need several orders per recipient, so these are tracked here instead of
+-- on tour_participants / tours. One row per (tour, workflow, order type, sequence).
+
+CREATE TABLE IF NOT EXISTS public.tour_workflow_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tour_id UUID NOT NULL REFERENCES public.tours(id) ON DELETE CASCADE,
+  workflow TEXT NOT NULL,
+  order_type TEXT NOT NULL,
+  sequence INTEGER NOT NULL,
+  recipient_type TEXT,
+  participant_id UUID REFERENCES public.tour_participants(id) ON DELETE SET NULL,
+  recipient_name TEXT,
+  email TEXT,
+  shiphero_order_id TEXT NOT NULL,
+  shiphero_legacy_id BIGINT,
+  order_number TEXT NOT NULL,
+  order_url TEXT,
+  line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  fulfillment_status TEXT,
+  tracking_number TEXT,
+  shipped_at TIMESTAMP WITH TIME ZONE,
+  canceled_at TIMESTAMP WITH TIME ZONE,
+  status_updated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (tour_id, workflow, order_type, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tour_workflow_orders_tour_id ON public.tour_workflow_orders(tour_id);
+CREATE INDEX IF NOT EXISTS idx_tour_workflow_orders_shiphero_order_id ON public.tour_workflow_orders(shiphero_order_id);
+CREATE INDEX IF NOT EXISTS idx_tour_workflow_orders_order_number ON public.tour_workflow_orders(order_number);
+
+DROP TRIGGER IF EXISTS update_tour_workflow_orders_updated_at ON public.tour_workflow_orders;
+CREATE TRIGGER update_tour_workflow_orders_updated_at
+    BEFORE UPDATE ON public.tour_workflow_orders
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Finalization steps for workflow orders identify the order by workflow + sequence
+ALTER TABLE public.tour_finalization_steps
+ADD COLUMN IF NOT EXISTS workflow TEXT,
+ADD COLUMN IF NOT EXISTS sequence INTEGER;
+
+-- Disable RLS for development (matches the other tables)
+ALTER TABLE public.tour_workflow_orders DISABLE ROW LEVEL SECURITY;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.tour_workflow_orders IS 'ShipHero sales orders and purchase orders created for a tour''s selected workflows';
+COMMENT ON COLUMN public.tour_workflow_orders.order_type IS 'Order type: sales_order, purchase_order';
+COMMENT ON COLUMN public.tour_workflow_orders.sequence IS '1-based position of the order within its workflow (always 1 for purchase orders)';
+COMMENT ON COLUMN public.tour_workflow_orders.recipient_type IS 'Sales order recipient: participant, host';
+COMMENT ON COLUMN public.tour_workflow_orders.line_items IS 'Line items sent to ShipHero: [{sku, name, quantity}]';
+COMMENT ON COLUMN public.tour_finalization_steps.workflow IS 'Workflow of a workflow_order / workflow_purchase_order step';
+COMMENT ON COLUMN public.tour_finalization_steps.sequence IS 'Order sequence within the workflow for workflow_order steps';
+COMMENT ON COLUMN public.tour_finalization_steps.step_type IS 'Step type: participant_order, host_order, purchase_order, workflow_order, workflow_purchase_order';
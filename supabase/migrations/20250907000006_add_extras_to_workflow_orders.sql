@@ -0,0 +1,18 @@
+-- Workflow orders beyond the tour's participants + host go to demo customers from public.extras
+-- Those orders are tagged "demo" in ShipHero and recorded with recipient_type = 'extra'.
+
+ALTER TABLE public.tour_workflow_orders
+ADD COLUMN IF NOT EXISTS extra_id UUID REFERENCES public.extras(id) ON DELETE SET NULL;
+
+-- The extras roster is managed from Settings
+DROP TRIGGER IF EXISTS update_extras_updated_at ON public.extras;
+CREATE TRIGGER update_extras_updated_at
+    BEFORE UPDATE ON public.extras
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Disable RLS for development (matches the other tables)
+ALTER TABLE public.extras DISABLE ROW LEVEL SECURITY;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.tour_workflow_orders.recipient_type IS 'Sales order recipient: participant, host, extra (demo customer)';
+COMMENT ON COLUMN public.tour_workflow_orders.extra_id IS 'Demo customer the order was created for, when recipient_type = extra';
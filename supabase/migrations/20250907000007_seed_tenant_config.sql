@@ -0,0 +1,17 @@
+-- tenant_config is now read by order creation and edited from Settings > Organization.
+-- Seed the single organization row with the values that used to be hardcoded so
+-- existing installs keep creating orders the same way.
+
+INSERT INTO public.tenant_config (shiphero_vendor_id, shop_name, company_name, default_fulfillment_status)
+SELECT '1076735', 'Warehouse Tours', 'Tour Company', 'pending'
+WHERE NOT EXISTS (SELECT 1 FROM public.tenant_config);
+
+DROP TRIGGER IF EXISTS update_tenant_config_updated_at ON public.tenant_config;
+CREATE TRIGGER update_tenant_config_updated_at
+    BEFORE UPDATE ON public.tenant_config
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Disable RLS for development (matches the other tables)
+ALTER TABLE public.tenant_config DISABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.tenant_config IS 'Organization settings (single row, oldest row wins), edited in Settings > Organization';
@@ -0,0 +1,60 @@
+-- Order / PO naming templates (edited in Settings > Organization) and the per-tour
+-- sequence that replaces the random 4-digit suffix in generated names.
+
+ALTER TABLE public.tenant_config
+ADD COLUMN IF NOT EXISTS sales_order_name_template TEXT DEFAULT '{first1}{last3}_{date:M/D/YY}_{code}_{tourRef}-{seq}',
+ADD COLUMN IF NOT EXISTS purchase_order_name_template TEXT DEFAULT '{code}_{date:M/D/YY}_{last}_{tourRef}-{seq}';
+
+-- One row per ShipHero order or PO a tour has named. The order key identifies the order
+-- (e.g. "so:<tour>:<participant>"), so a retry gets the same number and therefore the same name.
+CREATE TABLE IF NOT EXISTS public.tour_order_sequences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tour_id UUID NOT NULL REFERENCES public.tours(id) ON DELETE CASCADE,
+  order_key TEXT NOT NULL,
+  sequence INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (tour_id, order_key),
+  UNIQUE (tour_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tour_order_sequences_tour_id ON public.tour_order_sequences(tour_id);
+
+-- Return the order's sequence, allocating the tour's next number the first time.
+-- Locking the tour row serializes concurrent allocations for the same tour.
+CREATE OR REPLACE FUNCTION public.allocate_tour_order_sequence(p_tour_id UUID, p_order_key TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    v_sequence INTEGER;
+BEGIN
+    PERFORM 1 FROM public.tours WHERE id = p_tour_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Tour % not found', p_tour_id;
+    END IF;
+
+    SELECT sequence INTO v_sequence
+    FROM public.tour_order_sequences
+    WHERE tour_id = p_tour_id AND order_key = p_order_key;
+
+    IF v_sequence IS NOT NULL THEN
+        RETURN v_sequence;
+    END IF;
+
+    SELECT COALESCE(MAX(sequence), 0) + 1 INTO v_sequence
+    FROM public.tour_order_sequences
+    WHERE tour_id = p_tour_id;
+
+    INSERT INTO public.tour_order_sequences (tour_id, order_key, sequence)
+    VALUES (p_tour_id, p_order_key, v_sequence);
+
+    RETURN v_sequence;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Disable RLS for development (matches the other tables)
+ALTER TABLE public.tour_order_sequences DISABLE ROW LEVEL SECURITY;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.tenant_config.sales_order_name_template IS 'Sales order number template, see lib/shiphero/naming-utils.ts for tokens';
+COMMENT ON COLUMN public.tenant_config.purchase_order_name_template IS 'Purchase order number template, see lib/shiphero/naming-utils.ts for tokens';
+COMMENT ON TABLE public.tour_order_sequences IS 'Per-tour order numbers used as {seq} in ShipHero order names';
+COMMENT ON FUNCTION public.allocate_tour_order_sequence(UUID, TEXT) IS 'Get or allocate the {seq} number for one of a tour''s orders';
@@ -0,0 +1,39 @@
+-- Assign every tour a unique 6-digit reference (tours.tour_numeric_id), shown as "Tour #123456"
+-- and tagged on the tour's ShipHero orders. A sequence makes assignment atomic: concurrent
+-- inserts can never draw the same number.
+
+CREATE SEQUENCE IF NOT EXISTS public.tours_tour_numeric_id_seq
+    MINVALUE 100000
+    MAXVALUE 999999
+    START WITH 100000
+    NO CYCLE;
+
+-- Skip numbers already in use (e.g. assigned by hand before this migration)
+SELECT setval(
+    'public.tours_tour_numeric_id_seq',
+    GREATEST((SELECT MAX(tour_numeric_id) FROM public.tours WHERE tour_numeric_id BETWEEN 100000 AND 999999), 100000),
+    EXISTS (SELECT 1 FROM public.tours WHERE tour_numeric_id BETWEEN 100000 AND 999999)
+);
+
+ALTER SEQUENCE public.tours_tour_numeric_id_seq OWNED BY public.tours.tour_numeric_id;
+
+ALTER TABLE public.tours
+ALTER COLUMN tour_numeric_id SET DEFAULT nextval('public.tours_tour_numeric_id_seq');
+
+-- Backfill existing tours
+UPDATE public.tours
+SET tour_numeric_id = nextval('public.tours_tour_numeric_id_seq')
+WHERE tour_numeric_id IS NULL;
+
+ALTER TABLE public.tours
+ALTER COLUMN tour_numeric_id SET NOT NULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'tours_tour_numeric_id_six_digits') THEN
+        ALTER TABLE public.tours
+        ADD CONSTRAINT tours_tour_numeric_id_six_digits CHECK (tour_numeric_id BETWEEN 100000 AND 999999);
+    END IF;
+END $$;
+
+COMMENT ON COLUMN public.tours.tour_numeric_id IS '6-digit tour reference, shown as "Tour #123456" and tagged on the tour''s ShipHero orders and POs';
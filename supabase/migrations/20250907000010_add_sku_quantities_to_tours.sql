@@ -0,0 +1,9 @@
+-- The schedule form now picks the tour's swag kit from live ShipHero inventory.
+-- selected_skus holds the kit's SKUs; sku_quantities holds units of each SKU per recipient.
+
+ALTER TABLE public.tours
+ADD COLUMN IF NOT EXISTS sku_quantities JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.tours.selected_skus IS 'Swag kit SKUs each participant and the host receive; NULL on older tours, which use every swag item';
+COMMENT ON COLUMN public.tours.sku_quantities IS 'Units of each selected SKU per recipient: {"SKU": quantity}';
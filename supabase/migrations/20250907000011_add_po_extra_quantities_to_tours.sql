@@ -0,0 +1,11 @@
+-- The stock check can raise a tour's purchase order to cover SKUs the warehouse is short of.
+-- These units are added on top of one kit per participant and host when the PO is created.
+
+ALTER TABLE public.tours
+ADD COLUMN IF NOT EXISTS po_extra_quantities JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Upcoming tours at a warehouse are summed by the stock check
+CREATE INDEX IF NOT EXISTS idx_tours_warehouse_date ON public.tours(warehouse_id, date);
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.tours.po_extra_quantities IS 'Units added to the tour''s purchase order to cover stock shortfalls: {"SKU": quantity}';
@@ -0,0 +1,35 @@
+-- Consolidated replenishment POs created from the planning view. Each row is created
+-- before the ShipHero PO so its number can go into the PO name as {seq}.
+
+CREATE TABLE IF NOT EXISTS public.replenishment_purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  number SERIAL UNIQUE,
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id) ON DELETE CASCADE,
+  -- Forecast horizon the quantities were suggested for
+  weeks INTEGER NOT NULL,
+  line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'created', 'failed')),
+  shiphero_purchase_order_id TEXT,
+  shiphero_legacy_id BIGINT,
+  po_number TEXT,
+  po_url TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_replenishment_purchase_orders_warehouse_id ON public.replenishment_purchase_orders(warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_replenishment_purchase_orders_created_at ON public.replenishment_purchase_orders(created_at);
+
+DROP TRIGGER IF EXISTS update_replenishment_purchase_orders_updated_at ON public.replenishment_purchase_orders;
+CREATE TRIGGER update_replenishment_purchase_orders_updated_at
+  BEFORE UPDATE ON public.replenishment_purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Disable RLS for development (matches the other tables)
+ALTER TABLE public.replenishment_purchase_orders DISABLE ROW LEVEL SECURITY;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.replenishment_purchase_orders IS 'ShipHero purchase orders created from the swag demand forecast (planning view)';
+COMMENT ON COLUMN public.replenishment_purchase_orders.number IS 'Used as {seq} in the PO name, with REPL as {tourRef}';
+COMMENT ON COLUMN public.replenishment_purchase_orders.line_items IS 'Ordered SKUs: [{"sku", "name", "quantity"}]';
@@ -0,0 +1,15 @@
+-- Warehouses imported or linked from ShipHero keep the ShipHero address they were last
+-- synced with, so a later change on the ShipHero side shows up as drift.
+
+ALTER TABLE public.warehouses
+ADD COLUMN IF NOT EXISTS shiphero_address JSONB,
+ADD COLUMN IF NOT EXISTS shiphero_address_synced_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_warehouses_shiphero_warehouse_id ON public.warehouses(shiphero_warehouse_id);
+
+-- warehouse_codes predates the RLS convention of the newer tables
+ALTER TABLE public.warehouse_codes DISABLE ROW LEVEL SECURITY;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.warehouses.shiphero_address IS 'Normalized ShipHero address at the last import, link or sync: {"address", "address2", "city", "state", "zip", "country"}';
+COMMENT ON COLUMN public.warehouses.shiphero_address_synced_at IS 'When shiphero_address was last taken from ShipHero';
@@ -0,0 +1,61 @@
+-- ShipHero vendors linked into the app (Settings > Vendors). Swag items pick their vendor
+-- from these, and a tour's purchase order is split into one PO per vendor.
+-- Vendors are referenced by their ShipHero legacy ID, the same form as tenant_config.shiphero_vendor_id.
+
+CREATE TABLE IF NOT EXISTS public.vendors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shiphero_vendor_id TEXT NOT NULL UNIQUE,
+  legacy_id BIGINT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  email TEXT,
+  account_number TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_vendors_updated_at ON public.vendors;
+CREATE TRIGGER update_vendors_updated_at
+  BEFORE UPDATE ON public.vendors
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Purchase orders for a tour's other vendors. The PO for the first vendor (the organization
+-- default when the kit uses it) stays in tours.shiphero_purchase_order_*.
+CREATE TABLE IF NOT EXISTS public.tour_vendor_purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tour_id UUID NOT NULL REFERENCES public.tours(id) ON DELETE CASCADE,
+  vendor_id TEXT NOT NULL,
+  vendor_name TEXT,
+  shiphero_order_id TEXT NOT NULL,
+  shiphero_legacy_id BIGINT,
+  order_number TEXT NOT NULL,
+  order_url TEXT,
+  line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  fulfillment_status TEXT,
+  canceled_at TIMESTAMP WITH TIME ZONE,
+  status_updated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (tour_id, vendor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tour_vendor_purchase_orders_tour_id ON public.tour_vendor_purchase_orders(tour_id);
+CREATE INDEX IF NOT EXISTS idx_tour_vendor_purchase_orders_shiphero_order_id ON public.tour_vendor_purchase_orders(shiphero_order_id);
+CREATE INDEX IF NOT EXISTS idx_tour_vendor_purchase_orders_order_number ON public.tour_vendor_purchase_orders(order_number);
+
+DROP TRIGGER IF EXISTS update_tour_vendor_purchase_orders_updated_at ON public.tour_vendor_purchase_orders;
+CREATE TRIGGER update_tour_vendor_purchase_orders_updated_at
+  BEFORE UPDATE ON public.tour_vendor_purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Disable RLS for development (matches the other tables)
+ALTER TABLE public.vendors DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tour_vendor_purchase_orders DISABLE ROW LEVEL SECURITY;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.vendors IS 'ShipHero vendors linked into the app, selectable on swag items';
+COMMENT ON COLUMN public.vendors.shiphero_vendor_id IS 'ShipHero vendor ID (GraphQL id)';
+COMMENT ON COLUMN public.vendors.legacy_id IS 'ShipHero legacy vendor ID, stored in swag_items.vendor_id and sent on purchase orders';
+COMMENT ON COLUMN public.swag_items.vendor_id IS 'ShipHero legacy vendor ID (vendors.legacy_id); null uses the organization default vendor';
+COMMENT ON TABLE public.tour_vendor_purchase_orders IS 'Additional purchase orders when a tour''s SKUs come from more than one vendor';
+COMMENT ON COLUMN public.tour_vendor_purchase_orders.vendor_id IS 'ShipHero legacy vendor ID the PO was sent to';
+COMMENT ON COLUMN public.tour_vendor_purchase_orders.line_items IS 'Line items sent to ShipHero: [{sku, name, quantity}]';
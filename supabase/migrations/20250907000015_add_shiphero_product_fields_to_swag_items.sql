@@ -0,0 +1,24 @@
+-- Product details for creating a swag item's SKU in ShipHero, and the result of the last
+-- check of that SKU against ShipHero (Settings > Swag Items).
+
+ALTER TABLE public.swag_items
+ADD COLUMN IF NOT EXISTS price NUMERIC(10, 2),
+ADD COLUMN IF NOT EXISTS weight NUMERIC(10, 2),
+ADD COLUMN IF NOT EXISTS length NUMERIC(10, 2),
+ADD COLUMN IF NOT EXISTS width NUMERIC(10, 2),
+ADD COLUMN IF NOT EXISTS height NUMERIC(10, 2),
+ADD COLUMN IF NOT EXISTS barcode TEXT,
+ADD COLUMN IF NOT EXISTS shiphero_product_id TEXT,
+ADD COLUMN IF NOT EXISTS shiphero_sync_status TEXT CHECK (shiphero_sync_status IN ('synced', 'missing', 'error')),
+ADD COLUMN IF NOT EXISTS shiphero_sync_error TEXT,
+ADD COLUMN IF NOT EXISTS shiphero_synced_at TIMESTAMP WITH TIME ZONE;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.swag_items.price IS 'Unit price sent when the product is created in ShipHero';
+COMMENT ON COLUMN public.swag_items.weight IS 'Weight in pounds';
+COMMENT ON COLUMN public.swag_items.length IS 'Length in inches';
+COMMENT ON COLUMN public.swag_items.width IS 'Width in inches';
+COMMENT ON COLUMN public.swag_items.height IS 'Height in inches';
+COMMENT ON COLUMN public.swag_items.shiphero_product_id IS 'ShipHero product ID, set once the SKU is found in or created in ShipHero';
+COMMENT ON COLUMN public.swag_items.shiphero_sync_status IS 'Last ShipHero check: synced, missing (SKU not in ShipHero), error (check failed); null = never checked';
+COMMENT ON COLUMN public.swag_items.shiphero_synced_at IS 'When the SKU was last checked against ShipHero';
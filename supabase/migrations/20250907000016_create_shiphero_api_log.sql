@@ -0,0 +1,37 @@
+-- Audit log of every outbound ShipHero call (GraphQL requests and token refreshes), written by
+-- lib/shiphero/request-pipeline.ts and token-store.ts and shown in Settings > API Log.
+-- Request and response bodies are stored with tokens and other secrets redacted.
+
+CREATE TABLE IF NOT EXISTS public.shiphero_api_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id TEXT,
+  operation TEXT NOT NULL,
+  tour_id UUID REFERENCES public.tours(id) ON DELETE SET NULL,
+  status TEXT NOT NULL CHECK (status IN ('success', 'error')),
+  http_status INTEGER,
+  duration_ms INTEGER NOT NULL,
+  complexity INTEGER,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  error TEXT,
+  request JSONB,
+  response JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shiphero_api_log_created_at ON public.shiphero_api_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_shiphero_api_log_tour_id ON public.shiphero_api_log(tour_id);
+CREATE INDEX IF NOT EXISTS idx_shiphero_api_log_request_id ON public.shiphero_api_log(request_id);
+
+-- Disable RLS for development (matches the other tables)
+ALTER TABLE public.shiphero_api_log DISABLE ROW LEVEL SECURITY;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.shiphero_api_log IS 'One row per outbound ShipHero call, with redacted request and response';
+COMMENT ON COLUMN public.shiphero_api_log.request_id IS 'ShipHero request_id from the response, when it returned one';
+COMMENT ON COLUMN public.shiphero_api_log.operation IS 'GraphQL root field (e.g. order_create) or token_refresh';
+COMMENT ON COLUMN public.shiphero_api_log.tour_id IS 'Tour the call was made for, when made on behalf of one';
+COMMENT ON COLUMN public.shiphero_api_log.duration_ms IS 'Wall time including pacing waits and retries';
+COMMENT ON COLUMN public.shiphero_api_log.complexity IS 'Credits ShipHero charged for the call';
+COMMENT ON COLUMN public.shiphero_api_log.attempts IS 'Attempts made, counting retries and the retry after a token refresh';
+COMMENT ON COLUMN public.shiphero_api_log.request IS 'Redacted request: {endpoint, query, variables} or the refresh body';
+COMMENT ON COLUMN public.shiphero_api_log.response IS 'Redacted response body (raw text when it was not JSON)';
@@ -0,0 +1,10 @@
+-- ShipHero credentials are read and written only by the server (lib/shiphero/token-store.ts)
+-- through the service-role key. Close the table to the public anon key and signed-in users.
+
+ALTER TABLE public.shiphero_tokens ENABLE ROW LEVEL SECURITY;
+
+-- No policies: with RLS on, anon and authenticated roles see no rows; the service role bypasses RLS
+REVOKE ALL ON TABLE public.shiphero_tokens FROM anon, authenticated;
+REVOKE ALL ON SEQUENCE public.shiphero_tokens_id_seq FROM anon, authenticated;
+
+COMMENT ON TABLE public.shiphero_tokens IS 'Stores ShipHero API access tokens with expiration tracking; service role only';
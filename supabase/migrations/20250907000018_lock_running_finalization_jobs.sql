@@ -0,0 +1,25 @@
+-- At most one running finalization job per tour, enforced by the database.
+-- A run claims its job by setting status = 'running' (see lib/shiphero/finalization-job.ts);
+-- a second request for the same tour fails the claim instead of creating orders twice.
+-- A running job refreshes heartbeat_at while it works, so an abandoned run is recognised
+-- by a stale heartbeat rather than by how long ago it started.
+
+ALTER TABLE public.tour_finalization_jobs
+ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP WITH TIME ZONE;
+
+-- Older runs left marked running would block the index; keep only the newest per tour
+UPDATE public.tour_finalization_jobs AS job
+SET status = 'failed', error = 'Interrupted: superseded by a newer run'
+WHERE job.status = 'running'
+  AND EXISTS (
+    SELECT 1 FROM public.tour_finalization_jobs AS newer
+    WHERE newer.tour_id = job.tour_id
+      AND newer.status = 'running'
+      AND newer.created_at > job.created_at
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tour_finalization_jobs_one_running
+  ON public.tour_finalization_jobs(tour_id)
+  WHERE status = 'running';
+
+COMMENT ON COLUMN public.tour_finalization_jobs.heartbeat_at IS 'Last sign of life from the run holding the job; a running job with a stale heartbeat may be taken over';
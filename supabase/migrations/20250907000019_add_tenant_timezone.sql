@@ -0,0 +1,7 @@
+-- The organization's time zone, edited in Settings > Organization. Stock checks and the
+-- planning forecast decide which tours are still upcoming by "today" in this zone.
+
+ALTER TABLE public.tenant_config
+ADD COLUMN IF NOT EXISTS timezone TEXT DEFAULT 'UTC';
+
+COMMENT ON COLUMN public.tenant_config.timezone IS 'IANA time zone (e.g. America/New_York) used for the current date in stock checks and planning';
@@ -0,0 +1,11 @@
+-- The API log holds recipients' names, addresses, emails and phone numbers from order payloads.
+-- Only the server reads and writes it (lib/shiphero/api-log.ts, through the service-role key);
+-- Settings > API Log reads it through /api/shiphero/api-log. Old rows are pruned daily by
+-- /api/shiphero/api-log/prune (scheduled in vercel.json).
+
+ALTER TABLE public.shiphero_api_log ENABLE ROW LEVEL SECURITY;
+
+-- No policies: with RLS on, anon and authenticated roles see no rows; the service role bypasses RLS
+REVOKE ALL ON TABLE public.shiphero_api_log FROM anon, authenticated;
+
+COMMENT ON TABLE public.shiphero_api_log IS 'One row per outbound ShipHero call, with redacted request and response; service role only, pruned after 30 days';
@@ -0,0 +1,10 @@
+-- ShipHero status of replenishment POs, kept current by the PO Update webhook. The planning
+-- forecast counts created POs that are not yet closed as stock already on order.
+
+ALTER TABLE public.replenishment_purchase_orders
+ADD COLUMN IF NOT EXISTS fulfillment_status TEXT,
+ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_replenishment_purchase_orders_shiphero_id ON public.replenishment_purchase_orders(shiphero_purchase_order_id);
+
+COMMENT ON COLUMN public.replenishment_purchase_orders.fulfillment_status IS 'ShipHero PO fulfillment status from webhooks; NULL until the first update';
@@ -0,0 +1,366 @@
+import { randomUUID } from 'node:crypto'
+
+/**
+ * In-memory stand-in for the Supabase client, covering the query builder calls the ShipHero
+ * modules make: filters, ordering, embedded relations, insert/update/upsert/delete with
+ * `.select()`, unique indexes and the allocate_tour_order_sequence RPC. Tests point
+ * '@/lib/supabase/client' and '@/lib/supabase/admin' at `createClient` with vi.mock.
+ */
+
+type Row = Record<string, any>
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete'
+
+interface QueryError {
+  message: string
+  code?: string
+}
+
+// one: the parent row holds the child's id in `column`; many: child rows hold the parent's id in `column`
+const RELATIONS: Record<string, { type: 'one' | 'many'; column: string }> = {
+  'tours.warehouses': { type: 'one', column: 'warehouse_id' },
+  'tours.team_members': { type: 'one', column: 'host_id' },
+  'tours.tour_participants': { type: 'many', column: 'tour_id' },
+  'tour_finalization_jobs.tour_finalization_steps': { type: 'many', column: 'job_id' },
+}
+
+// Mirrors the unique indexes the code relies on
+const UNIQUE_INDEXES: Array<{ table: string; columns: string[]; where?: (row: Row) => boolean }> = [
+  { table: 'tour_finalization_jobs', columns: ['tour_id'], where: row => row.status === 'running' },
+  { table: 'tour_vendor_purchase_orders', columns: ['tour_id', 'vendor_id'] },
+  { table: 'tour_workflow_orders', columns: ['tour_id', 'workflow', 'order_type', 'sequence'] },
+]
+
+// Column defaults the migrations would fill in
+const DEFAULTS: Record<string, () => Row> = {
+  tour_finalization_jobs: () => ({
+    status: 'pending', error: null, started_at: null, completed_at: null, heartbeat_at: null,
+    rollback_on_failure: false, rollback_report: null
+  }),
+  tour_finalization_steps: () => ({
+    status: 'pending', attempts: 0, result: null, error: null, started_at: null, completed_at: null
+  }),
+}
+
+export class FakeDatabase {
+  tables: Record<string, Row[]> = {}
+  private failures: Array<{ table: string; operation: Operation; message: string }> = []
+  private clock = Date.parse('2026-01-01T00:00:00Z')
+
+  constructor(seed: Record<string, Row[]> = {}) {
+    for (const [table, rows] of Object.entries(seed)) {
+      for (const row of rows) this.insertRow(table, row)
+    }
+  }
+
+  rows(table: string): Row[] {
+    return (this.tables[table] ||= [])
+  }
+
+  find(table: string, id: string): Row | undefined {
+    return this.rows(table).find(row => row.id === id)
+  }
+
+  // The next `operation` on `table` fails with `message`
+  failNext(table: string, operation: Operation, message: string) {
+    this.failures.push({ table, operation, message })
+  }
+
+  takeFailure(table: string, operation: Operation): QueryError | null {
+    const index = this.failures.findIndex(failure => failure.table === table && failure.operation === operation)
+    if (index === -1) return null
+    const [failure] = this.failures.splice(index, 1)
+    return { message: failure.message }
+  }
+
+  // Strictly increasing timestamps, so ordering by created_at is stable
+  now(): string {
+    this.clock += 1000
+    return new Date(this.clock).toISOString()
+  }
+
+  insertRow(table: string, values: Row): Row {
+    const row = { id: randomUUID(), created_at: this.now(), ...DEFAULTS[table]?.(), ...values }
+    this.rows(table).push(row)
+    return row
+  }
+
+  uniqueViolation(table: string, candidate: Row, ignore?: Row): QueryError | null {
+    for (const index of UNIQUE_INDEXES.filter(index => index.table === table)) {
+      if (index.where && !index.where(candidate)) continue
+      const clash = this.rows(table).find(row =>
+        row !== ignore &&
+        (!index.where || index.where(row)) &&
+        index.columns.every(column => row[column] === candidate[column])
+      )
+      if (clash) {
+        return { code: '23505', message: `duplicate key value violates unique constraint on ${table}(${index.columns.join(', ')})` }
+      }
+    }
+    return null
+  }
+
+  client() {
+    return {
+      from: (table: string) => new FakeQuery(this, table),
+      rpc: async (name: string, params: Row) => this.rpc(name, params),
+    }
+  }
+
+  private async rpc(name: string, params: Row): Promise<{ data: any; error: QueryError | null }> {
+    if (name !== 'allocate_tour_order_sequence') {
+      return { data: null, error: { message: `Unknown function ${name}` } }
+    }
+    const sequences = this.rows('tour_order_sequences').filter(row => row.tour_id === params.p_tour_id)
+    const existing = sequences.find(row => row.order_key === params.p_order_key)
+    if (existing) return { data: existing.sequence, error: null }
+
+    const sequence = sequences.reduce((max, row) => Math.max(max, row.sequence), 0) + 1
+    this.insertRow('tour_order_sequences', { tour_id: params.p_tour_id, order_key: params.p_order_key, sequence })
+    return { data: sequence, error: null }
+  }
+}
+
+type Filter = (row: Row) => boolean
+
+class FakeQuery implements PromiseLike<{ data: any; error: QueryError | null; count?: number | null }> {
+  private operation: Operation = 'select'
+  private columns = '*'
+  private returning = false
+  private values: Row | Row[] | null = null
+  private onConflict: string[] = []
+  private countRows = false
+  private filters: Filter[] = []
+  private ordering: Array<{ column: string; ascending: boolean }> = []
+  private maxRows: number | null = null
+  private offset = 0
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many'
+
+  constructor(private db: FakeDatabase, private table: string) {}
+
+  select(columns = '*') {
+    if (this.operation === 'select') {
+      this.columns = columns
+    } else {
+      this.returning = true
+      this.columns = columns
+    }
+    return this
+  }
+
+  insert(values: Row | Row[]) {
+    this.operation = 'insert'
+    this.values = values
+    return this
+  }
+
+  update(values: Row) {
+    this.operation = 'update'
+    this.values = values
+    return this
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}) {
+    this.operation = 'upsert'
+    this.values = values
+    this.onConflict = (options.onConflict || 'id').split(',').map(column => column.trim())
+    return this
+  }
+
+  delete(options: { count?: string } = {}) {
+    this.operation = 'delete'
+    this.countRows = !!options.count
+    return this
+  }
+
+  eq(column: string, value: any) {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  neq(column: string, value: any) {
+    this.filters.push(row => row[column] !== value)
+    return this
+  }
+
+  in(column: string, values: any[]) {
+    this.filters.push(row => values.includes(row[column]))
+    return this
+  }
+
+  is(column: string, value: null) {
+    this.filters.push(row => (row[column] ?? null) === value)
+    return this
+  }
+
+  gt(column: string, value: any) {
+    this.filters.push(row => row[column] > value)
+    return this
+  }
+
+  gte(column: string, value: any) {
+    this.filters.push(row => row[column] >= value)
+    return this
+  }
+
+  lt(column: string, value: any) {
+    this.filters.push(row => row[column] < value)
+    return this
+  }
+
+  lte(column: string, value: any) {
+    this.filters.push(row => row[column] <= value)
+    return this
+  }
+
+  // PostgREST's `col.op.value,col.op.value` with eq, neq, is, lt, lte, gt and gte
+  or(expression: string) {
+    const conditions = splitOutsideQuotes(expression).map(parseCondition)
+    this.filters.push(row => conditions.some(condition => condition(row)))
+    return this
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.ordering.push({ column, ascending: options.ascending !== false })
+    return this
+  }
+
+  limit(count: number) {
+    this.maxRows = count
+    return this
+  }
+
+  range(from: number, to: number) {
+    this.offset = from
+    this.maxRows = to - from + 1
+    return this
+  }
+
+  single() {
+    this.cardinality = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.cardinality = 'maybeSingle'
+    return this
+  }
+
+  then<TResult1 = any, TResult2 = never>(
+    onFulfilled?: ((value: { data: any; error: QueryError | null; count?: number | null }) => TResult1 | PromiseLike<TResult1>) | null,
+    onRejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onFulfilled, onRejected)
+  }
+
+  private execute(): { data: any; error: QueryError | null; count?: number | null } {
+    const failure = this.db.takeFailure(this.table, this.operation)
+    if (failure) return { data: null, error: failure }
+
+    let rows: Row[]
+    switch (this.operation) {
+      case 'select':
+        rows = this.matching()
+        break
+      case 'insert': {
+        const values = Array.isArray(this.values) ? this.values : [this.values!]
+        rows = []
+        for (const value of values) {
+          const violation = this.db.uniqueViolation(this.table, value)
+          if (violation) return { data: null, error: violation }
+          rows.push(this.db.insertRow(this.table, value))
+        }
+        break
+      }
+      case 'upsert': {
+        const values = Array.isArray(this.values) ? this.values : [this.values!]
+        rows = values.map(value => {
+          const existing = this.db.rows(this.table).find(row => this.onConflict.every(column => row[column] === value[column]))
+          return existing ? Object.assign(existing, value) : this.db.insertRow(this.table, value)
+        })
+        break
+      }
+      case 'update': {
+        rows = this.matching()
+        for (const row of rows) {
+          const violation = this.db.uniqueViolation(this.table, { ...row, ...this.values }, row)
+          if (violation) return { data: null, error: violation }
+        }
+        rows.forEach(row => Object.assign(row, this.values))
+        break
+      }
+      case 'delete': {
+        rows = this.matching()
+        this.db.tables[this.table] = this.db.rows(this.table).filter(row => !rows.includes(row))
+        break
+      }
+    }
+
+    const count = this.countRows ? rows.length : null
+    if (this.operation !== 'select' && !this.returning) {
+      return { data: null, error: null, count }
+    }
+
+    const data = rows.map(row => this.withRelations(row))
+    if (this.cardinality === 'many') return { data, error: null, count }
+    if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+      return { data: null, error: { code: 'PGRST116', message: `JSON object requested, ${data.length} rows returned` } }
+    }
+    return { data: data[0] ?? null, error: null }
+  }
+
+  private matching(): Row[] {
+    let rows = this.db.rows(this.table).filter(row => this.filters.every(filter => filter(row)))
+    for (const { column, ascending } of [...this.ordering].reverse()) {
+      rows = [...rows].sort((a, b) => (a[column] > b[column] ? 1 : a[column] < b[column] ? -1 : 0) * (ascending ? 1 : -1))
+    }
+    rows = rows.slice(this.offset)
+    return this.maxRows === null ? rows : rows.slice(0, this.maxRows)
+  }
+
+  // Copies the row and adds `alias:table(...)` embeds; plain columns are not narrowed
+  private withRelations(row: Row): Row {
+    const result: Row = { ...row }
+    for (const match of this.columns.matchAll(/(?:(\w+)\s*:\s*)?(\w+)\s*\(/g)) {
+      const [, alias, table] = match
+      const relation = RELATIONS[`${this.table}.${table}`]
+      if (!relation) throw new Error(`FakeDatabase: no relation from ${this.table} to ${table}`)
+      result[alias || table] = relation.type === 'one'
+        ? { ...this.db.rows(table).find(child => child.id === row[relation.column]) }
+        : this.db.rows(table).filter(child => child[relation.column] === row.id).map(child => ({ ...child }))
+    }
+    return result
+  }
+}
+
+function splitOutsideQuotes(expression: string): string[] {
+  const parts: string[] = []
+  let current = ''
+  let quoted = false
+  for (const char of expression) {
+    if (char === '"') quoted = !quoted
+    if (char === ',' && !quoted) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  return [...parts, current]
+}
+
+function parseCondition(condition: string): Filter {
+  const [column, operator, ...rest] = condition.split('.')
+  const raw = rest.join('.').replace(/^"|"$/g, '')
+  const value = raw === 'null' ? null : raw
+  switch (operator) {
+    case 'eq': return row => String(row[column]) === value
+    case 'neq': return row => String(row[column]) !== value
+    case 'is': return row => (row[column] ?? null) === value
+    case 'lt': return row => row[column] !== null && row[column] < value!
+    case 'lte': return row => row[column] !== null && row[column] <= value!
+    case 'gt': return row => row[column] !== null && row[column] > value!
+    case 'gte': return row => row[column] !== null && row[column] >= value!
+    default:
+      throw new Error(`FakeDatabase: unsupported filter ${condition}`)
+  }
+}
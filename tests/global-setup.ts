@@ -0,0 +1,35 @@
+import { spawn, type ChildProcess } from 'node:child_process'
+import { join } from 'node:path'
+
+/**
+ * Start the mock ShipHero server once for the whole run and stop it afterwards
+ */
+
+const PORT = 4011
+const STARTUP_TIMEOUT_MS = 10_000
+
+export default async function setup() {
+  const server: ChildProcess = spawn(process.execPath, [join(process.cwd(), 'scripts', 'mock-shiphero', 'server.mjs')], {
+    env: { ...process.env, MOCK_SHIPHERO_PORT: String(PORT) },
+    stdio: 'ignore'
+  })
+
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS
+  for (;;) {
+    try {
+      const response = await fetch(`http://localhost:${PORT}/__mock/state`)
+      if (response.ok) break
+    } catch {
+      // Not listening yet
+    }
+    if (server.exitCode !== null || Date.now() > deadline) {
+      server.kill()
+      throw new Error('Mock ShipHero server did not start')
+    }
+    await new Promise(resolve => setTimeout(resolve, 100))
+  }
+
+  return () => {
+    server.kill()
+  }
+}
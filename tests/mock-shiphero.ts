@@ -0,0 +1,37 @@
+/**
+ * Helpers for driving the mock ShipHero server (scripts/mock-shiphero) that
+ * tests/global-setup.ts starts for the test run
+ */
+
+export const MOCK_SHIPHERO_URL = process.env.SHIPHERO_API_URL || 'http://localhost:4011'
+
+export type MockFault = {
+  type: 'unauthorized' | 'complexity' | 'validation' | 'rate_limit' | 'server_error'
+  operation?: string
+  times?: number
+  message?: string
+}
+
+async function admin(path: string, init: { method?: string; body?: unknown } = {}): Promise<any> {
+  const response = await fetch(`${MOCK_SHIPHERO_URL}${path}`, {
+    method: init.method || (init.body === undefined ? 'GET' : 'POST'),
+    headers: { 'Content-Type': 'application/json' },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body)
+  })
+  if (!response.ok) {
+    throw new Error(`Mock ShipHero ${path} failed: ${response.status} ${await response.text()}`)
+  }
+  return response.json()
+}
+
+export function resetMockShipHero(): Promise<void> {
+  return admin('/__mock/reset', { body: {} })
+}
+
+export function injectFault(fault: MockFault): Promise<void> {
+  return admin('/__mock/faults', { body: fault })
+}
+
+export function mockShipHeroState(): Promise<{ orders: any[]; purchase_orders: any[]; faults: any[] }> {
+  return admin('/__mock/state')
+}
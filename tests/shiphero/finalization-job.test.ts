@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { runFinalizationJob, type FinalizationEvent } from '@/lib/shiphero/finalization-job'
+import { FakeDatabase } from '../fake-supabase'
+import { mockShipHeroState, resetMockShipHero } from '../mock-shiphero'
+
+const db = vi.hoisted(() => ({ current: null as any }))
+
+vi.mock('@/lib/supabase/client', () => ({ createClient: () => db.current.client() }))
+vi.mock('@/lib/supabase/admin', () => ({ createAdminClient: () => db.current.client() }))
+vi.mock('@/lib/shiphero/api-log', () => ({ recordShipHeroApiCall: vi.fn() }))
+vi.mock('@/lib/shiphero/token-store', () => ({
+  getShipHeroAccessToken: vi.fn(async () => 'test-token'),
+  refreshShipHeroAccessToken: vi.fn(async () => 'refreshed-token')
+}))
+
+const TOUR_ID = 'tour-1'
+// Legacy ids from scripts/mock-shiphero/fixtures.json
+const MOCK_WAREHOUSE_ID = '1001'
+const MOCK_VENDOR_ID = '1076735'
+
+// A scheduled tour at the mock's Atlanta warehouse: two participants and a host, one T-shirt each
+function seedTour(swagItems: Array<{ sku: string; name: string; vendor_id: string | null }> = [
+  { sku: 'TSH-001', name: 'Company T-Shirt', vendor_id: null }
+]): FakeDatabase {
+  return new FakeDatabase({
+    warehouses: [{
+      id: 'warehouse-1', name: 'Atlanta', code: 'ATL', shiphero_warehouse_id: MOCK_WAREHOUSE_ID,
+      address: '100 Peachtree St NW', address2: '', city: 'Atlanta', state: 'GA', zip: '30303', country: 'US'
+    }],
+    team_members: [{ id: 'host-1', first_name: 'Hana', last_name: 'Host', email: 'hana@example.com' }],
+    tours: [{
+      id: TOUR_ID, tour_numeric_id: 1042, date: '2026-03-05', time: '10:00', status: 'scheduled',
+      warehouse_id: 'warehouse-1', host_id: 'host-1',
+      selected_skus: swagItems.map(item => item.sku),
+      sku_quantities: Object.fromEntries(swagItems.map(item => [item.sku, 1])),
+      selected_workflows: [], workflow_configs: {}, po_extra_quantities: {}, order_summary: null,
+      shiphero_purchase_order_id: null, shiphero_purchase_order_number: null, shiphero_purchase_order_url: null,
+      host_shiphero_sales_order_id: null, host_shiphero_sales_order_number: null, host_shiphero_sales_order_url: null
+    }],
+    tour_participants: ['Ada Lovelace', 'Grace Hopper'].map((name, index) => ({
+      id: `participant-${index + 1}`, tour_id: TOUR_ID,
+      first_name: name.split(' ')[0], last_name: name.split(' ')[1],
+      email: `${name.split(' ')[0].toLowerCase()}@example.com`, company: 'Example Co', title: null,
+      shiphero_sales_order_id: null, shiphero_sales_order_number: null, shiphero_sales_order_url: null
+    })),
+    swag_items: swagItems.map((item, index) => ({ id: `swag-${index + 1}`, ...item })),
+    vendors: [
+      { legacy_id: Number(MOCK_VENDOR_ID), name: 'Default Swag Vendor' },
+      // Linked here but unknown to ShipHero, so its PO is rejected
+      { legacy_id: 1099999, name: 'Unknown Vendor' }
+    ],
+    tenant_config: [{
+      shiphero_vendor_id: MOCK_VENDOR_ID, shop_name: 'Tour Orders', company_name: 'Tour Company',
+      default_fulfillment_status: 'pending', timezone: 'UTC'
+    }],
+    extras: []
+  })
+}
+
+function run(options = {}) {
+  const events: FinalizationEvent[] = []
+  return { events, job: runFinalizationJob(TOUR_ID, event => events.push(event), options) }
+}
+
+describe('runFinalizationJob', () => {
+  beforeEach(async () => {
+    await resetMockShipHero()
+  })
+
+  it('creates every order once and does nothing more on a second run', async () => {
+    db.current = seedTour()
+
+    const first = await run().job
+    expect(first.status).toBe('completed')
+    expect(db.current.find('tours', TOUR_ID).status).toBe('finalized')
+
+    const second = run()
+    const again = await second.job
+    expect(again.id).toBe(first.id)
+    expect(second.events.map(event => event.type)).toEqual(['done'])
+
+    const state = await mockShipHeroState()
+    expect(state.orders).toHaveLength(3)
+    expect(state.purchase_orders).toHaveLength(1)
+  })
+
+  it('reuses an order ShipHero created when its tracking info was not saved', async () => {
+    db.current = seedTour()
+    db.current.failNext('tour_participants', 'update', 'connection reset')
+
+    const failed = await run().job
+    expect(failed.status).toBe('failed')
+    const [orphan] = (await mockShipHeroState()).orders
+    expect(db.current.find('tour_participants', 'participant-1').shiphero_sales_order_id).toBeNull()
+
+    const resumed = await run().job
+    expect(resumed.id).toBe(failed.id)
+    expect(resumed.status).toBe('completed')
+
+    const state = await mockShipHeroState()
+    expect(state.orders).toHaveLength(3)
+    expect(db.current.find('tour_participants', 'participant-1').shiphero_sales_order_id).toBe(orphan.id)
+  })
+
+  it('turns away a second run while the first holds the job', async () => {
+    db.current = seedTour()
+
+    const results = await Promise.allSettled([run().job, run().job])
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected'])
+    const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult
+    expect(rejected.reason.message).toMatch(/already running/)
+    expect((await mockShipHeroState()).orders).toHaveLength(3)
+  })
+
+  it('refuses to finalize a cancelled tour', async () => {
+    db.current = seedTour()
+    db.current.find('tours', TOUR_ID).status = 'cancelled'
+
+    await expect(run().job).rejects.toThrow(/cancelled/)
+    expect(db.current.rows('tour_finalization_jobs')).toHaveLength(0)
+    expect((await mockShipHeroState()).orders).toHaveLength(0)
+  })
+
+  it('rolls back every order of a failed run, including those of the failing step', async () => {
+    // The mug's vendor PO fails after the step has already created the tour's main PO
+    db.current = seedTour([
+      { sku: 'TSH-001', name: 'Company T-Shirt', vendor_id: MOCK_VENDOR_ID },
+      { sku: 'MUG-001', name: 'Coffee Mug', vendor_id: '1099999' }
+    ])
+
+    const { events, job } = run({ rollbackOnFailure: true })
+    const result = await job
+
+    expect(result.status).toBe('rolled_back')
+    expect(result.error).toMatch(/Vendor 1099999 not found/)
+
+    const state = await mockShipHeroState()
+    expect(state.orders).toHaveLength(3)
+    expect(state.orders.every(order => order.fulfillment_status === 'canceled')).toBe(true)
+    expect(state.purchase_orders).toHaveLength(1)
+    expect(state.purchase_orders[0].status).toBe('canceled')
+
+    const rollback = events.find(event => event.type === 'rollback')
+    expect(rollback && rollback.type === 'rollback' && rollback.report.map(entry => entry.status))
+      .toEqual(['cancelled', 'cancelled', 'cancelled', 'cancelled'])
+
+    const tour = db.current.find('tours', TOUR_ID)
+    expect(tour.status).toBe('scheduled')
+    expect(tour.shiphero_purchase_order_id).toBeNull()
+    expect(tour.host_shiphero_sales_order_id).toBeNull()
+    expect(db.current.rows('tour_participants').map((p: any) => p.shiphero_sales_order_id)).toEqual([null, null])
+  })
+})
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ACCOUNT_WAREHOUSES_QUERY, FIND_ORDER_BY_NUMBER_QUERY, ORDER_CANCEL_MUTATION } from '@/lib/shiphero/operations'
+import { injectFault, mockShipHeroState, resetMockShipHero } from '../mock-shiphero'
+
+vi.mock('@/lib/shiphero/api-log', () => ({ recordShipHeroApiCall: vi.fn() }))
+vi.mock('@/lib/shiphero/token-store', () => ({
+  getShipHeroAccessToken: vi.fn(async () => 'test-token'),
+  refreshShipHeroAccessToken: vi.fn(async () => 'refreshed-token')
+}))
+
+// The pipeline keeps its credit balance and circuit breaker in module state; start each test fresh
+async function loadPipeline() {
+  vi.resetModules()
+  return {
+    ...await import('@/lib/shiphero/request-pipeline'),
+    apiLog: await import('@/lib/shiphero/api-log'),
+    tokenStore: await import('@/lib/shiphero/token-store')
+  }
+}
+
+const findOrder = [FIND_ORDER_BY_NUMBER_QUERY, { order_number: 'NONE-1' }] as const
+const cancelOrder = [ORDER_CANCEL_MUTATION, { data: { order_id: 'T3JkZXI6MQ==', reason: 'test' } }] as const
+
+describe('sendShipHeroRequest', () => {
+  beforeEach(async () => {
+    await resetMockShipHero()
+  })
+
+  it('retries a query after a server error', async () => {
+    const { sendShipHeroRequest, apiLog } = await loadPipeline()
+    await injectFault({ type: 'server_error', operation: 'orders' })
+
+    const response = await sendShipHeroRequest(...findOrder)
+
+    expect(response.ok).toBe(true)
+    expect(response.attempts).toBe(2)
+    expect(apiLog.recordShipHeroApiCall).toHaveBeenCalledTimes(1)
+    expect(apiLog.recordShipHeroApiCall).toHaveBeenCalledWith(expect.objectContaining({
+      operation: 'orders',
+      status: 'success',
+      attempts: 2
+    }))
+  })
+
+  it('retries a call ShipHero throttled for lack of credits', async () => {
+    const { sendShipHeroRequest } = await loadPipeline()
+    await injectFault({ type: 'complexity', operation: 'orders' })
+
+    const response = await sendShipHeroRequest(...findOrder)
+
+    expect(response.ok).toBe(true)
+    expect(response.body.errors).toBeUndefined()
+    expect(response.attempts).toBe(2)
+  })
+
+  it('refreshes the access token once after a 401', async () => {
+    const { sendShipHeroRequest, tokenStore } = await loadPipeline()
+    await injectFault({ type: 'unauthorized', operation: 'orders' })
+
+    const response = await sendShipHeroRequest(...findOrder)
+
+    expect(response.ok).toBe(true)
+    expect(tokenStore.refreshShipHeroAccessToken).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not resend a mutation that failed with a server error', async () => {
+    const { sendShipHeroRequest } = await loadPipeline()
+    await injectFault({ type: 'server_error', operation: 'order_cancel', times: 2 })
+
+    const response = await sendShipHeroRequest(...cancelOrder)
+
+    expect(response.status).toBe(500)
+    expect(response.attempts).toBe(1)
+    // The second injected failure was never used
+    expect((await mockShipHeroState()).faults).toEqual([expect.objectContaining({ times: 1 })])
+  })
+
+  it('opens the circuit after repeated failures and stops sending', async () => {
+    const { sendShipHeroRequest, isShipHeroCircuitOpen } = await loadPipeline()
+    await injectFault({ type: 'server_error', operation: 'order_cancel', times: 6 })
+
+    for (let call = 0; call < 5; call++) {
+      expect((await sendShipHeroRequest(...cancelOrder)).status).toBe(500)
+    }
+
+    expect(isShipHeroCircuitOpen()).toBe(true)
+    await expect(sendShipHeroRequest(...cancelOrder)).rejects.toThrow(/appears to be down/)
+    expect((await mockShipHeroState()).faults).toEqual([expect.objectContaining({ times: 1 })])
+  })
+
+  it('lets other calls through while one is backing off', async () => {
+    const { sendShipHeroRequest } = await loadPipeline()
+    await injectFault({ type: 'server_error', operation: 'orders' })
+
+    const finished: string[] = []
+    const retried = sendShipHeroRequest(...findOrder).then(() => finished.push('orders'))
+    const other = sendShipHeroRequest(ACCOUNT_WAREHOUSES_QUERY).then(() => finished.push('account'))
+    await Promise.all([retried, other])
+
+    expect(finished).toEqual(['account', 'orders'])
+  })
+})
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { handleShipHeroWebhook } from '@/lib/shiphero/webhooks'
+import { FakeDatabase } from '../fake-supabase'
+
+const db = vi.hoisted(() => ({ current: null as any }))
+
+vi.mock('@/lib/supabase/client', () => ({ createClient: () => db.current.client() }))
+vi.mock('@/lib/supabase/admin', () => ({ createAdminClient: () => db.current.client() }))
+
+// ShipHero GraphQL ids as the order service stores them; webhooks carry the legacy id
+const orderId = (legacyId: number) => Buffer.from(`Order:${legacyId}`).toString('base64')
+const purchaseOrderId = (legacyId: number) => Buffer.from(`PurchaseOrder:${legacyId}`).toString('base64')
+
+function participant(id: string, tourId: string, legacyId: number, orderNumber: string) {
+  return {
+    id, tour_id: tourId, first_name: 'Ada', last_name: 'Lovelace',
+    shiphero_sales_order_id: orderId(legacyId), shiphero_sales_order_number: orderNumber,
+    shiphero_fulfillment_status: 'pending', shiphero_tracking_number: null
+  }
+}
+
+function shipment(legacyId: number, orderNumber: string) {
+  return {
+    webhook_type: 'Shipment Update',
+    fulfillment: { order_id: legacyId, order_number: orderNumber, status: 'shipped', tracking_number: '1Z999' }
+  }
+}
+
+describe('handleShipHeroWebhook', () => {
+  beforeEach(() => {
+    // Two tours whose templates produced the same order number for different ShipHero orders
+    db.current = new FakeDatabase({
+      tours: [
+        { id: 'tour-a', order_summary: null, shiphero_purchase_order_id: purchaseOrderId(501), shiphero_purchase_order_number: 'ATL_PO-1' },
+        { id: 'tour-b', order_summary: null, shiphero_purchase_order_id: purchaseOrderId(502), shiphero_purchase_order_number: 'ATL_PO-1' }
+      ],
+      tour_participants: [
+        participant('participant-a', 'tour-a', 101, 'ALOV_ATL-1'),
+        participant('participant-b', 'tour-b', 102, 'ALOV_ATL-1'),
+        participant('participant-c', 'tour-b', 103, 'GHOP_ATL-2')
+      ],
+      tour_workflow_orders: [],
+      tour_vendor_purchase_orders: [],
+      replenishment_purchase_orders: [
+        { id: 'replenishment-1', status: 'created', shiphero_purchase_order_id: purchaseOrderId(601), po_number: 'ATL_PO-REPL-1' }
+      ]
+    })
+  })
+
+  it('matches a sales order by its ShipHero id before its number', async () => {
+    const result = await handleShipHeroWebhook(shipment(102, 'ALOV_ATL-1'))
+
+    expect(result.matches).toEqual([{ kind: 'participant_order', id: 'participant-b' }])
+    expect(db.current.find('tour_participants', 'participant-b')).toMatchObject({
+      shiphero_fulfillment_status: 'shipped',
+      shiphero_tracking_number: '1Z999'
+    })
+    expect(db.current.find('tour_participants', 'participant-a').shiphero_fulfillment_status).toBe('pending')
+  })
+
+  it('falls back to the order number when no id matches and one tour has it', async () => {
+    const result = await handleShipHeroWebhook(shipment(999, 'GHOP_ATL-2'))
+
+    expect(result.matches).toEqual([{ kind: 'participant_order', id: 'participant-c' }])
+  })
+
+  it('ignores an order number that several tours share', async () => {
+    const result = await handleShipHeroWebhook(shipment(999, 'ALOV_ATL-1'))
+
+    expect(result.matches).toEqual([])
+    expect(db.current.rows('tour_participants').map((row: any) => row.shiphero_fulfillment_status))
+      .toEqual(['pending', 'pending', 'pending'])
+  })
+
+  it('matches a purchase order by its ShipHero id', async () => {
+    const result = await handleShipHeroWebhook({
+      webhook_type: 'PO Update',
+      purchase_order: { po_id: 502, po_number: 'ATL_PO-1', fulfillment_status: 'received' }
+    })
+
+    expect(result.matches).toEqual([{ kind: 'purchase_order', id: 'tour-b' }])
+    expect(db.current.find('tours', 'tour-b').shiphero_purchase_order_status).toBe('received')
+    expect(db.current.find('tours', 'tour-a').shiphero_purchase_order_status).toBeUndefined()
+  })
+
+  it('records the status of a replenishment purchase order', async () => {
+    const result = await handleShipHeroWebhook({
+      webhook_type: 'PO Update',
+      purchase_order: { po_id: 601, po_number: 'ATL_PO-REPL-1', fulfillment_status: 'closed' }
+    })
+
+    expect(result.matches).toEqual([{ kind: 'replenishment_purchase_order', id: 'replenishment-1' }])
+    expect(db.current.find('replenishment_purchase_orders', 'replenishment-1').fulfillment_status).toBe('closed')
+  })
+})
@@ -0,0 +1,16 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) }
+  },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    globalSetup: ['tests/global-setup.ts'],
+    env: { SHIPHERO_API_URL: 'http://localhost:4011' },
+    // The test files share one mock ShipHero server, so they run one at a time
+    fileParallelism: false,
+    testTimeout: 30_000
+  }
+})